@@ -1,22 +1,29 @@
 #!/bin/bash
 
-# Load environment variables
+# Load environment variables; values already set (e.g. ANVIL_PORT=8546 npm run infra:anvil) win
 if [ -f .env ]; then
-    export $(cat .env | grep -v '^#' | xargs)
+    while IFS='=' read -r key value; do
+        if [ -n "$key" ] && [ -z "${!key}" ]; then
+            export "$key=$value"
+        fi
+    done < <(grep -v '^#' .env | grep '=')
 else
     echo ".env file not found. Please create one from env.example"
     exit 1
 fi
 
+# FORK_RPC_URL forks another chain; mainnet is the default
+FORK_URL="${FORK_RPC_URL:-$ETH_MAINNET_RPC_URL}"
+
 # Check if RPC URL is configured
-if [ -z "$ETH_MAINNET_RPC_URL" ] || [[ "$ETH_MAINNET_RPC_URL" == *"YOUR_API_KEY"* ]]; then
-    echo "Please configure ETH_MAINNET_RPC_URL in your .env file"
+if [ -z "$FORK_URL" ] || [[ "$FORK_URL" == *"YOUR_API_KEY"* ]]; then
+    echo "Please configure ETH_MAINNET_RPC_URL (or FORK_RPC_URL) in your .env file"
     echo "   You need a reliable RPC provider (Alchemy, Infura, QuickNode, etc.)"
     exit 1
 fi
 
-echo "Starting Anvil - Forking Ethereum Mainnet"
-echo "Fork URL: $ETH_MAINNET_RPC_URL"
+echo "Starting Anvil - Forking chain ${ANVIL_CHAIN_ID:-1}"
+echo "Fork URL: $FORK_URL"
 echo "Local RPC: http://localhost:${ANVIL_PORT:-8545}"
 echo "Chain ID: ${ANVIL_CHAIN_ID:-1}"
 echo "Block Time: ${ANVIL_BLOCK_TIME:-12}s"
@@ -24,9 +31,9 @@ echo ""
 echo "Default Test Accounts (10 ETH each):"
 echo "----------------------------------------"
 
-# Start Anvil with mainnet fork
+# Start Anvil with the configured fork
 anvil \
-    --fork-url "$ETH_MAINNET_RPC_URL" \
+    --fork-url "$FORK_URL" \
     --port "${ANVIL_PORT:-8545}" \
     --chain-id "${ANVIL_CHAIN_ID:-1}" \
     --block-time "${ANVIL_BLOCK_TIME:-12}" \
@@ -0,0 +1,133 @@
+/**
+ * @fileoverview AAVE account data reads and health factor projections
+ */
+
+import { ethers } from 'ethers';
+import type { Address } from 'viem';
+
+import type { SDKContext, AaveAccountData, InterestRateMode, ReserveInfo } from '../types';
+import { TransactionError } from '../utils/errors';
+import { AAVE_POOL_ABI, AAVE_ADDRESSES_PROVIDER_ABI, AAVE_ORACLE_ABI } from '../utils/contracts';
+
+// Health factor and other AAVE ratios are expressed in WAD (1e18)
+export const WAD = 10n ** 18n;
+export const BASIS_POINTS = 10_000n;
+
+// AAVE v3 oracles quote account values in USD with 8 decimals
+export const BASE_CURRENCY_DECIMALS = 8;
+
+// Reserve rates are yearly APRs in RAY (1e27), accrued per second
+export const RAY = 10n ** 27n;
+export const SECONDS_PER_YEAR = 31_536_000;
+
+// AAVE encodes the interest rate mode as 1 (stable) or 2 (variable)
+export const INTEREST_RATE_MODE_IDS: Record<InterestRateMode, bigint> = {
+  stable: 1n,
+  variable: 2n,
+};
+
+/**
+ * Read the user's aggregate AAVE position from Pool.getUserAccountData
+ */
+export async function getUserAccountData(sdk: SDKContext, user: Address): Promise<AaveAccountData> {
+  const pool = new ethers.Contract(sdk.config.contracts.aavePool, AAVE_POOL_ABI, sdk.provider);
+  const data = await pool.getUserAccountData!(user);
+
+  return {
+    totalCollateralBase: data[0] as bigint,
+    totalDebtBase: data[1] as bigint,
+    availableBorrowsBase: data[2] as bigint,
+    currentLiquidationThreshold: data[3] as bigint,
+    ltv: data[4] as bigint,
+    healthFactor: data[5] as bigint,
+  };
+}
+
+/**
+ * Pick the debt token that tracks the chosen interest rate mode
+ */
+export function getDebtTokenAddress(reserve: ReserveInfo, interestRateMode: InterestRateMode): Address {
+  const debtToken = interestRateMode === 'variable'
+    ? reserve.variableDebtToken
+    : reserve.stableDebtToken;
+
+  if (debtToken === ethers.ZeroAddress) {
+    throw new TransactionError(`${reserve.symbol} has no ${interestRateMode} debt token`);
+  }
+
+  return debtToken;
+}
+
+/**
+ * Read an asset price from the AAVE oracle in the Pool's base currency
+ */
+export async function getAssetPriceInBase(sdk: SDKContext, asset: Address): Promise<bigint> {
+  const oracle = await getPriceOracle(sdk);
+  return await oracle.getAssetPrice!(asset) as bigint;
+}
+
+/**
+ * Resolve the Pool's price oracle through its addresses provider
+ */
+export async function getPriceOracle(sdk: SDKContext): Promise<ethers.Contract> {
+  const pool = new ethers.Contract(sdk.config.contracts.aavePool, AAVE_POOL_ABI, sdk.provider);
+  const addressesProvider = new ethers.Contract(
+    await pool.ADDRESSES_PROVIDER!() as string,
+    AAVE_ADDRESSES_PROVIDER_ABI,
+    sdk.provider
+  );
+
+  return new ethers.Contract(
+    await addressesProvider.getPriceOracle!() as string,
+    AAVE_ORACLE_ABI,
+    sdk.provider
+  );
+}
+
+/**
+ * Convert a RAY-denominated yearly rate into an APY with per-second compounding
+ *
+ * Uses the same formula as the AAVE UI: (1 + rate / secondsPerYear) ^ secondsPerYear - 1.
+ * Returns a fraction, so 0.035 is 3.5%.
+ */
+export function rayRateToApy(rate: bigint): number {
+  const apr = Number(rate) / Number(RAY);
+  return Math.pow(1 + apr / SECONDS_PER_YEAR, SECONDS_PER_YEAR) - 1;
+}
+
+/**
+ * Project the health factor after adding `additionalDebtBase` of debt
+ *
+ * Mirrors AAVE's formula: collateral × liquidation threshold / debt.
+ * Returns max uint256 when the account would carry no debt.
+ */
+export function projectHealthFactor(account: AaveAccountData, additionalDebtBase: bigint): bigint {
+  const totalDebt = account.totalDebtBase + additionalDebtBase;
+  if (totalDebt <= 0n) {
+    return ethers.MaxUint256;
+  }
+
+  return (account.totalCollateralBase * account.currentLiquidationThreshold * WAD) /
+    (BASIS_POINTS * totalDebt);
+}
+
+/**
+ * Convert a floating point health factor (e.g. 1.5) to WAD
+ *
+ * Written out as a plain decimal, since Number#toString switches to exponent
+ * notation (1e-7, 1e21) that parseUnits rejects.
+ */
+export function healthFactorToWad(healthFactor: number): bigint {
+  const decimal = healthFactor.toLocaleString('en-US', { useGrouping: false, maximumFractionDigits: 18 });
+  return ethers.parseUnits(decimal, 18);
+}
+
+/**
+ * Format a WAD health factor for display
+ */
+export function formatHealthFactor(healthFactor: bigint): string {
+  if (healthFactor === ethers.MaxUint256) {
+    return '∞';
+  }
+  return Number(ethers.formatUnits(healthFactor, 18)).toFixed(4);
+}
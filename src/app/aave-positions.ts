@@ -0,0 +1,157 @@
+/**
+ * @fileoverview AAVE position dashboard: account totals plus balances and rates of every reserve in use
+ */
+
+import { ethers } from 'ethers';
+import type { Address } from 'viem';
+
+import type { SDKContext, AavePositions, LendingRates, ReserveInfo, ReservePosition } from '../types';
+import { log } from '../utils/logger';
+import { withErrorHandling } from '../utils/errors';
+import { AAVE_POOL_ABI, ERC20_ABI } from '../utils/contracts';
+import { listReserves, resolveReserve } from '../utils/reserves';
+import { getPriceOracle, getUserAccountData, rayRateToApy } from './aave-account';
+
+// Raw reads for one reserve, before they are converted for display
+export interface ReservePositionReads {
+  readonly reserveId: bigint; // Index into the user configuration bitmap
+  readonly liquidityRate: bigint; // RAY
+  readonly variableBorrowRate: bigint; // RAY
+  readonly stableBorrowRate: bigint; // RAY
+  readonly supplied: bigint;
+  readonly variableDebt: bigint;
+  readonly stableDebt: bigint;
+  readonly price: bigint; // Base currency per whole token
+}
+
+/**
+ * Read an account's AAVE totals and every configured reserve it supplies or borrows
+ */
+export const getAavePositions = withErrorHandling(
+  async (sdk: SDKContext, account: Address = sdk.eoaAddress): Promise<AavePositions> => {
+    log.info('Reading AAVE positions...', { account });
+
+    const pool = new ethers.Contract(sdk.config.contracts.aavePool, AAVE_POOL_ABI, sdk.provider);
+    const [blockNumber, accountData, userConfiguration, reserves, oracle] = await Promise.all([
+      sdk.provider.getBlockNumber(),
+      getUserAccountData(sdk, account),
+      pool.getUserConfiguration!(account) as Promise<{ data: bigint }>,
+      listReserves(sdk),
+      getPriceOracle(sdk),
+    ]);
+
+    const positions = await Promise.all(reserves.map(async reserve => {
+      const reads = await readReservePosition(sdk, pool, oracle, reserve, account);
+      return toReservePosition(reserve, reads, userConfiguration.data);
+    }));
+
+    return {
+      account,
+      blockNumber,
+      accountData,
+      reserves: positions.filter(isTouched),
+    };
+  },
+  'AAVE Positions'
+);
+
+/**
+ * Read a reserve's supply and variable borrow APYs and its utilization
+ *
+ * Utilization is the reserve's total debt over its debt plus the liquidity
+ * the aToken still holds.
+ */
+export const getAaveRates = withErrorHandling(
+  async (sdk: SDKContext, asset: string): Promise<LendingRates> => {
+    const reserve = await resolveReserve(sdk, asset);
+    const pool = new ethers.Contract(sdk.config.contracts.aavePool, AAVE_POOL_ABI, sdk.provider);
+    const totalSupply = async (token: Address): Promise<bigint> => token === ethers.ZeroAddress
+      ? 0n
+      : await new ethers.Contract(token, ERC20_ABI, sdk.provider).totalSupply!() as bigint;
+
+    const [reserveData, liquidity, variableDebt, stableDebt] = await Promise.all([
+      pool.getReserveData!(reserve.address),
+      new ethers.Contract(reserve.address, ERC20_ABI, sdk.provider).balanceOf!(reserve.aToken.address) as Promise<bigint>,
+      totalSupply(reserve.variableDebtToken),
+      totalSupply(reserve.stableDebtToken),
+    ]);
+    const totalDebt = variableDebt + stableDebt;
+
+    return {
+      protocol: 'aave',
+      asset: reserve.address,
+      symbol: reserve.symbol,
+      supplyApy: rayRateToApy(reserveData.currentLiquidityRate as bigint),
+      borrowApy: rayRateToApy(reserveData.currentVariableBorrowRate as bigint),
+      utilization: totalDebt + liquidity > 0n ? Number(totalDebt) / Number(totalDebt + liquidity) : 0,
+    };
+  },
+  'AAVE Rates'
+);
+
+/**
+ * Convert raw reserve reads into balances in base currency, APYs and the collateral flag
+ *
+ * The user configuration holds two bits per reserve id: borrowing (2 × id)
+ * and using as collateral (2 × id + 1).
+ */
+export function toReservePosition(
+  reserve: ReserveInfo,
+  reads: ReservePositionReads,
+  userConfiguration: bigint
+): ReservePosition {
+  const unit = 10n ** BigInt(reserve.decimals);
+
+  return {
+    asset: reserve.address,
+    symbol: reserve.symbol,
+    decimals: reserve.decimals,
+    supplied: reads.supplied,
+    variableDebt: reads.variableDebt,
+    stableDebt: reads.stableDebt,
+    suppliedBase: (reads.supplied * reads.price) / unit,
+    debtBase: ((reads.variableDebt + reads.stableDebt) * reads.price) / unit,
+    usedAsCollateral: ((userConfiguration >> (reads.reserveId * 2n + 1n)) & 1n) === 1n,
+    supplyApy: rayRateToApy(reads.liquidityRate),
+    variableBorrowApy: rayRateToApy(reads.variableBorrowRate),
+    stableBorrowApy: rayRateToApy(reads.stableBorrowRate),
+  };
+}
+
+async function readReservePosition(
+  sdk: SDKContext,
+  pool: ethers.Contract,
+  oracle: ethers.Contract,
+  reserve: ReserveInfo,
+  account: Address
+): Promise<ReservePositionReads> {
+  const balanceOf = async (token: Address): Promise<bigint> => token === ethers.ZeroAddress
+    ? 0n
+    : await new ethers.Contract(token, ERC20_ABI, sdk.provider).balanceOf!(account) as bigint;
+
+  const [reserveData, supplied, variableDebt, stableDebt, price] = await Promise.all([
+    pool.getReserveData!(reserve.address),
+    balanceOf(reserve.aToken.address),
+    balanceOf(reserve.variableDebtToken),
+    balanceOf(reserve.stableDebtToken),
+    oracle.getAssetPrice!(reserve.address) as Promise<bigint>,
+  ]);
+
+  return {
+    reserveId: BigInt(reserveData.id),
+    liquidityRate: reserveData.currentLiquidityRate as bigint,
+    variableBorrowRate: reserveData.currentVariableBorrowRate as bigint,
+    stableBorrowRate: reserveData.currentStableBorrowRate as bigint,
+    supplied,
+    variableDebt,
+    stableDebt,
+    price,
+  };
+}
+
+function isTouched(position: ReservePosition): boolean {
+  return position.supplied > 0n ||
+    position.variableDebt > 0n ||
+    position.stableDebt > 0n ||
+    position.usedAsCollateral;
+}
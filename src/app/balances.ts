@@ -0,0 +1,139 @@
+/**
+ * @fileoverview Balance snapshot helpers shared by the AAVE Fusion flows
+ */
+
+import { ethers } from 'ethers';
+import type { Address } from 'viem';
+
+import type { SDKContext, TokenBalance, BalanceSnapshot, PositionOwner, ReserveInfo, ReserveToken } from '../types';
+import { ERC20_ABI } from '../utils/contracts';
+import { log } from '../utils/logger';
+import { resolveReserve } from '../utils/reserves';
+
+/**
+ * Capture current underlying and aToken balances for the given reserves
+ *
+ * Defaults to the USDC reserve and the EOA when no reserves or account are passed.
+ * Snapshots of the EOA also cover its Nexus account, which may hold positions too.
+ */
+export async function captureBalanceSnapshot(
+  sdk: SDKContext,
+  reserves?: readonly ReserveInfo[],
+  account: Address = sdk.eoaAddress
+): Promise<BalanceSnapshot> {
+  const tracked = reserves ?? [await resolveReserve(sdk, 'USDC')];
+  return captureTokenSnapshot(sdk, tracked.flatMap(reserve => [reserve, reserve.aToken]), account);
+}
+
+/**
+ * Capture current balances of any ERC-20 tokens, such as debt tokens or a Comet market
+ *
+ * Like `captureBalanceSnapshot`, snapshots of the EOA also cover its Nexus account.
+ */
+export async function captureTokenSnapshot(
+  sdk: SDKContext,
+  tokens: readonly ReserveToken[],
+  account: Address = sdk.eoaAddress
+): Promise<BalanceSnapshot> {
+  const includeNexus = account.toLowerCase() === sdk.eoaAddress.toLowerCase();
+  const nexusAddress = sdk.orchestrator.addressOn(sdk.config.chainId, true);
+
+  const [blockNumber, balances, nexusBalances] = await Promise.all([
+    sdk.provider.getBlockNumber(),
+    readTokenBalances(sdk, tokens, account),
+    includeNexus ? readTokenBalances(sdk, tokens, nexusAddress) : undefined,
+  ]);
+
+  return {
+    timestamp: Date.now(),
+    blockNumber,
+    tokens: balances,
+    ...(nexusBalances && { nexus: { address: nexusAddress, tokens: nexusBalances } }),
+  };
+}
+
+/**
+ * Find a token balance in a snapshot by address, defaulting to zero
+ *
+ * Reads the EOA's balances unless `owner` is `nexus`.
+ */
+export function getSnapshotBalance(
+  snapshot: BalanceSnapshot,
+  address: string,
+  owner: PositionOwner = 'eoa'
+): bigint {
+  const tokens = owner === 'nexus' ? snapshot.nexus?.tokens ?? [] : snapshot.tokens;
+  return tokens.find(t => t.address.toLowerCase() === address.toLowerCase())?.balance ?? 0n;
+}
+
+async function readTokenBalances(
+  sdk: SDKContext,
+  tokens: readonly ReserveToken[],
+  account: Address
+): Promise<TokenBalance[]> {
+  return Promise.all(
+    tokens.map(async (token): Promise<TokenBalance> => {
+      const contract = new ethers.Contract(token.address, ERC20_ABI, sdk.provider);
+      const balance = await contract.balanceOf!(account) as bigint;
+
+      return {
+        address: token.address,
+        symbol: token.symbol,
+        decimals: token.decimals,
+        balance,
+        formatted: ethers.formatUnits(balance, token.decimals),
+      };
+    })
+  );
+}
+
+/**
+ * Display balance snapshot in a simple format
+ */
+export function displayBalanceSnapshot(title: string, snapshot: BalanceSnapshot): void {
+  log.text(`\n${title}:`);
+  log.text(`  Block: ${snapshot.blockNumber}`);
+  log.text(`  Time: ${new Date(snapshot.timestamp).toLocaleTimeString()}`);
+
+  snapshot.tokens.forEach(token => {
+    log.text(`  ${token.symbol}: ${token.formatted} ${token.symbol}`);
+  });
+
+  if (snapshot.nexus) {
+    log.text(`  Nexus (${snapshot.nexus.address}):`);
+    snapshot.nexus.tokens.forEach(token => {
+      log.text(`    ${token.symbol}: ${token.formatted} ${token.symbol}`);
+    });
+  }
+}
+
+/**
+ * Display balance changes between two snapshots
+ */
+export function displayBalanceChanges(before: BalanceSnapshot, after: BalanceSnapshot): void {
+  log.text(`\nBalance Changes:`);
+
+  displayTokenChanges(before.tokens, after.tokens, '  ');
+
+  if (before.nexus && after.nexus) {
+    log.text('  Nexus:');
+    displayTokenChanges(before.nexus.tokens, after.nexus.tokens, '    ');
+  }
+}
+
+function displayTokenChanges(
+  before: readonly TokenBalance[],
+  after: readonly TokenBalance[],
+  indent: string
+): void {
+  before.forEach(beforeToken => {
+    const afterToken = after.find(t => t.symbol === beforeToken.symbol);
+    if (!afterToken) return;
+
+    const change = afterToken.balance - beforeToken.balance;
+    const prefix = change >= 0n ? '+' : '';
+    const changeFormatted = `${prefix}${ethers.formatUnits(change, beforeToken.decimals)}`;
+
+    log.text(`${indent}${beforeToken.symbol}: ${changeFormatted} ${beforeToken.symbol}`);
+  });
+}
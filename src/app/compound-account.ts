@@ -0,0 +1,259 @@
+/**
+ * @fileoverview Compound v3 account reads: balances, collateral value, health factor and rates
+ *
+ * Comet prices every asset in USD with 8 decimals, the same base currency as
+ * the AAVE oracle, so positions of both protocols compare directly.
+ */
+
+import { ethers } from 'ethers';
+import type { Address } from 'viem';
+
+import type {
+  SDKContext,
+  CometAccountData,
+  CometAsset,
+  CometMarket,
+  LendingPosition,
+  LendingPositions,
+  LendingRates,
+} from '../types';
+import { log } from '../utils/logger';
+import { withErrorHandling } from '../utils/errors';
+import { COMPOUND_COMET_ABI } from '../utils/contracts';
+import { findCometAsset, resolveCometMarket } from '../utils/compound-markets';
+import { SECONDS_PER_YEAR, WAD } from './aave-account';
+
+// Collateral factors, rates and utilization are scaled by 1e18
+export const COMET_FACTOR_SCALE = 10n ** 18n;
+
+// Raw reads of one account, before they are valued
+export interface CometAccountReads {
+  readonly baseSupplied: bigint;
+  readonly baseBorrowed: bigint;
+  readonly basePrice: bigint; // USD with 8 decimals per whole token
+  readonly collaterals: readonly CometCollateralRead[];
+}
+
+export interface CometCollateralRead {
+  readonly asset: CometAsset;
+  readonly balance: bigint;
+  readonly price: bigint;
+}
+
+// Market-wide rates, per second in 1e18
+export interface CometRateReads {
+  readonly utilization: bigint;
+  readonly supplyRate: bigint;
+  readonly borrowRate: bigint;
+}
+
+/**
+ * Read an account's Comet balances and every positive collateral balance
+ */
+export const getCompoundPositions = withErrorHandling(
+  async (sdk: SDKContext, account: Address = sdk.eoaAddress): Promise<LendingPositions> => {
+    log.info('Reading Compound v3 positions...', { account });
+
+    const market = await resolveCometMarket(sdk);
+    const [blockNumber, reads, rates] = await Promise.all([
+      sdk.provider.getBlockNumber(),
+      readCometAccount(sdk, market, account),
+      readCometRates(sdk, market),
+    ]);
+    const accountData = toCometAccountData(market, reads);
+
+    return {
+      protocol: 'compound',
+      account,
+      blockNumber,
+      collateralBase: accountData.collateralBase,
+      debtBase: accountData.debtBase,
+      availableBorrowsBase: accountData.borrowCapacityBase > accountData.debtBase
+        ? accountData.borrowCapacityBase - accountData.debtBase
+        : 0n,
+      healthFactor: accountData.healthFactor,
+      positions: toCometPositions(market, reads, rates),
+    };
+  },
+  'Compound Positions'
+);
+
+/**
+ * Read the supply and borrow APYs of a Comet asset; collateral earns nothing and cannot be borrowed
+ */
+export const getCompoundRates = withErrorHandling(
+  async (sdk: SDKContext, asset: string): Promise<LendingRates> => {
+    const market = await resolveCometMarket(sdk);
+    const cometAsset = findCometAsset(market, asset);
+    const isBase = cometAsset.address === market.base.address;
+    const rates = isBase ? await readCometRates(sdk, market) : undefined;
+
+    return {
+      protocol: 'compound',
+      asset: cometAsset.address,
+      symbol: cometAsset.symbol,
+      supplyApy: rates ? cometRateToApy(rates.supplyRate) : 0,
+      ...(rates && {
+        borrowApy: cometRateToApy(rates.borrowRate),
+        utilization: Number(rates.utilization) / Number(COMET_FACTOR_SCALE),
+      }),
+    };
+  },
+  'Compound Rates'
+);
+
+/**
+ * Value an account's collateral and debt, and derive its health factor
+ *
+ * Comet liquidates once debt exceeds the collateral weighted by each asset's
+ * liquidation factor, so that ratio plays the part of AAVE's health factor.
+ */
+export function toCometAccountData(market: CometMarket, reads: CometAccountReads): CometAccountData {
+  let collateralBase = 0n;
+  let borrowCapacityBase = 0n;
+  let liquidationCapacityBase = 0n;
+
+  for (const { asset, balance, price } of reads.collaterals) {
+    const value = (balance * price) / asset.scale;
+    collateralBase += value;
+    borrowCapacityBase += (value * asset.borrowCollateralFactor) / COMET_FACTOR_SCALE;
+    liquidationCapacityBase += (value * asset.liquidateCollateralFactor) / COMET_FACTOR_SCALE;
+  }
+
+  const account = {
+    collateralBase,
+    debtBase: (reads.baseBorrowed * reads.basePrice) / market.base.scale,
+    borrowCapacityBase,
+    liquidationCapacityBase,
+  };
+
+  return { ...account, healthFactor: projectCometHealthFactor(account, 0n) };
+}
+
+/**
+ * Project the health factor after adding `additionalDebtBase` of debt; max uint256 without debt
+ */
+export function projectCometHealthFactor(
+  account: Omit<CometAccountData, 'healthFactor'>,
+  additionalDebtBase: bigint
+): bigint {
+  const totalDebt = account.debtBase + additionalDebtBase;
+  if (totalDebt <= 0n) {
+    return ethers.MaxUint256;
+  }
+
+  return (account.liquidationCapacityBase * WAD) / totalDebt;
+}
+
+/**
+ * Convert a per-second Comet rate into an APY with per-second compounding
+ */
+export function cometRateToApy(ratePerSecond: bigint): number {
+  return Math.pow(1 + Number(ratePerSecond) / Number(COMET_FACTOR_SCALE), SECONDS_PER_YEAR) - 1;
+}
+
+/**
+ * List the base position and every collateral the account holds, valued in USD
+ */
+export function toCometPositions(
+  market: CometMarket,
+  reads: CometAccountReads,
+  rates: CometRateReads
+): LendingPosition[] {
+  const { base } = market;
+  const basePosition: LendingPosition = {
+    asset: base.address,
+    symbol: base.symbol,
+    decimals: base.decimals,
+    supplied: reads.baseSupplied,
+    debt: reads.baseBorrowed,
+    suppliedBase: (reads.baseSupplied * reads.basePrice) / base.scale,
+    debtBase: (reads.baseBorrowed * reads.basePrice) / base.scale,
+    usedAsCollateral: false,
+    supplyApy: cometRateToApy(rates.supplyRate),
+    borrowApy: cometRateToApy(rates.borrowRate),
+  };
+
+  const collateralPositions = reads.collaterals.map(({ asset, balance, price }): LendingPosition => ({
+    asset: asset.address,
+    symbol: asset.symbol,
+    decimals: asset.decimals,
+    supplied: balance,
+    debt: 0n,
+    suppliedBase: (balance * price) / asset.scale,
+    debtBase: 0n,
+    usedAsCollateral: true,
+    supplyApy: 0,
+  }));
+
+  return [
+    ...(reads.baseSupplied > 0n || reads.baseBorrowed > 0n ? [basePosition] : []),
+    ...collateralPositions,
+  ];
+}
+
+/**
+ * Read an account's base balance, borrow balance and non-zero collateral balances with prices
+ */
+export async function readCometAccount(
+  sdk: SDKContext,
+  market: CometMarket,
+  account: Address
+): Promise<CometAccountReads> {
+  const comet = new ethers.Contract(market.comet, COMPOUND_COMET_ABI, sdk.provider);
+
+  const [baseSupplied, baseBorrowed, basePrice, collaterals] = await Promise.all([
+    comet.balanceOf!(account) as Promise<bigint>,
+    comet.borrowBalanceOf!(account) as Promise<bigint>,
+    comet.getPrice!(market.base.priceFeed) as Promise<bigint>,
+    Promise.all(market.collaterals.map(async (asset): Promise<CometCollateralRead> => {
+      const balance = await comet.collateralBalanceOf!(account, asset.address) as bigint;
+      const price = balance > 0n ? await comet.getPrice!(asset.priceFeed) as bigint : 0n;
+      return { asset, balance, price };
+    })),
+  ]);
+
+  return {
+    baseSupplied,
+    baseBorrowed,
+    basePrice,
+    collaterals: collaterals.filter(collateral => collateral.balance > 0n),
+  };
+}
+
+/**
+ * Read the market's utilization and the supply and borrow rates it implies
+ */
+export async function readCometRates(sdk: SDKContext, market: CometMarket): Promise<CometRateReads> {
+  const comet = new ethers.Contract(market.comet, COMPOUND_COMET_ABI, sdk.provider);
+  const utilization = await comet.getUtilization!() as bigint;
+  const [supplyRate, borrowRate] = await Promise.all([
+    comet.getSupplyRate!(utilization) as Promise<bigint>,
+    comet.getBorrowRate!(utilization) as Promise<bigint>,
+  ]);
+
+  return { utilization, supplyRate, borrowRate };
+}
+
+/**
+ * Read the account's balance of one asset: its base supply or its collateral
+ */
+export async function readCometBalance(
+  sdk: SDKContext,
+  market: CometMarket,
+  asset: CometAsset,
+  account: Address
+): Promise<bigint> {
+  const comet = new ethers.Contract(market.comet, COMPOUND_COMET_ABI, sdk.provider);
+  return asset.address === market.base.address
+    ? await comet.balanceOf!(account) as bigint
+    : await comet.collateralBalanceOf!(account, asset.address) as bigint;
+}
+
+/**
+ * Read the account's base asset debt, including accrued interest
+ */
+export async function readCometDebt(sdk: SDKContext, market: CometMarket, account: Address): Promise<bigint> {
+  const comet = new ethers.Contract(market.comet, COMPOUND_COMET_ABI, sdk.provider);
+  return await comet.borrowBalanceOf!(account) as bigint;
+}
@@ -0,0 +1,170 @@
+/**
+ * @fileoverview Plain EOA approve + supply baseline and its cost comparison with Fusion
+ *
+ * The baseline sends the same two calls as ordinary transactions from the
+ * EOA signer. The comparison runs it inside an Anvil snapshot and reverts,
+ * so the Fusion run starts from identical state.
+ */
+
+import { ethers } from 'ethers';
+import type { Hex } from 'viem';
+
+import type {
+  SDKContext,
+  AaveSupplyOptions,
+  ExecutionCost,
+  FusionExecutionCost,
+  SupplyCostComparison,
+  ReserveToken,
+} from '../types';
+import { log } from '../utils/logger';
+import { withErrorHandling, TransactionError, NO_RETRY } from '../utils/errors';
+import { ERC20_ABI, AAVE_POOL_ABI } from '../utils/contracts';
+import { formatTokenAmount, formatDuration } from '../utils/formatting';
+import { resolveReserve, readTokenMetadata } from '../utils/reserves';
+import { withAnvilSnapshot } from '../infrastructure/anvil';
+import { executeFusionAaveSupply } from './fusion-aave-demo';
+
+/**
+ * Supply through two ordinary EOA transactions: approve, then Pool.supply
+ */
+export const executeEoaBaselineSupply = withErrorHandling(
+  async (sdk: SDKContext, options: AaveSupplyOptions): Promise<ExecutionCost> => {
+    if (options.amount <= 0n) {
+      throw new TransactionError('Supply amount must be positive');
+    }
+
+    const reserve = await resolveReserve(sdk, options.asset);
+    const startTime = Date.now();
+
+    log.header(`EOA Baseline Supply (${reserve.symbol})`);
+
+    const token = new ethers.Contract(reserve.address, ERC20_ABI, sdk.signer);
+    const pool = new ethers.Contract(sdk.config.contracts.aavePool, AAVE_POOL_ABI, sdk.signer);
+
+    log.step(1, 'Sending approve transaction');
+    const approveReceipt = await waitForSuccess(
+      await token.approve!(sdk.config.contracts.aavePool, options.amount),
+      'approve'
+    );
+
+    log.step(2, 'Sending supply transaction');
+    const supplyReceipt = await waitForSuccess(
+      await pool.supply!(reserve.address, options.amount, options.recipient ?? sdk.eoaAddress, 0),
+      'supply'
+    );
+
+    const receipts = [approveReceipt, supplyReceipt];
+    const gasUsed = receipts.reduce((total, receipt) => total + receipt.gasUsed, 0n);
+    const networkCost = receipts.reduce((total, receipt) => total + receipt.gasUsed * receipt.gasPrice, 0n);
+
+    const cost: ExecutionCost = {
+      hashes: receipts.map(receipt => receipt.hash as Hex),
+      gasUsed,
+      networkCost,
+      userEthCost: networkCost,
+      wallClockMs: Date.now() - startTime,
+      signatures: receipts.length,
+      userTransactions: receipts.length,
+    };
+
+    log.success('EOA baseline supply completed', {
+      supplyAmount: formatTokenAmount(options.amount, reserve.decimals, reserve.symbol),
+      gasUsed: gasUsed.toString(),
+      ethCost: `${ethers.formatEther(networkCost)} ETH`,
+    });
+
+    return cost;
+  },
+  'EOA Baseline Supply',
+  NO_RETRY
+);
+
+/**
+ * Measure the EOA baseline in a reverted snapshot, then run the Fusion supply for real
+ */
+export const compareSupplyCosts = withErrorHandling(
+  async (sdk: SDKContext, options: AaveSupplyOptions): Promise<SupplyCostComparison> => {
+    const reserve = await resolveReserve(sdk, options.asset);
+
+    log.header(`Fusion vs. EOA Cost Comparison (${reserve.symbol})`);
+
+    log.step(1, 'Running EOA baseline inside an Anvil snapshot');
+    const baseline = await withAnvilSnapshot(sdk, () => executeEoaBaselineSupply(sdk, options));
+
+    log.step(2, 'Running Fusion supply from the same state');
+    const startTime = Date.now();
+    const ethBefore = await sdk.provider.getBalance(sdk.eoaAddress);
+    const result = await executeFusionAaveSupply(sdk, options);
+    const ethAfter = await sdk.provider.getBalance(sdk.eoaAddress);
+    const wallClockMs = Date.now() - startTime;
+
+    const gasUsed = result.gasUsed ?? 0n;
+    const fusion: FusionExecutionCost = {
+      hashes: [result.hash],
+      gasUsed,
+      networkCost: gasUsed * (result.effectiveGasPrice ?? 0n),
+      // Permit triggers cost the EOA nothing; on-chain triggers pay for one approval
+      userEthCost: ethBefore - ethAfter,
+      wallClockMs,
+      signatures: 1,
+      userTransactions: result.triggerMode === 'onchain' ? 1 : 0,
+      ...(result.fee && { fee: result.fee }),
+    };
+
+    const comparison: SupplyCostComparison = {
+      asset: reserve.address,
+      symbol: reserve.symbol,
+      decimals: reserve.decimals,
+      amount: options.amount,
+      baseline,
+      fusion,
+    };
+
+    const feeToken = result.fee ? await readTokenMetadata(sdk, result.fee.token) : undefined;
+    displayCostComparison(comparison, feeToken);
+
+    return comparison;
+  },
+  'Supply Cost Comparison',
+  NO_RETRY
+);
+
+/**
+ * Print the baseline and Fusion measurements side by side
+ */
+export function displayCostComparison(comparison: SupplyCostComparison, feeToken?: ReserveToken): void {
+  const { baseline, fusion, symbol, decimals } = comparison;
+
+  const rows: Array<[string, string, string]> = [
+    ['Gas used', baseline.gasUsed.toString(), fusion.gasUsed.toString()],
+    ['Network cost', `${ethers.formatEther(baseline.networkCost)} ETH`, `${ethers.formatEther(fusion.networkCost)} ETH`],
+    ['ETH paid by EOA', `${ethers.formatEther(baseline.userEthCost)} ETH`, `${ethers.formatEther(fusion.userEthCost)} ETH`],
+    ['Token fee', '-', fusion.fee && feeToken
+      ? formatTokenAmount(fusion.fee.charged, feeToken.decimals, feeToken.symbol)
+      : 'n/a'],
+    ['Wall-clock time', formatDuration(baseline.wallClockMs), formatDuration(fusion.wallClockMs)],
+    ['Signatures', baseline.signatures.toString(), fusion.signatures.toString()],
+    ['EOA transactions', baseline.userTransactions.toString(), fusion.userTransactions.toString()],
+  ];
+
+  const labelWidth = Math.max(...rows.map(([label]) => label.length));
+  const valueWidth = Math.max(...rows.map(([, value]) => value.length), 'EOA baseline'.length);
+
+  log.text(`\nCost Comparison (${formatTokenAmount(comparison.amount, decimals, symbol)} supply):`);
+  log.text(`  ${''.padEnd(labelWidth)}  ${'EOA baseline'.padEnd(valueWidth)}  Fusion`);
+  rows.forEach(([label, eoa, fusionValue]) => {
+    log.text(`  ${label.padEnd(labelWidth)}  ${eoa.padEnd(valueWidth)}  ${fusionValue}`);
+  });
+}
+
+async function waitForSuccess(
+  tx: ethers.ContractTransactionResponse,
+  label: string
+): Promise<ethers.TransactionReceipt> {
+  const receipt = await tx.wait();
+  if (!receipt || receipt.status !== 1) {
+    throw new TransactionError(`EOA ${label} transaction ${tx.hash} failed`);
+  }
+  return receipt;
+}
@@ -0,0 +1,272 @@
+/**
+ * @fileoverview AAVE borrow flow using Biconomy MEE Fusion
+ *
+ * The EOA's on-chain trigger delegates credit to the Nexus account, which
+ * borrows on behalf of the EOA and forwards the borrowed asset to it.
+ */
+
+import { encodeFunctionData } from 'viem';
+
+import type {
+  SDKContext,
+  AaveBorrowOptions,
+  AaveBorrowResult,
+  AaveAccountData,
+  InterestRateMode,
+  QuotePreview,
+  ReserveInfo,
+} from '../types';
+import { log } from '../utils/logger';
+import { withErrorHandling, TransactionError, NO_RETRY } from '../utils/errors';
+import { ERC20_ABI, AAVE_POOL_ABI, AAVE_DEBT_TOKEN_ABI } from '../utils/contracts';
+import { formatTokenAmount } from '../utils/formatting';
+import { resolveReserve, readTokenMetadata } from '../utils/reserves';
+import { captureTokenSnapshot } from './balances';
+import {
+  getUserAccountData,
+  getAssetPriceInBase,
+  getDebtTokenAddress,
+  projectHealthFactor,
+  healthFactorToWad,
+  formatHealthFactor,
+  INTEREST_RATE_MODE_IDS,
+} from './aave-account';
+import {
+  assertEoaPositionOwner,
+  executeFusionInstructions,
+  previewFusionInstructions,
+  resolveRouting,
+  toFusionExecutionError,
+  type FusionExecutionOutcome,
+  type FusionExecutionRequest,
+  type FusionRouting,
+} from './fusion-execution';
+
+export interface BorrowAssessment {
+  readonly accountBefore: AaveAccountData;
+  readonly projectedHealthFactor: bigint;
+}
+
+/**
+ * Borrow against the EOA's supplied collateral using Fusion
+ *
+ * Refuses to build a quote if the projected health factor would fall below
+ * `options.minHealthFactor` (or `config.healthFactorFloor`).
+ */
+export const executeFusionAaveBorrow = withErrorHandling(
+  async (sdk: SDKContext, options: AaveBorrowOptions): Promise<AaveBorrowResult> => {
+    const interestRateMode = options.interestRateMode ?? 'variable';
+
+    log.header('AAVE Fusion Borrow');
+
+    log.step(1, 'Reading reserve and account data');
+    const reserve = await resolveReserve(sdk, options.asset);
+    const { symbol, decimals } = reserve;
+    const { accountBefore, projectedHealthFactor } = await assessBorrow(sdk, reserve, options);
+    const debtToken = await readTokenMetadata(sdk, getDebtTokenAddress(reserve, interestRateMode));
+    const tracked = [reserve, reserve.aToken, debtToken];
+    const beforeBalance = await captureTokenSnapshot(sdk, tracked);
+
+    log.step(2, 'Executing Fusion Supertransaction');
+    const { hash, triggerMode, summary } = await executeBorrowTransaction(
+      sdk,
+      reserve,
+      options.amount,
+      interestRateMode,
+      resolveRouting(sdk, options, sdk.config.contracts.usdc)
+    );
+
+    log.step(3, 'Reading final account data');
+    const [accountAfter, afterBalance] = await Promise.all([
+      getUserAccountData(sdk, sdk.eoaAddress),
+      captureTokenSnapshot(sdk, tracked),
+    ]);
+    sdk.journal?.append(hash, { type: 'balances', before: beforeBalance, after: afterBalance });
+
+    const result: AaveBorrowResult = {
+      hash,
+      success: true,
+      triggerMode,
+      ...summary,
+      asset: reserve.address,
+      symbol,
+      decimals,
+      amount: options.amount,
+      interestRateMode,
+      healthFactorBefore: accountBefore.healthFactor,
+      projectedHealthFactor,
+      healthFactorAfter: accountAfter.healthFactor,
+    };
+
+    log.success('Borrow Successful!', {
+      amount: formatTokenAmount(result.amount, decimals, symbol),
+      interestRateMode,
+      healthFactor: formatHealthFactor(result.healthFactorAfter),
+      transactionHash: result.hash,
+    });
+
+    return result;
+  },
+  'AAVE Fusion Borrow',
+  NO_RETRY
+);
+
+/**
+ * Quote a borrow and break down its fee, trigger, calldata and gas without executing it
+ *
+ * The health-factor guard still applies, so a refused borrow is never quoted.
+ */
+export const quoteFusionAaveBorrow = withErrorHandling(
+  async (sdk: SDKContext, options: AaveBorrowOptions): Promise<QuotePreview> => {
+    const reserve = await resolveReserve(sdk, options.asset);
+
+    log.header('AAVE Fusion Borrow Dry Run');
+
+    await assessBorrow(sdk, reserve, options);
+
+    const request = await buildBorrowRequest(
+      sdk,
+      reserve,
+      options.amount,
+      options.interestRateMode ?? 'variable',
+      resolveRouting(sdk, options, sdk.config.contracts.usdc)
+    );
+    return await previewFusionInstructions(sdk, request);
+  },
+  'AAVE Fusion Borrow Quote'
+);
+
+/**
+ * Project the post-borrow health factor and refuse borrows below the floor
+ */
+export async function assessBorrow(
+  sdk: SDKContext,
+  reserve: ReserveInfo,
+  options: AaveBorrowOptions
+): Promise<BorrowAssessment> {
+  const { symbol, decimals } = reserve;
+  const minHealthFactor = options.minHealthFactor ?? sdk.config.healthFactorFloor;
+
+  assertEoaPositionOwner(sdk, options, 'Borrow');
+
+  if (options.amount <= 0n) {
+    throw new TransactionError('Borrow amount must be positive');
+  }
+
+  const [accountBefore, assetPrice] = await Promise.all([
+    getUserAccountData(sdk, sdk.eoaAddress),
+    getAssetPriceInBase(sdk, reserve.address),
+  ]);
+
+  const borrowValueBase = (options.amount * assetPrice) / 10n ** BigInt(decimals);
+  const projectedHealthFactor = projectHealthFactor(accountBefore, borrowValueBase);
+
+  log.info('Health factor projection', {
+    current: formatHealthFactor(accountBefore.healthFactor),
+    projected: formatHealthFactor(projectedHealthFactor),
+    floor: minHealthFactor.toString(),
+  });
+
+  // Guard: never send a borrow that AAVE would reject or that lands below the floor
+  if (borrowValueBase > accountBefore.availableBorrowsBase) {
+    throw new TransactionError(
+      `Borrow of ${formatTokenAmount(options.amount, decimals, symbol)} exceeds available borrowing power. ` +
+      'Supply more collateral or reduce the amount.'
+    );
+  }
+
+  if (projectedHealthFactor < healthFactorToWad(minHealthFactor)) {
+    throw new TransactionError(
+      `Borrow refused: projected health factor ${formatHealthFactor(projectedHealthFactor)} ` +
+      `is below the configured floor of ${minHealthFactor}`
+    );
+  }
+
+  return { accountBefore, projectedHealthFactor };
+}
+
+/**
+ * Execute the borrow supertransaction
+ */
+async function executeBorrowTransaction(
+  sdk: SDKContext,
+  reserve: ReserveInfo,
+  amount: bigint,
+  interestRateMode: InterestRateMode,
+  routing: FusionRouting
+): Promise<FusionExecutionOutcome> {
+  try {
+    const request = await buildBorrowRequest(sdk, reserve, amount, interestRateMode, routing);
+    return await executeFusionInstructions(sdk, request);
+
+  } catch (error) {
+    throw toFusionExecutionError(error);
+  }
+}
+
+/**
+ * Build the borrow + forward instructions and the approveDelegation trigger
+ */
+export async function buildBorrowRequest(
+  sdk: SDKContext,
+  reserve: ReserveInfo,
+  amount: bigint,
+  interestRateMode: InterestRateMode,
+  routing: FusionRouting
+): Promise<FusionExecutionRequest> {
+  log.info('Building Fusion instructions...');
+
+  const nexusAddress = sdk.orchestrator.addressOn(sdk.config.chainId, true);
+  const debtToken = getDebtTokenAddress(reserve, interestRateMode);
+
+  // Borrow on behalf of the EOA so the debt sits next to its collateral
+  const borrowInstruction = await sdk.orchestrator.buildComposable({
+    type: 'default',
+    data: {
+      abi: AAVE_POOL_ABI,
+      chainId: sdk.config.chainId,
+      to: sdk.config.contracts.aavePool,
+      functionName: 'borrow',
+      args: [
+        reserve.address,
+        amount,
+        INTEREST_RATE_MODE_IDS[interestRateMode],
+        0, // No referral code
+        sdk.eoaAddress,
+      ],
+    },
+  });
+
+  // Pool sends borrowed funds to the caller, so forward them to the recipient
+  const transferInstruction = await sdk.orchestrator.buildComposable({
+    type: 'default',
+    data: {
+      abi: ERC20_ABI,
+      chainId: sdk.config.chainId,
+      to: reserve.address,
+      functionName: 'transfer',
+      args: [routing.recipient, amount],
+    },
+  });
+
+  return {
+    instructions: [borrowInstruction, transferInstruction],
+    // The EOA's approveDelegation call is the on-chain Fusion trigger
+    trigger: {
+      chainId: sdk.config.chainId,
+      call: {
+        to: debtToken,
+        data: encodeFunctionData({
+          abi: AAVE_DEBT_TOKEN_ABI,
+          functionName: 'approveDelegation',
+          args: [nexusAddress, amount],
+        }),
+      },
+    },
+    feeToken: {
+      address: routing.feeToken,
+      chainId: sdk.config.chainId,
+    },
+    triggerMode: routing.triggerMode,
+  };
+}
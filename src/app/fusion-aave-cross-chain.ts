@@ -0,0 +1,276 @@
+/**
+ * @fileoverview Cross-chain AAVE supply using Biconomy MEE Fusion
+ *
+ * The Fusion trigger pulls USDC on the source fork, the source leg bridges
+ * it out, and the destination leg supplies whatever arrives to AAVE on the
+ * destination fork, all as one supertransaction. Between two local Anvil
+ * forks the bridge is the burn-and-credit relay in infrastructure/local-bridge.
+ */
+
+import { greaterThanOrEqualTo, runtimeERC20BalanceOf } from '@biconomy/abstractjs';
+import { ethers } from 'ethers';
+
+import type {
+  SDKContext,
+  AaveCrossChainSupplyOptions,
+  AaveCrossChainSupplyResult,
+  QuotePreview,
+  ReserveInfo,
+} from '../types';
+import { log } from '../utils/logger';
+import { withErrorHandling, TransactionError, NO_RETRY } from '../utils/errors';
+import { ERC20_ABI, AAVE_POOL_ABI } from '../utils/contracts';
+import { formatTokenAmount } from '../utils/formatting';
+import { resolveReserve } from '../utils/reserves';
+import { withChain } from '../utils/chains';
+import { LOCAL_BRIDGE_BURN_ADDRESS, relayLocalBridgeTransfer } from '../infrastructure/local-bridge';
+import { captureBalanceSnapshot, getSnapshotBalance } from './balances';
+import {
+  executeFusionInstructions,
+  previewFusionInstructions,
+  resolveRouting,
+  toFusionExecutionError,
+  type FusionExecutionRequest,
+  type FusionRouting,
+} from './fusion-execution';
+import { decodeSupplyEvents } from './receipt-analysis';
+
+// Source and destination views of the SDK plus the USDC reserve on each side
+interface CrossChainLegs {
+  readonly source: SDKContext;
+  readonly destination: SDKContext;
+  readonly sourceUsdc: ReserveInfo;
+  readonly reserve: ReserveInfo; // USDC reserve supplied on the destination chain
+}
+
+/**
+ * Pull USDC on one fork and supply it to AAVE on another in a single supertransaction
+ */
+export const executeFusionCrossChainSupply = withErrorHandling(
+  async (sdk: SDKContext, options: AaveCrossChainSupplyOptions): Promise<AaveCrossChainSupplyResult> => {
+    const legs = await resolveCrossChainLegs(sdk, options);
+    const { source, destination, sourceUsdc, reserve } = legs;
+
+    log.header(`AAVE Fusion Cross-Chain Supply (${source.config.chain.name} → ${destination.config.chain.name})`);
+
+    log.step(1, `Checking ${sourceUsdc.symbol} on ${source.config.chain.name}`);
+    const snapshot = await captureBalanceSnapshot(source, [sourceUsdc]);
+    const sourceBalance = getSnapshotBalance(snapshot, sourceUsdc.address);
+    if (sourceBalance < options.amount) {
+      throw new TransactionError(
+        `Insufficient ${sourceUsdc.symbol} on chain ${source.config.chainId}: ` +
+        `have ${formatTokenAmount(sourceBalance, sourceUsdc.decimals, sourceUsdc.symbol)}, ` +
+        `need ${formatTokenAmount(options.amount, sourceUsdc.decimals, sourceUsdc.symbol)}`
+      );
+    }
+
+    log.step(2, 'Building cross-chain instructions');
+    const routing = resolveRouting(source, options, sourceUsdc.address, destination);
+    const request = await buildCrossChainSupplyRequest(sdk, legs, options.amount, routing);
+
+    log.step(3, 'Executing supertransaction and relaying the bridge leg');
+    const destinationNexus = sdk.orchestrator.addressOn(destination.config.chainId, true);
+    const fromBlock = await source.provider.getBlockNumber();
+    const relayAbort = new AbortController();
+
+    try {
+      const [outcome, bridge] = await Promise.all([
+        executeFusionInstructions(source, request),
+        relayLocalBridgeTransfer(sdk, {
+          sourceChainId: source.config.chainId,
+          destinationChainId: destination.config.chainId,
+          sourceToken: sourceUsdc.address,
+          sender: sdk.orchestrator.addressOn(source.config.chainId, true),
+          recipient: destinationNexus,
+          fromBlock,
+          signal: relayAbort.signal,
+          ...(options.relayTimeoutMs !== undefined && { timeoutMs: options.relayTimeoutMs }),
+        }),
+      ]);
+
+      // The EOA's side of the move is on the source fork; the destination mint is decoded below
+      const afterBalance = await captureBalanceSnapshot(source, [sourceUsdc]);
+      source.journal?.append(outcome.hash, { type: 'balances', before: snapshot, after: afterBalance });
+
+      const supplyEvents = decodeSupplyEvents(outcome.receipt, {
+        pool: destination.config.contracts.aavePool,
+        asset: reserve.address,
+        aToken: reserve.aToken.address,
+        onBehalfOf: routing.positionAccount,
+      });
+
+      if (!supplyEvents) {
+        throw new TransactionError(
+          `Supertransaction ${outcome.hash} succeeded but no ${reserve.aToken.symbol} mint was found ` +
+          `on chain ${destination.config.chainId}`
+        );
+      }
+
+      const result: AaveCrossChainSupplyResult = {
+        hash: outcome.hash,
+        success: true,
+        triggerMode: outcome.triggerMode,
+        ...outcome.summary,
+        sourceChainId: source.config.chainId,
+        destinationChainId: destination.config.chainId,
+        asset: reserve.address,
+        symbol: reserve.symbol,
+        decimals: reserve.decimals,
+        amount: options.amount,
+        bridgedAmount: bridge.credited,
+        bridgeTransactionHash: bridge.sourceTransactionHash,
+        aTokensReceived: supplyEvents.aTokensReceived,
+      };
+
+      log.success('Cross-Chain Supply Successful!', {
+        pulled: formatTokenAmount(result.amount, sourceUsdc.decimals, sourceUsdc.symbol),
+        bridged: formatTokenAmount(result.bridgedAmount, reserve.decimals, reserve.symbol),
+        aTokensReceived: formatTokenAmount(result.aTokensReceived, reserve.aToken.decimals, reserve.aToken.symbol),
+        transactionHash: result.hash,
+      });
+
+      return result;
+
+    } catch (error) {
+      throw toFusionExecutionError(error);
+    } finally {
+      relayAbort.abort();
+    }
+  },
+  'AAVE Fusion Cross-Chain Supply',
+  NO_RETRY
+);
+
+/**
+ * Quote a cross-chain supply and break it down without executing it
+ */
+export const quoteFusionCrossChainSupply = withErrorHandling(
+  async (sdk: SDKContext, options: AaveCrossChainSupplyOptions): Promise<QuotePreview> => {
+    const legs = await resolveCrossChainLegs(sdk, options);
+
+    log.header(
+      `AAVE Fusion Cross-Chain Supply Dry Run (${legs.source.config.chain.name} → ${legs.destination.config.chain.name})`
+    );
+
+    const routing = resolveRouting(legs.source, options, legs.sourceUsdc.address, legs.destination);
+    const request = await buildCrossChainSupplyRequest(sdk, legs, options.amount, routing);
+
+    return await previewFusionInstructions(legs.source, request);
+  },
+  'AAVE Fusion Cross-Chain Supply Quote'
+);
+
+/**
+ * Build the source bridge-out leg, the destination approve + supply leg and the source trigger
+ *
+ * The destination calls read the Nexus USDC balance at execution time with a
+ * constraint above its current balance, so the MEE node holds them back until
+ * the bridged funds have arrived.
+ */
+export async function buildCrossChainSupplyRequest(
+  sdk: SDKContext,
+  legs: CrossChainLegs,
+  amount: bigint,
+  routing: FusionRouting
+): Promise<FusionExecutionRequest> {
+  log.info('Building Fusion instructions...');
+
+  const { source, destination, sourceUsdc, reserve } = legs;
+  const sourceChainId = source.config.chainId;
+  const destinationChainId = destination.config.chainId;
+  const sourceNexus = sdk.orchestrator.addressOn(sourceChainId, true);
+  const destinationNexus = sdk.orchestrator.addressOn(destinationChainId, true);
+
+  const destinationToken = new ethers.Contract(reserve.address, ERC20_ABI, destination.provider);
+  const destinationStartBalance = await destinationToken.balanceOf!(destinationNexus) as bigint;
+
+  // Source leg: bridge out whatever the trigger left after the fee
+  const bridgeInstruction = await sdk.orchestrator.buildComposable({
+    type: 'default',
+    data: {
+      abi: ERC20_ABI,
+      chainId: sourceChainId,
+      to: sourceUsdc.address,
+      functionName: 'transfer',
+      args: [
+        LOCAL_BRIDGE_BURN_ADDRESS,
+        runtimeERC20BalanceOf({ targetAddress: sourceNexus, tokenAddress: sourceUsdc.address }),
+      ],
+    },
+  });
+
+  const arrivedBalance = () => runtimeERC20BalanceOf({
+    targetAddress: destinationNexus,
+    tokenAddress: reserve.address,
+    constraints: [greaterThanOrEqualTo(destinationStartBalance + 1n)],
+  });
+
+  const approveInstruction = await sdk.orchestrator.buildComposable({
+    type: 'default',
+    data: {
+      abi: ERC20_ABI,
+      chainId: destinationChainId,
+      to: reserve.address,
+      functionName: 'approve',
+      args: [destination.config.contracts.aavePool, arrivedBalance()],
+    },
+  });
+
+  const supplyInstruction = await sdk.orchestrator.buildComposable({
+    type: 'default',
+    data: {
+      abi: AAVE_POOL_ABI,
+      chainId: destinationChainId,
+      to: destination.config.contracts.aavePool,
+      functionName: 'supply',
+      args: [
+        reserve.address,
+        arrivedBalance(),
+        routing.positionAccount,
+        0, // No referral code
+      ],
+    },
+  });
+
+  return {
+    instructions: [bridgeInstruction, approveInstruction, supplyInstruction],
+    trigger: {
+      chainId: sourceChainId,
+      tokenAddress: sourceUsdc.address,
+      amount,
+    },
+    // The fee is paid on the source chain, before bridging
+    feeToken: {
+      address: routing.feeToken,
+      chainId: sourceChainId,
+    },
+    triggerMode: routing.triggerMode,
+  };
+}
+
+async function resolveCrossChainLegs(
+  sdk: SDKContext,
+  options: AaveCrossChainSupplyOptions
+): Promise<CrossChainLegs> {
+  const destinationChainId = options.destinationChainId ?? sdk.config.chainId;
+
+  if (options.amount <= 0n) {
+    throw new TransactionError('Supply amount must be positive');
+  }
+
+  if (options.sourceChainId === destinationChainId) {
+    throw new TransactionError(
+      `Source and destination chains are both ${destinationChainId}. Use the single-chain supply flow instead.`
+    );
+  }
+
+  const source = withChain(sdk, options.sourceChainId);
+  const destination = withChain(sdk, destinationChainId);
+
+  const [sourceUsdc, reserve] = await Promise.all([
+    resolveReserve(source, 'USDC'),
+    resolveReserve(destination, 'USDC'),
+  ]);
+
+  return { source, destination, sourceUsdc, reserve };
+}
@@ -7,13 +7,35 @@
 
 import { ethers } from 'ethers';
 
-import type { SDKContext, AaveSupplyResult, TokenBalance, BalanceSnapshot } from '../types';
+import type {
+  SDKContext,
+  AaveSupplyOptions,
+  AaveSupplyResult,
+  QuotePreview,
+  QuoteTimeBounds,
+  ReserveInfo,
+  ReserveToken,
+} from '../types';
 import { log } from '../utils/logger';
-import { withErrorHandling, TransactionError, extractErrorDetails } from '../utils/errors';
+import { withErrorHandling, TransactionError, NO_RETRY } from '../utils/errors';
 import { ERC20_ABI, AAVE_POOL_ABI } from '../utils/contracts';
-import { formatTokenAmount, formatDuration } from '../utils/formatting';
+import { formatTokenAmount } from '../utils/formatting';
+import { readTokenMetadata, resolveReserve } from '../utils/reserves';
 import { initializeBiconomySDK } from '../sdk/init-sdk';
 import { ensureSufficientUSDC, } from '../infrastructure/fund-account';
+import { captureBalanceSnapshot, displayBalanceSnapshot, displayBalanceChanges } from './balances';
+import {
+  executeFusionInstructions,
+  previewFusionInstructions,
+  resolveRouting,
+  toFusionExecutionError,
+  type FusionExecutionRequest,
+  type FusionRouting,
+} from './fusion-execution';
+import { decodeSupplyEvents } from './receipt-analysis';
+
+// Supply outcome before the caller attaches balance snapshots
+type SupplyExecution = Omit<AaveSupplyResult, 'beforeBalance' | 'afterBalance'>;
 
 /**
  * Execute AAVE supply transaction using Fusion
@@ -34,9 +56,11 @@ export const executeFusionAaveDemo = withErrorHandling(
     const sdk = await initializeBiconomySDK();
     log.success('SDK initialized successfully');
 
+    const usdc = await resolveReserve(sdk, 'USDC');
+
     // Capture current account state
     log.step(2, 'Checking initial token balances');
-    const beforeBalance = await captureBalanceSnapshot(sdk);
+    const beforeBalance = await captureBalanceSnapshot(sdk, [usdc]);
     
     displayBalanceSnapshot('Initial Balances', beforeBalance);
 
@@ -44,24 +68,24 @@ export const executeFusionAaveDemo = withErrorHandling(
     log.step(3, 'Ensuring sufficient USDC balance');
     
     // Need at least 100 USDC for transaction
-    const targetUSDCAmount = BigInt('100000000'); // 100 USDC
+    const targetUSDCAmount = ethers.parseUnits('100', usdc.decimals); // 100 USDC
     await ensureSufficientUSDC(sdk, targetUSDCAmount);
     
     // Update balance after funding
-    const updatedBalance = await captureBalanceSnapshot(sdk);
+    const updatedBalance = await captureBalanceSnapshot(sdk, [usdc]);
     Object.assign(beforeBalance, updatedBalance);
     
     displayBalanceSnapshot('Updated Balances After Funding', beforeBalance);
 
     // Get the final USDC balance after funding
-    const finalUsdcBalance = beforeBalance.tokens.find(t => t.symbol === 'USDC');
+    const finalUsdcBalance = beforeBalance.tokens.find(t => t.address === usdc.address);
     if (!finalUsdcBalance) {
       throw new TransactionError(
         'USDC token not found in balance snapshot. Unable to proceed with demo.'
       );
     }
     
-    if (finalUsdcBalance.balance < BigInt('20000000')) {
+    if (finalUsdcBalance.balance < ethers.parseUnits('20', usdc.decimals)) {
       throw new TransactionError(
         'Insufficient USDC balance for demo execution. ' +
         `Current balance: ${finalUsdcBalance.formatted} USDC. ` +
@@ -72,229 +96,235 @@ export const executeFusionAaveDemo = withErrorHandling(
     // Use 50% of balance for safety
     const supplyAmount = finalUsdcBalance.balance / 2n;
     log.info('Transaction parameters calculated', {
-      supplyAmount: formatTokenAmount(supplyAmount, 6, 'USDC'),
+      supplyAmount: formatTokenAmount(supplyAmount, usdc.decimals, usdc.symbol),
       percentage: '50% of total balance',
     });
 
     // Execute atomic AAVE transaction
     log.step(4, 'Executing Fusion Supertransaction');
-    let transactionResult = await executeFusionTransaction(sdk, supplyAmount);
+    const execution = await executeFusionTransaction(
+      sdk,
+      usdc,
+      supplyAmount,
+      resolveRouting(sdk, {}, usdc.address)
+    );
 
-         // Check final state
-     log.step(5, 'Capturing final balances');
-     const afterBalance = await captureBalanceSnapshot(sdk);
-     transactionResult = { ...transactionResult, afterBalance };
+    // Check final state
+    log.step(5, 'Capturing final balances');
+    const afterBalance = await captureBalanceSnapshot(sdk, [usdc]);
+    const transactionResult: AaveSupplyResult = { ...execution, beforeBalance, afterBalance };
+    sdk.journal?.append(execution.hash, { type: 'balances', before: beforeBalance, after: afterBalance });
 
     displayBalanceSnapshot('Final Balances', afterBalance);
     displayBalanceChanges(beforeBalance, afterBalance);
 
     // Show transaction summary
-    displayTransactionSummary(transactionResult);
+    const feeToken = execution.fee && await readTokenMetadata(sdk, execution.fee.token);
+    displayTransactionSummary(transactionResult, usdc, feeToken);
 
     return transactionResult;
   },
-  'AAVE Fusion Demo'
+  'AAVE Fusion Demo',
+  NO_RETRY
 );
 
 /**
- * Execute the transaction using MEE Fusion
+ * Supply any AAVE reserve using Fusion, without the demo's funding steps
  */
-async function executeFusionTransaction(
-  sdk: SDKContext,
-  supplyAmount: bigint
-): Promise<AaveSupplyResult> {
-  const startTime = Date.now();
-
-  try {
-    log.info('Building Fusion instructions...');
-
-    // Build approve instruction
-    const approveInstruction = await sdk.orchestrator.buildComposable({
-      type: 'default',
-      data: {
-        abi: ERC20_ABI,
-        chainId: sdk.config.chainId,
-        to: sdk.config.contracts.usdc,
-        functionName: 'approve',
-        args: [sdk.config.contracts.aavePool, supplyAmount],
-      },
-    });
-
-    // Build supply instruction
-    const supplyInstruction = await sdk.orchestrator.buildComposable({
-      type: 'default',
-      data: {
-        abi: AAVE_POOL_ABI,
-        chainId: sdk.config.chainId,
-        to: sdk.config.contracts.aavePool,
-        functionName: 'supply',
-        args: [
-          sdk.config.contracts.usdc,
-          supplyAmount,
-          sdk.eoaAddress,
-          0, // No referral code
-        ],
-      },
-    });
+export const executeFusionAaveSupply = withErrorHandling(
+  async (sdk: SDKContext, options: AaveSupplyOptions): Promise<AaveSupplyResult> => {
+    if (options.amount <= 0n) {
+      throw new TransactionError('Supply amount must be positive');
+    }
 
-    const instructions = [approveInstruction, supplyInstruction];
-
-    log.info('Getting Fusion quote...');
-    const fusionQuote = await sdk.meeClient.getFusionQuote({
-      instructions,
-      trigger: {
-        chainId: sdk.config.chainId,
-        tokenAddress: sdk.config.contracts.usdc,
-        amount: supplyAmount,
-      },
-      feeToken: {
-        address: sdk.config.contracts.usdc,
-        chainId: sdk.config.chainId,
-      },
-    });
+    const reserve = await resolveReserve(sdk, options.asset);
 
-    log.info('Executing Fusion quote...');
-    const { hash } = await sdk.meeClient.executeFusionQuote({ fusionQuote });
+    log.header(`AAVE Fusion Supply (${reserve.symbol})`);
 
-    log.info('Transaction submitted', {
-      hash: hash,
-    });
+    log.step(1, 'Checking initial token balances');
+    const beforeBalance = await captureBalanceSnapshot(sdk, [reserve]);
+    displayBalanceSnapshot('Initial Balances', beforeBalance);
 
-    log.info('Waiting for transaction completion...');
-    const receipt = await sdk.meeClient.waitForSupertransactionReceipt({ hash });
+    log.step(2, 'Executing Fusion Supertransaction');
+    const execution = await executeFusionTransaction(
+      sdk,
+      reserve,
+      options.amount,
+      resolveRouting(sdk, options, reserve.address),
+      options.timeBounds
+    );
+
+    log.step(3, 'Capturing final balances');
+    const afterBalance = await captureBalanceSnapshot(sdk, [reserve]);
+    displayBalanceSnapshot('Final Balances', afterBalance);
+    displayBalanceChanges(beforeBalance, afterBalance);
+    sdk.journal?.append(execution.hash, { type: 'balances', before: beforeBalance, after: afterBalance });
 
-    const executionTime = Date.now() - startTime;
+    return { ...execution, beforeBalance, afterBalance };
+  },
+  'AAVE Fusion Supply',
+  NO_RETRY
+);
 
-    if (receipt.transactionStatus === 'FAILED' || receipt.transactionStatus === 'MINED_FAIL') {
-      // Extract detailed error information from the receipt
-      const errorDetails = extractErrorDetails(receipt);
-      throw new TransactionError(`Fusion transaction failed: ${errorDetails}`);
+/**
+ * Quote a supply and break down its fee, trigger, calldata and gas without executing it
+ */
+export const quoteFusionAaveSupply = withErrorHandling(
+  async (sdk: SDKContext, options: AaveSupplyOptions): Promise<QuotePreview> => {
+    if (options.amount <= 0n) {
+      throw new TransactionError('Supply amount must be positive');
     }
 
-    log.success('Fusion transaction completed', {
-      executionTime: formatDuration(executionTime),
-    });
+    const reserve = await resolveReserve(sdk, options.asset);
 
-    return {
-      hash: hash as `0x${string}`,
-      success: true,
-      supplyAmount,
-      aTokensReceived: supplyAmount, // TODO: Calculate actual aTokens from receipt
-      beforeBalance: {} as BalanceSnapshot, // Populated by caller
-      afterBalance: {} as BalanceSnapshot,  // Populated by caller
-    };
+    log.header(`AAVE Fusion Supply Dry Run (${reserve.symbol})`);
 
-  } catch (error) {
-    // Extract error details for logging
-    let errorMessage = 'Unknown error';
-    
-    if (error instanceof Error) {
-      errorMessage = error.message;
-    } else if (typeof error === 'object' && error !== null) {
-      // Parse error object for details
-      const detailedError = extractErrorDetails(error);
-      errorMessage = detailedError || JSON.stringify(error);
-    }
-    
-    throw new TransactionError(`Fusion execution failed: ${errorMessage}`);
-  }
-}
+    const request = await buildSupplyRequest(
+      sdk,
+      reserve,
+      options.amount,
+      resolveRouting(sdk, options, reserve.address),
+      options.timeBounds
+    );
+
+    return await previewFusionInstructions(sdk, request);
+  },
+  'AAVE Fusion Supply Quote'
+);
 
 /**
- * Capture current token balances
+ * Build the atomic approve + supply instructions and their Fusion trigger
  */
-async function captureBalanceSnapshot(sdk: SDKContext): Promise<BalanceSnapshot> {
-  const blockNumber = await sdk.provider.getBlockNumber();
-  
-  // Get USDC balance
-  const usdcContract = new ethers.Contract(
-    sdk.config.contracts.usdc,
-    ERC20_ABI,
-    sdk.provider
-  );
-  const usdcBalance = await usdcContract.balanceOf!(sdk.eoaAddress) as bigint;
-
-  // Check aUSDC balance
-  const aUsdcContract = new ethers.Contract(
-    sdk.config.contracts.aUsdc,
-    ERC20_ABI,
-    sdk.provider
-  );
-  const aUsdcBalance = await aUsdcContract.balanceOf!(sdk.eoaAddress) as bigint;
-
-  const tokens: TokenBalance[] = [
-    {
-      address: sdk.config.contracts.usdc,
-      symbol: 'USDC',
-      decimals: 6,
-      balance: usdcBalance,
-      formatted: ethers.formatUnits(usdcBalance, 6),
+export async function buildSupplyRequest(
+  sdk: SDKContext,
+  reserve: ReserveInfo,
+  supplyAmount: bigint,
+  routing: FusionRouting,
+  timeBounds?: QuoteTimeBounds
+): Promise<FusionExecutionRequest> {
+  log.info('Building Fusion instructions...');
+
+  // Build approve instruction
+  const approveInstruction = await sdk.orchestrator.buildComposable({
+    type: 'default',
+    data: {
+      abi: ERC20_ABI,
+      chainId: sdk.config.chainId,
+      to: reserve.address,
+      functionName: 'approve',
+      args: [sdk.config.contracts.aavePool, supplyAmount],
     },
-    {
-      address: sdk.config.contracts.aUsdc,
-      symbol: 'aUSDC',
-      decimals: 6,
-      balance: aUsdcBalance,
-      formatted: ethers.formatUnits(aUsdcBalance, 6),
+  });
+
+  // Build supply instruction
+  const supplyInstruction = await sdk.orchestrator.buildComposable({
+    type: 'default',
+    data: {
+      abi: AAVE_POOL_ABI,
+      chainId: sdk.config.chainId,
+      to: sdk.config.contracts.aavePool,
+      functionName: 'supply',
+      args: [
+        reserve.address,
+        supplyAmount,
+        routing.positionAccount,
+        0, // No referral code
+      ],
     },
-  ];
+  });
+
+  const instructions = [approveInstruction, supplyInstruction];
 
   return {
-    timestamp: Date.now(),
-    blockNumber,
-    tokens,
+    instructions,
+    trigger: {
+      chainId: sdk.config.chainId,
+      tokenAddress: reserve.address,
+      amount: supplyAmount,
+    },
+    feeToken: {
+      address: routing.feeToken,
+      chainId: sdk.config.chainId,
+    },
+    triggerMode: routing.triggerMode,
+    ...(timeBounds && { timeBounds }),
   };
 }
 
 /**
- * Display balance snapshot in a simple format
+ * Execute the approve + supply supertransaction and decode the aTokens minted
  */
-function displayBalanceSnapshot(title: string, snapshot: BalanceSnapshot): void {
-  console.log(`\n${title}:`);
-  console.log(`  Block: ${snapshot.blockNumber}`);
-  console.log(`  Time: ${new Date(snapshot.timestamp).toLocaleTimeString()}`);
-  
-  snapshot.tokens.forEach(token => {
-    console.log(`  ${token.symbol}: ${token.formatted} ${token.symbol}`);
-  });
-}
+export async function executeFusionTransaction(
+  sdk: SDKContext,
+  reserve: ReserveInfo,
+  supplyAmount: bigint,
+  routing: FusionRouting,
+  timeBounds?: QuoteTimeBounds
+): Promise<SupplyExecution> {
+  try {
+    const request = await buildSupplyRequest(sdk, reserve, supplyAmount, routing, timeBounds);
+    const { hash, triggerMode, receipt, summary } = await executeFusionInstructions(sdk, request);
+
+    const supplyEvents = decodeSupplyEvents(receipt, {
+      pool: sdk.config.contracts.aavePool,
+      asset: reserve.address,
+      aToken: reserve.aToken.address,
+      onBehalfOf: routing.positionAccount,
+    });
 
-/**
- * Display balance changes between two snapshots
- */
-function displayBalanceChanges(before: BalanceSnapshot, after: BalanceSnapshot): void {
-  console.log(`\nBalance Changes:`);
-  
-  before.tokens.forEach(beforeToken => {
-    const afterToken = after.tokens.find(t => t.symbol === beforeToken.symbol);
-    if (!afterToken) return;
-
-    const change = afterToken.balance - beforeToken.balance;
-    const prefix = change >= 0n ? '+' : '';
-    const changeFormatted = `${prefix}${ethers.formatUnits(change, beforeToken.decimals)}`;
-
-    console.log(`  ${beforeToken.symbol}: ${changeFormatted} ${beforeToken.symbol}`);
-  });
+    if (!supplyEvents) {
+      throw new TransactionError(
+        `Supertransaction ${hash} succeeded but no ${reserve.aToken.symbol} mint was found in its receipts`
+      );
+    }
+
+    return {
+      hash,
+      success: true,
+      triggerMode,
+      asset: reserve.address,
+      symbol: reserve.symbol,
+      decimals: reserve.decimals,
+      supplyAmount,
+      aTokensReceived: supplyEvents.aTokensReceived,
+      interestAccrued: supplyEvents.interestAccrued,
+      liquidityIndex: supplyEvents.liquidityIndex,
+      ...summary,
+    };
+
+  } catch (error) {
+    throw toFusionExecutionError(error);
+  }
 }
 
 /**
  * Display comprehensive transaction summary
  */
-function displayTransactionSummary(result: AaveSupplyResult): void {
+function displayTransactionSummary(
+  result: AaveSupplyResult,
+  reserve: ReserveInfo,
+  feeToken: ReserveToken | undefined
+): void {
   if (result.success) {
     log.success('Transaction Successful!', {
-      supplyAmount: formatTokenAmount(result.supplyAmount, 6, 'USDC'),
-      aTokensReceived: formatTokenAmount(result.aTokensReceived, 6, 'aUSDC'),
+      supplyAmount: formatTokenAmount(result.supplyAmount, reserve.decimals, reserve.symbol),
+      aTokensReceived: formatTokenAmount(result.aTokensReceived, reserve.aToken.decimals, reserve.aToken.symbol),
+      interestAccrued: formatTokenAmount(result.interestAccrued, reserve.aToken.decimals, reserve.aToken.symbol),
+      feeCharged: result.fee && feeToken
+        ? formatTokenAmount(result.fee.charged, feeToken.decimals, feeToken.symbol)
+        : 'n/a',
+      gasUsed: result.gasUsed?.toString() ?? 'n/a',
       transactionHash: result.hash,
     });
 
-    console.log('\nKey Features Demonstrated:');
-    console.log('  • External wallet with smart account features');
-    console.log('  • Automatic USDC funding when balance is insufficient');
-    console.log('  • Atomic approve + supply in one transaction');
-    console.log('  • Gas fees paid in USDC (not ETH)');
-    console.log('  • Comprehensive error handling');
-    console.log('  • Full TypeScript type safety');
+    log.section('Key Features Demonstrated', [
+      'External wallet with smart account features',
+      'Automatic USDC funding when balance is insufficient',
+      'Atomic approve + supply in one transaction',
+      'Gas fees paid in USDC (not ETH)',
+      'Comprehensive error handling',
+      'Full TypeScript type safety',
+    ]);
 
     log.success('AAVE Fusion Demo completed successfully!');
     log.info('Pro tip: The demo automatically funded your account with USDC when needed!');
@@ -0,0 +1,310 @@
+/**
+ * @fileoverview AAVE repay flow using Biconomy MEE Fusion
+ *
+ * Pulls the borrowed asset from the EOA as the Fusion trigger and repays the
+ * EOA's debt with atomic approve + Pool.repay instructions.
+ */
+
+import { runtimeERC20BalanceOf } from '@biconomy/abstractjs';
+import { ethers } from 'ethers';
+import type { Address } from 'viem';
+
+import type {
+  SDKContext,
+  AaveRepayOptions,
+  AaveRepayResult,
+  InterestRateMode,
+  QuotePreview,
+  ReserveInfo,
+} from '../types';
+import { log } from '../utils/logger';
+import { withErrorHandling, TransactionError, NO_RETRY } from '../utils/errors';
+import { ERC20_ABI, AAVE_POOL_ABI, AAVE_DEBT_TOKEN_ABI } from '../utils/contracts';
+import { formatTokenAmount } from '../utils/formatting';
+import { resolveReserve, readTokenMetadata } from '../utils/reserves';
+import { getDebtTokenAddress, BASIS_POINTS, INTEREST_RATE_MODE_IDS } from './aave-account';
+import { captureTokenSnapshot } from './balances';
+import {
+  executeFusionInstructions,
+  previewFusionInstructions,
+  resolveRouting,
+  toFusionExecutionError,
+  type FusionExecutionOutcome,
+  type FusionExecutionRequest,
+  type FusionRouting,
+} from './fusion-execution';
+
+// Default headroom pulled in `all` mode for interest accrued before execution
+export const DEFAULT_INTEREST_BUFFER_BPS = 10;
+
+/**
+ * Repay AAVE debt of the position owner (or `options.recipient`) using Fusion
+ *
+ * In `all` mode the current debt token balance plus an interest buffer is
+ * pulled; the Pool caps repayment at the live debt and any dust left in the
+ * Nexus account is returned to the EOA in the same supertransaction.
+ */
+export const executeFusionAaveRepay = withErrorHandling(
+  async (sdk: SDKContext, options: AaveRepayOptions): Promise<AaveRepayResult> => {
+    const interestRateMode = options.interestRateMode ?? 'variable';
+
+    log.header('AAVE Fusion Repay');
+
+    log.step(1, 'Reading outstanding debt');
+    const reserve = await resolveReserve(sdk, options.asset);
+    const routing = resolveRouting(sdk, options, reserve.address);
+    const { symbol, decimals } = reserve;
+    const debtToken = getDebtTokenAddress(reserve, interestRateMode);
+
+    const debtContract = new ethers.Contract(debtToken, AAVE_DEBT_TOKEN_ABI, sdk.provider);
+    const debtBefore = await debtContract.balanceOf!(routing.positionAccount) as bigint;
+    const tracked = [reserve, reserve.aToken, await readTokenMetadata(sdk, debtToken)];
+    const beforeBalance = await captureTokenSnapshot(sdk, tracked);
+
+    const amountPulled = resolveRepayAmount(options, reserve, interestRateMode, debtBefore);
+    log.info('Repay parameters calculated', {
+      mode: options.mode,
+      debt: formatTokenAmount(debtBefore, decimals, symbol),
+      amountPulled: formatTokenAmount(amountPulled, decimals, symbol),
+    });
+
+    log.step(2, 'Executing Fusion Supertransaction');
+    const { hash, triggerMode, summary } = await executeRepayTransaction(
+      sdk,
+      reserve,
+      options,
+      interestRateMode,
+      amountPulled,
+      routing
+    );
+
+    log.step(3, 'Reading remaining debt');
+    const debtAfter = await debtContract.balanceOf!(routing.positionAccount) as bigint;
+    const afterBalance = await captureTokenSnapshot(sdk, tracked);
+    sdk.journal?.append(hash, { type: 'balances', before: beforeBalance, after: afterBalance });
+
+    const result: AaveRepayResult = {
+      hash,
+      success: true,
+      triggerMode,
+      ...summary,
+      asset: reserve.address,
+      symbol,
+      decimals,
+      mode: options.mode,
+      interestRateMode,
+      amountPulled,
+      debtBefore,
+      debtAfter,
+    };
+
+    log.success('Repay Successful!', {
+      debtBefore: formatTokenAmount(debtBefore, decimals, symbol),
+      debtAfter: formatTokenAmount(debtAfter, decimals, symbol),
+      transactionHash: result.hash,
+    });
+
+    return result;
+  },
+  'AAVE Fusion Repay',
+  NO_RETRY
+);
+
+/**
+ * Quote a repay and break down its fee, trigger, calldata and gas without executing it
+ */
+export const quoteFusionAaveRepay = withErrorHandling(
+  async (sdk: SDKContext, options: AaveRepayOptions): Promise<QuotePreview> => {
+    const interestRateMode = options.interestRateMode ?? 'variable';
+    const reserve = await resolveReserve(sdk, options.asset);
+    const routing = resolveRouting(sdk, options, reserve.address);
+
+    log.header('AAVE Fusion Repay Dry Run');
+
+    const debtContract = new ethers.Contract(
+      getDebtTokenAddress(reserve, interestRateMode),
+      AAVE_DEBT_TOKEN_ABI,
+      sdk.provider
+    );
+    const debt = await debtContract.balanceOf!(routing.positionAccount) as bigint;
+    const amountPulled = resolveRepayAmount(options, reserve, interestRateMode, debt);
+
+    const request = await buildRepayRequest(sdk, reserve, options, interestRateMode, amountPulled, routing);
+    return await previewFusionInstructions(sdk, request);
+  },
+  'AAVE Fusion Repay Quote'
+);
+
+/**
+ * Work out how much of the asset the trigger should pull from the EOA
+ */
+export function resolveRepayAmount(
+  options: AaveRepayOptions,
+  reserve: ReserveInfo,
+  interestRateMode: InterestRateMode,
+  debt: bigint
+): bigint {
+  const { symbol, decimals } = reserve;
+
+  if (debt === 0n) {
+    throw new TransactionError(`No ${interestRateMode} ${symbol} debt to repay`);
+  }
+
+  if (options.mode === 'all') {
+    const bufferBps = BigInt(options.interestBufferBps ?? DEFAULT_INTEREST_BUFFER_BPS);
+    const buffer = (debt * bufferBps) / BASIS_POINTS;
+    // Always pull at least one extra unit so rounding never leaves debt behind
+    return debt + (buffer > 0n ? buffer : 1n);
+  }
+
+  if (options.amount === undefined || options.amount <= 0n) {
+    throw new TransactionError('Partial repay requires a positive amount');
+  }
+
+  if (options.amount > debt) {
+    throw new TransactionError(
+      `Repay amount ${formatTokenAmount(options.amount, decimals, symbol)} exceeds debt of ` +
+      `${formatTokenAmount(debt, decimals, symbol)}. Use 'all' mode to clear the position.`
+    );
+  }
+
+  return options.amount;
+}
+
+/**
+ * Execute the repay supertransaction
+ */
+async function executeRepayTransaction(
+  sdk: SDKContext,
+  reserve: ReserveInfo,
+  options: AaveRepayOptions,
+  interestRateMode: InterestRateMode,
+  amountPulled: bigint,
+  routing: FusionRouting
+): Promise<FusionExecutionOutcome> {
+  try {
+    const request = await buildRepayRequest(sdk, reserve, options, interestRateMode, amountPulled, routing);
+    return await executeFusionInstructions(sdk, request);
+
+  } catch (error) {
+    throw toFusionExecutionError(error);
+  }
+}
+
+/**
+ * Build the approve + repay instructions (plus dust sweep in `all` mode) and their trigger
+ */
+export async function buildRepayRequest(
+  sdk: SDKContext,
+  reserve: ReserveInfo,
+  options: AaveRepayOptions,
+  interestRateMode: InterestRateMode,
+  amountPulled: bigint,
+  routing: FusionRouting
+): Promise<FusionExecutionRequest> {
+  log.info('Building Fusion instructions...');
+
+  const nexusAddress = sdk.orchestrator.addressOn(sdk.config.chainId, true);
+  if (options.mode === 'all') {
+    await assertNoNexusBalance(sdk, reserve, nexusAddress);
+  }
+
+  // Repaying on behalf of another address cannot use AAVE's max sentinel,
+  // so `all` mode repays with whatever the Nexus account holds at execution
+  // and sweeps the rest back, hence the check above.
+  const repayAmount = options.mode === 'all'
+    ? runtimeERC20BalanceOf({ targetAddress: nexusAddress, tokenAddress: reserve.address })
+    : amountPulled;
+
+  const approveInstruction = await sdk.orchestrator.buildComposable({
+    type: 'default',
+    data: {
+      abi: ERC20_ABI,
+      chainId: sdk.config.chainId,
+      to: reserve.address,
+      functionName: 'approve',
+      args: [sdk.config.contracts.aavePool, repayAmount],
+    },
+  });
+
+  const repayInstruction = await sdk.orchestrator.buildComposable({
+    type: 'default',
+    data: {
+      abi: AAVE_POOL_ABI,
+      chainId: sdk.config.chainId,
+      to: sdk.config.contracts.aavePool,
+      functionName: 'repay',
+      args: [
+        reserve.address,
+        repayAmount,
+        INTEREST_RATE_MODE_IDS[interestRateMode],
+        routing.positionAccount,
+      ],
+    },
+  });
+
+  const instructions = [approveInstruction, repayInstruction];
+
+  if (options.mode === 'all') {
+    // Return the unused interest buffer to the EOA
+    instructions.push(await sdk.orchestrator.buildComposable({
+      type: 'default',
+      data: {
+        abi: ERC20_ABI,
+        chainId: sdk.config.chainId,
+        to: reserve.address,
+        functionName: 'transfer',
+        args: [
+          sdk.eoaAddress,
+          runtimeERC20BalanceOf({ targetAddress: nexusAddress, tokenAddress: reserve.address }),
+        ],
+      },
+    }));
+
+    // Clear the leftover allowance; tokens like USDT reject non-zero → non-zero approvals
+    instructions.push(await sdk.orchestrator.buildComposable({
+      type: 'default',
+      data: {
+        abi: ERC20_ABI,
+        chainId: sdk.config.chainId,
+        to: reserve.address,
+        functionName: 'approve',
+        args: [sdk.config.contracts.aavePool, 0n],
+      },
+    }));
+  }
+
+  return {
+    instructions,
+    trigger: {
+      chainId: sdk.config.chainId,
+      tokenAddress: reserve.address,
+      amount: amountPulled,
+    },
+    feeToken: {
+      address: routing.feeToken,
+      chainId: sdk.config.chainId,
+    },
+    triggerMode: routing.triggerMode,
+  };
+}
+
+/**
+ * Refuse `all` mode repays while the Nexus account already holds the asset
+ *
+ * The repay and the sweep both use the Nexus account's whole balance, so those
+ * tokens would be spent on the debt or sent to the EOA along with the pulled ones.
+ */
+async function assertNoNexusBalance(sdk: SDKContext, reserve: ReserveInfo, nexusAddress: Address): Promise<void> {
+  const { symbol, decimals } = reserve;
+  const contract = new ethers.Contract(reserve.address, ERC20_ABI, sdk.provider);
+  const nexusBalance = await contract.balanceOf!(nexusAddress) as bigint;
+
+  if (nexusBalance > 0n) {
+    throw new TransactionError(
+      `Nexus account ${nexusAddress} already holds ` +
+      `${formatTokenAmount(nexusBalance, decimals, symbol)}, which this repay would spend or sweep too. ` +
+      'Move them to the EOA first, or repay a fixed `--amount` instead.'
+    );
+  }
+}
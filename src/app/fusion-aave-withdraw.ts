@@ -0,0 +1,270 @@
+/**
+ * @fileoverview AAVE withdraw flow using Biconomy MEE Fusion
+ *
+ * Pulls the reserve's aToken (aUSDC by default) from the EOA as the Fusion
+ * trigger and redeems it through Pool.withdraw, sending the underlying back
+ * to the EOA or `options.recipient`.
+ */
+
+import { runtimeERC20BalanceOf } from '@biconomy/abstractjs';
+import { ethers } from 'ethers';
+import { maxUint256, type Address } from 'viem';
+
+import type {
+  SDKContext,
+  AaveWithdrawOptions,
+  AaveWithdrawResult,
+  QuotePreview,
+  ReserveInfo,
+} from '../types';
+import { log } from '../utils/logger';
+import { withErrorHandling, TransactionError, NO_RETRY } from '../utils/errors';
+import { AAVE_POOL_ABI, ERC20_ABI } from '../utils/contracts';
+import { formatTokenAmount } from '../utils/formatting';
+import { resolveReserve } from '../utils/reserves';
+import {
+  captureBalanceSnapshot,
+  displayBalanceSnapshot,
+  displayBalanceChanges,
+  getSnapshotBalance,
+} from './balances';
+import {
+  assertEoaPositionOwner,
+  executeFusionInstructions,
+  previewFusionInstructions,
+  resolveRouting,
+  toFusionExecutionError,
+  type FusionExecutionOutcome,
+  type FusionExecutionRequest,
+} from './fusion-execution';
+
+/**
+ * Redeem aTokens back to the underlying asset using Fusion
+ *
+ * In `partial` mode exactly `amount` aTokens are pulled from the EOA; in `max`
+ * mode the whole aToken balance is pulled and the fee is taken out of it.
+ */
+export const executeFusionAaveWithdraw = withErrorHandling(
+  async (
+    sdk: SDKContext,
+    options: AaveWithdrawOptions = { mode: 'max' }
+  ): Promise<AaveWithdrawResult> => {
+    assertEoaPositionOwner(sdk, options, 'Withdraw');
+    const reserve = await resolveReserve(sdk, options.asset ?? 'USDC');
+    const { aToken } = reserve;
+
+    log.header(`AAVE Fusion Withdraw (${reserve.symbol})`);
+
+    log.step(1, `Checking ${aToken.symbol} position`);
+    const beforeBalance = await captureBalanceSnapshot(sdk, [reserve]);
+    displayBalanceSnapshot('Initial Balances', beforeBalance);
+
+    const aTokenBalance = getSnapshotBalance(beforeBalance, aToken.address);
+    const requestedAmount = resolveWithdrawAmount(options, reserve, aTokenBalance);
+    log.info('Withdraw parameters calculated', {
+      mode: options.mode,
+      requestedAmount: formatTokenAmount(requestedAmount, aToken.decimals, aToken.symbol),
+      position: formatTokenAmount(aTokenBalance, aToken.decimals, aToken.symbol),
+    });
+
+    log.step(2, 'Executing Fusion Supertransaction');
+    const { hash, triggerMode, summary } = await executeWithdrawTransaction(sdk, reserve, options, requestedAmount);
+
+    log.step(3, 'Capturing final balances');
+    const afterBalance = await captureBalanceSnapshot(sdk, [reserve]);
+    displayBalanceSnapshot('Final Balances', afterBalance);
+    displayBalanceChanges(beforeBalance, afterBalance);
+    sdk.journal?.append(hash, { type: 'balances', before: beforeBalance, after: afterBalance });
+
+    const result: AaveWithdrawResult = {
+      hash,
+      success: true,
+      triggerMode,
+      ...summary,
+      asset: reserve.address,
+      symbol: reserve.symbol,
+      decimals: reserve.decimals,
+      mode: options.mode,
+      requestedAmount,
+      aTokensRedeemed: aTokenBalance - getSnapshotBalance(afterBalance, aToken.address),
+      underlyingReceived:
+        getSnapshotBalance(afterBalance, reserve.address) -
+        getSnapshotBalance(beforeBalance, reserve.address),
+      beforeBalance,
+      afterBalance,
+    };
+
+    log.success('Withdraw Successful!', {
+      aTokensRedeemed: formatTokenAmount(result.aTokensRedeemed, aToken.decimals, aToken.symbol),
+      underlyingReceived: formatTokenAmount(result.underlyingReceived, reserve.decimals, reserve.symbol),
+      transactionHash: result.hash,
+    });
+
+    return result;
+  },
+  'AAVE Fusion Withdraw',
+  NO_RETRY
+);
+
+/**
+ * Quote a withdraw and break down its fee, trigger, calldata and gas without executing it
+ */
+export const quoteFusionAaveWithdraw = withErrorHandling(
+  async (
+    sdk: SDKContext,
+    options: AaveWithdrawOptions = { mode: 'max' }
+  ): Promise<QuotePreview> => {
+    assertEoaPositionOwner(sdk, options, 'Withdraw');
+    const reserve = await resolveReserve(sdk, options.asset ?? 'USDC');
+
+    log.header(`AAVE Fusion Withdraw Dry Run (${reserve.symbol})`);
+
+    const snapshot = await captureBalanceSnapshot(sdk, [reserve]);
+    const requestedAmount = resolveWithdrawAmount(
+      options,
+      reserve,
+      getSnapshotBalance(snapshot, reserve.aToken.address)
+    );
+
+    const request = await buildWithdrawRequest(sdk, reserve, options, requestedAmount);
+    return await previewFusionInstructions(sdk, request);
+  },
+  'AAVE Fusion Withdraw Quote'
+);
+
+/**
+ * Validate the requested mode against the current aToken balance
+ */
+function resolveWithdrawAmount(
+  options: AaveWithdrawOptions,
+  reserve: ReserveInfo,
+  aTokenBalance: bigint
+): bigint {
+  const { aToken } = reserve;
+
+  if (aTokenBalance === 0n) {
+    throw new TransactionError(
+      `No ${aToken.symbol} position to withdraw. Supply ${reserve.symbol} to AAVE first.`
+    );
+  }
+
+  if (options.mode === 'max') {
+    return aTokenBalance;
+  }
+
+  if (options.amount === undefined || options.amount <= 0n) {
+    throw new TransactionError('Partial withdraw requires a positive amount');
+  }
+
+  if (options.amount > aTokenBalance) {
+    throw new TransactionError(
+      `Withdraw amount exceeds ${aToken.symbol} position. ` +
+      `Requested: ${formatTokenAmount(options.amount, aToken.decimals, aToken.symbol)}, ` +
+      `available: ${formatTokenAmount(aTokenBalance, aToken.decimals, aToken.symbol)}`
+    );
+  }
+
+  return options.amount;
+}
+
+/**
+ * Execute the withdraw supertransaction
+ */
+async function executeWithdrawTransaction(
+  sdk: SDKContext,
+  reserve: ReserveInfo,
+  options: AaveWithdrawOptions,
+  requestedAmount: bigint
+): Promise<FusionExecutionOutcome> {
+  try {
+    const request = await buildWithdrawRequest(sdk, reserve, options, requestedAmount);
+    return await executeFusionInstructions(sdk, request);
+
+  } catch (error) {
+    throw toFusionExecutionError(error);
+  }
+}
+
+/**
+ * Build the Pool.withdraw instruction and its aToken Fusion trigger
+ */
+export async function buildWithdrawRequest(
+  sdk: SDKContext,
+  reserve: ReserveInfo,
+  options: AaveWithdrawOptions,
+  requestedAmount: bigint
+): Promise<FusionExecutionRequest> {
+  log.info('Building Fusion instructions...');
+
+  const routing = resolveRouting(sdk, options, reserve.aToken.address);
+  const nexusAddress = sdk.orchestrator.addressOn(sdk.config.chainId, true);
+  await assertNoNexusATokens(sdk, reserve, nexusAddress);
+
+  // aToken transfers can round down by a wei, so partial withdrawals redeem
+  // whatever actually arrived in the Nexus account; max uses AAVE's sentinel.
+  // Both redeem the Nexus account's whole balance, hence the check above.
+  const withdrawAmount = options.mode === 'max'
+    ? maxUint256
+    : runtimeERC20BalanceOf({
+        targetAddress: nexusAddress,
+        tokenAddress: reserve.aToken.address,
+      });
+
+  const withdrawInstruction = await sdk.orchestrator.buildComposable({
+    type: 'default',
+    data: {
+      abi: AAVE_POOL_ABI,
+      chainId: sdk.config.chainId,
+      to: sdk.config.contracts.aavePool,
+      functionName: 'withdraw',
+      args: [
+        reserve.address,
+        withdrawAmount,
+        routing.recipient,
+      ],
+    },
+  });
+
+  const trigger = options.mode === 'max'
+    ? {
+        chainId: sdk.config.chainId,
+        tokenAddress: reserve.aToken.address,
+        useMaxAvailableFunds: true as const,
+      }
+    : {
+        chainId: sdk.config.chainId,
+        tokenAddress: reserve.aToken.address,
+        amount: requestedAmount,
+      };
+
+  return {
+    instructions: [withdrawInstruction],
+    trigger,
+    // Fees are deducted from the pulled aTokens, so the trigger token pays
+    feeToken: {
+      address: routing.feeToken,
+      chainId: sdk.config.chainId,
+    },
+    triggerMode: routing.triggerMode,
+  };
+}
+
+/**
+ * Refuse to withdraw while the Nexus account holds aTokens of the reserve itself
+ *
+ * The withdraw redeems everything the Nexus account holds, so those aTokens
+ * would be redeemed to the recipient along with the ones pulled from the EOA.
+ */
+async function assertNoNexusATokens(sdk: SDKContext, reserve: ReserveInfo, nexusAddress: Address): Promise<void> {
+  const { aToken } = reserve;
+  const contract = new ethers.Contract(aToken.address, ERC20_ABI, sdk.provider);
+  const nexusBalance = await contract.balanceOf!(nexusAddress) as bigint;
+
+  if (nexusBalance > 0n) {
+    throw new TransactionError(
+      `Nexus account ${nexusAddress} already holds ` +
+      `${formatTokenAmount(nexusBalance, aToken.decimals, aToken.symbol)}, which this withdraw would redeem too. ` +
+      'Move them to the EOA with `migrate --to eoa` first.'
+    );
+  }
+}
@@ -0,0 +1,770 @@
+/**
+ * @fileoverview Compound v3 (Comet) supply, withdraw, borrow and repay using Biconomy MEE Fusion
+ *
+ * Supply and repay pull the asset from the EOA as the Fusion trigger, like the
+ * AAVE flows. A Comet position is not a permit token and Comet only accepts
+ * all-or-nothing approvals, so withdraw and borrow are triggered by the EOA's
+ * `Comet.allow(nexus, true)` call instead; the Nexus account then withdraws
+ * from the EOA's position. The permission stays until the EOA revokes it.
+ */
+
+import { runtimeERC20BalanceOf } from '@biconomy/abstractjs';
+import { ethers } from 'ethers';
+import { encodeFunctionData, maxUint256, type Address } from 'viem';
+
+import type {
+  SDKContext,
+  CometAccountData,
+  CometAsset,
+  CometMarket,
+  LendingBorrowOptions,
+  LendingBorrowResult,
+  LendingRepayOptions,
+  LendingRepayResult,
+  LendingSupplyOptions,
+  LendingSupplyResult,
+  LendingWithdrawOptions,
+  LendingWithdrawResult,
+  QuotePreview,
+  QuoteTimeBounds,
+  RepayMode,
+  WithdrawMode,
+} from '../types';
+import { log } from '../utils/logger';
+import { withErrorHandling, TransactionError, NO_RETRY } from '../utils/errors';
+import { ERC20_ABI, COMPOUND_COMET_ABI } from '../utils/contracts';
+import { formatTokenAmount } from '../utils/formatting';
+import { findCometAsset, resolveCometMarket } from '../utils/compound-markets';
+import { readTokenMetadata } from '../utils/reserves';
+import { BASIS_POINTS, formatHealthFactor, healthFactorToWad } from './aave-account';
+import {
+  projectCometHealthFactor,
+  readCometAccount,
+  readCometBalance,
+  readCometDebt,
+  toCometAccountData,
+} from './compound-account';
+import { DEFAULT_INTEREST_BUFFER_BPS } from './fusion-aave-repay';
+import { captureTokenSnapshot } from './balances';
+import {
+  assertEoaPositionOwner,
+  executeFusionInstructions,
+  previewFusionInstructions,
+  resolveRouting,
+  toFusionExecutionError,
+  type FusionExecutionOutcome,
+  type FusionExecutionRequest,
+  type FusionRouting,
+} from './fusion-execution';
+
+interface CompoundBorrowAssessment {
+  readonly accountBefore: CometAccountData;
+  readonly projectedHealthFactor: bigint;
+}
+
+/**
+ * Supply the base asset or a collateral asset to Comet using Fusion
+ */
+export const executeCompoundSupply = withErrorHandling(
+  async (sdk: SDKContext, options: LendingSupplyOptions): Promise<LendingSupplyResult> => {
+    if (options.amount <= 0n) {
+      throw new TransactionError('Supply amount must be positive');
+    }
+
+    const market = await resolveCometMarket(sdk);
+    const asset = findCometAsset(market, options.asset);
+    const routing = resolveRouting(sdk, options, asset.address);
+
+    log.header(`Compound Fusion Supply (${asset.symbol})`);
+
+    log.step(1, `Reading ${asset.symbol} position`);
+    const positionBefore = await readCometBalance(sdk, market, asset, routing.positionAccount);
+
+    log.step(2, 'Executing Fusion Supertransaction');
+    const { hash, triggerMode, summary } = await executeCompoundRequest(sdk, market, asset, () =>
+      buildCompoundSupplyRequest(sdk, market, asset, options.amount, routing, options.timeBounds)
+    );
+
+    log.step(3, `Reading final ${asset.symbol} position`);
+    const positionAfter = await readCometBalance(sdk, market, asset, routing.positionAccount);
+
+    const result: LendingSupplyResult = {
+      hash,
+      success: true,
+      triggerMode,
+      ...summary,
+      protocol: 'compound',
+      asset: asset.address,
+      symbol: asset.symbol,
+      decimals: asset.decimals,
+      supplyAmount: options.amount,
+      positionReceived: positionAfter - positionBefore,
+    };
+
+    log.success('Supply Successful!', {
+      supplied: formatTokenAmount(options.amount, asset.decimals, asset.symbol),
+      positionReceived: formatTokenAmount(result.positionReceived, asset.decimals, asset.symbol),
+      transactionHash: hash,
+    });
+
+    return result;
+  },
+  'Compound Fusion Supply',
+  NO_RETRY
+);
+
+/**
+ * Quote a Comet supply and break down its fee, trigger, calldata and gas without executing it
+ */
+export const quoteCompoundSupply = withErrorHandling(
+  async (sdk: SDKContext, options: LendingSupplyOptions): Promise<QuotePreview> => {
+    if (options.amount <= 0n) {
+      throw new TransactionError('Supply amount must be positive');
+    }
+
+    const market = await resolveCometMarket(sdk);
+    const asset = findCometAsset(market, options.asset);
+
+    log.header(`Compound Fusion Supply Dry Run (${asset.symbol})`);
+
+    const request = await buildCompoundSupplyRequest(
+      sdk,
+      market,
+      asset,
+      options.amount,
+      resolveRouting(sdk, options, asset.address),
+      options.timeBounds
+    );
+    return await previewFusionInstructions(sdk, request);
+  },
+  'Compound Fusion Supply Quote'
+);
+
+/**
+ * Withdraw supplied base asset or collateral from the EOA's Comet position using Fusion
+ */
+export const executeCompoundWithdraw = withErrorHandling(
+  async (
+    sdk: SDKContext,
+    options: LendingWithdrawOptions = { mode: 'max' }
+  ): Promise<LendingWithdrawResult> => {
+    assertEoaPositionOwner(sdk, options, 'Withdraw');
+    const market = await resolveCometMarket(sdk);
+    const asset = findCometAsset(market, options.asset ?? market.base.symbol);
+    const routing = resolveRouting(sdk, options, sdk.config.contracts.usdc);
+
+    log.header(`Compound Fusion Withdraw (${asset.symbol})`);
+
+    log.step(1, `Checking ${asset.symbol} position`);
+    const [position, underlyingBefore] = await Promise.all([
+      readCometBalance(sdk, market, asset, sdk.eoaAddress),
+      readTokenBalance(sdk, asset.address, routing.recipient),
+    ]);
+    const requestedAmount = resolveCompoundWithdrawAmount(options, asset, position);
+    log.info('Withdraw parameters calculated', {
+      mode: options.mode,
+      requestedAmount: formatTokenAmount(requestedAmount, asset.decimals, asset.symbol),
+      position: formatTokenAmount(position, asset.decimals, asset.symbol),
+    });
+
+    log.step(2, 'Executing Fusion Supertransaction');
+    const { hash, triggerMode, summary } = await executeCompoundRequest(sdk, market, asset, () =>
+      buildCompoundWithdrawRequest(sdk, market, asset, options.mode, requestedAmount, routing)
+    );
+
+    log.step(3, 'Reading final balances');
+    const underlyingAfter = await readTokenBalance(sdk, asset.address, routing.recipient);
+
+    const result: LendingWithdrawResult = {
+      hash,
+      success: true,
+      triggerMode,
+      ...summary,
+      protocol: 'compound',
+      asset: asset.address,
+      symbol: asset.symbol,
+      decimals: asset.decimals,
+      mode: options.mode,
+      requestedAmount,
+      underlyingReceived: underlyingAfter - underlyingBefore,
+    };
+
+    log.success('Withdraw Successful!', {
+      underlyingReceived: formatTokenAmount(result.underlyingReceived, asset.decimals, asset.symbol),
+      transactionHash: hash,
+    });
+
+    return result;
+  },
+  'Compound Fusion Withdraw',
+  NO_RETRY
+);
+
+/**
+ * Quote a Comet withdraw and break down its fee, trigger, calldata and gas without executing it
+ */
+export const quoteCompoundWithdraw = withErrorHandling(
+  async (
+    sdk: SDKContext,
+    options: LendingWithdrawOptions = { mode: 'max' }
+  ): Promise<QuotePreview> => {
+    assertEoaPositionOwner(sdk, options, 'Withdraw');
+    const market = await resolveCometMarket(sdk);
+    const asset = findCometAsset(market, options.asset ?? market.base.symbol);
+
+    log.header(`Compound Fusion Withdraw Dry Run (${asset.symbol})`);
+
+    const position = await readCometBalance(sdk, market, asset, sdk.eoaAddress);
+    const requestedAmount = resolveCompoundWithdrawAmount(options, asset, position);
+
+    const request = await buildCompoundWithdrawRequest(
+      sdk,
+      market,
+      asset,
+      options.mode,
+      requestedAmount,
+      resolveRouting(sdk, options, sdk.config.contracts.usdc)
+    );
+    return await previewFusionInstructions(sdk, request);
+  },
+  'Compound Fusion Withdraw Quote'
+);
+
+/**
+ * Borrow the market's base asset against the EOA's Comet collateral using Fusion
+ *
+ * Refuses to build a quote if the borrow exceeds the collateral's borrow
+ * capacity or the projected health factor falls below the floor.
+ */
+export const executeCompoundBorrow = withErrorHandling(
+  async (sdk: SDKContext, options: LendingBorrowOptions): Promise<LendingBorrowResult> => {
+    log.header('Compound Fusion Borrow');
+
+    log.step(1, 'Reading market and account data');
+    const market = await resolveCometMarket(sdk);
+    const { base } = market;
+    const { accountBefore, projectedHealthFactor } = await assessCompoundBorrow(sdk, market, options);
+
+    log.step(2, 'Executing Fusion Supertransaction');
+    const { hash, triggerMode, summary } = await executeCompoundRequest(sdk, market, base, () =>
+      buildCompoundBorrowRequest(sdk, market, options.amount, resolveRouting(sdk, options, sdk.config.contracts.usdc))
+    );
+
+    log.step(3, 'Reading final account data');
+    const accountAfter = toCometAccountData(market, await readCometAccount(sdk, market, sdk.eoaAddress));
+
+    const result: LendingBorrowResult = {
+      hash,
+      success: true,
+      triggerMode,
+      ...summary,
+      protocol: 'compound',
+      asset: base.address,
+      symbol: base.symbol,
+      decimals: base.decimals,
+      amount: options.amount,
+      healthFactorBefore: accountBefore.healthFactor,
+      projectedHealthFactor,
+      healthFactorAfter: accountAfter.healthFactor,
+    };
+
+    log.success('Borrow Successful!', {
+      amount: formatTokenAmount(result.amount, base.decimals, base.symbol),
+      healthFactor: formatHealthFactor(result.healthFactorAfter),
+      transactionHash: hash,
+    });
+
+    return result;
+  },
+  'Compound Fusion Borrow',
+  NO_RETRY
+);
+
+/**
+ * Quote a Comet borrow without executing it; the borrow guard still applies
+ */
+export const quoteCompoundBorrow = withErrorHandling(
+  async (sdk: SDKContext, options: LendingBorrowOptions): Promise<QuotePreview> => {
+    const market = await resolveCometMarket(sdk);
+
+    log.header('Compound Fusion Borrow Dry Run');
+
+    await assessCompoundBorrow(sdk, market, options);
+
+    const request = await buildCompoundBorrowRequest(
+      sdk,
+      market,
+      options.amount,
+      resolveRouting(sdk, options, sdk.config.contracts.usdc)
+    );
+    return await previewFusionInstructions(sdk, request);
+  },
+  'Compound Fusion Borrow Quote'
+);
+
+/**
+ * Repay base asset debt of the position owner (or `options.recipient`) using Fusion
+ *
+ * In `all` mode the debt plus an interest buffer is pulled and Comet is asked
+ * to repay the whole borrow balance at execution; the rest goes back to the EOA.
+ */
+export const executeCompoundRepay = withErrorHandling(
+  async (sdk: SDKContext, options: LendingRepayOptions): Promise<LendingRepayResult> => {
+    log.header('Compound Fusion Repay');
+
+    log.step(1, 'Reading outstanding debt');
+    const market = await resolveCometMarket(sdk);
+    const { base } = market;
+    assertBaseAsset(market, findCometAsset(market, options.asset), 'repaid');
+    const routing = resolveRouting(sdk, options, base.address);
+
+    const debtBefore = await readCometDebt(sdk, market, routing.positionAccount);
+    const amountPulled = resolveCompoundRepayAmount(options, base, debtBefore);
+    log.info('Repay parameters calculated', {
+      mode: options.mode,
+      debt: formatTokenAmount(debtBefore, base.decimals, base.symbol),
+      amountPulled: formatTokenAmount(amountPulled, base.decimals, base.symbol),
+    });
+
+    log.step(2, 'Executing Fusion Supertransaction');
+    const { hash, triggerMode, summary } = await executeCompoundRequest(sdk, market, base, () =>
+      buildCompoundRepayRequest(sdk, market, options.mode, amountPulled, routing)
+    );
+
+    log.step(3, 'Reading remaining debt');
+    const debtAfter = await readCometDebt(sdk, market, routing.positionAccount);
+
+    const result: LendingRepayResult = {
+      hash,
+      success: true,
+      triggerMode,
+      ...summary,
+      protocol: 'compound',
+      asset: base.address,
+      symbol: base.symbol,
+      decimals: base.decimals,
+      mode: options.mode,
+      amountPulled,
+      debtBefore,
+      debtAfter,
+    };
+
+    log.success('Repay Successful!', {
+      debtBefore: formatTokenAmount(debtBefore, base.decimals, base.symbol),
+      debtAfter: formatTokenAmount(debtAfter, base.decimals, base.symbol),
+      transactionHash: hash,
+    });
+
+    return result;
+  },
+  'Compound Fusion Repay',
+  NO_RETRY
+);
+
+/**
+ * Quote a Comet repay and break down its fee, trigger, calldata and gas without executing it
+ */
+export const quoteCompoundRepay = withErrorHandling(
+  async (sdk: SDKContext, options: LendingRepayOptions): Promise<QuotePreview> => {
+    const market = await resolveCometMarket(sdk);
+    assertBaseAsset(market, findCometAsset(market, options.asset), 'repaid');
+    const routing = resolveRouting(sdk, options, market.base.address);
+
+    log.header('Compound Fusion Repay Dry Run');
+
+    const debt = await readCometDebt(sdk, market, routing.positionAccount);
+    const amountPulled = resolveCompoundRepayAmount(options, market.base, debt);
+
+    const request = await buildCompoundRepayRequest(sdk, market, options.mode, amountPulled, routing);
+    return await previewFusionInstructions(sdk, request);
+  },
+  'Compound Fusion Repay Quote'
+);
+
+/**
+ * Build the approve + Comet.supplyTo instructions and their Fusion trigger
+ */
+export async function buildCompoundSupplyRequest(
+  sdk: SDKContext,
+  market: CometMarket,
+  asset: CometAsset,
+  amount: bigint,
+  routing: FusionRouting,
+  timeBounds?: QuoteTimeBounds
+): Promise<FusionExecutionRequest> {
+  log.info('Building Fusion instructions...');
+
+  const approveInstruction = await sdk.orchestrator.buildComposable({
+    type: 'default',
+    data: {
+      abi: ERC20_ABI,
+      chainId: sdk.config.chainId,
+      to: asset.address,
+      functionName: 'approve',
+      args: [market.comet, amount],
+    },
+  });
+
+  const supplyInstruction = await sdk.orchestrator.buildComposable({
+    type: 'default',
+    data: {
+      abi: COMPOUND_COMET_ABI,
+      chainId: sdk.config.chainId,
+      to: market.comet,
+      functionName: 'supplyTo',
+      args: [routing.positionAccount, asset.address, amount],
+    },
+  });
+
+  return {
+    instructions: [approveInstruction, supplyInstruction],
+    trigger: {
+      chainId: sdk.config.chainId,
+      tokenAddress: asset.address,
+      amount,
+    },
+    feeToken: {
+      address: routing.feeToken,
+      chainId: sdk.config.chainId,
+    },
+    triggerMode: routing.triggerMode,
+    ...(timeBounds && { timeBounds }),
+  };
+}
+
+/**
+ * Build the Comet.withdrawFrom instruction and the allow trigger
+ */
+export async function buildCompoundWithdrawRequest(
+  sdk: SDKContext,
+  market: CometMarket,
+  asset: CometAsset,
+  mode: WithdrawMode,
+  requestedAmount: bigint,
+  routing: FusionRouting
+): Promise<FusionExecutionRequest> {
+  log.info('Building Fusion instructions...');
+
+  // Base supply accrues interest until execution, so max uses Comet's sentinel;
+  // collateral does not accrue and is withdrawn exactly
+  const withdrawAmount = mode === 'max' && asset.address === market.base.address
+    ? maxUint256
+    : requestedAmount;
+
+  const withdrawInstruction = await sdk.orchestrator.buildComposable({
+    type: 'default',
+    data: {
+      abi: COMPOUND_COMET_ABI,
+      chainId: sdk.config.chainId,
+      to: market.comet,
+      functionName: 'withdrawFrom',
+      args: [sdk.eoaAddress, routing.recipient, asset.address, withdrawAmount],
+    },
+  });
+
+  return {
+    instructions: [withdrawInstruction],
+    trigger: buildAllowTrigger(sdk, market),
+    feeToken: {
+      address: routing.feeToken,
+      chainId: sdk.config.chainId,
+    },
+    triggerMode: routing.triggerMode,
+  };
+}
+
+/**
+ * Build the base asset withdrawFrom that borrows for the EOA, and the allow trigger
+ */
+export async function buildCompoundBorrowRequest(
+  sdk: SDKContext,
+  market: CometMarket,
+  amount: bigint,
+  routing: FusionRouting
+): Promise<FusionExecutionRequest> {
+  log.info('Building Fusion instructions...');
+
+  // Withdrawing more base asset than the EOA supplied borrows the difference
+  const borrowInstruction = await sdk.orchestrator.buildComposable({
+    type: 'default',
+    data: {
+      abi: COMPOUND_COMET_ABI,
+      chainId: sdk.config.chainId,
+      to: market.comet,
+      functionName: 'withdrawFrom',
+      args: [sdk.eoaAddress, routing.recipient, market.base.address, amount],
+    },
+  });
+
+  return {
+    instructions: [borrowInstruction],
+    trigger: buildAllowTrigger(sdk, market),
+    feeToken: {
+      address: routing.feeToken,
+      chainId: sdk.config.chainId,
+    },
+    triggerMode: routing.triggerMode,
+  };
+}
+
+/**
+ * Build the approve + Comet.supplyTo repay instructions (plus dust sweep in `all` mode) and their trigger
+ */
+export async function buildCompoundRepayRequest(
+  sdk: SDKContext,
+  market: CometMarket,
+  mode: RepayMode,
+  amountPulled: bigint,
+  routing: FusionRouting
+): Promise<FusionExecutionRequest> {
+  log.info('Building Fusion instructions...');
+
+  const { base } = market;
+  const nexusAddress = sdk.orchestrator.addressOn(sdk.config.chainId, true);
+  const pulledBalance = runtimeERC20BalanceOf({ targetAddress: nexusAddress, tokenAddress: base.address });
+
+  const approveInstruction = await sdk.orchestrator.buildComposable({
+    type: 'default',
+    data: {
+      abi: ERC20_ABI,
+      chainId: sdk.config.chainId,
+      to: base.address,
+      functionName: 'approve',
+      args: [market.comet, mode === 'all' ? pulledBalance : amountPulled],
+    },
+  });
+
+  // Supplying max base asset makes Comet repay exactly the live borrow balance
+  const repayInstruction = await sdk.orchestrator.buildComposable({
+    type: 'default',
+    data: {
+      abi: COMPOUND_COMET_ABI,
+      chainId: sdk.config.chainId,
+      to: market.comet,
+      functionName: 'supplyTo',
+      args: [routing.positionAccount, base.address, mode === 'all' ? maxUint256 : amountPulled],
+    },
+  });
+
+  const instructions = [approveInstruction, repayInstruction];
+
+  if (mode === 'all') {
+    // Return the unused interest buffer to the EOA
+    instructions.push(await sdk.orchestrator.buildComposable({
+      type: 'default',
+      data: {
+        abi: ERC20_ABI,
+        chainId: sdk.config.chainId,
+        to: base.address,
+        functionName: 'transfer',
+        args: [sdk.eoaAddress, pulledBalance],
+      },
+    }));
+
+    // Clear the leftover allowance
+    instructions.push(await sdk.orchestrator.buildComposable({
+      type: 'default',
+      data: {
+        abi: ERC20_ABI,
+        chainId: sdk.config.chainId,
+        to: base.address,
+        functionName: 'approve',
+        args: [market.comet, 0n],
+      },
+    }));
+  }
+
+  return {
+    instructions,
+    trigger: {
+      chainId: sdk.config.chainId,
+      tokenAddress: base.address,
+      amount: amountPulled,
+    },
+    feeToken: {
+      address: routing.feeToken,
+      chainId: sdk.config.chainId,
+    },
+    triggerMode: routing.triggerMode,
+  };
+}
+
+/**
+ * Project the post-borrow health factor and refuse borrows Comet would reject or that land below the floor
+ */
+async function assessCompoundBorrow(
+  sdk: SDKContext,
+  market: CometMarket,
+  options: LendingBorrowOptions
+): Promise<CompoundBorrowAssessment> {
+  const { base } = market;
+  const minHealthFactor = options.minHealthFactor ?? sdk.config.healthFactorFloor;
+
+  assertEoaPositionOwner(sdk, options, 'Borrow');
+  assertBaseAsset(market, findCometAsset(market, options.asset), 'borrowed');
+
+  if (options.amount <= 0n) {
+    throw new TransactionError('Borrow amount must be positive');
+  }
+
+  const reads = await readCometAccount(sdk, market, sdk.eoaAddress);
+  const accountBefore = toCometAccountData(market, reads);
+
+  // Any base asset the EOA supplied is withdrawn first; only the rest is borrowed
+  const additionalDebt = options.amount > reads.baseSupplied ? options.amount - reads.baseSupplied : 0n;
+  const additionalDebtBase = (additionalDebt * reads.basePrice) / base.scale;
+  const projectedHealthFactor = projectCometHealthFactor(accountBefore, additionalDebtBase);
+
+  log.info('Health factor projection', {
+    current: formatHealthFactor(accountBefore.healthFactor),
+    projected: formatHealthFactor(projectedHealthFactor),
+    floor: minHealthFactor.toString(),
+  });
+
+  if (additionalDebt > 0n && reads.baseBorrowed + additionalDebt < market.baseBorrowMin) {
+    throw new TransactionError(
+      `Borrow of ${formatTokenAmount(options.amount, base.decimals, base.symbol)} is below the market minimum of ` +
+      `${formatTokenAmount(market.baseBorrowMin, base.decimals, base.symbol)}`
+    );
+  }
+
+  if (accountBefore.debtBase + additionalDebtBase > accountBefore.borrowCapacityBase) {
+    throw new TransactionError(
+      `Borrow of ${formatTokenAmount(options.amount, base.decimals, base.symbol)} exceeds available borrowing power. ` +
+      'Supply more collateral or reduce the amount.'
+    );
+  }
+
+  if (projectedHealthFactor < healthFactorToWad(minHealthFactor)) {
+    throw new TransactionError(
+      `Borrow refused: projected health factor ${formatHealthFactor(projectedHealthFactor)} ` +
+      `is below the configured floor of ${minHealthFactor}`
+    );
+  }
+
+  return { accountBefore, projectedHealthFactor };
+}
+
+/**
+ * Validate the requested mode against the EOA's supplied balance of the asset
+ */
+function resolveCompoundWithdrawAmount(
+  options: LendingWithdrawOptions,
+  asset: CometAsset,
+  position: bigint
+): bigint {
+  const { symbol, decimals } = asset;
+
+  if (position === 0n) {
+    throw new TransactionError(`No ${symbol} supplied to Compound v3 to withdraw`);
+  }
+
+  if (options.mode === 'max') {
+    return position;
+  }
+
+  if (options.amount === undefined || options.amount <= 0n) {
+    throw new TransactionError('Partial withdraw requires a positive amount');
+  }
+
+  if (options.amount > position) {
+    throw new TransactionError(
+      `Withdraw amount exceeds the Compound v3 ${symbol} position. ` +
+      `Requested: ${formatTokenAmount(options.amount, decimals, symbol)}, ` +
+      `available: ${formatTokenAmount(position, decimals, symbol)}`
+    );
+  }
+
+  return options.amount;
+}
+
+/**
+ * Work out how much base asset the trigger should pull from the EOA
+ */
+function resolveCompoundRepayAmount(options: LendingRepayOptions, base: CometAsset, debt: bigint): bigint {
+  const { symbol, decimals } = base;
+
+  if (debt === 0n) {
+    throw new TransactionError(`No ${symbol} debt on Compound v3 to repay`);
+  }
+
+  if (options.mode === 'all') {
+    const bufferBps = BigInt(options.interestBufferBps ?? DEFAULT_INTEREST_BUFFER_BPS);
+    const buffer = (debt * bufferBps) / BASIS_POINTS;
+    return debt + (buffer > 0n ? buffer : 1n);
+  }
+
+  if (options.amount === undefined || options.amount <= 0n) {
+    throw new TransactionError('Partial repay requires a positive amount');
+  }
+
+  if (options.amount > debt) {
+    throw new TransactionError(
+      `Repay amount ${formatTokenAmount(options.amount, decimals, symbol)} exceeds debt of ` +
+      `${formatTokenAmount(debt, decimals, symbol)}. Use 'all' mode to clear the position.`
+    );
+  }
+
+  return options.amount;
+}
+
+/**
+ * Only the base asset of a Comet market can be borrowed or repaid
+ */
+function assertBaseAsset(market: CometMarket, asset: CometAsset, action: string): void {
+  if (asset.address !== market.base.address) {
+    throw new TransactionError(
+      `${asset.symbol} is collateral on the Compound v3 ${market.base.symbol} market; ` +
+      `only ${market.base.symbol} can be ${action}`
+    );
+  }
+}
+
+/**
+ * The EOA's Comet.allow call that lets its Nexus account act on the position
+ */
+function buildAllowTrigger(sdk: SDKContext, market: CometMarket): FusionExecutionRequest['trigger'] {
+  return {
+    chainId: sdk.config.chainId,
+    call: {
+      to: market.comet,
+      data: encodeFunctionData({
+        abi: COMPOUND_COMET_ABI,
+        functionName: 'allow',
+        args: [sdk.orchestrator.addressOn(sdk.config.chainId, true), true],
+      }),
+    },
+  };
+}
+
+/**
+ * Build and execute a Comet supertransaction, journaling the asset and base position balances around it
+ */
+async function executeCompoundRequest(
+  sdk: SDKContext,
+  market: CometMarket,
+  asset: CometAsset,
+  buildRequest: () => Promise<FusionExecutionRequest>
+): Promise<FusionExecutionOutcome> {
+  // Comet is itself an ERC-20 of the base asset supplied
+  const tracked = [asset, await readTokenMetadata(sdk, market.comet)];
+  const beforeBalance = await captureTokenSnapshot(sdk, tracked);
+
+  let outcome: FusionExecutionOutcome;
+  try {
+    outcome = await executeFusionInstructions(sdk, await buildRequest());
+
+  } catch (error) {
+    throw toFusionExecutionError(error);
+  }
+
+  const afterBalance = await captureTokenSnapshot(sdk, tracked);
+  sdk.journal?.append(outcome.hash, { type: 'balances', before: beforeBalance, after: afterBalance });
+
+  return outcome;
+}
+
+async function readTokenBalance(sdk: SDKContext, token: Address, account: Address): Promise<bigint> {
+  const contract = new ethers.Contract(token, ERC20_ABI, sdk.provider);
+  return await contract.balanceOf!(account) as bigint;
+}
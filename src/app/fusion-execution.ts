@@ -0,0 +1,414 @@
+/**
+ * @fileoverview Shared quote → execute → wait pipeline for Fusion supertransactions
+ */
+
+import type {
+  Instruction,
+  Trigger,
+  FeeTokenInfo,
+  GetPermitQuotePayload,
+  GetOnChainQuotePayload,
+  SignQuotePayload,
+} from '@biconomy/abstractjs';
+import { ethers } from 'ethers';
+import type { Address, Hex } from 'viem';
+
+import type {
+  SDKContext,
+  SupertransactionReceipt,
+  FusionRoutingOptions,
+  PositionOwner,
+  QuotePreview,
+  QuoteTimeBounds,
+  TriggerMode,
+  TriggerModePreference,
+} from '../types';
+import { log, withLogContext } from '../utils/logger';
+import {
+  TransactionError,
+  ContractRevertError,
+  SupertransactionFailedError,
+  SupertransactionSubmittedError,
+  decodeTransactionError,
+  extractErrorDetails,
+  isTransientError,
+  retryWithPolicy,
+  type RetryPolicy,
+} from '../utils/errors';
+import { ERC20_PERMIT_ABI } from '../utils/contracts';
+import { formatDuration } from '../utils/formatting';
+import { resolveAssetAddress } from '../utils/reserves';
+import { getForkContext } from '../utils/chains';
+import { summarizeSupertransaction, type SupertransactionSummary } from './receipt-analysis';
+import { buildQuotePreview, displayQuotePreview } from './quote-preview';
+import {
+  watchSupertransaction,
+  type SupertransactionWatcher,
+  type WatchSupertransactionOptions,
+} from './supertransaction-watcher';
+
+export interface FusionExecutionRequest {
+  readonly instructions: Instruction[][];
+  readonly trigger: Trigger;
+  readonly feeToken: FeeTokenInfo;
+  readonly triggerMode?: TriggerModePreference; // Defaults to `auto`
+  readonly timeBounds?: QuoteTimeBounds; // Defaults to the MEE client's window from wall-clock now
+  readonly watch?: FusionWatchOptions;
+}
+
+export interface FusionWatchOptions extends WatchSupertransactionOptions {
+  readonly onWatch?: (watcher: SupertransactionWatcher) => void; // Subscribe to progress events after submission
+  readonly resume?: Partial<RetryPolicy>; // Waits again on the hash after a watch gives up without a final status
+}
+
+// Waiting again never resubmits, so a watch that gave up is resumed once on the same hash
+const RESUME_WAIT_POLICY: Partial<RetryPolicy> = { attempts: 2 };
+
+export type FusionQuote =
+  | { readonly triggerMode: 'permit'; readonly fusionQuote: GetPermitQuotePayload }
+  | { readonly triggerMode: 'onchain'; readonly fusionQuote: GetOnChainQuotePayload };
+
+export interface FusionExecutionOutcome {
+  readonly hash: `0x${string}`;
+  readonly triggerMode: TriggerMode;
+  readonly receipt: SupertransactionReceipt;
+  readonly summary: SupertransactionSummary;
+  readonly executionTime: number;
+}
+
+export interface FusionRouting {
+  readonly recipient: Address;
+  readonly positionAccount: Address; // Holder of supplied or repaid positions
+  readonly feeToken: Address;
+  readonly triggerMode: TriggerModePreference;
+}
+
+/**
+ * Resolve a flow's recipient, position account, fee token and trigger mode
+ *
+ * Funds go to the EOA and positions to the configured position owner unless
+ * `options.recipient` overrides both. The position account is resolved on
+ * `positionSdk`'s chain, which differs from `sdk` for cross-chain flows.
+ */
+export function resolveRouting(
+  sdk: SDKContext,
+  options: FusionRoutingOptions,
+  defaultFeeToken: Address,
+  positionSdk: SDKContext = sdk
+): FusionRouting {
+  return {
+    recipient: options.recipient ?? sdk.eoaAddress,
+    positionAccount: options.recipient ?? resolvePositionAccount(positionSdk, options.positionOwner),
+    feeToken: options.feeToken ? resolveAssetAddress(sdk, options.feeToken) : defaultFeeToken,
+    triggerMode: options.triggerMode ?? 'auto',
+  };
+}
+
+/**
+ * Address of the account that holds AAVE positions: the EOA or its Nexus account on the current chain
+ */
+export function resolvePositionAccount(
+  sdk: SDKContext,
+  owner: PositionOwner = sdk.config.positionOwner
+): Address {
+  return owner === 'nexus'
+    ? sdk.orchestrator.addressOn(sdk.config.chainId, true)
+    : sdk.eoaAddress;
+}
+
+/**
+ * Refuse flows that only act on positions the EOA holds when the Nexus account owns them
+ */
+export function assertEoaPositionOwner(sdk: SDKContext, options: FusionRoutingOptions, action: string): void {
+  if ((options.positionOwner ?? sdk.config.positionOwner) === 'nexus') {
+    throw new TransactionError(
+      `${action} only supports positions held by the EOA. ` +
+      'Move the position with `migrate --to eoa` first, or use the EOA position owner.'
+    );
+  }
+}
+
+/**
+ * Pick the trigger mode for a request, honouring an explicit preference
+ *
+ * Custom call triggers are always on-chain. Token triggers use a permit when
+ * the MEE node lists the token as permit-enabled or, for tokens it does not
+ * list, when the token exposes the ERC-2612 interface.
+ */
+export async function resolveTriggerMode(
+  sdk: SDKContext,
+  request: FusionExecutionRequest
+): Promise<TriggerMode> {
+  const preference = request.triggerMode ?? 'auto';
+  const { trigger } = request;
+
+  if (trigger.call) {
+    if (preference === 'permit') {
+      throw new TransactionError('Custom call triggers cannot use a permit; use the on-chain trigger mode');
+    }
+    return 'onchain';
+  }
+
+  if (preference === 'onchain') {
+    return 'onchain';
+  }
+
+  const permitSupported = await supportsPermit(sdk, trigger.chainId, trigger.tokenAddress);
+
+  if (preference === 'permit' && !permitSupported) {
+    throw new TransactionError(
+      `Trigger token ${trigger.tokenAddress} does not support ERC-2612 permit. Use the on-chain trigger mode.`
+    );
+  }
+
+  return permitSupported ? 'permit' : 'onchain';
+}
+
+/**
+ * Get a permit or on-chain Fusion quote for the request without executing it
+ */
+export async function quoteFusionInstructions(
+  sdk: SDKContext,
+  request: FusionExecutionRequest
+): Promise<FusionQuote> {
+  const triggerMode = await resolveTriggerMode(sdk, request);
+  const params = {
+    instructions: request.instructions,
+    trigger: request.trigger,
+    feeToken: request.feeToken,
+    ...request.timeBounds,
+  };
+
+  log.info('Getting Fusion quote...', { triggerMode });
+
+  return triggerMode === 'permit'
+    ? { triggerMode, fusionQuote: await sdk.meeClient.getPermitQuote(params) }
+    : { triggerMode, fusionQuote: await sdk.meeClient.getOnChainQuote(params) };
+}
+
+/**
+ * Quote the request and break it down without signing or executing anything
+ */
+export async function previewFusionInstructions(
+  sdk: SDKContext,
+  request: FusionExecutionRequest
+): Promise<QuotePreview> {
+  const { triggerMode, fusionQuote } = await quoteFusionInstructions(sdk, request);
+  const preview = await buildQuotePreview(sdk, request.instructions, fusionQuote, triggerMode);
+
+  displayQuotePreview(preview);
+
+  return preview;
+}
+
+/**
+ * Quote, sign, execute and wait for a Fusion supertransaction
+ */
+export async function executeFusionInstructions(
+  sdk: SDKContext,
+  request: FusionExecutionRequest
+): Promise<FusionExecutionOutcome> {
+  const startTime = Date.now();
+
+  const quote = await quoteFusionInstructions(sdk, request);
+  const { hash: quoteHash, paymentInfo } = quote.fusionQuote.quote;
+
+  sdk.journal?.append(quoteHash, {
+    type: 'quoted',
+    triggerMode: quote.triggerMode,
+    request: {
+      trigger: request.trigger,
+      feeToken: request.feeToken,
+      ...(request.triggerMode !== undefined && { triggerMode: request.triggerMode }),
+      instructions: request.instructions,
+    },
+    fee: { token: paymentInfo.token, amount: BigInt(paymentInfo.tokenWeiAmount) },
+  });
+
+  // Journaled before signing, which sends the EOA transaction for on-chain triggers,
+  // so a crash from here on still leaves the record for resume to look up
+  sdk.journal?.append(quoteHash, { type: 'submitting' });
+
+  let hash: Hex = quoteHash;
+  let signed = false;
+  try {
+    log.info('Signing Fusion quote...', { triggerMode: quote.triggerMode });
+    const signedQuote = quote.triggerMode === 'permit'
+      ? await sdk.meeClient.signPermitQuote({ fusionQuote: quote.fusionQuote })
+      : await sdk.meeClient.signOnChainQuote({ fusionQuote: quote.fusionQuote });
+    signed = true;
+
+    log.info('Executing Fusion quote...');
+    hash = await submitSignedQuote(sdk, signedQuote, quoteHash);
+    sdk.journal?.append(hash, { type: 'submitted' });
+
+    log.info('Transaction submitted', {
+      hash: hash,
+      correlationId: log.correlationId(),
+    });
+  } catch (error) {
+    // A failed on-chain signing may have broadcast the trigger already, so its outcome is unknown too
+    const unknownOutcome = error instanceof SupertransactionSubmittedError ||
+      (!signed && quote.triggerMode === 'onchain');
+    sdk.journal?.append(quoteHash, unknownOutcome
+      ? { type: 'interrupted', error: extractErrorDetails(error) }
+      : { type: 'rejected', error: extractErrorDetails(error) });
+
+    // The quote hash is the supertransaction hash, so a lost response is waited on like a submission
+    if (!(error instanceof SupertransactionSubmittedError)) {
+      throw error;
+    }
+    log.warn('Lost the MEE node response to the submission, waiting on the quote hash', { hash: quoteHash });
+  }
+
+  // Tag everything logged while waiting with the hash, so runs can be traced by either ID
+  return withLogContext({ supertransactionHash: hash }, async () => {
+    log.info('Waiting for transaction completion...');
+    const receipt = await resumeFusionReceipt(sdk, hash, request.watch);
+
+    const executionTime = Date.now() - startTime;
+
+    const summary = summarizeSupertransaction(receipt, request.feeToken.address);
+
+    log.success('Fusion transaction completed', {
+      executionTime: formatDuration(executionTime),
+      gasUsed: summary.gasUsed.toString(),
+      feeCharged: summary.fee.charged.toString(),
+    });
+
+    sdk.journal?.append(hash, { type: 'settled', success: true, gasUsed: summary.gasUsed, fee: summary.fee });
+
+    return {
+      hash,
+      triggerMode: quote.triggerMode,
+      receipt,
+      summary,
+      executionTime,
+    };
+  });
+}
+
+/**
+ * Wait for a submitted supertransaction by watching it on the MEE node
+ *
+ * Never resubmits. A supertransaction that failed on the node is a decoded
+ * TransactionError (AaveProtocolError, ContractRevertError or
+ * SupertransactionFailedError); giving up while it may still be executing
+ * (deadline, abort or exhausted poll retries) is a
+ * SupertransactionSubmittedError carrying the hash. Status changes and
+ * failures are journaled when the SDK context has a journal.
+ */
+export function waitForFusionReceipt(
+  sdk: SDKContext,
+  hash: Hex,
+  options: FusionWatchOptions = {}
+): Promise<SupertransactionReceipt> {
+  const { onWatch, ...watchOptions } = options;
+  const watcher = watchSupertransaction(sdk, hash, watchOptions);
+  const { journal } = sdk;
+
+  if (journal) {
+    watcher
+      .on('status', ({ status, message }) => journal.append(hash, { type: 'status', status, ...(message && { message }) }))
+      .on('failed', error => journal.append(hash, error instanceof SupertransactionSubmittedError
+        ? { type: 'interrupted', error: error.message }
+        : { type: 'settled', success: false, error: error.message }));
+  }
+  onWatch?.(watcher);
+
+  return watcher.done;
+}
+
+/**
+ * Wait for a submitted supertransaction, waiting again on the same hash when a watch gives up
+ *
+ * Only a SupertransactionSubmittedError (deadline or exhausted poll retries)
+ * is resumed, per `options.resume`; aborting through `options.signal` stops it.
+ */
+function resumeFusionReceipt(
+  sdk: SDKContext,
+  hash: Hex,
+  options: FusionWatchOptions = {}
+): Promise<SupertransactionReceipt> {
+  const { resume, ...watch } = options;
+  const { signal } = watch;
+  return retryWithPolicy(
+    () => waitForFusionReceipt(sdk, hash, watch),
+    {
+      ...RESUME_WAIT_POLICY,
+      ...resume,
+      ...(signal !== undefined && { signal }),
+      shouldRetry: error => error instanceof SupertransactionSubmittedError && !signal?.aborted,
+    },
+    `wait for ${hash}`
+  );
+}
+
+/**
+ * Send the signed quote, treating a lost response as a possible submission
+ *
+ * The supertransaction hash is the quote hash, so it is known even when the
+ * node's reply is not. Only errors the node returned before accepting the
+ * quote (terminal ones) are passed through as-is.
+ */
+async function submitSignedQuote(sdk: SDKContext, signedQuote: SignQuotePayload, quoteHash: Hex): Promise<Hex> {
+  try {
+    const { hash } = await sdk.meeClient.executeSignedQuote({ signedQuote });
+    return hash;
+  } catch (error) {
+    if (!isTransientError(error)) {
+      throw error;
+    }
+    throw new SupertransactionSubmittedError(
+      `Supertransaction ${quoteHash} may have been submitted before the MEE node stopped responding: ` +
+      `${extractErrorDetails(error)}. Do not resubmit; check its status on the MEE node.`,
+      quoteHash,
+      error
+    );
+  }
+}
+
+/**
+ * Ask the MEE node whether a payment token is permit-enabled, probing the token otherwise
+ */
+async function supportsPermit(sdk: SDKContext, chainId: number, tokenAddress: Address): Promise<boolean> {
+  const { paymentToken } = await sdk.meeClient.getPaymentToken({ chainId, tokenAddress });
+  if (paymentToken) {
+    return paymentToken.permitEnabled ?? false;
+  }
+
+  const token = new ethers.Contract(tokenAddress, ERC20_PERMIT_ABI, getForkContext(sdk, chainId).provider);
+  try {
+    await Promise.all([token.DOMAIN_SEPARATOR!(), token.nonces!(sdk.eoaAddress)]);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Normalise any thrown value into a TransactionError with a readable message
+ */
+export function toFusionExecutionError(error: unknown): TransactionError {
+  // Keep the hash and decoded reasons reachable for callers; the message already explains what happened
+  if (
+    error instanceof SupertransactionSubmittedError ||
+    error instanceof ContractRevertError ||
+    error instanceof SupertransactionFailedError
+  ) {
+    return error;
+  }
+
+  let errorMessage = 'Unknown error';
+
+  if (error instanceof Error) {
+    errorMessage = error.message;
+  } else if (typeof error === 'object' && error !== null) {
+    // Parse error object for details
+    const detailedError = extractErrorDetails(error);
+    errorMessage = detailedError || JSON.stringify(error);
+  }
+
+  const message = `Fusion execution failed: ${errorMessage}`;
+  return decodeTransactionError(error, message) ?? new TransactionError(message, error);
+}
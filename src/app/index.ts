@@ -2,4 +2,18 @@
  * @fileoverview Examples module exports
  */
 
-export * from './fusion-aave-demo'; 
\ No newline at end of file
+export * from './fusion-aave-demo';
+export * from './fusion-aave-withdraw';
+export * from './fusion-aave-borrow';
+export * from './fusion-aave-repay';
+export * from './aave-account';
+export * from './aave-positions';
+export * from './eoa-baseline';
+export * from './fusion-aave-cross-chain';
+export * from './journal-resume';
+export * from './position-migration';
+export * from './recurring-supply';
+export * from './compound-account';
+export * from './fusion-compound';
+export * from './lending-protocols';
+export * from './yield-router';
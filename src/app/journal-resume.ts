@@ -0,0 +1,118 @@
+/**
+ * @fileoverview Finish supertransactions a crashed or interrupted run left pending in the journal
+ */
+
+import type { Hex } from 'viem';
+
+import type { JournalRecord, ResumedSupertransaction, SDKContext, TransactionJournal } from '../types';
+import { log, withLogContext } from '../utils/logger';
+import {
+  withErrorHandling,
+  extractErrorDetails,
+  SDKError,
+  SupertransactionSubmittedError,
+  TransactionError,
+} from '../utils/errors';
+import { formatDuration } from '../utils/formatting';
+import { waitForFusionReceipt } from './fusion-execution';
+import { summarizeSupertransaction } from './receipt-analysis';
+import type { WatchSupertransactionOptions } from './supertransaction-watcher';
+
+/**
+ * Wait for every submitted supertransaction the journal has no outcome for
+ *
+ * Only watches: nothing is signed or resubmitted. Supertransactions that are
+ * still undecided when the watch gives up stay pending for the next resume.
+ * Ones a run was still sending, or lost the node's reply for, are first
+ * looked up on the MEE node and marked rejected when the node has never
+ * heard of them.
+ */
+export const resumePendingSupertransactions = withErrorHandling(
+  async (sdk: SDKContext, options: WatchSupertransactionOptions = {}): Promise<ResumedSupertransaction[]> => {
+    const { journal } = sdk;
+    if (!journal) {
+      throw new SDKError('No transaction journal is configured; set JOURNAL_DIR');
+    }
+
+    log.header('Resume Pending Supertransactions');
+
+    const pending = journal.pending();
+    if (pending.length === 0) {
+      log.info('No pending supertransactions', { journal: journal.file });
+      return [];
+    }
+
+    const results: ResumedSupertransaction[] = [];
+    for (const [index, record] of pending.entries()) {
+      log.step(index + 1, `Waiting for ${record.hash}`, {
+        state: record.state,
+        age: formatDuration(Date.now() - record.createdAt),
+      });
+      results.push(await resumeSupertransaction(sdk, journal, record, options));
+    }
+
+    return results;
+  },
+  'Resume Pending Supertransactions'
+);
+
+async function resumeSupertransaction(
+  sdk: SDKContext,
+  journal: TransactionJournal,
+  record: JournalRecord,
+  options: WatchSupertransactionOptions
+): Promise<ResumedSupertransaction> {
+  const { hash } = record;
+
+  // Both states can mean the signed quote never reached the node, which no watch would ever find
+  if (record.state === 'submitting' || record.state === 'interrupted') {
+    const received = await isKnownToMeeNode(sdk, hash);
+    if (received === undefined) {
+      log.warn('Could not tell whether the MEE node received the supertransaction', { hash });
+      return { hash, state: record.state };
+    }
+    if (!received) {
+      const error = 'The MEE node never received the signed quote';
+      journal.append(hash, { type: 'rejected', error });
+      log.warn('Supertransaction was never submitted', { hash });
+      return { hash, state: 'rejected', error };
+    }
+  }
+
+  try {
+    const receipt = await withLogContext({ supertransactionHash: hash }, () => waitForFusionReceipt(sdk, hash, options));
+
+    const feeToken = record.quotedFee?.token ?? record.request?.feeToken.address;
+    const summary = feeToken ? summarizeSupertransaction(receipt, feeToken) : undefined;
+    journal.append(hash, {
+      type: 'settled',
+      success: true,
+      ...(summary && { gasUsed: summary.gasUsed, fee: summary.fee }),
+    });
+
+    log.success('Supertransaction completed', { hash });
+    return { hash, state: 'succeeded', ...(summary && { gasUsed: summary.gasUsed, fee: summary.fee }) };
+  } catch (error) {
+    if (!(error instanceof TransactionError)) {
+      throw error;
+    }
+
+    // waitForFusionReceipt has journaled the failure or the interruption
+    log.warn('Supertransaction did not complete', { hash, error: error.message });
+    return {
+      hash,
+      state: error instanceof SupertransactionSubmittedError ? 'interrupted' : 'failed',
+      error: error.message,
+    };
+  }
+}
+
+// Whether the node knows the hash; undefined when the lookup failed for another reason
+async function isKnownToMeeNode(sdk: SDKContext, hash: Hex): Promise<boolean | undefined> {
+  try {
+    await sdk.meeClient.request({ path: `explorer/${hash}`, method: 'GET' });
+    return true;
+  } catch (error) {
+    return /not found/i.test(extractErrorDetails(error)) ? false : undefined;
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * @fileoverview Lending protocol adapters: AAVE v3 and Compound v3 behind one interface
+ *
+ * Each adapter exposes the same supply, withdraw, borrow and repay flows and
+ * position and rate reads, so the CLI and callers pick a protocol by id
+ * instead of importing its flows directly. Amounts, APYs and USD values use
+ * the same units for every protocol.
+ */
+
+import type {
+  AavePositions,
+  LendingPositions,
+  LendingProtocolAdapter,
+  LendingProtocolId,
+} from '../types';
+import { resolveReserve } from '../utils/reserves';
+import { findCometAsset, resolveCometMarket } from '../utils/compound-markets';
+import { executeFusionAaveSupply, quoteFusionAaveSupply } from './fusion-aave-demo';
+import { executeFusionAaveWithdraw, quoteFusionAaveWithdraw } from './fusion-aave-withdraw';
+import { executeFusionAaveBorrow, quoteFusionAaveBorrow } from './fusion-aave-borrow';
+import { executeFusionAaveRepay, quoteFusionAaveRepay } from './fusion-aave-repay';
+import { getAavePositions, getAaveRates } from './aave-positions';
+import { getCompoundPositions, getCompoundRates } from './compound-account';
+import {
+  executeCompoundSupply,
+  quoteCompoundSupply,
+  executeCompoundWithdraw,
+  quoteCompoundWithdraw,
+  executeCompoundBorrow,
+  quoteCompoundBorrow,
+  executeCompoundRepay,
+  quoteCompoundRepay,
+} from './fusion-compound';
+
+// Borrow and repay options may carry AaveBorrowOptions' interestRateMode, which reaches the AAVE flows unchanged
+export const aaveLendingProtocol: LendingProtocolAdapter = {
+  id: 'aave',
+  name: 'AAVE v3',
+  resolveAsset: (sdk, asset) => resolveReserve(sdk, asset),
+  supply: async (sdk, options) => {
+    const result = await executeFusionAaveSupply(sdk, options);
+    return { ...result, protocol: 'aave', positionReceived: result.aTokensReceived };
+  },
+  quoteSupply: (sdk, options) => quoteFusionAaveSupply(sdk, options),
+  withdraw: async (sdk, options) => ({ ...await executeFusionAaveWithdraw(sdk, options), protocol: 'aave' }),
+  quoteWithdraw: (sdk, options) => quoteFusionAaveWithdraw(sdk, options),
+  borrow: async (sdk, options) => ({ ...await executeFusionAaveBorrow(sdk, options), protocol: 'aave' }),
+  quoteBorrow: (sdk, options) => quoteFusionAaveBorrow(sdk, options),
+  repay: async (sdk, options) => ({ ...await executeFusionAaveRepay(sdk, options), protocol: 'aave' }),
+  quoteRepay: (sdk, options) => quoteFusionAaveRepay(sdk, options),
+  getPositions: async (sdk, account) => toLendingPositions(await getAavePositions(sdk, account)),
+  getRates: (sdk, asset) => getAaveRates(sdk, asset),
+};
+
+export const compoundLendingProtocol: LendingProtocolAdapter = {
+  id: 'compound',
+  name: 'Compound v3',
+  resolveAsset: async (sdk, asset) => findCometAsset(await resolveCometMarket(sdk), asset),
+  supply: (sdk, options) => executeCompoundSupply(sdk, options),
+  quoteSupply: (sdk, options) => quoteCompoundSupply(sdk, options),
+  withdraw: (sdk, options) => executeCompoundWithdraw(sdk, options),
+  quoteWithdraw: (sdk, options) => quoteCompoundWithdraw(sdk, options),
+  borrow: (sdk, options) => executeCompoundBorrow(sdk, options),
+  quoteBorrow: (sdk, options) => quoteCompoundBorrow(sdk, options),
+  repay: (sdk, options) => executeCompoundRepay(sdk, options),
+  quoteRepay: (sdk, options) => quoteCompoundRepay(sdk, options),
+  getPositions: (sdk, account) => getCompoundPositions(sdk, account),
+  getRates: (sdk, asset) => getCompoundRates(sdk, asset),
+};
+
+export const LENDING_PROTOCOLS: Readonly<Record<LendingProtocolId, LendingProtocolAdapter>> = {
+  aave: aaveLendingProtocol,
+  compound: compoundLendingProtocol,
+};
+
+/**
+ * Get the adapter for a protocol id
+ */
+export function getLendingProtocol(id: LendingProtocolId): LendingProtocolAdapter {
+  return LENDING_PROTOCOLS[id];
+}
+
+/**
+ * Flatten AAVE positions into the shared shape; both debt modes count as debt
+ */
+export function toLendingPositions(positions: AavePositions): LendingPositions {
+  const { accountData } = positions;
+
+  return {
+    protocol: 'aave',
+    account: positions.account,
+    blockNumber: positions.blockNumber,
+    collateralBase: accountData.totalCollateralBase,
+    debtBase: accountData.totalDebtBase,
+    availableBorrowsBase: accountData.availableBorrowsBase,
+    healthFactor: accountData.healthFactor,
+    positions: positions.reserves.map(reserve => ({
+      asset: reserve.asset,
+      symbol: reserve.symbol,
+      decimals: reserve.decimals,
+      supplied: reserve.supplied,
+      debt: reserve.variableDebt + reserve.stableDebt,
+      suppliedBase: reserve.suppliedBase,
+      debtBase: reserve.debtBase,
+      usedAsCollateral: reserve.usedAsCollateral,
+      supplyApy: reserve.supplyApy,
+      borrowApy: reserve.variableBorrowApy,
+    })),
+  };
+}
@@ -0,0 +1,251 @@
+/**
+ * @fileoverview Move an AAVE aToken position between the EOA and its Nexus account using Fusion
+ *
+ * Towards the Nexus account the aTokens themselves are the Fusion trigger and
+ * pay the fee. Towards the EOA the Nexus account transfers them back; the
+ * trigger then pulls a single base unit of the fee token from the EOA, which
+ * is returned in the same supertransaction. AAVE checks the health factor of
+ * the sending account, so collateral backing open debt cannot be moved away.
+ */
+
+import { runtimeERC20BalanceOf } from '@biconomy/abstractjs';
+
+import type {
+  SDKContext,
+  AavePositionMigrationOptions,
+  AavePositionMigrationResult,
+  PositionOwner,
+  QuotePreview,
+  ReserveInfo,
+} from '../types';
+import { log } from '../utils/logger';
+import { withErrorHandling, TransactionError, NO_RETRY } from '../utils/errors';
+import { ERC20_ABI } from '../utils/contracts';
+import { formatTokenAmount } from '../utils/formatting';
+import { resolveReserve } from '../utils/reserves';
+import {
+  captureBalanceSnapshot,
+  displayBalanceSnapshot,
+  displayBalanceChanges,
+  getSnapshotBalance,
+} from './balances';
+import {
+  executeFusionInstructions,
+  previewFusionInstructions,
+  resolvePositionAccount,
+  resolveRouting,
+  toFusionExecutionError,
+  type FusionExecutionOutcome,
+  type FusionExecutionRequest,
+} from './fusion-execution';
+
+// Fee token pulled from the EOA to trigger a migration back to it, then returned
+const MIGRATION_TRIGGER_AMOUNT = 1n;
+
+/**
+ * Move aTokens to `options.to` from the other account, the whole position unless `options.amount` is set
+ */
+export const executeAavePositionMigration = withErrorHandling(
+  async (sdk: SDKContext, options: AavePositionMigrationOptions): Promise<AavePositionMigrationResult> => {
+    const reserve = await resolveReserve(sdk, options.asset ?? 'USDC');
+    const { aToken } = reserve;
+    const from = sourceOwner(options.to);
+
+    log.header(`AAVE Position Migration (${aToken.symbol}: ${from} → ${options.to})`);
+
+    log.step(1, `Checking ${aToken.symbol} positions`);
+    const beforeBalance = await captureBalanceSnapshot(sdk, [reserve]);
+    displayBalanceSnapshot('Initial Balances', beforeBalance);
+
+    const position = getSnapshotBalance(beforeBalance, aToken.address, from);
+    const requestedAmount = resolveMigrationAmount(options, reserve, position);
+    log.info('Migration parameters calculated', {
+      from: resolvePositionAccount(sdk, from),
+      to: resolvePositionAccount(sdk, options.to),
+      requestedAmount: formatTokenAmount(requestedAmount, aToken.decimals, aToken.symbol),
+      position: formatTokenAmount(position, aToken.decimals, aToken.symbol),
+    });
+
+    log.step(2, 'Executing Fusion Supertransaction');
+    const { hash, triggerMode, summary } = await executeMigrationTransaction(sdk, reserve, options);
+
+    log.step(3, 'Capturing final balances');
+    const afterBalance = await captureBalanceSnapshot(sdk, [reserve]);
+    displayBalanceSnapshot('Final Balances', afterBalance);
+    displayBalanceChanges(beforeBalance, afterBalance);
+    sdk.journal?.append(hash, { type: 'balances', before: beforeBalance, after: afterBalance });
+
+    const result: AavePositionMigrationResult = {
+      hash,
+      success: true,
+      triggerMode,
+      ...summary,
+      asset: reserve.address,
+      symbol: reserve.symbol,
+      decimals: reserve.decimals,
+      from: resolvePositionAccount(sdk, from),
+      to: resolvePositionAccount(sdk, options.to),
+      requestedAmount,
+      aTokensMoved:
+        getSnapshotBalance(afterBalance, aToken.address, options.to) -
+        getSnapshotBalance(beforeBalance, aToken.address, options.to),
+      beforeBalance,
+      afterBalance,
+    };
+
+    log.success('Migration Successful!', {
+      aTokensMoved: formatTokenAmount(result.aTokensMoved, aToken.decimals, aToken.symbol),
+      transactionHash: result.hash,
+    });
+
+    return result;
+  },
+  'AAVE Position Migration',
+  NO_RETRY
+);
+
+/**
+ * Quote a migration and break down its fee, trigger, calldata and gas without executing it
+ */
+export const quoteAavePositionMigration = withErrorHandling(
+  async (sdk: SDKContext, options: AavePositionMigrationOptions): Promise<QuotePreview> => {
+    const reserve = await resolveReserve(sdk, options.asset ?? 'USDC');
+
+    log.header(`AAVE Position Migration Dry Run (${reserve.aToken.symbol}: ${sourceOwner(options.to)} → ${options.to})`);
+
+    const snapshot = await captureBalanceSnapshot(sdk, [reserve]);
+    resolveMigrationAmount(
+      options,
+      reserve,
+      getSnapshotBalance(snapshot, reserve.aToken.address, sourceOwner(options.to))
+    );
+
+    const request = await buildMigrationRequest(sdk, reserve, options);
+    return await previewFusionInstructions(sdk, request);
+  },
+  'AAVE Position Migration Quote'
+);
+
+/**
+ * Build the aToken transfer and its Fusion trigger for either direction
+ *
+ * Towards the Nexus account the fee defaults to the aToken and is taken out of
+ * the pulled aTokens; towards the EOA it defaults to USDC.
+ */
+export async function buildMigrationRequest(
+  sdk: SDKContext,
+  reserve: ReserveInfo,
+  options: AavePositionMigrationOptions
+): Promise<FusionExecutionRequest> {
+  log.info('Building Fusion instructions...');
+
+  const { aToken } = reserve;
+  const toNexus = options.to === 'nexus';
+  const routing = resolveRouting(sdk, options, toNexus ? aToken.address : sdk.config.contracts.usdc);
+  const feeToken = { address: routing.feeToken, chainId: sdk.config.chainId };
+
+  if (toNexus) {
+    // The trigger's transferFrom is the migration: pulled aTokens stay in the Nexus account
+    return {
+      instructions: [],
+      trigger: options.amount === undefined
+        ? { chainId: sdk.config.chainId, tokenAddress: aToken.address, useMaxAvailableFunds: true as const }
+        : { chainId: sdk.config.chainId, tokenAddress: aToken.address, amount: options.amount },
+      feeToken,
+      triggerMode: routing.triggerMode,
+    };
+  }
+
+  const nexusAddress = sdk.orchestrator.addressOn(sdk.config.chainId, true);
+
+  const transferInstruction = await sdk.orchestrator.buildComposable({
+    type: 'default',
+    data: {
+      abi: ERC20_ABI,
+      chainId: sdk.config.chainId,
+      to: aToken.address,
+      functionName: 'transfer',
+      args: [
+        sdk.eoaAddress,
+        options.amount ?? runtimeERC20BalanceOf({ targetAddress: nexusAddress, tokenAddress: aToken.address }),
+      ],
+    },
+  });
+
+  const returnTriggerInstruction = await sdk.orchestrator.buildComposable({
+    type: 'default',
+    data: {
+      abi: ERC20_ABI,
+      chainId: sdk.config.chainId,
+      to: routing.feeToken,
+      functionName: 'transfer',
+      args: [sdk.eoaAddress, MIGRATION_TRIGGER_AMOUNT],
+    },
+  });
+
+  return {
+    instructions: [transferInstruction, returnTriggerInstruction],
+    trigger: {
+      chainId: sdk.config.chainId,
+      tokenAddress: routing.feeToken,
+      amount: MIGRATION_TRIGGER_AMOUNT,
+    },
+    feeToken,
+    triggerMode: routing.triggerMode,
+  };
+}
+
+/**
+ * Validate the requested amount against the aTokens the source account holds
+ */
+function resolveMigrationAmount(
+  options: AavePositionMigrationOptions,
+  reserve: ReserveInfo,
+  position: bigint
+): bigint {
+  const { aToken } = reserve;
+  const from = sourceOwner(options.to);
+
+  if (position === 0n) {
+    throw new TransactionError(`No ${aToken.symbol} position held by the ${from} account to migrate`);
+  }
+
+  if (options.amount === undefined) {
+    return position;
+  }
+
+  if (options.amount <= 0n) {
+    throw new TransactionError('Migration amount must be positive');
+  }
+
+  if (options.amount > position) {
+    throw new TransactionError(
+      `Migration amount exceeds the ${from} ${aToken.symbol} position. ` +
+      `Requested: ${formatTokenAmount(options.amount, aToken.decimals, aToken.symbol)}, ` +
+      `available: ${formatTokenAmount(position, aToken.decimals, aToken.symbol)}`
+    );
+  }
+
+  return options.amount;
+}
+
+/**
+ * Execute the migration supertransaction
+ */
+async function executeMigrationTransaction(
+  sdk: SDKContext,
+  reserve: ReserveInfo,
+  options: AavePositionMigrationOptions
+): Promise<FusionExecutionOutcome> {
+  try {
+    const request = await buildMigrationRequest(sdk, reserve, options);
+    return await executeFusionInstructions(sdk, request);
+
+  } catch (error) {
+    throw toFusionExecutionError(error);
+  }
+}
+
+function sourceOwner(to: PositionOwner): PositionOwner {
+  return to === 'nexus' ? 'eoa' : 'nexus';
+}
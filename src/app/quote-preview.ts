@@ -0,0 +1,265 @@
+/**
+ * @fileoverview Readable breakdown of a Fusion quote: fee, trigger, decoded instructions and gas
+ */
+
+import type { GetFusionQuotePayload, Instruction } from '@biconomy/abstractjs';
+import {
+  concatHex,
+  decodeAbiParameters,
+  decodeFunctionData,
+  size,
+  type Abi,
+  type AbiFunction,
+  type Address,
+  type Hex,
+} from 'viem';
+
+import type {
+  SDKContext,
+  QuotePreview,
+  DecodedCall,
+  DecodedArgument,
+  TriggerMode,
+  TriggerPreview,
+} from '../types';
+import { log } from '../utils/logger';
+import { ERC20_ABI, AAVE_POOL_ABI, AAVE_DEBT_TOKEN_ABI, AAVE_ATOKEN_ABI, COMPOUND_COMET_ABI } from '../utils/contracts';
+import { formatTokenAmount } from '../utils/formatting';
+import { readTokenMetadata } from '../utils/reserves';
+
+// ABIs tried, in order, when decoding instruction calldata
+const KNOWN_ABIS: readonly Abi[] = [AAVE_POOL_ABI, ERC20_ABI, AAVE_DEBT_TOKEN_ABI, AAVE_ATOKEN_ABI, COMPOUND_COMET_ABI];
+
+// Composable input params are either literal bytes or a static call read at execution
+const RAW_BYTES = 0;
+const STATIC_CALL = 1;
+
+// abstractjs composable calls: a selector plus input params instead of plain calldata
+interface ComposableCallData {
+  readonly to: Address;
+  readonly value: bigint;
+  readonly functionSig: Hex;
+  readonly inputParams: readonly { fetcherType: number; paramData: Hex }[];
+}
+
+interface PlainCallData {
+  readonly to: Address;
+  readonly value?: bigint;
+  readonly data?: Hex;
+}
+
+/**
+ * Build a fee, trigger, calldata and gas breakdown for a Fusion quote
+ */
+export async function buildQuotePreview(
+  sdk: SDKContext,
+  instructions: readonly Instruction[][],
+  fusionQuote: GetFusionQuotePayload,
+  triggerMode: TriggerMode
+): Promise<QuotePreview> {
+  const { quote, trigger } = fusionQuote;
+  const [feeToken, triggerToken] = await Promise.all([
+    readTokenMetadata(sdk, quote.paymentInfo.token),
+    trigger.tokenAddress !== undefined ? readTokenMetadata(sdk, trigger.tokenAddress) : undefined,
+  ]);
+
+  const triggerPreview: TriggerPreview = {
+    chainId: trigger.chainId,
+    useMaxAvailableFunds: trigger.useMaxAvailableFunds ?? false,
+    ...(triggerToken !== undefined && { token: triggerToken }),
+    ...(trigger.amount !== undefined && { amount: trigger.amount }),
+    ...(trigger.call !== undefined && { call: decodeCall(trigger.call) }),
+  };
+
+  return {
+    quoteHash: quote.hash,
+    triggerMode,
+    fee: {
+      token: feeToken,
+      amount: BigInt(quote.paymentInfo.tokenWeiAmount),
+      usdValue: quote.paymentInfo.tokenValue,
+    },
+    trigger: triggerPreview,
+    instructions: instructions.flat().flatMap(instruction =>
+      (instruction.calls as readonly (ComposableCallData | PlainCallData)[]).map(decodeCall)
+    ),
+    // The MEE node always places the fee payment user op first
+    userOps: quote.userOps.map((details, index) => ({
+      index,
+      chainId: Number(details.chainId),
+      isPayment: index === 0,
+      isCleanUp: details.isCleanUpUserOp ?? false,
+      callGasLimit: BigInt(details.userOp.callGasLimit),
+      verificationGasLimit: BigInt(details.userOp.verificationGasLimit),
+      preVerificationGas: BigInt(details.userOp.preVerificationGas),
+      maxGasLimit: BigInt(details.maxGasLimit),
+      maxFeePerGas: BigInt(details.maxFeePerGas),
+    })),
+  };
+}
+
+/**
+ * Log a quote preview in the same register as the flow output
+ */
+export function displayQuotePreview(preview: QuotePreview): void {
+  const { fee, trigger } = preview;
+
+  log.success('Quote received (not executed)', {
+    quoteHash: preview.quoteHash,
+    triggerMode: preview.triggerMode,
+    fee: formatTokenAmount(fee.amount, fee.token.decimals, fee.token.symbol),
+    feeUsd: `$${Number(fee.usdValue).toFixed(4)}`,
+  });
+
+  log.text('\nTrigger:');
+  if (trigger.call) {
+    log.text(`  On-chain call: ${formatCall(trigger.call)}`);
+  } else {
+    log.text(`  Token: ${trigger.token?.symbol} (${trigger.token?.address})`);
+    log.text(`  Amount: ${formatTriggerAmount(trigger)}`);
+  }
+
+  log.text('\nInstructions:');
+  preview.instructions.forEach((call, index) => {
+    log.text(`  ${index + 1}. ${formatCall(call)}`);
+  });
+
+  log.text('\nUser Ops:');
+  preview.userOps.forEach(userOp => {
+    const role = userOp.isPayment ? 'payment' : userOp.isCleanUp ? 'clean-up' : 'execution';
+    log.text(
+      `  ${userOp.index}. chain ${userOp.chainId} (${role}) ` +
+      `callGas=${userOp.callGasLimit} verificationGas=${userOp.verificationGasLimit} ` +
+      `preVerificationGas=${userOp.preVerificationGas} maxGas=${userOp.maxGasLimit} ` +
+      `maxFeePerGas=${userOp.maxFeePerGas}`
+    );
+  });
+}
+
+/**
+ * Format what a token trigger pulls in its token's units; call triggers have no amount
+ */
+export function formatTriggerAmount(trigger: TriggerPreview): string | undefined {
+  if (trigger.useMaxAvailableFunds) {
+    return 'max available';
+  }
+  if (trigger.token === undefined || trigger.amount === undefined) {
+    return undefined;
+  }
+  return formatTokenAmount(trigger.amount, trigger.token.decimals, trigger.token.symbol);
+}
+
+/**
+ * Decode a plain or composable call against the known ABIs
+ */
+function decodeCall(call: ComposableCallData | PlainCallData): DecodedCall {
+  if ('functionSig' in call) {
+    return decodeComposableCall(call);
+  }
+
+  const data = call.data ?? '0x';
+  const decoded = size(data) >= 4 ? decodeWithKnownAbis(data) : undefined;
+
+  return {
+    target: call.to,
+    value: call.value ?? 0n,
+    selector: size(data) >= 4 ? (data.slice(0, 10) as Hex) : '0x',
+    ...(decoded && { functionName: decoded.abiItem.name }),
+    args: decoded
+      ? decoded.abiItem.inputs.map((input, i) => ({
+          name: input.name ?? `arg${i}`,
+          type: input.type,
+          value: decoded.args[i],
+        }))
+      : [],
+  };
+}
+
+/**
+ * Rebuild composable calldata word by word, marking runtime-resolved arguments
+ *
+ * Runtime values are static calls (e.g. `runtimeERC20BalanceOf`) that occupy
+ * one ABI word; a zero placeholder keeps the remaining words aligned.
+ */
+function decodeComposableCall(call: ComposableCallData): DecodedCall {
+  const words: Hex[] = [];
+  const runtimeWords = new Map<number, string>();
+
+  for (const param of call.inputParams) {
+    if (param.fetcherType === STATIC_CALL) {
+      runtimeWords.set(words.length, describeStaticCall(param.paramData));
+      words.push(`0x${'00'.repeat(32)}`);
+    } else if (param.fetcherType === RAW_BYTES) {
+      for (let offset = 0; offset < size(param.paramData); offset += 32) {
+        words.push(`0x${param.paramData.slice(2 + offset * 2, 2 + (offset + 32) * 2)}`);
+      }
+    }
+  }
+
+  const base: DecodedCall = { target: call.to, value: call.value, selector: call.functionSig, args: [] };
+  const decoded = decodeWithKnownAbis(concatHex([call.functionSig, ...words]));
+  if (!decoded) {
+    return base;
+  }
+
+  // Word positions only map to arguments when every input is a static type
+  const isStatic = decoded.abiItem.inputs.every(input => !isDynamicType(input.type));
+
+  return {
+    ...base,
+    functionName: decoded.abiItem.name,
+    args: decoded.abiItem.inputs.map((input, i): DecodedArgument => {
+      const runtime = isStatic ? runtimeWords.get(i) : undefined;
+      return runtime
+        ? { name: input.name ?? `arg${i}`, type: input.type, value: undefined, runtime }
+        : { name: input.name ?? `arg${i}`, type: input.type, value: decoded.args[i] };
+    }),
+  };
+}
+
+function decodeWithKnownAbis(data: Hex): { abiItem: AbiFunction; args: readonly unknown[] } | undefined {
+  for (const abi of KNOWN_ABIS) {
+    try {
+      const { functionName, args } = decodeFunctionData({ abi, data });
+      const abiItem = abi.find(
+        (item): item is AbiFunction => item.type === 'function' && item.name === functionName
+      );
+      if (abiItem) {
+        return { abiItem, args: args ?? [] };
+      }
+    } catch {
+      // Selector not in this ABI, try the next one
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Describe a static call param, e.g. `balanceOf(0xNexus) on 0xToken`
+ */
+function describeStaticCall(paramData: Hex): string {
+  try {
+    const [target, callData] = decodeAbiParameters([{ type: 'address' }, { type: 'bytes' }], paramData);
+    const decoded = decodeWithKnownAbis(callData);
+    const call = decoded ? `${decoded.abiItem.name}(${decoded.args.join(', ')})` : callData.slice(0, 10);
+    return `${call} on ${target}`;
+  } catch {
+    return 'runtime value';
+  }
+}
+
+function isDynamicType(type: string): boolean {
+  return type === 'bytes' || type === 'string' || type.endsWith('[]') || type.startsWith('tuple');
+}
+
+function formatCall(call: DecodedCall): string {
+  if (!call.functionName) {
+    return `${call.target} ${call.selector} (unknown function)`;
+  }
+
+  const args = call.args
+    .map(arg => `${arg.name}=${arg.runtime ? `<runtime ${arg.runtime}>` : String(arg.value)}`)
+    .join(', ');
+
+  return `${call.target}.${call.functionName}(${args})`;
+}
@@ -0,0 +1,175 @@
+/**
+ * @fileoverview Decoding of supertransaction receipts into gas, fee and AAVE event results
+ */
+
+import { isAddressEqual, parseEventLogs, zeroAddress, type Address, type Hex, type Log, type TransactionReceipt } from 'viem';
+
+import type { SupertransactionReceipt, SupertransactionStep, FeeCharge } from '../types';
+import { ERC20_ABI, AAVE_POOL_ABI, AAVE_ATOKEN_ABI } from '../utils/contracts';
+
+export interface SupertransactionSummary {
+  readonly gasUsed: bigint;
+  readonly effectiveGasPrice: bigint; // Gas-weighted average across all mined transactions
+  readonly fee: FeeCharge;
+  readonly steps: readonly SupertransactionStep[];
+}
+
+export interface SupplyEventSummary {
+  readonly suppliedAmount: bigint;
+  readonly aTokensReceived: bigint;
+  readonly interestAccrued: bigint;
+  readonly liquidityIndex: bigint;
+}
+
+/**
+ * Get the mined transaction receipts from a supertransaction receipt
+ */
+export function getTransactionReceipts(receipt: SupertransactionReceipt): TransactionReceipt[] {
+  return (receipt.receipts ?? []) as TransactionReceipt[];
+}
+
+/**
+ * Summarise gas usage, the fee charged and per-user-op results
+ */
+export function summarizeSupertransaction(
+  receipt: SupertransactionReceipt,
+  feeToken: Address
+): SupertransactionSummary {
+  const receipts = getTransactionReceipts(receipt);
+
+  let gasUsed = 0n;
+  let gasCost = 0n;
+  const seen = new Set<Hex>();
+  for (const txReceipt of receipts) {
+    // Several user ops can share one bundle transaction
+    if (seen.has(txReceipt.transactionHash)) continue;
+    seen.add(txReceipt.transactionHash);
+
+    gasUsed += txReceipt.gasUsed;
+    gasCost += txReceipt.gasUsed * txReceipt.effectiveGasPrice;
+  }
+
+  return {
+    gasUsed,
+    effectiveGasPrice: gasUsed > 0n ? gasCost / gasUsed : 0n,
+    fee: decodeFeeCharge(receipt, receipts, feeToken),
+    steps: buildSteps(receipt, receipts),
+  };
+}
+
+/**
+ * Decode the Pool Supply event and the aToken Mint event for a supply
+ *
+ * AAVE's aToken mint value includes interest accrued on the existing balance,
+ * so the amount received for this supply is `value - balanceIncrease`.
+ */
+export function decodeSupplyEvents(
+  receipt: SupertransactionReceipt,
+  params: { pool: Address; asset: Address; aToken: Address; onBehalfOf: Address }
+): SupplyEventSummary | undefined {
+  const logs = getTransactionReceipts(receipt).flatMap(r => r.logs) as Log[];
+
+  const supply = parseEventLogs({ abi: AAVE_POOL_ABI, eventName: 'Supply', logs })
+    .find(event =>
+      isAddressEqual(event.address, params.pool) &&
+      isAddressEqual(event.args.reserve, params.asset) &&
+      isAddressEqual(event.args.onBehalfOf, params.onBehalfOf)
+    );
+
+  const mint = parseEventLogs({ abi: AAVE_ATOKEN_ABI, eventName: 'Mint', logs })
+    .find(event =>
+      isAddressEqual(event.address, params.aToken) &&
+      isAddressEqual(event.args.onBehalfOf, params.onBehalfOf)
+    );
+
+  if (mint) {
+    return {
+      suppliedAmount: supply?.args.amount ?? mint.args.value - mint.args.balanceIncrease,
+      aTokensReceived: mint.args.value - mint.args.balanceIncrease,
+      interestAccrued: mint.args.balanceIncrease,
+      liquidityIndex: mint.args.index,
+    };
+  }
+
+  // Older aTokens only emit the ERC20 mint transfer
+  const mintTransfer = parseEventLogs({ abi: ERC20_ABI, eventName: 'Transfer', logs })
+    .find(event =>
+      isAddressEqual(event.address, params.aToken) &&
+      isAddressEqual(event.args.from, zeroAddress) &&
+      isAddressEqual(event.args.to, params.onBehalfOf)
+    );
+
+  if (!mintTransfer || !supply) {
+    return undefined;
+  }
+
+  return {
+    suppliedAmount: supply.args.amount,
+    aTokensReceived: mintTransfer.args.value,
+    interestAccrued: 0n,
+    liquidityIndex: 0n,
+  };
+}
+
+/**
+ * Sum fee token transfers to the MEE node, falling back to the quoted fee
+ */
+function decodeFeeCharge(
+  receipt: SupertransactionReceipt,
+  receipts: TransactionReceipt[],
+  feeToken: Address
+): FeeCharge {
+  const paymentInfo = receipt.paymentInfo as { tokenWeiAmount?: string } | undefined;
+  const quoted = paymentInfo?.tokenWeiAmount ? BigInt(paymentInfo.tokenWeiAmount) : 0n;
+  const node = receipt.node as Address | undefined;
+
+  if (!node) {
+    return { token: feeToken, quoted, charged: quoted };
+  }
+
+  const logs = receipts.flatMap(r => r.logs) as Log[];
+  const transfers = parseEventLogs({ abi: ERC20_ABI, eventName: 'Transfer', logs })
+    .filter(event => isAddressEqual(event.address, feeToken) && isAddressEqual(event.args.to, node));
+
+  const charged = transfers.reduce((total, event) => total + event.args.value, 0n);
+
+  return { token: feeToken, quoted, charged: transfers.length > 0 ? charged : quoted };
+}
+
+/**
+ * Map each user op to its mined transaction, where one exists
+ */
+function buildSteps(
+  receipt: SupertransactionReceipt,
+  receipts: TransactionReceipt[]
+): SupertransactionStep[] {
+  const userOps = (receipt.userOps ?? []) as Array<{
+    chainId: string;
+    executionStatus?: SupertransactionStep['status'];
+    executionData?: Hex;
+    isCleanUpUserOp?: boolean;
+  }>;
+
+  return userOps.map((userOp, index) => {
+    const step: SupertransactionStep = {
+      index,
+      chainId: Number(userOp.chainId),
+      status: userOp.executionStatus ?? receipt.transactionStatus,
+      isCleanUp: userOp.isCleanUpUserOp ?? false,
+    };
+
+    // Once mined, the MEE node reports the transaction hash as executionData
+    const txReceipt = receipts.find(r => r.transactionHash === userOp.executionData);
+    if (!txReceipt) {
+      return step;
+    }
+
+    return {
+      ...step,
+      transactionHash: txReceipt.transactionHash,
+      blockNumber: txReceipt.blockNumber,
+      gasUsed: txReceipt.gasUsed,
+      effectiveGasPrice: txReceipt.effectiveGasPrice,
+    };
+  });
+}
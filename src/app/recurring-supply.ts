@@ -0,0 +1,291 @@
+/**
+ * @fileoverview Recurring (DCA) supply schedules on top of the Fusion supply flow
+ *
+ * Each run is a normal `executeFusionAaveSupply` call recorded in the run
+ * history. On a fork the clock is Anvil's: the scheduler mines blocks or moves
+ * time forward between runs, so a month of schedule runs in seconds. Quotes
+ * are bounded in chain time, since a fork that has time-travelled is ahead of
+ * the wall clock the MEE client would otherwise use.
+ */
+
+import { randomUUID } from 'node:crypto';
+
+import type {
+  SDKContext,
+  AaveSupplyResult,
+  QuoteTimeBounds,
+  RecurringSupplyReport,
+  RecurringSupplyRun,
+  RecurringSupplySchedule,
+  RecurringSupplyStopReason,
+  RunHistory,
+  ScheduleInterval,
+} from '../types';
+import { log } from '../utils/logger';
+import { withErrorHandling, TransactionError, InfrastructureError, NO_RETRY } from '../utils/errors';
+import { formatDuration, formatTokenAmount } from '../utils/formatting';
+import { resolveReserve } from '../utils/reserves';
+import { createRunHistory } from '../utils/run-history';
+import { sleep } from '../utils/timing';
+import { advanceAnvilTime, mineAnvilBlocks } from '../infrastructure/anvil';
+import { executeFusionAaveSupply } from './fusion-aave-demo';
+
+// Execution window of each run's quote, matching the MEE client's default
+const QUOTE_WINDOW_SECONDS = 180;
+
+// Realtime clock: how often the chain is read while waiting for the next run
+const DEFAULT_POLL_INTERVAL_MS = 12_000;
+
+// Latest block, which intervals and quote bounds are measured against
+export interface ChainTime {
+  readonly blockNumber: number;
+  readonly timestamp: number; // Unix seconds
+}
+
+export interface ScheduleClock {
+  now(): Promise<ChainTime>;
+  /** Resolve once `interval` has passed since `from`, or early when `signal` aborts */
+  waitFor(interval: ScheduleInterval, from: ChainTime, signal?: AbortSignal): Promise<void>;
+}
+
+// `fork` time-travels Anvil between runs; `realtime` waits for the chain to get there
+export type ScheduleClockMode = 'fork' | 'realtime';
+
+export interface RecurringSupplyOptions {
+  readonly clock?: ScheduleClockMode | ScheduleClock; // Defaults to `fork`
+  readonly history?: RunHistory; // Defaults to the run history in config.journalDir
+  readonly signal?: AbortSignal; // Stops the schedule before its next run
+  readonly pollIntervalMs?: number; // Realtime clock only, default 12 s
+}
+
+// One run's supply; the only part of a schedule that touches the MEE node
+export type ScheduledSupply = (amount: bigint, timeBounds: QuoteTimeBounds) => Promise<AaveSupplyResult>;
+
+export interface SupplyScheduleContext {
+  readonly clock: ScheduleClock;
+  readonly history: RunHistory;
+  readonly supply: ScheduledSupply;
+  readonly signal?: AbortSignal;
+}
+
+/**
+ * Supply `schedule.amount` every interval until the budget, run count or end time is reached
+ *
+ * A failed run stops the schedule: it may still execute on the MEE node, and
+ * the next run would not know whether the budget was spent.
+ */
+export const runRecurringSupply = withErrorHandling(
+  async (
+    sdk: SDKContext,
+    schedule: RecurringSupplySchedule,
+    options: RecurringSupplyOptions = {}
+  ): Promise<RecurringSupplyReport> => {
+    validateSchedule(schedule);
+
+    const reserve = await resolveReserve(sdk, schedule.asset);
+    const { id, interval, budget, maxRuns, until, ...supplyOptions } = schedule;
+    const clockMode = typeof options.clock === 'object' ? 'custom' : options.clock ?? 'fork';
+
+    log.header(`AAVE Recurring Supply (${reserve.symbol})`);
+    log.info('Schedule', {
+      amount: formatTokenAmount(schedule.amount, reserve.decimals, reserve.symbol),
+      every: describeInterval(interval),
+      budget: formatTokenAmount(budget, reserve.decimals, reserve.symbol),
+      ...(maxRuns !== undefined && { maxRuns }),
+      ...(until !== undefined && { until: new Date(until * 1000).toISOString() }),
+      clock: clockMode,
+    });
+
+    return runSupplySchedule(schedule, {
+      clock: typeof options.clock === 'object'
+        ? options.clock
+        : options.clock === 'realtime'
+          ? createRealtimeClock(sdk, options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS)
+          : createForkClock(sdk),
+      history: options.history ?? createRunHistory(sdk.config.journalDir),
+      supply: (amount, timeBounds) => executeFusionAaveSupply(sdk, {
+        ...supplyOptions,
+        asset: reserve.address,
+        amount,
+        timeBounds,
+      }),
+      ...(options.signal && { signal: options.signal }),
+    });
+  },
+  'Recurring Supply',
+  NO_RETRY
+);
+
+/**
+ * Run a schedule against any clock and supply function, recording every run in the history
+ */
+export async function runSupplySchedule(
+  schedule: RecurringSupplySchedule,
+  context: SupplyScheduleContext
+): Promise<RecurringSupplyReport> {
+  const scheduleId = schedule.id ?? randomUUID();
+  const runs: RecurringSupplyRun[] = [];
+  let totalSupplied = 0n;
+  let previous: ChainTime | undefined;
+
+  const finish = (stopReason: RecurringSupplyStopReason): RecurringSupplyReport => {
+    log.success('Recurring supply finished', {
+      scheduleId,
+      runs: runs.length,
+      totalSupplied: totalSupplied.toString(),
+      stopReason,
+    });
+    return { scheduleId, runs, totalSupplied, stopReason };
+  };
+
+  for (let run = 1; ; run++) {
+    const limit = runLimitReached(schedule, run, totalSupplied);
+    if (limit) {
+      return finish(limit);
+    }
+
+    if (previous) {
+      await context.clock.waitFor(schedule.interval, previous, context.signal);
+    }
+    if (context.signal?.aborted) {
+      return finish('aborted');
+    }
+
+    const start = await context.clock.now();
+    if (schedule.until !== undefined && start.timestamp > schedule.until) {
+      return finish('until');
+    }
+    previous = start;
+
+    const amount = nextRunAmount(schedule, totalSupplied);
+    log.step(run, `Recurring supply run at block ${start.blockNumber}`, { scheduleId, amount: amount.toString() });
+
+    const record = (outcome: Pick<RecurringSupplyRun, 'status'> & Partial<RecurringSupplyRun>): void => {
+      const entry: RecurringSupplyRun = {
+        scheduleId,
+        run,
+        blockNumber: start.blockNumber,
+        chainTimestamp: start.timestamp,
+        amount,
+        totalSupplied,
+        timestamp: Date.now(),
+        ...outcome,
+      };
+      runs.push(entry);
+      context.history.append(entry);
+    };
+
+    try {
+      const result = await context.supply(amount, {
+        lowerBoundTimestamp: start.timestamp,
+        upperBoundTimestamp: start.timestamp + QUOTE_WINDOW_SECONDS,
+      });
+      totalSupplied += amount;
+      record({
+        status: 'supplied',
+        hash: result.hash,
+        aTokensReceived: result.aTokensReceived,
+        ...(result.fee && { fee: result.fee }),
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      log.warn('Recurring supply run failed; stopping the schedule', { scheduleId, run, error: message });
+      record({ status: 'failed', error: message });
+      return finish('failed');
+    }
+  }
+}
+
+/**
+ * Amount of the next run: the per-run amount, trimmed to what is left of the budget
+ */
+export function nextRunAmount(schedule: RecurringSupplySchedule, totalSupplied: bigint): bigint {
+  const remaining = schedule.budget - totalSupplied;
+  return remaining < schedule.amount ? remaining : schedule.amount;
+}
+
+/**
+ * Whether `interval` has passed between two chain times
+ */
+export function hasIntervalElapsed(interval: ScheduleInterval, from: ChainTime, now: ChainTime): boolean {
+  return 'blocks' in interval
+    ? now.blockNumber - from.blockNumber >= interval.blocks
+    : now.timestamp - from.timestamp >= interval.seconds;
+}
+
+/**
+ * Clock of an Anvil fork that mines blocks or moves time forward instead of waiting
+ */
+export function createForkClock(sdk: SDKContext): ScheduleClock {
+  const now = () => readChainTime(sdk);
+
+  return {
+    now,
+    async waitFor(interval, from) {
+      const current = await now();
+
+      if ('blocks' in interval) {
+        const blocks = from.blockNumber + interval.blocks - current.blockNumber;
+        if (blocks > 0) await mineAnvilBlocks(sdk, blocks);
+      } else {
+        const seconds = from.timestamp + interval.seconds - current.timestamp;
+        if (seconds > 0) await advanceAnvilTime(sdk, seconds);
+      }
+    },
+  };
+}
+
+/**
+ * Clock that polls the chain until the interval has really passed
+ */
+export function createRealtimeClock(sdk: SDKContext, pollIntervalMs: number): ScheduleClock {
+  const now = () => readChainTime(sdk);
+
+  return {
+    now,
+    async waitFor(interval, from, signal) {
+      while (!signal?.aborted && !hasIntervalElapsed(interval, from, await now())) {
+        await sleep(pollIntervalMs, signal);
+      }
+    },
+  };
+}
+
+async function readChainTime(sdk: SDKContext): Promise<ChainTime> {
+  const block = await sdk.provider.getBlock('latest');
+  if (!block) {
+    throw new InfrastructureError('Failed to read the latest block');
+  }
+  return { blockNumber: block.number, timestamp: block.timestamp };
+}
+
+function runLimitReached(
+  schedule: RecurringSupplySchedule,
+  run: number,
+  totalSupplied: bigint
+): RecurringSupplyStopReason | undefined {
+  if (totalSupplied >= schedule.budget) return 'budget';
+  if (schedule.maxRuns !== undefined && run > schedule.maxRuns) return 'maxRuns';
+  return undefined;
+}
+
+function validateSchedule(schedule: RecurringSupplySchedule): void {
+  const every = 'blocks' in schedule.interval ? schedule.interval.blocks : schedule.interval.seconds;
+
+  if (schedule.amount <= 0n) {
+    throw new TransactionError('Recurring supply amount must be positive');
+  }
+  if (schedule.budget <= 0n) {
+    throw new TransactionError('Recurring supply budget must be positive');
+  }
+  if (!Number.isInteger(every) || every <= 0) {
+    throw new TransactionError(`Schedule interval must be a positive whole number, got ${every}`);
+  }
+  if (schedule.maxRuns !== undefined && (!Number.isInteger(schedule.maxRuns) || schedule.maxRuns <= 0)) {
+    throw new TransactionError(`maxRuns must be a positive whole number, got ${schedule.maxRuns}`);
+  }
+}
+
+function describeInterval(interval: ScheduleInterval): string {
+  return 'blocks' in interval ? `${interval.blocks} blocks` : formatDuration(interval.seconds * 1000);
+}
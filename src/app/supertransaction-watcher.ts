@@ -0,0 +1,307 @@
+/**
+ * @fileoverview Poll a submitted supertransaction and report its progress as typed events
+ */
+
+import { EventEmitter } from 'node:events';
+import type { Hex } from 'viem';
+
+import type { SDKContext, SupertransactionReceipt } from '../types';
+import { log } from '../utils/logger';
+import {
+  TransactionError,
+  SupertransactionSubmittedError,
+  decodeTransactionError,
+  extractErrorDetails,
+  isTransientError,
+  retryWithPolicy,
+  type RetryPolicy,
+} from '../utils/errors';
+import { getForkContext } from '../utils/chains';
+import { sleep } from '../utils/timing';
+
+export type SupertransactionStatus = SupertransactionReceipt['transactionStatus'];
+
+const FINAL_STATUSES: readonly SupertransactionStatus[] = ['FAILED', 'MINED_SUCCESS', 'MINED_FAIL'];
+
+// Each status poll is read-only, so a failed one is retried on the same hash
+const POLL_RETRY_POLICY: Partial<RetryPolicy> = {
+  attempts: 5,
+  initialDelayMs: 2000,
+  maxDelayMs: 15000,
+};
+
+export interface WatchSupertransactionOptions {
+  readonly pollIntervalMs?: number; // Delay between status polls, defaults to 2s
+  readonly timeoutMs?: number; // Give up waiting after this long, defaults to 10 minutes
+  readonly signal?: AbortSignal; // Stop watching when aborted
+  readonly retry?: Partial<RetryPolicy>; // Retries for a single failed poll
+}
+
+export interface SupertransactionStatusEvent {
+  readonly hash: Hex;
+  readonly status: SupertransactionStatus;
+  readonly previous?: SupertransactionStatus;
+  readonly message: string;
+}
+
+export interface UserOpStatusEvent {
+  readonly hash: Hex;
+  readonly index: number;
+  readonly chainId: number;
+  readonly status: SupertransactionStatus;
+  readonly previous?: SupertransactionStatus;
+  readonly isCleanUp: boolean;
+}
+
+export interface UserOpMinedEvent {
+  readonly hash: Hex;
+  readonly index: number;
+  readonly chainId: number;
+  readonly success: boolean;
+  readonly transactionHash: Hex;
+  readonly blockNumber?: bigint; // Missing when the chain has no configured fork to read it from
+}
+
+export interface SupertransactionWatchEvents {
+  readonly status: SupertransactionStatusEvent;
+  readonly userOp: UserOpStatusEvent;
+  readonly userOpMined: UserOpMinedEvent;
+  readonly receipt: SupertransactionReceipt;
+  readonly failed: TransactionError;
+}
+
+export type WatchEventListener<E extends keyof SupertransactionWatchEvents> =
+  (event: SupertransactionWatchEvents[E]) => void;
+
+export interface SupertransactionWatcher {
+  readonly hash: Hex;
+  readonly done: Promise<SupertransactionReceipt>; // Resolves with the receipt once every user op mined
+  on<E extends keyof SupertransactionWatchEvents>(event: E, listener: WatchEventListener<E>): SupertransactionWatcher;
+  once<E extends keyof SupertransactionWatchEvents>(event: E, listener: WatchEventListener<E>): SupertransactionWatcher;
+  off<E extends keyof SupertransactionWatchEvents>(event: E, listener: WatchEventListener<E>): SupertransactionWatcher;
+  abort(reason?: string): void;
+}
+
+interface ExplorerUserOp {
+  readonly chainId?: string | number;
+  readonly executionStatus?: SupertransactionStatus;
+  readonly executionData?: Hex;
+  readonly executionError?: string;
+  readonly isCleanUpUserOp?: boolean;
+}
+
+interface ExplorerResponse {
+  readonly userOps?: readonly ExplorerUserOp[];
+  readonly transactionStatus?: SupertransactionStatus;
+  readonly [key: string]: unknown;
+}
+
+/**
+ * Start watching a submitted supertransaction
+ *
+ * Polls the MEE node explorer until every user op is final and emits `status`
+ * on supertransaction transitions, `userOp` on user op transitions and
+ * `userOpMined` once per mined user op. `done` resolves with the full receipt
+ * or rejects with a decoded TransactionError when the node reports a failure.
+ * Reaching the deadline, aborting or running out of poll retries rejects with
+ * a SupertransactionSubmittedError: the supertransaction may still execute,
+ * so it must not be resubmitted.
+ */
+export function watchSupertransaction(
+  sdk: SDKContext,
+  hash: Hex,
+  options: WatchSupertransactionOptions = {}
+): SupertransactionWatcher {
+  const pollIntervalMs = options.pollIntervalMs ?? 2000;
+  const timeoutMs = options.timeoutMs ?? 10 * 60 * 1000;
+  const emitter = new EventEmitter();
+  const controller = new AbortController();
+
+  const emit = <E extends keyof SupertransactionWatchEvents>(event: E, payload: SupertransactionWatchEvents[E]) => {
+    // A throwing subscriber must not stop the watcher
+    try {
+      emitter.emit(event, payload);
+    } catch (error) {
+      log.warn(`Supertransaction ${event} listener failed`, { error: extractErrorDetails(error) });
+    }
+  };
+
+  const stopped = (reason: string) => new SupertransactionSubmittedError(
+    `Stopped watching supertransaction ${hash}: ${reason}. ` +
+    'It may still execute. Do not resubmit; check its status on the MEE node.',
+    hash
+  );
+
+  const onExternalAbort = () => controller.abort(stopped('aborted'));
+  if (options.signal?.aborted) {
+    onExternalAbort();
+  } else {
+    options.signal?.addEventListener('abort', onExternalAbort, { once: true });
+  }
+
+  const deadline = setTimeout(() => controller.abort(stopped(`no final status after ${timeoutMs}ms`)), timeoutMs);
+
+  const done = new Promise<SupertransactionReceipt>((resolve, reject) => {
+    controller.signal.addEventListener('abort', () => reject(controller.signal.reason), { once: true });
+    if (controller.signal.aborted) {
+      reject(controller.signal.reason);
+      return;
+    }
+
+    pollUntilFinal(sdk, hash, { ...options, pollIntervalMs }, controller.signal, emit)
+      .then(resolve, error => reject(toWatchError(hash, error)));
+  });
+
+  done.then(
+    receipt => emit('receipt', receipt),
+    error => {
+      log.debug('Stopped watching supertransaction', { hash, error: extractErrorDetails(error) });
+      if (error instanceof TransactionError) emit('failed', error);
+    }
+  ).finally(() => {
+    // Settled either way: stop the deadline and any poll still sleeping
+    clearTimeout(deadline);
+    options.signal?.removeEventListener('abort', onExternalAbort);
+    controller.abort();
+  });
+
+  const watcher: SupertransactionWatcher = {
+    hash,
+    done,
+    on: (event, listener) => (emitter.on(event, listener), watcher),
+    once: (event, listener) => (emitter.once(event, listener), watcher),
+    off: (event, listener) => (emitter.off(event, listener), watcher),
+    abort: reason => controller.abort(stopped(reason ?? 'aborted')),
+  };
+
+  return watcher;
+}
+
+async function pollUntilFinal(
+  sdk: SDKContext,
+  hash: Hex,
+  options: WatchSupertransactionOptions & { readonly pollIntervalMs: number },
+  signal: AbortSignal,
+  emit: <E extends keyof SupertransactionWatchEvents>(event: E, payload: SupertransactionWatchEvents[E]) => void
+): Promise<SupertransactionReceipt> {
+  const retry = options.retry ?? POLL_RETRY_POLICY;
+  const userOpStatuses = new Map<number, SupertransactionStatus>();
+  let status: SupertransactionStatus | undefined;
+
+  while (!signal.aborted) {
+    const response = await retryWithPolicy(
+      () => sdk.meeClient.request<ExplorerResponse>({ path: `explorer/${hash}`, method: 'GET' }),
+      {
+        ...retry,
+        signal,
+        shouldRetry: (error, attempt) => !signal.aborted && (retry.shouldRetry ?? isTransientError)(error, attempt),
+      },
+      `status of ${hash}`
+    );
+    if (signal.aborted) break;
+
+    const userOps = response.userOps ?? [];
+    for (const [index, userOp] of userOps.entries()) {
+      const current = userOp.executionStatus ?? 'PENDING';
+      const previous = userOpStatuses.get(index);
+      if (current === previous) continue;
+
+      userOpStatuses.set(index, current);
+      const chainId = Number(userOp.chainId);
+      emit('userOp', {
+        hash,
+        index,
+        chainId,
+        status: current,
+        ...(previous ? { previous } : {}),
+        isCleanUp: userOp.isCleanUpUserOp ?? false,
+      });
+
+      if ((current === 'MINED_SUCCESS' || current === 'MINED_FAIL') && userOp.executionData) {
+        const blockNumber = await getBlockNumber(sdk, chainId, userOp.executionData);
+        log.debug('User op mined', { index, chainId, transactionHash: userOp.executionData, status: current });
+        emit('userOpMined', {
+          hash,
+          index,
+          chainId,
+          success: current === 'MINED_SUCCESS',
+          transactionHash: userOp.executionData,
+          ...(blockNumber !== undefined ? { blockNumber } : {}),
+        });
+      }
+    }
+
+    const next = userOps.length > 0
+      ? deriveStatus(userOps)
+      : { status: response.transactionStatus ?? 'PENDING', message: '' };
+
+    if (next.status !== status) {
+      log.info('Supertransaction status', { status: next.status, ...(status ? { previous: status } : {}) });
+      emit('status', { hash, status: next.status, ...(status ? { previous: status } : {}), message: next.message });
+      status = next.status;
+    }
+
+    if (next.status === 'MINED_SUCCESS') {
+      return sdk.meeClient.getSupertransactionReceipt({ hash }) as Promise<SupertransactionReceipt>;
+    }
+
+    if (FINAL_STATUSES.includes(next.status)) {
+      const message = `Fusion transaction failed: ${next.message || extractErrorDetails(response)}`;
+      throw decodeTransactionError(response, message) ?? new TransactionError(message, response);
+    }
+
+    await sleep(options.pollIntervalMs, signal);
+  }
+
+  throw signal.reason;
+}
+
+/**
+ * Reduce user op statuses to the supertransaction's, ignoring cleanup user ops like the SDK does
+ */
+function deriveStatus(userOps: readonly ExplorerUserOp[]): { status: SupertransactionStatus; message: string } {
+  const ops = userOps
+    .map((userOp, index) => ({ index, status: userOp.executionStatus ?? 'PENDING', error: userOp.executionError }))
+    .filter((_, index) => !userOps[index]!.isCleanUpUserOp);
+
+  const failed = ops.find(op => op.status === 'FAILED') ?? ops.find(op => op.status === 'MINED_FAIL');
+  if (failed) {
+    const fallback = failed.status === 'FAILED' ? 'Transaction failed off-chain' : 'Transaction failed on-chain';
+    return { status: failed.status, message: `[${failed.index}] ${failed.error || fallback}` };
+  }
+
+  const mining = ops.find(op => op.status === 'MINING');
+  if (mining) {
+    return { status: 'MINING', message: `[${mining.index}] Transaction is mining` };
+  }
+
+  const pending = ops.find(op => op.status !== 'MINED_SUCCESS');
+  if (pending) {
+    return { status: 'PENDING', message: `[${pending.index}] ${pending.error || 'Waiting for conditions to be met'}` };
+  }
+
+  return { status: 'MINED_SUCCESS', message: 'Transaction executed successfully' };
+}
+
+// The block is informational, so a chain without a configured fork just leaves it out
+async function getBlockNumber(sdk: SDKContext, chainId: number, transactionHash: Hex): Promise<bigint | undefined> {
+  try {
+    const receipt = await getForkContext(sdk, chainId).provider.getTransactionReceipt(transactionHash);
+    return receipt ? BigInt(receipt.blockNumber) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Node failures are decoded errors already; anything else means the status is unknown
+function toWatchError(hash: Hex, error: unknown): TransactionError {
+  if (error instanceof TransactionError) {
+    return error;
+  }
+  return new SupertransactionSubmittedError(
+    `Supertransaction ${hash} was submitted but its status could not be fetched: ` +
+    `${extractErrorDetails(error)}. Do not resubmit; check its status on the MEE node.`,
+    hash,
+    error
+  );
+}
@@ -0,0 +1,453 @@
+/**
+ * @fileoverview Yield router: moves a supplied position to the lending protocol with the best supply APY
+ *
+ * The router reads the asset's supply APY and the EOA's position on every
+ * protocol that lists it. When the best protocol pays more than the
+ * threshold over one holding a position, a single supertransaction withdraws
+ * that position into the Nexus account and supplies all of it to the better
+ * protocol for the EOA. Either both legs land or neither does.
+ */
+
+import { runtimeERC20BalanceOf, type Instruction } from '@biconomy/abstractjs';
+import { ethers } from 'ethers';
+import type { Address } from 'viem';
+
+import type {
+  SDKContext,
+  FusionRoutingOptions,
+  LendingProtocolId,
+  RebalanceCost,
+  RebalanceOptions,
+  RebalancePlan,
+  RebalanceQuote,
+  RebalanceResult,
+  RebalanceVenue,
+  ReserveToken,
+} from '../types';
+import { log } from '../utils/logger';
+import { withErrorHandling, TransactionError, NO_RETRY } from '../utils/errors';
+import { AAVE_POOL_ABI, COMPOUND_COMET_ABI, ERC20_ABI } from '../utils/contracts';
+import { formatTokenAmount } from '../utils/formatting';
+import { readTokenMetadata, resolveReserve } from '../utils/reserves';
+import { findCometAsset, resolveCometMarket } from '../utils/compound-markets';
+import { BASE_CURRENCY_DECIMALS, getAssetPriceInBase } from './aave-account';
+import { buildWithdrawRequest } from './fusion-aave-withdraw';
+import { buildCompoundWithdrawRequest } from './fusion-compound';
+import { LENDING_PROTOCOLS } from './lending-protocols';
+import { captureTokenSnapshot } from './balances';
+import {
+  assertEoaPositionOwner,
+  executeFusionInstructions,
+  previewFusionInstructions,
+  resolveRouting,
+  toFusionExecutionError,
+  type FusionExecutionOutcome,
+  type FusionExecutionRequest,
+} from './fusion-execution';
+
+// Default APY gap that justifies a move, in basis points of APY
+export const DEFAULT_MIN_RATE_DIFFERENCE_BPS = 50;
+
+// APY differences are applied to bigint amounts with six decimal places
+const APY_PRECISION = 1_000_000;
+
+const DAYS_PER_YEAR = 365;
+
+// How each protocol takes part in a move; a new protocol must add its legs here
+interface RebalanceLegs {
+  // Withdraw `amount` (the EOA's whole position) into the Nexus account, with the trigger that starts it
+  buildExit(sdk: SDKContext, asset: Address, amount: bigint, options: FusionRoutingOptions): Promise<FusionExecutionRequest>;
+  // Supply the Nexus account's whole balance of the asset to `positionAccount`;
+  // buildRebalanceRequest refuses to run while that balance is non-zero beforehand
+  buildEntry(sdk: SDKContext, asset: Address, positionAccount: Address): Promise<Instruction[]>;
+}
+
+const REBALANCE_LEGS: Readonly<Record<LendingProtocolId, RebalanceLegs>> = {
+  aave: {
+    buildExit: async (sdk, asset, amount, options) => buildWithdrawRequest(
+      sdk,
+      await resolveReserve(sdk, asset),
+      { ...options, asset, mode: 'max', recipient: getNexusAddress(sdk) },
+      amount
+    ),
+    buildEntry: async (sdk, asset, positionAccount) => {
+      const nexusBalance = runtimeERC20BalanceOf({ targetAddress: getNexusAddress(sdk), tokenAddress: asset });
+      return [
+        ...await sdk.orchestrator.buildComposable({
+          type: 'default',
+          data: {
+            abi: ERC20_ABI,
+            chainId: sdk.config.chainId,
+            to: asset,
+            functionName: 'approve',
+            args: [sdk.config.contracts.aavePool, nexusBalance],
+          },
+        }),
+        ...await sdk.orchestrator.buildComposable({
+          type: 'default',
+          data: {
+            abi: AAVE_POOL_ABI,
+            chainId: sdk.config.chainId,
+            to: sdk.config.contracts.aavePool,
+            functionName: 'supply',
+            args: [asset, nexusBalance, positionAccount, 0],
+          },
+        }),
+      ];
+    },
+  },
+  compound: {
+    buildExit: async (sdk, asset, amount, options) => {
+      const market = await resolveCometMarket(sdk);
+      const routing = resolveRouting(sdk, { ...options, recipient: getNexusAddress(sdk) }, sdk.config.contracts.usdc);
+      return buildCompoundWithdrawRequest(sdk, market, findCometAsset(market, asset), 'max', amount, routing);
+    },
+    buildEntry: async (sdk, asset, positionAccount) => {
+      const { comet } = await resolveCometMarket(sdk);
+      const nexusBalance = runtimeERC20BalanceOf({ targetAddress: getNexusAddress(sdk), tokenAddress: asset });
+      return [
+        ...await sdk.orchestrator.buildComposable({
+          type: 'default',
+          data: {
+            abi: ERC20_ABI,
+            chainId: sdk.config.chainId,
+            to: asset,
+            functionName: 'approve',
+            args: [comet, nexusBalance],
+          },
+        }),
+        ...await sdk.orchestrator.buildComposable({
+          type: 'default',
+          data: {
+            abi: COMPOUND_COMET_ABI,
+            chainId: sdk.config.chainId,
+            to: comet,
+            functionName: 'supplyTo',
+            args: [positionAccount, asset, nexusBalance],
+          },
+        }),
+      ];
+    },
+  },
+};
+
+/**
+ * Compare supply APYs and, when the gap exceeds the threshold, move the position in one supertransaction
+ *
+ * Holding is not an error: the result then carries the plan and its reason only.
+ */
+export const executeRebalance = withErrorHandling(
+  async (sdk: SDKContext, options: RebalanceOptions): Promise<RebalanceResult> => {
+    log.header('Yield Router Rebalance');
+
+    log.step(1, 'Reading supply rates and positions');
+    const plan = await planRebalanceFor(sdk, options);
+    displayPlan(plan);
+
+    if (!plan.shouldRebalance || plan.from === undefined) {
+      log.info('Holding position', { reason: plan.reason });
+      return { plan };
+    }
+
+    const from = plan.from;
+    const before = await readSupplied(sdk, plan.to, plan.asset);
+    const tracked = await readRebalanceTokens(sdk, plan.asset);
+    const beforeBalance = await captureTokenSnapshot(sdk, tracked);
+
+    log.step(2, 'Executing Fusion Supertransaction');
+    const { hash, triggerMode, summary } = await executeRebalanceTransaction(sdk, plan, options);
+
+    log.step(3, 'Reading final positions');
+    const after = await readSupplied(sdk, plan.to, plan.asset);
+    const afterBalance = await captureTokenSnapshot(sdk, tracked);
+    sdk.journal?.append(hash, { type: 'balances', before: beforeBalance, after: afterBalance });
+    const assetPrice = await getAssetPriceInBase(sdk, plan.asset);
+    const feeBase = await valueFeeInBase(sdk, plan, summary.fee.token, summary.fee.charged, assetPrice);
+    const cost = assessRebalanceCost(plan, feeBase);
+
+    const result: RebalanceResult = {
+      plan,
+      transaction: { hash, success: true, triggerMode, ...summary },
+      positionReceived: after - before,
+      cost,
+    };
+
+    log.success('Rebalance Successful!', {
+      moved: `${formatTokenAmount(plan.amount, plan.decimals, plan.symbol)} ` +
+        `${LENDING_PROTOCOLS[from].name} → ${LENDING_PROTOCOLS[plan.to].name}`,
+      expectedAnnualGain: formatUsd(plan.expectedAnnualGainBase),
+      feePaid: formatUsd(cost.feeBase),
+      breakEvenDays: cost.breakEvenDays?.toFixed(1),
+      transactionHash: hash,
+    });
+
+    if (cost.netAnnualGainBase < 0n) {
+      log.warn('The fee exceeds a full year of expected extra yield');
+    }
+
+    return result;
+  },
+  'Yield Router Rebalance',
+  NO_RETRY
+);
+
+/**
+ * Plan a rebalance and quote it without executing; the cost uses the quoted fee
+ */
+export const quoteRebalance = withErrorHandling(
+  async (sdk: SDKContext, options: RebalanceOptions): Promise<RebalanceQuote> => {
+    log.header('Yield Router Rebalance Dry Run');
+
+    const plan = await planRebalanceFor(sdk, options);
+    displayPlan(plan);
+
+    if (!plan.shouldRebalance) {
+      log.info('Holding position', { reason: plan.reason });
+      return { plan };
+    }
+
+    const preview = await previewFusionInstructions(sdk, await buildRebalanceRequest(sdk, plan, options));
+    const feeBase = BigInt(Math.round(Number(preview.fee.usdValue) * 10 ** BASE_CURRENCY_DECIMALS));
+
+    return { plan, preview, cost: assessRebalanceCost(plan, feeBase) };
+  },
+  'Yield Router Rebalance Quote'
+);
+
+/**
+ * Pick the best venue and the position whose move gains the most, and decide whether to move it
+ *
+ * The gap must exceed `minRateDifferenceBps`. `assetPriceBase` is the price of
+ * one whole token in USD with 8 decimals.
+ */
+export function planRebalance(
+  token: ReserveToken,
+  venues: readonly RebalanceVenue[],
+  minRateDifferenceBps: number,
+  assetPriceBase: bigint
+): RebalancePlan {
+  const [first, ...rest] = venues;
+  if (!first || rest.length === 0) {
+    throw new TransactionError(`${token.symbol} is listed on fewer than two lending protocols; nothing to compare`);
+  }
+
+  const best = rest.reduce((top, venue) => (venue.supplyApy > top.supplyApy ? venue : top), first);
+  const source = venues
+    .filter(venue => venue !== best && venue.supplied > 0n)
+    .map(venue => ({ venue, gain: applyRate(venue.supplied, best.supplyApy - venue.supplyApy) }))
+    .reduce<{ venue: RebalanceVenue; gain: bigint } | undefined>(
+      (top, candidate) => (top === undefined || candidate.gain > top.gain ? candidate : top),
+      undefined
+    );
+
+  const unit = 10n ** BigInt(token.decimals);
+  const base = {
+    asset: token.address,
+    symbol: token.symbol,
+    decimals: token.decimals,
+    venues,
+    to: best.protocol,
+  };
+
+  if (!source) {
+    return {
+      ...base,
+      amount: 0n,
+      rateDifference: 0,
+      expectedAnnualGain: 0n,
+      expectedAnnualGainBase: 0n,
+      shouldRebalance: false,
+      reason: `No ${token.symbol} supplied outside ${LENDING_PROTOCOLS[best.protocol].name}, the best venue`,
+    };
+  }
+
+  const rateDifference = best.supplyApy - source.venue.supplyApy;
+  const shouldRebalance = rateDifference * 10_000 > minRateDifferenceBps;
+  const gap = `${formatPercent(rateDifference)} more APY on ${LENDING_PROTOCOLS[best.protocol].name} ` +
+    `than on ${LENDING_PROTOCOLS[source.venue.protocol].name}`;
+
+  return {
+    ...base,
+    from: source.venue.protocol,
+    amount: source.venue.supplied,
+    rateDifference,
+    expectedAnnualGain: source.gain,
+    expectedAnnualGainBase: (source.gain * assetPriceBase) / unit,
+    shouldRebalance,
+    reason: shouldRebalance
+      ? gap
+      : `${gap} is within the ${formatPercent(minRateDifferenceBps / 10_000)} threshold`,
+  };
+}
+
+/**
+ * Weigh a plan's expected annual gain against the fee, both in USD with 8 decimals
+ */
+export function assessRebalanceCost(plan: RebalancePlan, feeBase: bigint): RebalanceCost {
+  return {
+    feeBase,
+    netAnnualGainBase: plan.expectedAnnualGainBase - feeBase,
+    ...(plan.expectedAnnualGainBase > 0n && {
+      breakEvenDays: (Number(feeBase) / Number(plan.expectedAnnualGainBase)) * DAYS_PER_YEAR,
+    }),
+  };
+}
+
+/**
+ * Join the source protocol's exit and the target protocol's entry into one request
+ */
+export async function buildRebalanceRequest(
+  sdk: SDKContext,
+  plan: RebalancePlan,
+  options: FusionRoutingOptions
+): Promise<FusionExecutionRequest> {
+  if (plan.from === undefined) {
+    throw new TransactionError(`No ${plan.symbol} position to move`);
+  }
+
+  log.info('Building Fusion instructions...');
+
+  const routingOptions: FusionRoutingOptions = {
+    ...(options.feeToken !== undefined && { feeToken: options.feeToken }),
+    ...(options.triggerMode !== undefined && { triggerMode: options.triggerMode }),
+  };
+  const { positionAccount } = resolveRouting(sdk, options, plan.asset);
+  await assertNoNexusBalance(sdk, plan);
+
+  const exit = await REBALANCE_LEGS[plan.from].buildExit(sdk, plan.asset, plan.amount, routingOptions);
+  const entry = await REBALANCE_LEGS[plan.to].buildEntry(sdk, plan.asset, positionAccount);
+
+  return { ...exit, instructions: [...exit.instructions, entry] };
+}
+
+/**
+ * Build and execute the rebalance supertransaction
+ */
+async function executeRebalanceTransaction(
+  sdk: SDKContext,
+  plan: RebalancePlan,
+  options: RebalanceOptions
+): Promise<FusionExecutionOutcome> {
+  try {
+    return await executeFusionInstructions(sdk, await buildRebalanceRequest(sdk, plan, options));
+
+  } catch (error) {
+    throw toFusionExecutionError(error);
+  }
+}
+
+/**
+ * Read every listing venue's supply APY and the EOA's position, then plan the move
+ */
+async function planRebalanceFor(sdk: SDKContext, options: RebalanceOptions): Promise<RebalancePlan> {
+  assertEoaPositionOwner(sdk, options, 'Rebalance');
+
+  const listings = await Promise.all(Object.values(LENDING_PROTOCOLS).map(async protocol => {
+    try {
+      return { protocol, token: await protocol.resolveAsset(sdk, options.asset) };
+    } catch (error) {
+      if (!(error instanceof TransactionError)) throw error;
+      log.info(`${options.asset} is not listed on ${protocol.name}`);
+      return undefined;
+    }
+  }));
+  const listed = listings.filter(listing => listing !== undefined);
+
+  const [first] = listed;
+  if (!first) {
+    throw new TransactionError(`${options.asset} is not listed on any lending protocol`);
+  }
+
+  const venues = await Promise.all(listed.map(async ({ protocol, token }): Promise<RebalanceVenue> => {
+    const [rates, supplied] = await Promise.all([
+      protocol.getRates(sdk, token.address),
+      readSupplied(sdk, protocol.id, token.address),
+    ]);
+    return { protocol: protocol.id, supplyApy: rates.supplyApy, supplied };
+  }));
+
+  return planRebalance(
+    first.token,
+    venues,
+    options.minRateDifferenceBps ?? DEFAULT_MIN_RATE_DIFFERENCE_BPS,
+    await getAssetPriceInBase(sdk, first.token.address)
+  );
+}
+
+// The asset with its AAVE aToken and the Comet market, which is an ERC-20 of the base asset supplied
+async function readRebalanceTokens(sdk: SDKContext, asset: Address): Promise<ReserveToken[]> {
+  const [reserve, market] = await Promise.all([resolveReserve(sdk, asset), resolveCometMarket(sdk)]);
+  return [reserve, reserve.aToken, await readTokenMetadata(sdk, market.comet)];
+}
+
+async function readSupplied(sdk: SDKContext, protocol: LendingProtocolId, asset: Address): Promise<bigint> {
+  const { positions } = await LENDING_PROTOCOLS[protocol].getPositions(sdk, sdk.eoaAddress);
+  const position = positions.find(candidate => candidate.asset.toLowerCase() === asset.toLowerCase());
+  return position?.supplied ?? 0n;
+}
+
+/**
+ * Value a charged fee in USD; AAVE exits pay in aTokens, which track the underlying one to one
+ */
+async function valueFeeInBase(
+  sdk: SDKContext,
+  plan: RebalancePlan,
+  feeToken: Address,
+  charged: bigint,
+  assetPrice: bigint
+): Promise<bigint> {
+  const { decimals } = await readTokenMetadata(sdk, feeToken);
+  const tracksAsset = feeToken.toLowerCase() === plan.asset.toLowerCase() ||
+    (plan.from === 'aave' && (await resolveReserve(sdk, plan.asset)).aToken.address.toLowerCase() === feeToken.toLowerCase());
+  const price = tracksAsset ? assetPrice : await getAssetPriceInBase(sdk, feeToken);
+
+  return (charged * price) / 10n ** BigInt(decimals);
+}
+
+function displayPlan(plan: RebalancePlan): void {
+  log.info('Supply rates', Object.fromEntries(plan.venues.map(venue => [
+    LENDING_PROTOCOLS[venue.protocol].name,
+    `${formatPercent(venue.supplyApy)} APY, ${formatTokenAmount(venue.supplied, plan.decimals, plan.symbol)} supplied`,
+  ])));
+  log.info('Rebalance plan', {
+    decision: plan.shouldRebalance ? 'move' : 'hold',
+    reason: plan.reason,
+    expectedAnnualGain: formatUsd(plan.expectedAnnualGainBase),
+  });
+}
+
+/**
+ * Refuse to move while the Nexus account already holds the asset
+ *
+ * The entry leg supplies the Nexus account's whole balance, so those tokens
+ * would be supplied for the position account along with the withdrawn ones.
+ */
+async function assertNoNexusBalance(sdk: SDKContext, plan: RebalancePlan): Promise<void> {
+  const nexusAddress = getNexusAddress(sdk);
+  const contract = new ethers.Contract(plan.asset, ERC20_ABI, sdk.provider);
+  const nexusBalance = await contract.balanceOf!(nexusAddress) as bigint;
+
+  if (nexusBalance > 0n) {
+    throw new TransactionError(
+      `Nexus account ${nexusAddress} already holds ` +
+      `${formatTokenAmount(nexusBalance, plan.decimals, plan.symbol)}, which this move would supply too. ` +
+      'Move them to the EOA first.'
+    );
+  }
+}
+
+function getNexusAddress(sdk: SDKContext): Address {
+  return sdk.orchestrator.addressOn(sdk.config.chainId, true);
+}
+
+function applyRate(amount: bigint, rate: number): bigint {
+  return (amount * BigInt(Math.round(rate * APY_PRECISION))) / BigInt(APY_PRECISION);
+}
+
+function formatPercent(fraction: number): string {
+  return `${(fraction * 100).toFixed(2)}%`;
+}
+
+function formatUsd(valueBase: bigint): string {
+  return `$${(Number(valueBase) / 10 ** BASE_CURRENCY_DECIMALS).toFixed(2)}`;
+}
@@ -0,0 +1,391 @@
+/**
+ * @fileoverview Command-line argument parsing for the AAVE Fusion CLI
+ */
+
+import { parseArgs } from 'node:util';
+import { ethers } from 'ethers';
+import type { Address } from 'viem';
+
+import type {
+  InterestRateMode,
+  LendingProtocolId,
+  PositionOwner,
+  ScheduleInterval,
+  TriggerModePreference,
+} from '../types';
+import { CliUsageError } from '../utils/errors';
+import { isValidAddress } from '../utils/validation';
+
+export const CLI_COMMANDS = [
+  'supply',
+  'withdraw',
+  'borrow',
+  'repay',
+  'balances',
+  'fund',
+  'quote',
+  'health',
+  'compare',
+  'cross-supply',
+  'resume',
+  'positions',
+  'rates',
+  'rebalance',
+  'migrate',
+  'dca',
+] as const;
+
+// Commands that run against the lending protocol chosen with --protocol
+export const PROTOCOL_COMMANDS: readonly CliCommand[] = [
+  'supply',
+  'withdraw',
+  'borrow',
+  'repay',
+  'quote',
+  'positions',
+  'rates',
+];
+
+export const LENDING_PROTOCOL_IDS: readonly LendingProtocolId[] = ['aave', 'compound'];
+
+export type CliCommand = typeof CLI_COMMANDS[number];
+export type OutputFormat = 'text' | 'json';
+
+export interface CliOptions {
+  readonly protocol?: LendingProtocolId; // Defaults to aave
+  readonly asset?: string;
+  readonly amount?: string; // Human units, or `max` / `all` where the command supports it
+  readonly recipient?: Address;
+  readonly account?: Address;
+  readonly feeToken?: string;
+  readonly triggerMode?: TriggerModePreference;
+  readonly positionOwner?: PositionOwner;
+  readonly to?: PositionOwner; // Destination of migrate
+  readonly format: OutputFormat;
+  readonly dryRun: boolean; // Quote and decode only, never execute
+  readonly rateMode?: InterestRateMode;
+  readonly minHealthFactor?: number;
+  readonly minRateDifferenceBps?: number; // rebalance threshold
+  readonly chainId?: number; // Fork used by balances and fund
+  readonly sourceChainId?: number;
+  readonly destinationChainId?: number;
+  readonly every?: ScheduleInterval; // dca run interval
+  readonly budget?: string; // dca cap on the total supplied, in token units
+  readonly runs?: number; // dca run limit
+  readonly until?: number; // dca end, chain time in Unix seconds
+  readonly realtime: boolean; // dca waits for the chain instead of time-travelling the fork
+}
+
+export interface ParsedCommand {
+  readonly command: CliCommand;
+  readonly options: CliOptions;
+}
+
+export const USAGE = `Usage: npm start -- <command> [options]
+
+Commands:
+  supply       Supply an asset to the protocol      --asset, --amount
+  withdraw     Withdraw a supplied asset            --asset, --amount (or max)
+  borrow       Borrow against supplied collateral   --asset, --amount, --rate-mode, --min-health-factor
+  repay        Repay outstanding debt               --asset, --amount (or all), --rate-mode
+  balances     Show reserve and aToken balances     --asset, --account, --chain
+  fund         Fund any reserve or ETH (Anvil)      --asset, --amount, --recipient, --chain
+  quote        Dry-run a supply (same as supply --dry-run)
+  health       Show AAVE account health             --account
+  positions    Show collateral, debt and APYs       --account
+  rates        Show supply and borrow APYs          --asset
+  rebalance    Move a supply to the best supply APY --asset, --min-rate-difference
+  compare      Compare Fusion with EOA transactions --asset, --amount
+  cross-supply Supply USDC from one fork to another --source-chain, --destination-chain, --amount
+  resume       Wait for supertransactions a previous run left pending in the journal
+  migrate      Move aTokens between EOA and Nexus   --to, --asset, --amount (or max)
+  dca          Supply on a recurring schedule       --asset, --amount, --every, --budget, --runs, --until
+
+Options:
+  --protocol <aave|compound>    Lending protocol for supply, withdraw, borrow, repay, quote, positions
+                                and rates (default: aave; compound uses the Comet USDC market)
+  --asset <symbol|address>      Reserve symbol or underlying address (default: USDC)
+  --amount <value>              Amount in token units, e.g. 25.5
+  --recipient <address>         Receiver of the position or funds (default: position owner or EOA)
+  --position-owner <eoa|nexus>  Account that holds AAVE positions (default: POSITION_OWNER)
+  --to <eoa|nexus>              Account migrate moves the aTokens to
+  --account <address>           Account to inspect with balances, health and positions
+                                (default: EOA for balances, position owner for health and positions)
+  --fee-token <symbol|address>  Token used to pay the MEE fee
+  --trigger-mode <auto|permit|onchain>
+                                Fusion trigger: ERC-2612 permit or on-chain approval (default: auto)
+  --rate-mode <variable|stable> AAVE interest rate mode for borrow and repay (default: variable)
+  --min-health-factor <value>   Health factor floor for borrow (default: MIN_HEALTH_FACTOR)
+  --min-rate-difference <bps>   Supply APY gap rebalance needs to move, in basis points (default: 50)
+  --chain <id>                  Fork for balances and fund (default: ANVIL_CHAIN_ID)
+  --source-chain <id>           Fork the cross-supply trigger pulls USDC on
+  --destination-chain <id>      Fork cross-supply supplies on (default: ANVIL_CHAIN_ID)
+  --every <n>b|<n>s|<n>m|<n>h|<n>d
+                                dca interval in blocks or time, e.g. 7200b or 1d
+  --budget <value>              dca cap on the total supplied, in token units
+  --runs <n>                    dca run limit
+  --until <date|unix seconds>   dca end; no run starts after this chain time
+  --realtime                    dca waits for real blocks instead of time-travelling the fork
+  --dry-run                     Build and quote supply/withdraw/borrow/repay/cross-supply/migrate/rebalance
+                                without executing
+  --format <text|json>          Output format (default: text)
+  -h, --help                    Show this help`;
+
+/**
+ * Parse argv (without the node and script entries) into a command and its options
+ */
+export function parseCliArgs(argv: readonly string[]): ParsedCommand | undefined {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: [...argv],
+      allowPositionals: true,
+      options: {
+        protocol: { type: 'string' },
+        asset: { type: 'string' },
+        amount: { type: 'string' },
+        recipient: { type: 'string' },
+        account: { type: 'string' },
+        'fee-token': { type: 'string' },
+        'trigger-mode': { type: 'string' },
+        'position-owner': { type: 'string' },
+        to: { type: 'string' },
+        format: { type: 'string', default: 'text' },
+        'dry-run': { type: 'boolean', default: false },
+        'rate-mode': { type: 'string' },
+        'min-health-factor': { type: 'string' },
+        'min-rate-difference': { type: 'string' },
+        chain: { type: 'string' },
+        'source-chain': { type: 'string' },
+        'destination-chain': { type: 'string' },
+        every: { type: 'string' },
+        budget: { type: 'string' },
+        runs: { type: 'string' },
+        until: { type: 'string' },
+        realtime: { type: 'boolean', default: false },
+        help: { type: 'boolean', short: 'h' },
+      },
+    });
+  } catch (error) {
+    throw new CliUsageError(error instanceof Error ? error.message : 'Invalid arguments', error);
+  }
+
+  const { values, positionals } = parsed;
+  const [command, ...extra] = positionals;
+
+  if (values.help || command === undefined || command === 'help') {
+    return undefined;
+  }
+
+  if (!isCliCommand(command)) {
+    throw new CliUsageError(`Unknown command "${command}". Expected one of: ${CLI_COMMANDS.join(', ')}`);
+  }
+
+  if (extra.length > 0) {
+    throw new CliUsageError(`Unexpected arguments: ${extra.join(' ')}`);
+  }
+
+  const protocol = values.protocol === undefined ? undefined : parseProtocol(values.protocol);
+  if (protocol !== undefined && !PROTOCOL_COMMANDS.includes(command)) {
+    throw new CliUsageError(`--protocol is only supported by: ${PROTOCOL_COMMANDS.join(', ')}`);
+  }
+
+  const recipient = values.recipient === undefined ? undefined : parseAddress('--recipient', values.recipient);
+  const account = values.account === undefined ? undefined : parseAddress('--account', values.account);
+  const triggerMode = values['trigger-mode'] === undefined
+    ? undefined
+    : parseTriggerMode(values['trigger-mode']);
+  const positionOwner = values['position-owner'] === undefined
+    ? undefined
+    : parsePositionOwner('--position-owner', values['position-owner']);
+  const to = values.to === undefined ? undefined : parsePositionOwner('--to', values.to);
+  const rateMode = values['rate-mode'] === undefined ? undefined : parseRateMode(values['rate-mode']);
+  if (rateMode !== undefined && protocol === 'compound') {
+    throw new CliUsageError('--rate-mode only applies to AAVE; Compound v3 has a single borrow rate');
+  }
+  const minHealthFactor = values['min-health-factor'] === undefined
+    ? undefined
+    : parseHealthFactor(values['min-health-factor']);
+  const minRateDifferenceBps = values['min-rate-difference'] === undefined
+    ? undefined
+    : parseBasisPoints('--min-rate-difference', values['min-rate-difference']);
+  const chainId = values.chain === undefined ? undefined : parseChainId('--chain', values.chain);
+  const sourceChainId = values['source-chain'] === undefined
+    ? undefined
+    : parseChainId('--source-chain', values['source-chain']);
+  const destinationChainId = values['destination-chain'] === undefined
+    ? undefined
+    : parseChainId('--destination-chain', values['destination-chain']);
+
+  if (values.amount !== undefined) {
+    checkAmountSyntax('--amount', values.amount, AMOUNT_KEYWORDS[command]);
+  }
+  if (values.budget !== undefined) {
+    checkAmountSyntax('--budget', values.budget);
+  }
+
+  const every = values.every === undefined ? undefined : parseInterval(values.every);
+  const runs = values.runs === undefined ? undefined : parseRunLimit(values.runs);
+  const until = values.until === undefined ? undefined : parseUntil(values.until);
+
+  return {
+    command,
+    options: {
+      format: parseFormat(values.format ?? 'text'),
+      dryRun: values['dry-run'] ?? false,
+      realtime: values.realtime ?? false,
+      ...(protocol !== undefined && { protocol }),
+      ...(values.asset !== undefined && { asset: values.asset }),
+      ...(values.amount !== undefined && { amount: values.amount }),
+      ...(values['fee-token'] !== undefined && { feeToken: values['fee-token'] }),
+      ...(triggerMode !== undefined && { triggerMode }),
+      ...(positionOwner !== undefined && { positionOwner }),
+      ...(to !== undefined && { to }),
+      ...(recipient !== undefined && { recipient }),
+      ...(account !== undefined && { account }),
+      ...(rateMode !== undefined && { rateMode }),
+      ...(minHealthFactor !== undefined && { minHealthFactor }),
+      ...(minRateDifferenceBps !== undefined && { minRateDifferenceBps }),
+      ...(chainId !== undefined && { chainId }),
+      ...(sourceChainId !== undefined && { sourceChainId }),
+      ...(destinationChainId !== undefined && { destinationChainId }),
+      ...(every !== undefined && { every }),
+      ...(values.budget !== undefined && { budget: values.budget }),
+      ...(runs !== undefined && { runs }),
+      ...(until !== undefined && { until }),
+    },
+  };
+}
+
+/**
+ * Parse a human-readable amount into base units for a token
+ */
+export function parseAmount(value: string, decimals: number, symbol: string): bigint {
+  let amount: bigint;
+  try {
+    amount = ethers.parseUnits(value, decimals);
+  } catch (error) {
+    throw new CliUsageError(`Invalid ${symbol} amount "${value}"`, error);
+  }
+
+  if (amount <= 0n) {
+    throw new CliUsageError(`${symbol} amount must be positive`);
+  }
+
+  return amount;
+}
+
+function isCliCommand(value: string): value is CliCommand {
+  return (CLI_COMMANDS as readonly string[]).includes(value);
+}
+
+function parseAddress(flag: string, value: string): Address {
+  if (!isValidAddress(value)) {
+    throw new CliUsageError(`${flag} must be a valid address, got "${value}"`);
+  }
+  return ethers.getAddress(value) as Address;
+}
+
+function parseFormat(value: string): OutputFormat {
+  if (value !== 'text' && value !== 'json') {
+    throw new CliUsageError(`--format must be "text" or "json", got "${value}"`);
+  }
+  return value;
+}
+
+function parseProtocol(value: string): LendingProtocolId {
+  const protocol = LENDING_PROTOCOL_IDS.find(id => id === value);
+  if (protocol === undefined) {
+    throw new CliUsageError(`--protocol must be one of ${LENDING_PROTOCOL_IDS.join(', ')}, got "${value}"`);
+  }
+  return protocol;
+}
+
+function parseTriggerMode(value: string): TriggerModePreference {
+  if (value !== 'auto' && value !== 'permit' && value !== 'onchain') {
+    throw new CliUsageError(`--trigger-mode must be "auto", "permit" or "onchain", got "${value}"`);
+  }
+  return value;
+}
+
+function parsePositionOwner(flag: string, value: string): PositionOwner {
+  if (value !== 'eoa' && value !== 'nexus') {
+    throw new CliUsageError(`${flag} must be "eoa" or "nexus", got "${value}"`);
+  }
+  return value;
+}
+
+function parseRateMode(value: string): InterestRateMode {
+  if (value !== 'variable' && value !== 'stable') {
+    throw new CliUsageError(`--rate-mode must be "variable" or "stable", got "${value}"`);
+  }
+  return value;
+}
+
+function parseHealthFactor(value: string): number {
+  const healthFactor = Number(value);
+  if (!Number.isFinite(healthFactor) || healthFactor < 1) {
+    throw new CliUsageError(`--min-health-factor must be a number of at least 1, got "${value}"`);
+  }
+  return healthFactor;
+}
+
+function parseBasisPoints(flag: string, value: string): number {
+  const bps = Number(value);
+  if (!Number.isFinite(bps) || bps < 0) {
+    throw new CliUsageError(`${flag} must be a non-negative number of basis points, got "${value}"`);
+  }
+  return bps;
+}
+
+function parseChainId(flag: string, value: string): number {
+  const chainId = Number(value);
+  if (!Number.isInteger(chainId) || chainId <= 0) {
+    throw new CliUsageError(`${flag} must be a positive integer chain ID, got "${value}"`);
+  }
+  return chainId;
+}
+
+// Keyword accepted by --amount in place of a number, per command
+const AMOUNT_KEYWORDS: Partial<Record<CliCommand, string>> = { withdraw: 'max', migrate: 'max', repay: 'all' };
+
+// Token decimals are only known after SDK init, so this checks the shape and parseAmount the precision
+function checkAmountSyntax(flag: string, value: string, keyword?: string): void {
+  if (value === keyword) {
+    return;
+  }
+  if (!/^(\d+(\.\d+)?|\.\d+)$/.test(value) || !/[1-9]/.test(value)) {
+    const expected = keyword === undefined ? 'a positive number' : `a positive number or "${keyword}"`;
+    throw new CliUsageError(`${flag} must be ${expected}, got "${value}"`);
+  }
+}
+
+// Seconds per unit accepted by --every
+const INTERVAL_UNITS: Record<string, number> = { s: 1, m: 60, h: 3_600, d: 86_400 };
+
+function parseInterval(value: string): ScheduleInterval {
+  const match = /^(\d+)(b|s|m|h|d)$/.exec(value);
+  const count = match ? Number(match[1]) : 0;
+  if (!match || count <= 0) {
+    throw new CliUsageError(`--every must look like 7200b (blocks) or 30s, 15m, 12h, 1d, got "${value}"`);
+  }
+
+  const unit = match[2]!;
+  return unit === 'b' ? { blocks: count } : { seconds: count * INTERVAL_UNITS[unit]! };
+}
+
+function parseRunLimit(value: string): number {
+  const runs = Number(value);
+  if (!Number.isInteger(runs) || runs <= 0) {
+    throw new CliUsageError(`--runs must be a positive integer, got "${value}"`);
+  }
+  return runs;
+}
+
+function parseUntil(value: string): number {
+  const milliseconds = /^\d+$/.test(value) ? Number(value) * 1000 : Date.parse(value);
+  if (Number.isNaN(milliseconds)) {
+    throw new CliUsageError(`--until must be a date or Unix seconds, got "${value}"`);
+  }
+  return Math.floor(milliseconds / 1000);
+}
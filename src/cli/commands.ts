@@ -0,0 +1,536 @@
+/**
+ * @fileoverview CLI command handlers wired to the lending protocol adapters and Fusion flows
+ */
+
+import { ethers } from 'ethers';
+
+import type {
+  SDKContext,
+  FeeCharge,
+  FusionRoutingOptions,
+  LendingProtocolAdapter,
+  LendingSupplyOptions,
+  LendingWithdrawOptions,
+  AaveBorrowOptions,
+  AaveRepayOptions,
+  AaveCrossChainSupplyOptions,
+  AavePositionMigrationOptions,
+  QuotePreview,
+  RebalanceOptions,
+  RebalancePlan,
+  RecurringSupplySchedule,
+} from '../types';
+import { CliUsageError } from '../utils/errors';
+import { formatTokenAmount } from '../utils/formatting';
+import { resolveReserve, listReserves, readTokenMetadata } from '../utils/reserves';
+import { findPaymentToken, withChain } from '../utils/chains';
+import { fundToken, NATIVE_TOKEN_ADDRESS } from '../infrastructure/fund-account';
+import { captureBalanceSnapshot } from '../app/balances';
+import { compareSupplyCosts } from '../app/eoa-baseline';
+import { executeFusionCrossChainSupply, quoteFusionCrossChainSupply } from '../app/fusion-aave-cross-chain';
+import { getUserAccountData, formatHealthFactor, BASE_CURRENCY_DECIMALS } from '../app/aave-account';
+import { resumePendingSupertransactions } from '../app/journal-resume';
+import { executeAavePositionMigration, quoteAavePositionMigration } from '../app/position-migration';
+import { resolvePositionAccount } from '../app/fusion-execution';
+import { formatTriggerAmount } from '../app/quote-preview';
+import { runRecurringSupply } from '../app/recurring-supply';
+import { getLendingProtocol, LENDING_PROTOCOLS } from '../app/lending-protocols';
+import { executeRebalance, quoteRebalance } from '../app/yield-router';
+import { parseAmount, type CliCommand, type CliOptions } from './args';
+import { printResult, printTable } from './output';
+
+type CommandHandler = (sdk: SDKContext, options: CliOptions) => Promise<void>;
+
+// Default amount for `fund` when --amount is omitted
+const DEFAULT_FUND_AMOUNT = '100';
+
+export const COMMAND_HANDLERS: Record<CliCommand, CommandHandler> = {
+  supply: runSupply,
+  withdraw: runWithdraw,
+  borrow: runBorrow,
+  repay: runRepay,
+  balances: runBalances,
+  fund: runFund,
+  quote: (sdk, options) => runSupply(sdk, { ...options, dryRun: true }),
+  health: runHealth,
+  compare: runCompare,
+  'cross-supply': runCrossSupply,
+  resume: runResume,
+  positions: runPositions,
+  rates: runRates,
+  rebalance: runRebalance,
+  migrate: runMigrate,
+  dca: runDca,
+};
+
+async function runSupply(sdk: SDKContext, options: CliOptions): Promise<void> {
+  const protocol = getProtocol(options);
+  const asset = await protocol.resolveAsset(sdk, options.asset ?? 'USDC');
+  const amount = parseAmount(requireAmount(options, 'supply'), asset.decimals, asset.symbol);
+
+  const supplyOptions: LendingSupplyOptions = {
+    asset: asset.address,
+    amount,
+    ...getRoutingOptions(options),
+  };
+
+  if (options.dryRun) {
+    return printQuotePreview(options, await protocol.quoteSupply(sdk, supplyOptions));
+  }
+
+  const result = await protocol.supply(sdk, supplyOptions);
+
+  printResult(options.format, `${protocol.name} Supply Result`, result, {
+    hash: result.hash,
+    triggerMode: result.triggerMode,
+    supplied: formatTokenAmount(result.supplyAmount, asset.decimals, asset.symbol),
+    positionReceived: formatTokenAmount(result.positionReceived, asset.decimals, asset.symbol),
+    fee: await describeFee(sdk, result.fee),
+    gasUsed: result.gasUsed,
+  });
+}
+
+async function runWithdraw(sdk: SDKContext, options: CliOptions): Promise<void> {
+  const protocol = getProtocol(options);
+  const asset = await protocol.resolveAsset(sdk, options.asset ?? 'USDC');
+
+  // Positions are denominated like the underlying: aTokens and Comet balances share its decimals
+  const withdrawOptions: LendingWithdrawOptions = {
+    asset: asset.address,
+    ...(options.amount === undefined || options.amount === 'max'
+      ? { mode: 'max' as const }
+      : { mode: 'partial' as const, amount: parseAmount(options.amount, asset.decimals, asset.symbol) }),
+    ...getRoutingOptions(options),
+  };
+
+  if (options.dryRun) {
+    return printQuotePreview(options, await protocol.quoteWithdraw(sdk, withdrawOptions));
+  }
+
+  const result = await protocol.withdraw(sdk, withdrawOptions);
+
+  printResult(options.format, `${protocol.name} Withdraw Result`, result, {
+    hash: result.hash,
+    triggerMode: result.triggerMode,
+    mode: result.mode,
+    requested: formatTokenAmount(result.requestedAmount, asset.decimals, asset.symbol),
+    underlyingReceived: formatTokenAmount(result.underlyingReceived, asset.decimals, asset.symbol),
+    fee: await describeFee(sdk, result.fee),
+    gasUsed: result.gasUsed,
+  });
+}
+
+async function runBorrow(sdk: SDKContext, options: CliOptions): Promise<void> {
+  const protocol = getProtocol(options);
+  const asset = await protocol.resolveAsset(sdk, requireAsset(options, 'borrow'));
+  const amount = parseAmount(requireAmount(options, 'borrow'), asset.decimals, asset.symbol);
+
+  // --rate-mode is rejected for other protocols, so it only ever reaches the AAVE flow
+  const borrowOptions: AaveBorrowOptions = {
+    asset: asset.address,
+    amount,
+    ...(options.rateMode !== undefined && { interestRateMode: options.rateMode }),
+    ...(options.minHealthFactor !== undefined && { minHealthFactor: options.minHealthFactor }),
+    ...getRoutingOptions(options),
+  };
+
+  if (options.dryRun) {
+    return printQuotePreview(options, await protocol.quoteBorrow(sdk, borrowOptions));
+  }
+
+  const result = await protocol.borrow(sdk, borrowOptions);
+
+  printResult(options.format, `${protocol.name} Borrow Result`, result, {
+    hash: result.hash,
+    triggerMode: result.triggerMode,
+    borrowed: formatTokenAmount(result.amount, asset.decimals, asset.symbol),
+    ...(protocol.id === 'aave' && { rateMode: options.rateMode ?? 'variable' }),
+    healthFactorBefore: formatHealthFactor(result.healthFactorBefore),
+    healthFactorAfter: formatHealthFactor(result.healthFactorAfter),
+    fee: await describeFee(sdk, result.fee),
+    gasUsed: result.gasUsed,
+  });
+}
+
+async function runRepay(sdk: SDKContext, options: CliOptions): Promise<void> {
+  const protocol = getProtocol(options);
+  const asset = await protocol.resolveAsset(sdk, requireAsset(options, 'repay'));
+
+  const repayOptions: AaveRepayOptions = {
+    asset: asset.address,
+    ...(options.amount === undefined || options.amount === 'all'
+      ? { mode: 'all' as const }
+      : { mode: 'partial' as const, amount: parseAmount(options.amount, asset.decimals, asset.symbol) }),
+    ...(options.rateMode !== undefined && { interestRateMode: options.rateMode }),
+    ...getRoutingOptions(options),
+  };
+
+  if (options.dryRun) {
+    return printQuotePreview(options, await protocol.quoteRepay(sdk, repayOptions));
+  }
+
+  const result = await protocol.repay(sdk, repayOptions);
+
+  printResult(options.format, `${protocol.name} Repay Result`, result, {
+    hash: result.hash,
+    triggerMode: result.triggerMode,
+    mode: result.mode,
+    debtBefore: formatTokenAmount(result.debtBefore, asset.decimals, asset.symbol),
+    debtAfter: formatTokenAmount(result.debtAfter, asset.decimals, asset.symbol),
+    fee: await describeFee(sdk, result.fee),
+    gasUsed: result.gasUsed,
+  });
+}
+
+async function runBalances(baseSdk: SDKContext, options: CliOptions): Promise<void> {
+  const sdk = withChain(baseSdk, options.chainId ?? baseSdk.config.chainId);
+  const account = options.account ?? sdk.eoaAddress;
+  const reserves = options.asset
+    ? [await resolveReserve(sdk, options.asset)]
+    : await listReserves(sdk);
+
+  const snapshot = await captureBalanceSnapshot(sdk, reserves, account);
+
+  printResult(options.format, `Balances of ${account} (block ${snapshot.blockNumber})`, snapshot, Object.fromEntries([
+    ...snapshot.tokens.map(token => [token.symbol, formatTokenAmount(token.balance, token.decimals, token.symbol)]),
+    ...(snapshot.nexus?.tokens ?? []).map(token => [
+      `${token.symbol} (Nexus)`,
+      formatTokenAmount(token.balance, token.decimals, token.symbol),
+    ]),
+  ]));
+}
+
+async function runFund(baseSdk: SDKContext, options: CliOptions): Promise<void> {
+  const sdk = withChain(baseSdk, options.chainId ?? baseSdk.config.chainId);
+  const account = options.recipient ?? sdk.eoaAddress;
+  const asset = options.asset ?? 'USDC';
+
+  // Native coin: `--asset ETH` (or the chain's native symbol, e.g. POL on Polygon)
+  const native = findPaymentToken(sdk.config.chain, NATIVE_TOKEN_ADDRESS);
+  const nativeSymbol = native?.symbol ?? 'ETH';
+  const token = isNativeAsset(asset, nativeSymbol)
+    ? { address: NATIVE_TOKEN_ADDRESS, symbol: nativeSymbol, decimals: native?.decimals ?? 18 }
+    : await resolveReserve(sdk, asset);
+
+  const amount = parseAmount(options.amount ?? DEFAULT_FUND_AMOUNT, token.decimals, token.symbol);
+
+  await fundToken(sdk, token.address, account, amount);
+
+  printResult(options.format, 'Fund Result', { account, asset: token.address, amount }, {
+    account,
+    funded: formatTokenAmount(amount, token.decimals, token.symbol),
+  });
+}
+
+function isNativeAsset(asset: string, nativeSymbol: string): boolean {
+  const normalized = asset.toUpperCase();
+  return normalized === 'ETH' || normalized === nativeSymbol.toUpperCase() || asset === NATIVE_TOKEN_ADDRESS;
+}
+
+async function runHealth(sdk: SDKContext, options: CliOptions): Promise<void> {
+  const account = options.account ?? resolvePositionAccount(sdk, options.positionOwner);
+  const data = await getUserAccountData(sdk, account);
+
+  printResult(options.format, `AAVE Account Health of ${account}`, { account, ...data }, {
+    collateral: formatBase(data.totalCollateralBase),
+    debt: formatBase(data.totalDebtBase),
+    availableBorrows: formatBase(data.availableBorrowsBase),
+    ltv: `${Number(data.ltv) / 100}%`,
+    liquidationThreshold: `${Number(data.currentLiquidationThreshold) / 100}%`,
+    healthFactor: formatHealthFactor(data.healthFactor),
+  });
+}
+
+async function runPositions(sdk: SDKContext, options: CliOptions): Promise<void> {
+  const protocol = getProtocol(options);
+  const account = options.account ?? resolvePositionAccount(sdk, options.positionOwner);
+  const positions = await protocol.getPositions(sdk, account);
+
+  printResult(options.format, `${protocol.name} Positions of ${positions.account} (block ${positions.blockNumber})`, positions, {
+    collateral: formatBase(positions.collateralBase),
+    debt: formatBase(positions.debtBase),
+    availableBorrows: formatBase(positions.availableBorrowsBase),
+    healthFactor: formatHealthFactor(positions.healthFactor),
+  });
+
+  if (options.format === 'text') {
+    printTable('Assets', positions.positions.map(position => ({
+      asset: position.symbol,
+      supplied: formatTokenAmount(position.supplied, position.decimals, position.symbol),
+      suppliedValue: formatBase(position.suppliedBase),
+      collateral: position.usedAsCollateral ? 'yes' : 'no',
+      debt: formatTokenAmount(position.debt, position.decimals, position.symbol),
+      debtValue: formatBase(position.debtBase),
+      supplyApy: formatPercent(position.supplyApy),
+      borrowApy: position.borrowApy === undefined ? '-' : formatPercent(position.borrowApy),
+    })));
+  }
+}
+
+async function runRates(sdk: SDKContext, options: CliOptions): Promise<void> {
+  const protocol = getProtocol(options);
+  const rates = await protocol.getRates(sdk, options.asset ?? 'USDC');
+
+  printResult(options.format, `${protocol.name} ${rates.symbol} Rates`, rates, {
+    supplyApy: formatPercent(rates.supplyApy),
+    borrowApy: rates.borrowApy === undefined ? 'not borrowable' : formatPercent(rates.borrowApy),
+    utilization: rates.utilization === undefined ? undefined : formatPercent(rates.utilization),
+  });
+}
+
+async function runRebalance(sdk: SDKContext, options: CliOptions): Promise<void> {
+  const rebalanceOptions: RebalanceOptions = {
+    asset: options.asset ?? 'USDC',
+    ...(options.minRateDifferenceBps !== undefined && { minRateDifferenceBps: options.minRateDifferenceBps }),
+    ...getRoutingOptions(options),
+  };
+
+  if (options.dryRun) {
+    const quote = await quoteRebalance(sdk, rebalanceOptions);
+    printResult(options.format, 'Rebalance Dry Run (not executed)', quote, {
+      ...describeRebalancePlan(quote.plan),
+      quotedFee: quote.cost && formatBase(quote.cost.feeBase),
+      netAnnualGain: quote.cost && formatBase(quote.cost.netAnnualGainBase),
+      breakEvenDays: quote.cost?.breakEvenDays?.toFixed(1),
+      quoteHash: quote.preview?.quoteHash,
+    });
+    return;
+  }
+
+  const result = await executeRebalance(sdk, rebalanceOptions);
+  const { plan, transaction, cost } = result;
+
+  printResult(options.format, 'Rebalance Result', result, {
+    ...describeRebalancePlan(plan),
+    hash: transaction?.hash,
+    positionReceived: result.positionReceived === undefined
+      ? undefined
+      : formatTokenAmount(result.positionReceived, plan.decimals, plan.symbol),
+    feePaid: cost && formatBase(cost.feeBase),
+    netAnnualGain: cost && formatBase(cost.netAnnualGainBase),
+    breakEvenDays: cost?.breakEvenDays?.toFixed(1),
+    gasUsed: transaction?.gasUsed,
+  });
+}
+
+/**
+ * Rows shared by the rebalance result and dry run: each venue's APY and the decision
+ */
+function describeRebalancePlan(plan: RebalancePlan): Record<string, string> {
+  return {
+    ...Object.fromEntries(plan.venues.map(venue => [
+      LENDING_PROTOCOLS[venue.protocol].name,
+      `${formatPercent(venue.supplyApy)} APY, ${formatTokenAmount(venue.supplied, plan.decimals, plan.symbol)} supplied`,
+    ])),
+    decision: plan.shouldRebalance ? 'move' : 'hold',
+    reason: plan.reason,
+    ...(plan.from !== undefined && {
+      route: `${LENDING_PROTOCOLS[plan.from].name} → ${LENDING_PROTOCOLS[plan.to].name}`,
+      amount: formatTokenAmount(plan.amount, plan.decimals, plan.symbol),
+    }),
+    expectedAnnualGain: formatBase(plan.expectedAnnualGainBase),
+  };
+}
+
+async function runCompare(sdk: SDKContext, options: CliOptions): Promise<void> {
+  const reserve = await resolveReserve(sdk, options.asset ?? 'USDC');
+  const amount = parseAmount(requireAmount(options, 'compare'), reserve.decimals, reserve.symbol);
+
+  const comparison = await compareSupplyCosts(sdk, {
+    asset: reserve.address,
+    amount,
+    ...getRoutingOptions(options),
+  });
+  const { baseline, fusion } = comparison;
+
+  printResult(options.format, 'Fusion vs. EOA', comparison, {
+    gasSaved: baseline.gasUsed - fusion.gasUsed,
+    ethSavedByEoa: `${ethers.formatEther(baseline.userEthCost - fusion.userEthCost)} ETH`,
+    signaturesSaved: baseline.signatures - fusion.signatures,
+    fusionHash: fusion.hashes[0],
+  });
+}
+
+async function runCrossSupply(sdk: SDKContext, options: CliOptions): Promise<void> {
+  if (options.sourceChainId === undefined) {
+    throw new CliUsageError('cross-supply requires --source-chain');
+  }
+
+  const sourceUsdc = await resolveReserve(withChain(sdk, options.sourceChainId), 'USDC');
+  const amount = parseAmount(requireAmount(options, 'cross-supply'), sourceUsdc.decimals, sourceUsdc.symbol);
+
+  const crossChainOptions: AaveCrossChainSupplyOptions = {
+    sourceChainId: options.sourceChainId,
+    amount,
+    ...(options.destinationChainId !== undefined && { destinationChainId: options.destinationChainId }),
+    ...getRoutingOptions(options),
+  };
+
+  if (options.dryRun) {
+    return printQuotePreview(options, await quoteFusionCrossChainSupply(sdk, crossChainOptions));
+  }
+
+  const result = await executeFusionCrossChainSupply(sdk, crossChainOptions);
+  const { aToken } = await resolveReserve(withChain(sdk, result.destinationChainId), result.asset);
+
+  printResult(options.format, 'Cross-Chain Supply Result', result, {
+    hash: result.hash,
+    triggerMode: result.triggerMode,
+    route: `${result.sourceChainId} → ${result.destinationChainId}`,
+    pulled: formatTokenAmount(result.amount, sourceUsdc.decimals, sourceUsdc.symbol),
+    bridged: formatTokenAmount(result.bridgedAmount, result.decimals, result.symbol),
+    aTokensReceived: formatTokenAmount(result.aTokensReceived, aToken.decimals, aToken.symbol),
+    bridgeTransaction: result.bridgeTransactionHash,
+    fee: await describeFee(withChain(sdk, result.sourceChainId), result.fee),
+    gasUsed: result.gasUsed,
+  });
+}
+
+async function runMigrate(sdk: SDKContext, options: CliOptions): Promise<void> {
+  if (options.to === undefined) {
+    throw new CliUsageError('migrate requires --to (eoa or nexus)');
+  }
+
+  const reserve = await resolveReserve(sdk, options.asset ?? 'USDC');
+  const { aToken } = reserve;
+
+  const migrationOptions: AavePositionMigrationOptions = {
+    asset: reserve.address,
+    to: options.to,
+    ...(options.amount !== undefined && options.amount !== 'max' && {
+      amount: parseAmount(options.amount, aToken.decimals, aToken.symbol),
+    }),
+    ...(options.feeToken !== undefined && { feeToken: options.feeToken }),
+    ...(options.triggerMode !== undefined && { triggerMode: options.triggerMode }),
+  };
+
+  if (options.dryRun) {
+    return printQuotePreview(options, await quoteAavePositionMigration(sdk, migrationOptions));
+  }
+
+  const result = await executeAavePositionMigration(sdk, migrationOptions);
+
+  printResult(options.format, 'Migration Result', result, {
+    hash: result.hash,
+    triggerMode: result.triggerMode,
+    from: result.from,
+    to: result.to,
+    aTokensMoved: formatTokenAmount(result.aTokensMoved, aToken.decimals, aToken.symbol),
+    fee: await describeFee(sdk, result.fee),
+    gasUsed: result.gasUsed,
+  });
+}
+
+async function runDca(sdk: SDKContext, options: CliOptions): Promise<void> {
+  if (options.every === undefined) {
+    throw new CliUsageError('dca requires --every, e.g. --every 1d or --every 7200b');
+  }
+  if (options.budget === undefined) {
+    throw new CliUsageError('dca requires --budget, the cap on the total supplied');
+  }
+
+  const reserve = await resolveReserve(sdk, options.asset ?? 'USDC');
+
+  const schedule: RecurringSupplySchedule = {
+    asset: reserve.address,
+    amount: parseAmount(requireAmount(options, 'dca'), reserve.decimals, reserve.symbol),
+    interval: options.every,
+    budget: parseAmount(options.budget, reserve.decimals, reserve.symbol),
+    ...(options.runs !== undefined && { maxRuns: options.runs }),
+    ...(options.until !== undefined && { until: options.until }),
+    ...getRoutingOptions(options),
+  };
+
+  const report = await runRecurringSupply(sdk, schedule, { clock: options.realtime ? 'realtime' : 'fork' });
+
+  printResult(options.format, `Recurring Supply ${report.scheduleId}`, report, {
+    stopReason: report.stopReason,
+    runs: report.runs.length,
+    totalSupplied: formatTokenAmount(report.totalSupplied, reserve.decimals, reserve.symbol),
+    ...Object.fromEntries(report.runs.map(run => [
+      `run ${run.run} (block ${run.blockNumber})`,
+      run.status === 'supplied'
+        ? `${formatTokenAmount(run.amount, reserve.decimals, reserve.symbol)} ${run.hash}`
+        : `failed: ${run.error}`,
+    ])),
+  });
+}
+
+async function runResume(sdk: SDKContext, options: CliOptions): Promise<void> {
+  const results = await resumePendingSupertransactions(sdk);
+
+  printResult(options.format, 'Resumed Supertransactions', results, results.length === 0
+    ? { pending: 0 }
+    : Object.fromEntries(results.map(result => [
+      result.hash,
+      result.error ? `${result.state}: ${result.error}` : result.state,
+    ])));
+}
+
+function getProtocol(options: CliOptions): LendingProtocolAdapter {
+  return getLendingProtocol(options.protocol ?? 'aave');
+}
+
+/**
+ * Print a dry-run result; the flow has already logged the full breakdown
+ */
+function printQuotePreview(options: CliOptions, preview: QuotePreview): void {
+  const { fee, trigger } = preview;
+
+  printResult(options.format, 'Dry Run (not executed)', preview, {
+    quoteHash: preview.quoteHash,
+    triggerMode: preview.triggerMode,
+    fee: formatTokenAmount(fee.amount, fee.token.decimals, fee.token.symbol),
+    triggerAmount: formatTriggerAmount(trigger),
+    instructions: preview.instructions.length,
+    userOps: preview.userOps.length,
+    totalMaxGas: preview.userOps.reduce((total, userOp) => total + userOp.maxGasLimit, 0n),
+  });
+}
+
+/**
+ * Forward --recipient, --position-owner, --fee-token and --trigger-mode to a flow without setting undefined keys
+ */
+function getRoutingOptions(options: CliOptions): FusionRoutingOptions {
+  return {
+    ...(options.recipient !== undefined && { recipient: options.recipient }),
+    ...(options.feeToken !== undefined && { feeToken: options.feeToken }),
+    ...(options.triggerMode !== undefined && { triggerMode: options.triggerMode }),
+    ...(options.positionOwner !== undefined && { positionOwner: options.positionOwner }),
+  };
+}
+
+function requireAmount(options: CliOptions, command: CliCommand): string {
+  if (options.amount === undefined) {
+    throw new CliUsageError(`${command} requires --amount`);
+  }
+  return options.amount;
+}
+
+function requireAsset(options: CliOptions, command: CliCommand): string {
+  if (options.asset === undefined) {
+    throw new CliUsageError(`${command} requires --asset`);
+  }
+  return options.asset;
+}
+
+// Account values are in USD with 8 decimals, the AAVE oracle and Comet price scale
+function formatBase(value: bigint): string {
+  return `$${Number(ethers.formatUnits(value, BASE_CURRENCY_DECIMALS)).toFixed(2)}`;
+}
+
+function formatPercent(fraction: number): string {
+  return `${(fraction * 100).toFixed(2)}%`;
+}
+
+/**
+ * Format a charged fee using the fee token's own decimals and symbol
+ */
+async function describeFee(sdk: SDKContext, fee: FeeCharge | undefined): Promise<string | undefined> {
+  if (!fee) {
+    return undefined;
+  }
+
+  const { symbol, decimals } = await readTokenMetadata(sdk, fee.token);
+  return formatTokenAmount(fee.charged, decimals, symbol);
+}
@@ -0,0 +1,43 @@
+/**
+ * @fileoverview AAVE Fusion command-line interface
+ *
+ * Parses a subcommand and its flags, initializes the SDK once and dispatches
+ * to the matching flow.
+ */
+
+import { initializeBiconomySDK } from '../sdk/init-sdk';
+import { CliUsageError } from '../utils/errors';
+import { log } from '../utils/logger';
+import { parseCliArgs, USAGE } from './args';
+import { COMMAND_HANDLERS } from './commands';
+
+export * from './args';
+export { toJson, printResult, printTable } from './output';
+
+/**
+ * Run the CLI with the given arguments (without the node and script entries)
+ */
+export async function runCli(argv: readonly string[]): Promise<void> {
+  let parsed;
+  try {
+    parsed = parseCliArgs(argv);
+  } catch (error) {
+    if (error instanceof CliUsageError) {
+      console.error(`${error.message}\n\n${USAGE}`);
+    }
+    throw error;
+  }
+
+  if (!parsed) {
+    console.log(USAGE);
+    return;
+  }
+
+  // Keep stdout for the JSON result alone
+  if (parsed.options.format === 'json') {
+    log.useStderr();
+  }
+
+  const sdk = await initializeBiconomySDK();
+  await COMMAND_HANDLERS[parsed.command](sdk, parsed.options);
+}
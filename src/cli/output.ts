@@ -0,0 +1,61 @@
+/**
+ * @fileoverview Result rendering for the AAVE Fusion CLI
+ */
+
+import type { OutputFormat } from './args';
+
+/**
+ * Serialise a result to JSON, encoding bigints as decimal strings
+ */
+export function toJson(value: unknown): string {
+  return JSON.stringify(
+    value,
+    (_key, entry: unknown) => (typeof entry === 'bigint' ? entry.toString() : entry),
+    2
+  );
+}
+
+/**
+ * Print a command result as JSON, or as aligned key/value lines for text output
+ */
+export function printResult(
+  format: OutputFormat,
+  title: string,
+  result: unknown,
+  rows: Record<string, string | number | bigint | undefined>
+): void {
+  if (format === 'json') {
+    console.log(toJson(result));
+    return;
+  }
+
+  const entries = Object.entries(rows).filter(([, value]) => value !== undefined);
+  const width = Math.max(...entries.map(([key]) => key.length));
+
+  console.log(`\n${title}:`);
+  entries.forEach(([key, value]) => {
+    console.log(`  ${key.padEnd(width)}  ${value}`);
+  });
+}
+
+/**
+ * Print rows as a text table, one column per key of the first row
+ */
+export function printTable(title: string, rows: readonly Record<string, string>[]): void {
+  console.log(`\n${title}:`);
+
+  const [first] = rows;
+  if (!first) {
+    console.log('  (none)');
+    return;
+  }
+
+  const columns = Object.keys(first);
+  const widths = columns.map(column => Math.max(column.length, ...rows.map(row => (row[column] ?? '').length)));
+  const renderRow = (cells: readonly string[]) =>
+    `  ${cells.map((cell, index) => cell.padEnd(widths[index]!)).join('  ').trimEnd()}`;
+
+  console.log(renderRow(columns));
+  console.log(renderRow(widths.map(width => '-'.repeat(width))));
+  rows.forEach(row => console.log(renderRow(columns.map(column => row[column] ?? ''))));
+}
@@ -2,16 +2,22 @@
  * @fileoverview Biconomy MEE Fusion - AAVE Integration
  * 
  * Main entry point for AAVE protocol integration using MEE Fusion.
+ * Runs the CLI when a command is given and the supply demo otherwise.
  */
 
 import { executeFusionAaveDemo } from './app/fusion-aave-demo';
+import { runCli } from './cli';
 
 /**
  * Main application entry point
  */
-async function main(): Promise<void> {
+async function main(argv: readonly string[] = process.argv.slice(2)): Promise<void> {
   try {
-    await executeFusionAaveDemo();
+    if (argv.length > 0) {
+      await runCli(argv);
+    } else {
+      await executeFusionAaveDemo();
+    }
     process.exit(0);
   } catch (error) {
     console.error('Application failed:', error instanceof Error ? error.message : 'Unknown error');
@@ -24,5 +30,5 @@ if (require.main === module) {
   main();
 }
 
-export { executeFusionAaveDemo };
-export default main; 
\ No newline at end of file
+export { executeFusionAaveDemo, runCli };
+export default main; 
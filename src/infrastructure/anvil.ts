@@ -0,0 +1,219 @@
+/**
+ * @fileoverview Anvil state snapshots and fixtures for repeatable runs against the fork
+ *
+ * Anvil snapshot ids are sequential: reverting to one discards it and every
+ * snapshot taken after it. Fixtures track that order so named snapshots and
+ * nested scopes stay consistent across reverts.
+ */
+
+import { ethers } from 'ethers';
+import { log } from '../utils/logger';
+import { InfrastructureError } from '../utils/errors';
+import type { SDKContext } from '../types';
+
+export interface AnvilScopeOptions {
+  readonly name?: string; // Registers the scope's snapshot so `revert(name)` works inside it
+  readonly pinTimestamp?: boolean | number; // true pins the first block to latest + 1s, a number to that Unix time
+}
+
+export interface AnvilFixture {
+  /** Snapshot the current state under a name, replacing any earlier snapshot with that name */
+  snapshot(name: string): Promise<void>;
+  /** Revert to a named snapshot; the name stays usable for further reverts */
+  revert(name: string): Promise<void>;
+  has(name: string): boolean;
+  /** Run a scenario and revert everything it changed, even when it throws */
+  scope<T>(scenario: () => Promise<T>, options?: AnvilScopeOptions): Promise<T>;
+}
+
+// One live snapshot, oldest first in the fixture's stack
+interface SnapshotEntry {
+  readonly id: string;
+  name?: string | undefined;
+}
+
+/**
+ * Snapshot the current Anvil state and return the snapshot id
+ */
+export async function takeAnvilSnapshot(sdk: SDKContext): Promise<string> {
+  const anvilProvider = new ethers.JsonRpcProvider(sdk.config.anvilRpcUrl);
+  const snapshotId = await anvilProvider.send('evm_snapshot', []) as string;
+
+  log.debug('Anvil snapshot taken', { snapshotId });
+  return snapshotId;
+}
+
+/**
+ * Revert Anvil to a snapshot; each snapshot id can only be reverted once
+ */
+export async function revertAnvilSnapshot(sdk: SDKContext, snapshotId: string): Promise<void> {
+  const anvilProvider = new ethers.JsonRpcProvider(sdk.config.anvilRpcUrl);
+  const reverted = await anvilProvider.send('evm_revert', [snapshotId]) as boolean;
+
+  if (!reverted) {
+    throw new InfrastructureError(`Failed to revert Anvil to snapshot ${snapshotId}`);
+  }
+
+  log.debug('Anvil reverted to snapshot', { snapshotId });
+}
+
+/**
+ * Move the fork clock forward and mine a block at the new time
+ */
+export async function advanceAnvilTime(sdk: SDKContext, seconds: number): Promise<void> {
+  const anvilProvider = new ethers.JsonRpcProvider(sdk.config.anvilRpcUrl);
+  await anvilProvider.send('evm_increaseTime', [seconds]);
+  await anvilProvider.send('evm_mine', []);
+
+  log.debug('Anvil time advanced', { seconds });
+}
+
+/**
+ * Mine blocks in one call, `secondsPerBlock` apart so interest accrues as on the real chain
+ */
+export async function mineAnvilBlocks(sdk: SDKContext, blocks: number, secondsPerBlock = 12): Promise<void> {
+  const anvilProvider = new ethers.JsonRpcProvider(sdk.config.anvilRpcUrl);
+  await anvilProvider.send('anvil_mine', [ethers.toQuantity(blocks), ethers.toQuantity(secondsPerBlock)]);
+
+  log.debug('Anvil blocks mined', { blocks, secondsPerBlock });
+}
+
+/**
+ * Run a scenario in its own snapshot scope on `sdk.config.anvilRpcUrl`
+ */
+export async function withAnvilSnapshot<T>(
+  sdk: SDKContext,
+  scenario: () => Promise<T>,
+  options: AnvilScopeOptions = {}
+): Promise<T> {
+  return createAnvilFixture(sdk).scope(scenario, options);
+}
+
+/**
+ * Create a fixture for the fork at `sdk.config.anvilRpcUrl` (use `withChain` for other forks)
+ *
+ * Scopes nest: an inner scope reverts to its own start, the outer scope then
+ * reverts to the outer start. Reverting to a named snapshot taken outside the
+ * current scope discards that scope's snapshot, which fails the scope on exit.
+ */
+export function createAnvilFixture(sdk: SDKContext): AnvilFixture {
+  const anvilProvider = new ethers.JsonRpcProvider(sdk.config.anvilRpcUrl);
+  const stack: SnapshotEntry[] = [];
+
+  const push = async (name?: string): Promise<SnapshotEntry> => {
+    const entry: SnapshotEntry = { id: await takeAnvilSnapshot(sdk), name };
+    stack.push(entry);
+    return entry;
+  };
+
+  // Reverting drops the entry and everything newer, matching Anvil's own bookkeeping
+  const revertTo = async (entry: SnapshotEntry): Promise<void> => {
+    const index = stack.indexOf(entry);
+    if (index === -1) {
+      throw new InfrastructureError(
+        `Snapshot ${entry.name ? `'${entry.name}' ` : ''}(${entry.id}) was discarded by an earlier revert`
+      );
+    }
+
+    await revertAnvilSnapshot(sdk, entry.id);
+    stack.splice(index);
+  };
+
+  const findNamed = (name: string): SnapshotEntry | undefined =>
+    stack.find(entry => entry.name === name);
+
+  // A name always points at the newest snapshot registered under it
+  const releaseName = (name: string): void => {
+    const existing = findNamed(name);
+    if (existing) {
+      existing.name = undefined;
+    }
+  };
+
+  const fixture: AnvilFixture = {
+    async snapshot(name) {
+      releaseName(name);
+      await push(name);
+      log.debug('Named Anvil snapshot taken', { name });
+    },
+
+    async revert(name) {
+      const entry = findNamed(name);
+      if (!entry) {
+        throw new InfrastructureError(
+          `No Anvil snapshot named '${name}'. Known: ${stack.flatMap(e => e.name ? [e.name] : []).join(', ') || 'none'}`
+        );
+      }
+
+      await revertTo(entry);
+      // Anvil consumed the snapshot; take it again so the name can be reverted to repeatedly
+      await push(name);
+      log.debug('Reverted to named Anvil snapshot', { name });
+    },
+
+    has(name) {
+      return findNamed(name) !== undefined;
+    },
+
+    async scope(scenario, options = {}) {
+      if (options.name) {
+        releaseName(options.name);
+      }
+
+      const clock = options.pinTimestamp !== undefined && options.pinTimestamp !== false
+        ? await pinTimestamp(anvilProvider, options.pinTimestamp)
+        : undefined;
+
+      const entry = await push(options.name);
+
+      try {
+        return await scenario();
+      } finally {
+        try {
+          await revertTo(entry);
+        } finally {
+          if (clock) {
+            await restoreTimestamp(anvilProvider, clock);
+          }
+        }
+      }
+    },
+  };
+
+  return fixture;
+}
+
+// Fork clock before a scope pinned it
+interface ClockState {
+  readonly timestamp: number;
+  readonly pinnedAt: number; // Wall-clock ms when the pin was applied
+}
+
+/**
+ * Set the fork clock so the scope's first block gets a fixed timestamp
+ */
+async function pinTimestamp(
+  anvilProvider: ethers.JsonRpcProvider,
+  pin: true | number
+): Promise<ClockState> {
+  const latest = await anvilProvider.getBlock('latest');
+  if (!latest) {
+    throw new InfrastructureError('Failed to read the latest Anvil block');
+  }
+
+  const timestamp = pin === true ? latest.timestamp + 1 : pin;
+  await anvilProvider.send('evm_setTime', [timestamp]);
+
+  log.debug('Anvil timestamp pinned', { timestamp });
+  return { timestamp: latest.timestamp, pinnedAt: Date.now() };
+}
+
+/**
+ * Move the fork clock back to where it would be had the scope never pinned it
+ */
+async function restoreTimestamp(anvilProvider: ethers.JsonRpcProvider, clock: ClockState): Promise<void> {
+  const elapsedSeconds = Math.floor((Date.now() - clock.pinnedAt) / 1000);
+  await anvilProvider.send('evm_setTime', [clock.timestamp + elapsedSeconds]);
+
+  log.debug('Anvil timestamp restored', { timestamp: clock.timestamp + elapsedSeconds });
+}
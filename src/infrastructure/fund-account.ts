@@ -3,19 +3,56 @@
  */
 
 import { ethers } from 'ethers';
+import type { Address, Hex } from 'viem';
 import { log } from '../utils/logger';
-import { withErrorHandling, InfrastructureError } from '../utils/errors';
+import { withErrorHandling, retryWithPolicy, InfrastructureError, NO_RETRY } from '../utils/errors';
 import { ERC20_ABI } from '../utils/contracts';
 import { formatTokenAmount } from '../utils/formatting';
+import { resolveReserve, readTokenMetadata } from '../utils/reserves';
 import type { SDKContext } from '../types';
 
+// Native ETH (or the chain's native coin) in `fundToken`
+export const NATIVE_TOKEN_ADDRESS = ethers.ZeroAddress as Address;
+
+// Balance mapping slots tried when searching a token's storage layout
+const MAX_BALANCE_SLOT = 100;
+
+// Known holders per chain and token, used when no balance slot can be written
+const DEFAULT_HOLDERS: Readonly<Record<number, Readonly<Record<string, readonly Address[]>>>> = {
+  1: {
+    // USDC
+    '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48': [
+      '0x55fe002aeff02f77364de339a1292923a15844b8', // Circle USDC Treasury
+      '0x5414d89a8bf7e99d732bc52f3e6a3ef461c0c078', // Coinbase hot wallet
+      '0xdfd5293d8e347dfe59e90efd55b2956a1343963d', // Binance hot wallet
+      '0x28c6c06298d514db089934071355e5743bf21d60', // Binance 14
+      '0x21a31ee1afc51d94c2efccaa2092ad1028285549', // Binance 15
+    ],
+  },
+};
+
+// Discovered balance slots keyed by `${chainId}:${token}`
+const balanceSlotCache = new Map<string, BalanceSlot>();
+
+// Solidity mappings hash (key, slot); Vyper mappings hash (slot, key)
+interface BalanceSlot {
+  readonly slot: number;
+  readonly layout: 'solidity' | 'vyper';
+}
+
+export interface FundTokenOptions {
+  readonly holders?: readonly Address[]; // Impersonation candidates when the balance slot can't be found
+}
+
 /**
- * Fund account with USDC to target amount using whale impersonation
+ * Top the EOA's USDC balance up to the target amount
  */
 export const ensureSufficientUSDC = withErrorHandling(
   async (sdk: SDKContext, targetAmount: bigint = BigInt('100000000')): Promise<void> => {
     log.info('Ensuring sufficient USDC balance for demo execution...');
     
+    const { decimals, symbol } = await retryWithPolicy(() => resolveReserve(sdk, 'USDC'), {}, 'USDC metadata');
+
     // Check current balance
     const usdcContract = new ethers.Contract(
       sdk.config.contracts.usdc,
@@ -23,12 +60,17 @@ export const ensureSufficientUSDC = withErrorHandling(
       sdk.provider
     );
     
-    const currentBalance = await usdcContract.balanceOf!(sdk.eoaAddress) as bigint;
+    const readBalance = () => retryWithPolicy(
+      async () => await usdcContract.balanceOf!(sdk.eoaAddress) as bigint,
+      {},
+      'USDC balance'
+    );
+    const currentBalance = await readBalance();
     
     if (currentBalance >= targetAmount) {
       log.success('Sufficient USDC already available', {
-        currentBalance: formatTokenAmount(currentBalance, 6, 'USDC'),
-        targetAmount: formatTokenAmount(targetAmount, 6, 'USDC'),
+        currentBalance: formatTokenAmount(currentBalance, decimals, symbol),
+        targetAmount: formatTokenAmount(targetAmount, decimals, symbol),
       });
       return;
     }
@@ -37,180 +79,238 @@ export const ensureSufficientUSDC = withErrorHandling(
     const amountToFund = targetAmount - currentBalance;
     
     log.info('Funding needed', {
-      currentBalance: formatTokenAmount(currentBalance, 6, 'USDC'),
-      targetAmount: formatTokenAmount(targetAmount, 6, 'USDC'),
-      amountToFund: formatTokenAmount(amountToFund, 6, 'USDC'),
+      currentBalance: formatTokenAmount(currentBalance, decimals, symbol),
+      targetAmount: formatTokenAmount(targetAmount, decimals, symbol),
+      amountToFund: formatTokenAmount(amountToFund, decimals, symbol),
     });
     
     await fundTestAccount(sdk, amountToFund);
     
     // Confirm funding success
-    const newBalance = await usdcContract.balanceOf!(sdk.eoaAddress) as bigint;
+    const newBalance = await readBalance();
     
     if (newBalance < targetAmount) {
       // Try one more time with the full target amount
       log.warn('First funding attempt insufficient, trying again...');
       await fundTestAccount(sdk, targetAmount);
       
-      const finalBalance = await usdcContract.balanceOf!(sdk.eoaAddress) as bigint;
+      const finalBalance = await readBalance();
       
       if (finalBalance < targetAmount) {
         throw new InfrastructureError(
-          `Failed to fund account sufficiently. Target: ${formatTokenAmount(targetAmount, 6, 'USDC')}, Got: ${formatTokenAmount(finalBalance, 6, 'USDC')}`
+          `Failed to fund account sufficiently. Target: ${formatTokenAmount(targetAmount, decimals, symbol)}, Got: ${formatTokenAmount(finalBalance, decimals, symbol)}`
         );
       }
     }
     
     log.success('Account successfully funded!', {
-      finalBalance: formatTokenAmount(newBalance, 6, 'USDC'),
+      finalBalance: formatTokenAmount(newBalance, decimals, symbol),
     });
   },
-  'USDC Balance Assurance'
+  'USDC Balance Assurance',
+  NO_RETRY
 );
 
 /**
- * Fund a test account with USDC by impersonating a whale account
+ * Fund a test account (the EOA by default) with USDC
  */
 export const fundTestAccount = withErrorHandling(
-  async (sdk: SDKContext, amount: bigint = BigInt('100000000')): Promise<void> => {
-    log.info('Starting automated USDC funding process...');
-    
-    // USDC whale addresses for funding
-    const USDC_WHALES = [
-      '0x55fe002aeff02f77364de339a1292923a15844b8', // Circle USDC Treasury
-      '0x5414d89a8bf7e99d732bc52f3e6a3ef461c0c078', // Coinbase hot wallet
-      '0xdfd5293d8e347dfe59e90efd55b2956a1343963d', // Binance hot wallet
-      '0x28c6c06298d514db089934071355e5743bf21d60', // Binance 14
-      '0x21a31ee1afc51d94c2efccaa2092ad1028285549', // Binance 15
-    ];
-    
-    let USDC_WHALE = USDC_WHALES[0]; // Start with Circle Treasury
-    
-    log.info('Setting up whale account impersonation', {
-      whale: USDC_WHALE,
-      targetAccount: sdk.eoaAddress,
-      amount: formatTokenAmount(amount, 6, 'USDC'),
+  async (
+    sdk: SDKContext,
+    amount: bigint = BigInt('100000000'),
+    account: Address = sdk.eoaAddress
+  ): Promise<void> => {
+    await fundToken(sdk, sdk.config.contracts.usdc, account, amount);
+  },
+  'USDC Account Funding',
+  NO_RETRY
+);
+
+/**
+ * Add `amount` of a token (or native ETH at `NATIVE_TOKEN_ADDRESS`) to an account on the fork
+ *
+ * ERC-20 balances are written directly into the token's balance mapping with
+ * `anvil_setStorageAt`. Tokens whose balance isn't a plain mapping entry
+ * (rebasing tokens such as aTokens or stETH) fall back to impersonating a
+ * holder and transferring. Total supply is not adjusted. Only the reads and
+ * the slot probe, which restores what it writes, are retried; a repeated
+ * write or transfer would fund the account twice.
+ */
+export const fundToken = withErrorHandling(
+  async (
+    sdk: SDKContext,
+    token: Address,
+    account: Address,
+    amount: bigint,
+    options: FundTokenOptions = {}
+  ): Promise<void> => {
+    const anvilProvider = new ethers.JsonRpcProvider(sdk.config.anvilRpcUrl);
+
+    if (token.toLowerCase() === NATIVE_TOKEN_ADDRESS) {
+      const balance = await retryWithPolicy(() => anvilProvider.getBalance(account), {}, 'native balance');
+      await anvilProvider.send('anvil_setBalance', [account, ethers.toBeHex(balance + amount)]);
+
+      log.success('Native balance funded', {
+        account,
+        amount: `${ethers.formatEther(amount)} ETH`,
+        finalBalance: `${ethers.formatEther(balance + amount)} ETH`,
+      });
+      return;
+    }
+
+    const { symbol, decimals } = await retryWithPolicy(() => readTokenMetadata(sdk, token), {}, 'token metadata');
+    const contract = new ethers.Contract(token, ERC20_ABI, anvilProvider);
+    const readBalance = () => retryWithPolicy(
+      async () => await contract.balanceOf!(account) as bigint,
+      {},
+      `${symbol} balance`
+    );
+    const balanceBefore = await readBalance();
+
+    log.info(`Funding ${symbol}...`, {
+      account,
+      amount: formatTokenAmount(amount, decimals, symbol),
     });
 
-    try {
-      // Connect to Anvil RPC for impersonation
-      const anvilProvider = new ethers.JsonRpcProvider(sdk.config.anvilRpcUrl);
-      
-      // Create USDC contract instance for balance checking
-      const usdcContract = new ethers.Contract(
-        sdk.config.contracts.usdc,
-        ERC20_ABI,
-        anvilProvider
-      );
-      
-      // Find whale with enough balance
-      let whaleBalance: bigint = 0n;
-      let whaleFound = false;
-      
-      for (const whale of USDC_WHALES) {
-        try {
-          const balance = await usdcContract.balanceOf!(whale) as bigint;
-          log.info(`Checking whale balance`, {
-            whale: whale,
-            balance: formatTokenAmount(balance, 6, 'USDC'),
-          });
-          
-          if (balance >= amount) {
-            USDC_WHALE = whale;
-            whaleBalance = balance;
-            whaleFound = true;
-            log.success('Suitable whale found!', {
-              whale: USDC_WHALE,
-              balance: formatTokenAmount(whaleBalance, 6, 'USDC'),
-            });
-            break;
-          }
-        } catch (error) {
-          log.warn(`Failed to check whale ${whale}`, { error });
-        }
-      }
-      
-      if (!whaleFound) {
-        throw new InfrastructureError(
-          `No suitable USDC whale found with sufficient balance. Need: ${formatTokenAmount(amount, 6, 'USDC')}`
-        );
-      }
-      
-      // Impersonate whale account
-      log.info('Enabling impersonation for selected whale...');
-      await anvilProvider.send('anvil_impersonateAccount', [USDC_WHALE]);
-      
-      // Fund the whale account with ETH for gas fees
-      log.info('Funding whale account with ETH for gas...');
-      await anvilProvider.send('anvil_setBalance', [
-        USDC_WHALE,
-        ethers.toBeHex(ethers.parseEther('10')) // 10 ETH for gas
+    const slot = await retryWithPolicy(
+      () => findBalanceSlot(sdk, anvilProvider, token),
+      {},
+      `${symbol} balance slot search`
+    );
+
+    if (slot) {
+      await anvilProvider.send('anvil_setStorageAt', [
+        token,
+        getBalanceStorageKey(slot, account),
+        ethers.toBeHex(balanceBefore + amount, 32),
       ]);
-      
-      // Re-setup whale wallet with the selected whale
-      const selectedWhaleWallet = await anvilProvider.getSigner(USDC_WHALE);
-      const finalUsdcContract = new ethers.Contract(
-        sdk.config.contracts.usdc,
-        ERC20_ABI,
-        selectedWhaleWallet
-      );
-      
-      // Transfer USDC from whale to target account
-      log.info('Transferring USDC to target account...');
-      const transferTx = await finalUsdcContract.transfer!(sdk.eoaAddress, amount);
-      
-      log.info('USDC transfer transaction submitted', {
-        hash: transferTx.hash,
-        to: sdk.eoaAddress,
-        amount: formatTokenAmount(amount, 6, 'USDC'),
-      });
-      
-      // Wait for confirmation
-      const receipt = await transferTx.wait();
-      
-      if (!receipt || receipt.status !== 1) {
-        throw new InfrastructureError('USDC transfer transaction failed');
-      }
-      
-      // Verify the transfer was successful
-      const targetUsdcContract = new ethers.Contract(
-        sdk.config.contracts.usdc,
-        ERC20_ABI,
-        sdk.provider
+    } else {
+      log.warn(`No writable balance slot found for ${symbol}, falling back to impersonation`);
+      await transferFromHolder(sdk, anvilProvider, token, account, amount, options.holders);
+    }
+
+    const balanceAfter = await readBalance();
+
+    // Rebasing tokens can round by a wei or two
+    if (balanceAfter + 2n < balanceBefore + amount) {
+      throw new InfrastructureError(
+        `Funding ${symbol} failed. Expected ${formatTokenAmount(balanceBefore + amount, decimals, symbol)}, ` +
+        `got ${formatTokenAmount(balanceAfter, decimals, symbol)}`
       );
-      
-      const newBalance = await targetUsdcContract.balanceOf!(sdk.eoaAddress) as bigint;
-      
-      // Disable impersonation (cleanup)
-      await anvilProvider.send('anvil_stopImpersonatingAccount', [USDC_WHALE]);
-      
-      log.success('USDC funding completed successfully!', {
-        targetAccount: sdk.eoaAddress,
-        finalBalance: formatTokenAmount(newBalance, 6, 'USDC'),
-        transactionHash: receipt.hash,
-        gasUsed: receipt.gasUsed?.toString(),
-      });
-      
-    } catch (error) {
-      // Ensure impersonation is disabled even if there's an error
+    }
+
+    log.success(`${symbol} funded`, {
+      account,
+      method: slot ? `storage slot ${slot.slot} (${slot.layout})` : 'impersonation',
+      finalBalance: formatTokenAmount(balanceAfter, decimals, symbol),
+    });
+  },
+  'Token Funding',
+  NO_RETRY
+);
+
+/**
+ * Find the storage slot of a token's balance mapping by writing a probe balance
+ *
+ * Each candidate is restored after probing, so a miss leaves the fork untouched.
+ */
+async function findBalanceSlot(
+  sdk: SDKContext,
+  anvilProvider: ethers.JsonRpcProvider,
+  token: Address
+): Promise<BalanceSlot | undefined> {
+  const cacheKey = `${sdk.config.chainId}:${token}`.toLowerCase();
+  const cached = balanceSlotCache.get(cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  const contract = new ethers.Contract(token, ERC20_ABI, anvilProvider);
+  // A random probe account keeps existing balances out of the comparison
+  const probeAccount = ethers.Wallet.createRandom().address as Address;
+  const probeValue = 0x1234567890abcdefn;
+
+  for (let slot = 0; slot < MAX_BALANCE_SLOT; slot++) {
+    for (const layout of ['solidity', 'vyper'] as const) {
+      const candidate: BalanceSlot = { slot, layout };
+      const key = getBalanceStorageKey(candidate, probeAccount);
+      const original = await anvilProvider.send('eth_getStorageAt', [token, key, 'latest']) as Hex;
+
+      await anvilProvider.send('anvil_setStorageAt', [token, key, ethers.toBeHex(probeValue, 32)]);
+      let balance = 0n;
       try {
-        const anvilProvider = new ethers.JsonRpcProvider(sdk.config.anvilRpcUrl);
-        await anvilProvider.send('anvil_stopImpersonatingAccount', [USDC_WHALE]);
-      } catch (cleanupError) {
-        log.warn('Failed to cleanup impersonation', { error: cleanupError });
+        balance = await contract.balanceOf!(probeAccount) as bigint;
+      } catch {
+        // Some layouts make balanceOf revert; treat it as a miss
       }
-      
-      if (error instanceof Error) {
-        if (error.message.includes('anvil_impersonateAccount')) {
-          throw new InfrastructureError(
-            'Anvil impersonation failed. Ensure Anvil is running with mainnet fork: npm run infra:anvil'
-          );
-        }
-        throw new InfrastructureError(`USDC funding failed: ${error.message}`);
+      await anvilProvider.send('anvil_setStorageAt', [token, key, ethers.zeroPadValue(original, 32)]);
+
+      if (balance === probeValue) {
+        balanceSlotCache.set(cacheKey, candidate);
+        log.debug('Balance slot found', { token, slot, layout });
+        return candidate;
       }
-      
-      throw new InfrastructureError('USDC funding failed with unknown error');
     }
-  },
-  'USDC Account Funding'
-); 
\ No newline at end of file
+  }
+
+  return undefined;
+}
+
+function getBalanceStorageKey(slot: BalanceSlot, account: Address): Hex {
+  const coder = ethers.AbiCoder.defaultAbiCoder();
+  const encoded = slot.layout === 'solidity'
+    ? coder.encode(['address', 'uint256'], [account, slot.slot])
+    : coder.encode(['uint256', 'address'], [slot.slot, account]);
+  return ethers.keccak256(encoded) as Hex;
+}
+
+/**
+ * Transfer from the first holder with enough balance, impersonating it on Anvil
+ */
+async function transferFromHolder(
+  sdk: SDKContext,
+  anvilProvider: ethers.JsonRpcProvider,
+  token: Address,
+  account: Address,
+  amount: bigint,
+  holders: readonly Address[] = DEFAULT_HOLDERS[sdk.config.chainId]?.[token.toLowerCase()] ?? []
+): Promise<void> {
+  const contract = new ethers.Contract(token, ERC20_ABI, anvilProvider);
+
+  let holder: Address | undefined;
+  for (const candidate of holders) {
+    try {
+      const balance = await contract.balanceOf!(candidate) as bigint;
+      if (balance >= amount) {
+        holder = candidate;
+        break;
+      }
+    } catch (error) {
+      log.warn(`Failed to check holder ${candidate}`, { error });
+    }
+  }
+
+  if (!holder) {
+    throw new InfrastructureError(
+      `No holder of ${token} with enough balance to impersonate. Pass holders to fundToken.`
+    );
+  }
+
+  log.info('Impersonating holder', { holder });
+
+  try {
+    await anvilProvider.send('anvil_impersonateAccount', [holder]);
+    // Gas for the transfer
+    await anvilProvider.send('anvil_setBalance', [holder, ethers.toBeHex(ethers.parseEther('10'))]);
+
+    const signer = await anvilProvider.getSigner(holder);
+    const tx = await (contract.connect(signer) as ethers.Contract).transfer!(account, amount);
+    const receipt = await tx.wait();
+
+    if (!receipt || receipt.status !== 1) {
+      throw new InfrastructureError(`Transfer from holder ${holder} failed`);
+    }
+  } finally {
+    await anvilProvider.send('anvil_stopImpersonatingAccount', [holder]);
+  }
+}
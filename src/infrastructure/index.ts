@@ -2,4 +2,7 @@
  * @fileoverview Infrastructure module exports
  */
 
-export * from './fund-account';
\ No newline at end of file
+export * from './fund-account';
+export * from './anvil';
+export * from './local-bridge';
+export * from './local-mee-node';
@@ -0,0 +1,97 @@
+/**
+ * @fileoverview Burn-and-credit bridge stand-in between two local Anvil forks
+ *
+ * No bridge relayer watches local forks, so this process plays the relayer:
+ * tokens sent to the burn address on the source fork are credited to the
+ * recipient on the destination fork through the usual funding helper.
+ */
+
+import { ethers } from 'ethers';
+import type { Address, Hex } from 'viem';
+
+import type { SDKContext } from '../types';
+import { log } from '../utils/logger';
+import { InfrastructureError } from '../utils/errors';
+import { ERC20_ABI } from '../utils/contracts';
+import { getForkContext, withChain } from '../utils/chains';
+import { resolveReserve } from '../utils/reserves';
+import { fundTestAccount } from './fund-account';
+
+// Tokens sent here on the source fork count as bridged
+export const LOCAL_BRIDGE_BURN_ADDRESS = '0x000000000000000000000000000000000000dEaD' as Address;
+
+const POLL_INTERVAL_MS = 2_000;
+const DEFAULT_RELAY_TIMEOUT_MS = 5 * 60_000;
+
+export interface LocalBridgeTransfer {
+  readonly sourceChainId: number;
+  readonly destinationChainId: number;
+  readonly sourceToken: Address;
+  readonly sender: Address; // Account burning on the source fork
+  readonly recipient: Address; // Account credited on the destination fork
+  readonly fromBlock: number; // First source block to scan
+  readonly timeoutMs?: number;
+  readonly signal?: AbortSignal; // Stops polling, e.g. when the supertransaction fails first
+}
+
+export interface LocalBridgeReceipt {
+  readonly sourceTransactionHash: Hex;
+  readonly burned: bigint; // Source token units
+  readonly credited: bigint; // Destination USDC units
+}
+
+/**
+ * Wait for the sender's burn on the source fork, then credit the same amount on the destination fork
+ *
+ * Only USDC can be credited; the destination fork's USDC balance is written with `fundTestAccount`,
+ * rescaled when the two chains use different USDC decimals.
+ */
+export async function relayLocalBridgeTransfer(
+  sdk: SDKContext,
+  transfer: LocalBridgeTransfer
+): Promise<LocalBridgeReceipt> {
+  const source = getForkContext(sdk, transfer.sourceChainId);
+  const token = new ethers.Contract(transfer.sourceToken, ERC20_ABI, source.provider);
+  const filter = token.filters.Transfer!(transfer.sender, LOCAL_BRIDGE_BURN_ADDRESS);
+  const deadline = Date.now() + (transfer.timeoutMs ?? DEFAULT_RELAY_TIMEOUT_MS);
+
+  log.info('Waiting for bridge burn on the source fork...', {
+    chainId: transfer.sourceChainId,
+    sender: transfer.sender,
+  });
+
+  while (Date.now() < deadline) {
+    if (transfer.signal?.aborted) {
+      throw new InfrastructureError('Local bridge relay was cancelled');
+    }
+
+    const [burn] = await token.queryFilter(filter, transfer.fromBlock);
+
+    if (burn && 'args' in burn) {
+      const burned = burn.args.value as bigint;
+      const destination = withChain(sdk, transfer.destinationChainId);
+      const [sourceDecimals, destinationUsdc] = await Promise.all([
+        token.decimals!() as Promise<bigint>,
+        resolveReserve(destination, 'USDC'),
+      ]);
+      const credited = burned * 10n ** BigInt(destinationUsdc.decimals) / 10n ** sourceDecimals;
+
+      log.info('Bridge burn found, crediting destination fork', {
+        sourceTransactionHash: burn.transactionHash,
+        destinationChainId: transfer.destinationChainId,
+        recipient: transfer.recipient,
+      });
+
+      await fundTestAccount(destination, credited, transfer.recipient);
+
+      return { sourceTransactionHash: burn.transactionHash as Hex, burned, credited };
+    }
+
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+
+  throw new InfrastructureError(
+    `No bridge burn from ${transfer.sender} seen on chain ${transfer.sourceChainId} ` +
+    `within ${(transfer.timeoutMs ?? DEFAULT_RELAY_TIMEOUT_MS) / 1000}s`
+  );
+}
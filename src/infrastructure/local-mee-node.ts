@@ -0,0 +1,620 @@
+/**
+ * @fileoverview In-process MEE node stand-in for running the Fusion flows without Docker
+ *
+ * Serves the endpoints abstractjs calls (`info`, `quote`, `quote-permit`, `exec`
+ * and `explorer/:hash`) and executes each user op by calling the Nexus account
+ * as the EntryPoint on its Anvil fork. Quote signatures are not verified:
+ * permits are submitted to the token and on-chain triggers are checked for
+ * their transaction, which only makes sense on a local fork.
+ */
+
+import 'dotenv/config';
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { ethers } from 'ethers';
+import type { Address, Hex } from 'viem';
+
+import type { BiconomyConfig, ForkConfig } from '../types';
+import { log } from '../utils/logger';
+import { InfrastructureError, extractErrorDetails } from '../utils/errors';
+import { ERC20_ABI } from '../utils/contracts';
+import { createConfig } from '../utils/config';
+import { sleep } from '../utils/timing';
+
+// ERC-4337 v0.7 EntryPoint, the only caller Nexus accepts for `execute`
+export const ENTRY_POINT_ADDRESS = '0x0000000071727De22E5E9d8BAf0edAc6f37da032' as Address;
+
+// Same key as the Docker node in docker-compose.yml (Anvil's first account)
+const DEFAULT_NODE_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+
+// Signature prefixes written by abstractjs `signPermitQuote` and `signOnChainQuote`
+const PERMIT_PREFIX = '0x177eee02';
+const ON_CHAIN_PREFIX = '0x177eee01';
+
+const DEFAULT_FEE_UNITS = '0.01';
+const DEFAULT_POLL_INTERVAL_MS = 1_000;
+const PRE_VERIFICATION_GAS = 50_000n;
+const DEFAULT_VERIFICATION_GAS = 150_000n;
+const EXECUTION_GAS_OVERHEAD = 100_000n; // Nexus dispatch on top of the calls' own gas limit
+const TRIGGER_TIMEOUT_MS = 60_000;
+
+const NEXUS_EXECUTE = new ethers.Interface(['function execute(bytes32 mode, bytes executionCalldata)']);
+const FEE_TOKEN = new ethers.Interface([
+  'function transfer(address to, uint256 amount) returns (bool)',
+  'function transferFrom(address from, address to, uint256 amount) returns (bool)',
+]);
+
+export type UserOpStatus = 'PENDING' | 'MINING' | 'MINED_SUCCESS' | 'MINED_FAIL' | 'FAILED';
+
+export interface LocalMeeNodeOptions {
+  readonly port?: number; // 0 picks a free port; defaults to the port of `meeNodeUrl`
+  readonly feeUnits?: string; // Flat fee per supertransaction in fee token units, valued at $1 each
+  readonly nodeKey?: Hex; // Fee recipient and sender of permit and account deployment transactions
+  readonly pollIntervalMs?: number; // Delay between retries of a user op whose simulation reverts
+}
+
+export interface LocalMeeNode {
+  readonly url: string; // Base URL including the version path, usable as MEE_NODE_URL
+  readonly address: Address;
+  close(): Promise<void>;
+}
+
+// User op fields abstractjs sends in a quote request
+interface QuoteRequestUserOp {
+  readonly sender: Address;
+  readonly callData: Hex;
+  readonly callGasLimit: string;
+  readonly nonce: string;
+  readonly chainId: string;
+  readonly lowerBoundTimestamp: number;
+  readonly upperBoundTimestamp: number;
+  readonly isCleanUpUserOp?: boolean;
+  readonly initCode?: Hex;
+  readonly verificationGasLimit?: string;
+  readonly shortEncoding?: boolean;
+}
+
+interface QuoteRequestPaymentInfo {
+  readonly sponsored?: boolean;
+  readonly sender: Address;
+  readonly token: Address;
+  readonly nonce: string;
+  readonly callGasLimit: string;
+  readonly verificationGasLimit: string;
+  readonly chainId: string;
+  readonly eoa?: Address; // Set for Fusion quotes; the fee is pulled from the EOA's allowance
+  readonly initCode?: Hex;
+  readonly [key: string]: unknown;
+}
+
+interface QuoteRequest {
+  readonly userOps: readonly QuoteRequestUserOp[];
+  readonly paymentInfo: QuoteRequestPaymentInfo;
+}
+
+// One user op as quoted, plus what the node needs to execute it
+interface QuotedUserOp {
+  readonly details: Record<string, unknown>;
+  readonly chainId: number;
+  readonly sender: Address;
+  readonly callData: Hex;
+  readonly initCode?: Hex | undefined;
+  readonly gasLimit: bigint;
+  readonly lowerBoundTimestamp: number;
+  readonly upperBoundTimestamp: number;
+  readonly isPayment: boolean;
+  readonly isCleanUp: boolean;
+}
+
+interface StoredQuote {
+  readonly payload: {
+    readonly hash: Hex;
+    readonly node: Address;
+    readonly commitment: Hex;
+    readonly paymentInfo: Record<string, unknown>;
+    readonly userOps: readonly Record<string, unknown>[];
+  };
+  readonly userOps: readonly QuotedUserOp[];
+  executed: boolean;
+}
+
+interface UserOpState {
+  executionStatus: UserOpStatus;
+  executionData?: Hex; // Transaction hash once submitted
+  executionError?: string;
+}
+
+interface Supertransaction {
+  readonly quote: StoredQuote;
+  readonly states: UserOpState[];
+}
+
+// Chain-specific handles shared by every request
+interface ChainHandle {
+  readonly fork: ForkConfig;
+  readonly provider: ethers.JsonRpcProvider;
+  readonly node: ethers.Wallet;
+}
+
+/**
+ * Start the stand-in and serve it at `config.meeNodeUrl` (or the given port)
+ */
+export async function startLocalMeeNode(
+  config: Pick<BiconomyConfig, 'meeNodeUrl' | 'forks'>,
+  options: LocalMeeNodeOptions = {}
+): Promise<LocalMeeNode> {
+  const baseUrl = new URL(config.meeNodeUrl);
+  const basePath = baseUrl.pathname.replace(/\/+$/, '');
+  const nodeKey = options.nodeKey ?? DEFAULT_NODE_KEY;
+  const nodeAddress = new ethers.Wallet(nodeKey).address as Address;
+  const pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+
+  const chains = new Map<number, ChainHandle>(config.forks.map(fork => {
+    const provider = new ethers.JsonRpcProvider(fork.anvilRpcUrl, fork.chainId, { staticNetwork: true });
+    return [fork.chainId, { fork, provider, node: new ethers.Wallet(nodeKey, provider) }];
+  }));
+
+  const quotes = new Map<Hex, StoredQuote>();
+  const supertransactions = new Map<Hex, Supertransaction>();
+  let quoteCounter = 0;
+
+  const getChain = (chainId: number): ChainHandle => {
+    const chain = chains.get(chainId);
+    if (!chain) {
+      throw new RequestError(400, `Chain ${chainId} is not supported by the local MEE node`);
+    }
+    return chain;
+  };
+
+  const info = () => ({
+    version: 'local',
+    node: nodeAddress,
+    supportedChains: config.forks.map(fork => ({ chainId: String(fork.chainId), name: fork.chain.name })),
+    supportedGasTokens: config.forks.map(fork => ({
+      chainId: String(fork.chainId),
+      paymentTokens: fork.chain.paymentTokens,
+      isArbitraryPaymentTokensSupported: true,
+    })),
+    supported_wallet_providers: [{
+      walletProvider: 'BICO_V2',
+      supportedChains: config.forks.map(fork => String(fork.chainId)),
+      eoaEnabled: true,
+      eoaFusion: true,
+    }],
+  });
+
+  const quote = async (request: QuoteRequest): Promise<StoredQuote['payload']> => {
+    const { paymentInfo } = request;
+    if (paymentInfo.sponsored) {
+      throw new RequestError(400, 'Sponsored supertransactions are not supported by the local MEE node');
+    }
+    if (!Array.isArray(request.userOps) || request.userOps.length === 0) {
+      throw new RequestError(400, 'Quote request has no user ops');
+    }
+
+    const paymentChain = getChain(Number(paymentInfo.chainId));
+    const fee = await quoteFee(paymentChain, paymentInfo.token, options.feeUnits ?? DEFAULT_FEE_UNITS);
+    const first = request.userOps[0]!;
+
+    const payment: QuoteRequestUserOp = {
+      sender: paymentInfo.sender,
+      callData: buildPaymentCallData(paymentInfo, nodeAddress, fee.amount),
+      callGasLimit: paymentInfo.callGasLimit,
+      verificationGasLimit: paymentInfo.verificationGasLimit,
+      nonce: paymentInfo.nonce,
+      chainId: paymentInfo.chainId,
+      lowerBoundTimestamp: first.lowerBoundTimestamp,
+      upperBoundTimestamp: first.upperBoundTimestamp,
+      ...(paymentInfo.initCode && { initCode: paymentInfo.initCode }),
+    };
+
+    const hash = ethers.keccak256(
+      ethers.toUtf8Bytes(`${nodeAddress}:${++quoteCounter}:${Date.now()}:${JSON.stringify(request)}`)
+    ) as Hex;
+
+    const userOps = await Promise.all([payment, ...request.userOps].map(async (userOp, index) => {
+      const chain = getChain(Number(userOp.chainId));
+      const { maxFeePerGas, maxPriorityFeePerGas } = await chain.provider.getFeeData();
+      const callGasLimit = BigInt(userOp.callGasLimit);
+      const verificationGasLimit = BigInt(userOp.verificationGasLimit ?? DEFAULT_VERIFICATION_GAS);
+
+      const details = {
+        userOp: {
+          sender: userOp.sender,
+          nonce: userOp.nonce,
+          initCode: userOp.initCode ?? '0x',
+          callData: userOp.callData,
+          callGasLimit: callGasLimit.toString(),
+          verificationGasLimit: verificationGasLimit.toString(),
+          maxFeePerGas: (maxFeePerGas ?? 0n).toString(),
+          maxPriorityFeePerGas: (maxPriorityFeePerGas ?? 0n).toString(),
+          paymasterAndData: '0x',
+          preVerificationGas: PRE_VERIFICATION_GAS.toString(),
+        },
+        userOpHash: ethers.solidityPackedKeccak256(['bytes32', 'uint256'], [hash, index]),
+        meeUserOpHash: ethers.solidityPackedKeccak256(['bytes32', 'uint256', 'string'], [hash, index, 'mee']),
+        lowerBoundTimestamp: String(userOp.lowerBoundTimestamp),
+        upperBoundTimestamp: String(userOp.upperBoundTimestamp),
+        maxGasLimit: (callGasLimit + verificationGasLimit + PRE_VERIFICATION_GAS).toString(),
+        maxFeePerGas: (maxFeePerGas ?? 0n).toString(),
+        chainId: String(userOp.chainId),
+        isCleanUpUserOp: userOp.isCleanUpUserOp ?? false,
+        shortEncoding: userOp.shortEncoding ?? false,
+      };
+
+      return {
+        details,
+        chainId: Number(userOp.chainId),
+        sender: userOp.sender,
+        callData: userOp.callData,
+        initCode: userOp.initCode,
+        gasLimit: callGasLimit + EXECUTION_GAS_OVERHEAD,
+        lowerBoundTimestamp: Number(userOp.lowerBoundTimestamp),
+        upperBoundTimestamp: Number(userOp.upperBoundTimestamp),
+        isPayment: index === 0,
+        isCleanUp: userOp.isCleanUpUserOp ?? false,
+      } satisfies QuotedUserOp;
+    }));
+
+    const stored: StoredQuote = {
+      payload: {
+        hash,
+        node: nodeAddress,
+        commitment: hash,
+        paymentInfo: {
+          ...paymentInfo,
+          tokenAmount: fee.formatted,
+          tokenWeiAmount: fee.amount.toString(),
+          tokenValue: fee.formatted,
+        },
+        userOps: userOps.map(userOp => userOp.details),
+      },
+      userOps,
+      executed: false,
+    };
+
+    quotes.set(hash, stored);
+    log.debug('Local MEE node quoted', { hash, userOps: userOps.length, fee: fee.formatted });
+
+    return stored.payload;
+  };
+
+  const execute = (signedQuote: { hash?: Hex; signature?: Hex }): { hash: Hex } => {
+    const stored = signedQuote.hash ? quotes.get(signedQuote.hash) : undefined;
+    if (!stored || !signedQuote.signature) {
+      throw new RequestError(400, `Unknown or unsigned quote ${signedQuote.hash ?? ''}`.trim());
+    }
+    if (stored.executed) {
+      throw new RequestError(400, `Quote ${stored.payload.hash} was already executed`);
+    }
+    stored.executed = true;
+
+    const supertransaction: Supertransaction = {
+      quote: stored,
+      states: stored.userOps.map((): UserOpState => ({ executionStatus: 'PENDING' })),
+    };
+    supertransactions.set(stored.payload.hash, supertransaction);
+
+    // Executed in the background; clients poll `explorer/:hash`
+    void runSupertransaction(supertransaction, signedQuote.signature).catch(error => {
+      log.error('Local MEE node execution crashed', { hash: stored.payload.hash, error: extractErrorDetails(error) });
+      failPending(supertransaction, `Node error: ${extractErrorDetails(error)}`);
+    });
+
+    return { hash: stored.payload.hash };
+  };
+
+  const explorer = (hash: Hex) => {
+    const supertransaction = supertransactions.get(hash);
+    if (!supertransaction) {
+      throw new RequestError(404, `Supertransaction ${hash} not found`);
+    }
+
+    const { payload } = supertransaction.quote;
+    return {
+      ...payload,
+      userOps: payload.userOps.map((details, index) => ({ ...details, ...supertransaction.states[index] })),
+    };
+  };
+
+  const runSupertransaction = async (supertransaction: Supertransaction, signature: Hex): Promise<void> => {
+    const { quote: stored, states } = supertransaction;
+
+    try {
+      await applyTrigger(stored, signature);
+    } catch (error) {
+      failPending(supertransaction, extractErrorDetails(error));
+      return;
+    }
+
+    // The fee is collected first; nothing else runs if it can't be
+    const [payment] = stored.userOps;
+    if (payment && !(await runUserOp(payment, states[0]!))) {
+      failPending(supertransaction, 'Fee payment user op failed');
+      return;
+    }
+
+    // Chains progress independently; user ops on one chain run in order
+    const byChain = new Map<number, number[]>();
+    stored.userOps.forEach((userOp, index) => {
+      if (index > 0 && !userOp.isCleanUp) {
+        byChain.set(userOp.chainId, [...(byChain.get(userOp.chainId) ?? []), index]);
+      }
+    });
+
+    await Promise.all([...byChain.values()].map(async indexes => {
+      for (const [position, index] of indexes.entries()) {
+        if (!(await runUserOp(stored.userOps[index]!, states[index]!))) {
+          for (const skipped of indexes.slice(position + 1)) {
+            states[skipped] = { executionStatus: 'FAILED', executionError: `Skipped after user op ${index} failed` };
+          }
+          return;
+        }
+      }
+    }));
+
+    for (const [index, userOp] of stored.userOps.entries()) {
+      if (userOp.isCleanUp) {
+        await runUserOp(userOp, states[index]!);
+      }
+    }
+  };
+
+  /**
+   * Submit the EOA's permit, or confirm its on-chain trigger transaction carries the quote hash
+   */
+  const applyTrigger = async (stored: StoredQuote, signature: Hex): Promise<void> => {
+    const { hash, paymentInfo } = stored.payload;
+
+    if (signature.startsWith(PERMIT_PREFIX)) {
+      const [token, spender, , , amount, chainId, , v, r, s] = ethers.AbiCoder.defaultAbiCoder().decode(
+        ['address', 'address', 'bytes32', 'bytes32', 'uint256', 'uint256', 'uint256', 'uint256', 'bytes32', 'bytes32'],
+        `0x${signature.slice(PERMIT_PREFIX.length)}`
+      );
+      const owner = paymentInfo.eoa as Address | undefined;
+      if (!owner) {
+        throw new InfrastructureError('Permit signature on a quote without an EOA');
+      }
+
+      const chain = getChain(Number(chainId));
+      const permit = new ethers.Contract(
+        token as string,
+        ['function permit(address owner, address spender, uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s)'],
+        chain.node
+      );
+
+      try {
+        // abstractjs signs the quote hash as the permit deadline
+        const tx = await permit.permit!(owner, spender, amount, BigInt(hash), v, r, s);
+        await tx.wait();
+      } catch (error) {
+        throw new InfrastructureError(`Permit trigger failed: ${extractErrorDetails(error)}`);
+      }
+      return;
+    }
+
+    if (signature.startsWith(ON_CHAIN_PREFIX)) {
+      const [txHash, chainId] = ethers.AbiCoder.defaultAbiCoder().decode(
+        ['bytes32', 'uint256'],
+        `0x${signature.slice(ON_CHAIN_PREFIX.length)}`
+      );
+      const { provider } = getChain(Number(chainId));
+
+      const receipt = await provider.waitForTransaction(txHash as string, 1, TRIGGER_TIMEOUT_MS);
+      const tx = await provider.getTransaction(txHash as string);
+      if (!receipt || receipt.status !== 1 || !tx?.data.toLowerCase().endsWith(hash.slice(2).toLowerCase())) {
+        throw new InfrastructureError(`On-chain trigger ${txHash} is missing, reverted or not for quote ${hash}`);
+      }
+    }
+
+    // Other signatures come from smart-account-funded quotes and need no trigger
+  };
+
+  /**
+   * Run one user op; returns whether it succeeded
+   *
+   * A reverting simulation leaves the op PENDING (e.g. a runtime balance
+   * constraint waiting for bridged funds) until its upper bound timestamp,
+   * then FAILED. A transaction that reverts once mined is MINED_FAIL.
+   */
+  const runUserOp = async (userOp: QuotedUserOp, state: UserOpState): Promise<boolean> => {
+    const { provider, node } = getChain(userOp.chainId);
+
+    try {
+      if (userOp.initCode && userOp.initCode !== '0x' && (await provider.getCode(userOp.sender)) === '0x') {
+        const factory = ethers.dataSlice(userOp.initCode, 0, 20);
+        const deployTx = await node.sendTransaction({ to: factory, data: ethers.dataSlice(userOp.initCode, 20) });
+        await deployTx.wait();
+      }
+
+      while (Date.now() / 1000 < userOp.lowerBoundTimestamp) {
+        await sleep(pollIntervalMs);
+      }
+
+      for (;;) {
+        try {
+          await provider.call({ from: ENTRY_POINT_ADDRESS, to: userOp.sender, data: userOp.callData });
+          break;
+        } catch (error) {
+          state.executionError = extractErrorDetails(error);
+          if (Date.now() / 1000 > userOp.upperBoundTimestamp) {
+            state.executionStatus = 'FAILED';
+            return false;
+          }
+          await sleep(pollIntervalMs);
+        }
+      }
+
+      await provider.send('anvil_impersonateAccount', [ENTRY_POINT_ADDRESS]);
+      const balance = await provider.getBalance(ENTRY_POINT_ADDRESS);
+      if (balance < ethers.parseEther('1')) {
+        await provider.send('anvil_setBalance', [ENTRY_POINT_ADDRESS, ethers.toBeHex(balance + ethers.parseEther('10'))]);
+      }
+
+      const entryPoint = await provider.getSigner(ENTRY_POINT_ADDRESS);
+      const tx = await entryPoint.sendTransaction({ to: userOp.sender, data: userOp.callData, gasLimit: userOp.gasLimit });
+      state.executionStatus = 'MINING';
+      state.executionData = tx.hash as Hex;
+      delete state.executionError;
+
+      const receipt = await provider.waitForTransaction(tx.hash);
+      if (receipt?.status !== 1) {
+        state.executionStatus = 'MINED_FAIL';
+        state.executionError = 'User op reverted on-chain';
+        return false;
+      }
+
+      state.executionStatus = 'MINED_SUCCESS';
+      return true;
+
+    } catch (error) {
+      state.executionStatus = state.executionData ? 'MINED_FAIL' : 'FAILED';
+      state.executionError = extractErrorDetails(error);
+      return false;
+    }
+  };
+
+  const server = createServer((req, res) => {
+    void handleRequest(req, res).catch(error => {
+      const status = error instanceof RequestError ? error.status : 500;
+      sendJson(res, status, { error: error instanceof Error ? error.message : extractErrorDetails(error) });
+    });
+  });
+
+  const handleRequest = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const pathname = new URL(req.url ?? '/', 'http://local').pathname.replace(/\/{2,}/g, '/');
+    if (!pathname.startsWith(`${basePath}/`)) {
+      throw new RequestError(404, `No route for ${pathname}`);
+    }
+
+    const route = pathname.slice(basePath.length + 1);
+
+    if (req.method === 'GET' && route === 'info') {
+      return sendJson(res, 200, info());
+    }
+    if (req.method === 'POST' && (route === 'quote' || route === 'quote-permit')) {
+      return sendJson(res, 200, await quote(await readJson(req) as QuoteRequest));
+    }
+    if (req.method === 'POST' && route === 'exec') {
+      return sendJson(res, 200, execute(await readJson(req) as { hash?: Hex; signature?: Hex }));
+    }
+    if (req.method === 'GET' && route.startsWith('explorer/')) {
+      return sendJson(res, 200, explorer(route.slice('explorer/'.length) as Hex));
+    }
+
+    throw new RequestError(404, `No route for ${req.method} ${pathname}`);
+  };
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? Number(baseUrl.port || 80), baseUrl.hostname, () => resolve());
+  });
+
+  const { port } = server.address() as AddressInfo;
+  const url = `${baseUrl.protocol}//${baseUrl.hostname}:${port}${basePath}`;
+
+  log.success('Local MEE node listening', {
+    url,
+    node: nodeAddress,
+    chains: config.forks.map(fork => fork.chainId).join(', '),
+  });
+
+  return {
+    url,
+    address: nodeAddress,
+    close: () => new Promise<void>((resolve, reject) => {
+      server.close(error => (error ? reject(error) : resolve()));
+      server.closeAllConnections(); // Drop keep-alive sockets held by polling clients
+    }),
+  };
+}
+
+// HTTP error surfaced to the client as `{ error }`
+class RequestError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * Mark every op that hasn't finished as FAILED with the same reason
+ */
+function failPending(supertransaction: Supertransaction, reason: string): void {
+  for (const state of supertransaction.states) {
+    if (state.executionStatus === 'PENDING' || state.executionStatus === 'MINING') {
+      state.executionStatus = 'FAILED';
+      state.executionError = reason;
+    }
+  }
+}
+
+async function quoteFee(
+  chain: ChainHandle,
+  token: Address,
+  feeUnits: string
+): Promise<{ amount: bigint; formatted: string }> {
+  const decimals = token === ethers.ZeroAddress
+    ? 18
+    : Number(await new ethers.Contract(token, ERC20_ABI, chain.provider).decimals!());
+  const amount = ethers.parseUnits(feeUnits, decimals);
+
+  return { amount, formatted: ethers.formatUnits(amount, decimals) };
+}
+
+/**
+ * Nexus `execute` calldata paying the fee to the node
+ *
+ * Fusion quotes pull the fee from the EOA with the allowance its trigger
+ * granted (the trigger amount includes the fee); other quotes pay from the account.
+ */
+function buildPaymentCallData(paymentInfo: QuoteRequestPaymentInfo, node: Address, fee: bigint): Hex {
+  const call = paymentInfo.token === ethers.ZeroAddress
+    ? { to: node, value: fee, data: '0x' }
+    : {
+        to: paymentInfo.token,
+        value: 0n,
+        data: paymentInfo.eoa
+          ? FEE_TOKEN.encodeFunctionData('transferFrom', [paymentInfo.eoa, node, fee])
+          : FEE_TOKEN.encodeFunctionData('transfer', [node, fee]),
+      };
+
+  // ERC-7579 single call mode: the all-zero mode with packed (target, value, calldata)
+  return NEXUS_EXECUTE.encodeFunctionData('execute', [
+    ethers.ZeroHash,
+    ethers.solidityPacked(['address', 'uint256', 'bytes'], [call.to, call.value, call.data]),
+  ]) as Hex;
+}
+
+async function readJson(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}');
+  } catch {
+    throw new RequestError(400, 'Request body is not valid JSON');
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body, (_key, value) => (typeof value === 'bigint' ? value.toString() : value)));
+}
+
+// Run standalone: `npm run infra:mee:local`
+if (require.main === module) {
+  startLocalMeeNode(createConfig())
+    .then(node => {
+      const shutdown = () => void node.close().then(() => process.exit(0));
+      process.on('SIGINT', shutdown);
+      process.on('SIGTERM', shutdown);
+    })
+    .catch(error => {
+      log.error('Local MEE node failed to start', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      process.exit(1);
+    });
+}
@@ -8,14 +8,16 @@ import {
   toMultichainNexusAccount,
 } from '@biconomy/abstractjs';
 import { ethers } from 'ethers';
-import { http, type Chain } from 'viem';
+import { http } from 'viem';
 import { privateKeyToAccount } from 'viem/accounts';
-import { mainnet } from 'viem/chains';
 
-import type { SDKContext, MeeNodeInfo } from '../types';
+import type { SDKContext, MeeNodeInfo, ForkConfig, ForkContext } from '../types';
 import { log } from '../utils/logger';
 import { withErrorHandling, SDKError, InfrastructureError } from '../utils/errors';
 import { createConfig } from '../utils/config';
+import { toViemChain } from '../utils/chains';
+import { createTransactionJournal } from '../utils/journal';
+import { ERC20_ABI } from '../utils/contracts';
 
 /**
  * Initialize the Biconomy SDK with proper error handling and validation
@@ -28,27 +30,22 @@ export const initializeBiconomySDK = withErrorHandling(
     // Load configuration and validate environment
     log.step(1, 'Loading configuration');
     const config = createConfig();
-    log.success('Configuration loaded and validated');
-
-    // Connect to blockchain and verify network
-    log.step(2, 'Connecting to Anvil fork');
-    const provider = new ethers.JsonRpcProvider(config.anvilRpcUrl);
-    
-    const network = await provider.getNetwork();
-    if (Number(network.chainId) !== config.chainId) {
-      throw new InfrastructureError(
-        `Chain ID mismatch: expected ${config.chainId}, got ${network.chainId}`
-      );
-    }
-    
-    log.success('Connected to Anvil fork', {
-      chainId: network.chainId.toString(),
-      rpcUrl: config.anvilRpcUrl,
+    log.success('Configuration loaded and validated', {
+      chain: `${config.chain.name} (${config.chainId})`,
+      chainDefinition: `chains-${config.chain.source}/${config.chainId}.json`,
+      aavePool: config.contracts.aavePool,
     });
 
+    // Connect to every fork and verify each network
+    log.step(2, config.forks.length > 1 ? `Connecting to ${config.forks.length} Anvil forks` : 'Connecting to Anvil fork');
+    const forkContexts = await Promise.all(
+      config.forks.map(fork => connectFork(fork, config.testPrivateKey))
+    );
+    const forks = Object.fromEntries(forkContexts.map(fork => [fork.config.chainId, fork]));
+    const { provider, signer } = forkContexts[0]!;
+
     // Setup wallet with private key
     log.step(3, 'Setting up wallet signer');
-    const signer = new ethers.Wallet(config.testPrivateKey, provider);
     
     // Check wallet has gas funds
     const ethBalance = await provider.getBalance(signer.address);
@@ -63,25 +60,21 @@ export const initializeBiconomySDK = withErrorHandling(
       ethBalance: ethers.formatEther(ethBalance),
     });
 
-    // Configure chain for Nexus
+    // Configure one chain per fork for Nexus
     log.step(4, 'Creating chain configuration');
-    const customChain: Chain = {
-      ...mainnet,
-      rpcUrls: {
-        default: { http: [config.anvilRpcUrl] },
-        public: { http: [config.anvilRpcUrl] },
-      },
-    };
+    const chains = config.forks.map(fork => toViemChain(fork.chain, fork.anvilRpcUrl));
 
     // Create smart account instance
     log.step(5, 'Creating Nexus Smart Account');
     const orchestrator = await toMultichainNexusAccount({
       signer: privateKeyToAccount(config.testPrivateKey as `0x${string}`),
-      chains: [customChain],
-      transports: [http(config.anvilRpcUrl)],
+      chains,
+      transports: config.forks.map(fork => http(fork.anvilRpcUrl)),
     });
 
-    log.success('Nexus Smart Account created');
+    log.success('Nexus Smart Account created', {
+      chains: chains.map(chain => `${chain.name} (${chain.id})`).join(', '),
+    });
 
     // Setup MEE client for Fusion
     log.step(6, 'Initializing MEE Client');
@@ -111,16 +104,16 @@ export const initializeBiconomySDK = withErrorHandling(
 
         // Check account balances
     log.step(7, 'Checking token balances');
-         const usdcContract = new ethers.Contract(
-      config.contracts.usdc,
-      ['function balanceOf(address) view returns (uint256)'],
-      provider
-    );
+         const usdcContract = new ethers.Contract(config.contracts.usdc, ERC20_ABI, provider);
 
-     const usdcBalance = await usdcContract.balanceOf!(signer.address) as bigint;
+    // USDC decimals differ between chains (18 on BNB Smart Chain)
+    const [usdcBalance, usdcDecimals] = await Promise.all([
+      usdcContract.balanceOf!(signer.address) as Promise<bigint>,
+      usdcContract.decimals!() as Promise<bigint>,
+    ]);
     
     log.info('Token balances checked', {
-      usdc: ethers.formatUnits(usdcBalance, 6),
+      usdc: ethers.formatUnits(usdcBalance, usdcDecimals),
       usdcAddress: config.contracts.usdc,
     });
 
@@ -132,6 +125,8 @@ export const initializeBiconomySDK = withErrorHandling(
       provider,
       config,
       eoaAddress: signer.address as `0x${string}`,
+      forks,
+      journal: createTransactionJournal(config.journalDir),
     };
 
     log.success('SDK initialization complete!', {
@@ -145,3 +140,28 @@ export const initializeBiconomySDK = withErrorHandling(
   'SDK Initialization'
 );
 
+/**
+ * Connect to one Anvil fork and check it serves the configured chain ID
+ */
+async function connectFork(fork: ForkConfig, privateKey: string): Promise<ForkContext> {
+  const provider = new ethers.JsonRpcProvider(fork.anvilRpcUrl);
+
+  const network = await provider.getNetwork();
+  if (Number(network.chainId) !== fork.chainId) {
+    throw new InfrastructureError(
+      `Chain ID mismatch at ${fork.anvilRpcUrl}: expected ${fork.chainId}, got ${network.chainId}`
+    );
+  }
+
+  log.success('Connected to Anvil fork', {
+    chain: fork.chain.name,
+    chainId: network.chainId.toString(),
+    rpcUrl: fork.anvilRpcUrl,
+  });
+
+  return {
+    config: fork,
+    provider,
+    signer: new ethers.Wallet(privateKey, provider),
+  };
+}
@@ -3,7 +3,7 @@
  */
 
 import type { Address, Hex } from 'viem';
-import type { MeeClient } from '@biconomy/abstractjs';
+import type { MeeClient, Trigger } from '@biconomy/abstractjs';
 import type { MultichainSmartAccount } from '@biconomy/abstractjs';
 import type { ethers } from 'ethers';
 
@@ -12,14 +12,62 @@ export interface BiconomyConfig {
   readonly meeNodeUrl: string;
   readonly anvilRpcUrl: string;
   readonly chainId: number;
+  readonly chain: ChainDefinition; // Loaded from chains-*/<chainId>.json
   readonly testPrivateKey: string;
   readonly contracts: ContractAddresses;
+  readonly healthFactorFloor: number; // Minimum projected health factor allowed after a borrow
+  readonly forks: readonly ForkConfig[]; // Every Anvil fork, the primary chain first
+  readonly journalDir: string; // Where the supertransaction journal is kept
+  readonly positionOwner: PositionOwner; // Account new AAVE positions are held by
+}
+
+// One Anvil fork: its RPC, chain definition and AAVE market
+export interface ForkConfig {
+  readonly chainId: number;
+  readonly anvilRpcUrl: string;
+  readonly chain: ChainDefinition;
+  readonly contracts: ContractAddresses;
 }
 
 export interface ContractAddresses {
-  readonly usdc: Address;
+  readonly usdc: Address; // Default fee token
   readonly aavePool: Address;
-  readonly aUsdc: Address;
+  readonly reserves: Readonly<Record<string, Address>>; // Underlying asset addresses keyed by symbol
+}
+
+// Chain definitions shipped for the MEE node (chains-local/, chains-prod/, chains-testnet/)
+export type ChainSource = 'local' | 'prod' | 'testnet';
+
+export interface PaymentTokenDefinition {
+  readonly address: Address;
+  readonly symbol: string;
+  readonly name: string;
+  readonly decimals: number;
+  readonly permitEnabled: boolean;
+}
+
+export interface ChainDefinition {
+  readonly source: ChainSource; // Directory the definition was loaded from
+  readonly chainId: number;
+  readonly name: string;
+  readonly rpc?: string; // Omitted while the file still holds a placeholder
+  readonly isTestChain: boolean;
+  readonly type: string; // `evm`, `optimism`, `arbitrum`...
+  readonly eip1559: boolean;
+  readonly paymentTokens: readonly PaymentTokenDefinition[];
+}
+
+// Reserve Types (resolved from Pool.getReserveData and the token contracts)
+export interface ReserveToken {
+  readonly address: Address;
+  readonly symbol: string;
+  readonly decimals: number;
+}
+
+export interface ReserveInfo extends ReserveToken {
+  readonly aToken: ReserveToken;
+  readonly variableDebtToken: Address;
+  readonly stableDebtToken: Address;
 }
 
 // SDK Types
@@ -30,6 +78,14 @@ export interface SDKContext {
   readonly provider: ethers.JsonRpcProvider;
   readonly config: BiconomyConfig;
   readonly eoaAddress: Address;
+  readonly forks: Readonly<Record<number, ForkContext>>; // Keyed by chain id, includes the primary chain
+  readonly journal?: TransactionJournal; // Records every supertransaction when set
+}
+
+export interface ForkContext {
+  readonly config: ForkConfig;
+  readonly provider: ethers.JsonRpcProvider;
+  readonly signer: ethers.Wallet;
 }
 
 // MEE Node Info Types
@@ -116,27 +172,597 @@ export interface TokenBalance {
   readonly formatted: string;
 }
 
+// Balances of one more account captured in the same snapshot
+export interface AccountBalances {
+  readonly address: Address;
+  readonly tokens: readonly TokenBalance[];
+}
+
 export interface BalanceSnapshot {
   readonly timestamp: number;
   readonly blockNumber: number;
-  readonly tokens: readonly TokenBalance[];
+  readonly tokens: readonly TokenBalance[]; // Held by the EOA, or the inspected account
+  readonly nexus?: AccountBalances; // The orchestrator's Nexus account, captured alongside the EOA
 }
 
 // Transaction Result Types
+export interface SupertransactionStep {
+  readonly index: number;
+  readonly chainId: number;
+  readonly status: SupertransactionReceipt['transactionStatus'];
+  readonly isCleanUp: boolean;
+  readonly transactionHash?: Hex;
+  readonly blockNumber?: bigint;
+  readonly gasUsed?: bigint;
+  readonly effectiveGasPrice?: bigint;
+}
+
+export interface FeeCharge {
+  readonly token: Address;
+  readonly quoted: bigint;
+  readonly charged: bigint; // Fee token actually transferred to the MEE node
+}
+
+// Fusion trigger modes: an ERC-2612 permit signature or an on-chain EOA transaction
+export type TriggerMode = 'permit' | 'onchain';
+export type TriggerModePreference = TriggerMode | 'auto';
+
 export interface TransactionResult {
   readonly hash: Hex;
   readonly success: boolean;
+  readonly triggerMode?: TriggerMode;
   readonly gasUsed?: bigint;
   readonly effectiveGasPrice?: bigint;
+  readonly fee?: FeeCharge;
+  readonly steps?: readonly SupertransactionStep[];
+}
+
+// Account that holds AAVE positions: the EOA or the orchestrator's Nexus account on the current chain
+export type PositionOwner = 'eoa' | 'nexus';
+
+// Routing and trigger options shared by every flow
+export interface FusionRoutingOptions {
+  readonly recipient?: Address; // Receiver of the position or funds, defaults to the position owner or the EOA
+  readonly positionOwner?: PositionOwner; // Defaults to config.positionOwner
+  readonly feeToken?: string; // Reserve symbol or token address used to pay the MEE fee
+  readonly triggerMode?: TriggerModePreference; // Defaults to `auto`: permit when the token supports it
+}
+
+// Window in which the MEE node may execute a quote's user ops, in chain time (Unix seconds)
+export interface QuoteTimeBounds {
+  readonly lowerBoundTimestamp: number;
+  readonly upperBoundTimestamp: number;
+}
+
+// Lending Protocol Types (options, results and reads shared by every protocol adapter)
+export type LendingProtocolId = 'aave' | 'compound';
+
+export interface LendingSupplyOptions extends FusionRoutingOptions {
+  readonly asset: string; // Asset symbol or address
+  readonly amount: bigint;
+  readonly timeBounds?: QuoteTimeBounds; // Defaults to the next few minutes of wall-clock time
+}
+
+export type WithdrawMode = 'partial' | 'max';
+
+export interface LendingWithdrawOptions extends FusionRoutingOptions {
+  readonly asset?: string; // Asset symbol or address, defaults to USDC
+  readonly mode: WithdrawMode;
+  readonly amount?: bigint; // Required for partial withdrawals, in position units
+}
+
+export interface LendingBorrowOptions extends FusionRoutingOptions {
+  readonly asset: string; // Asset symbol or address
+  readonly amount: bigint;
+  readonly minHealthFactor?: number; // Overrides config.healthFactorFloor
+}
+
+export type RepayMode = 'partial' | 'all';
+
+export interface LendingRepayOptions extends FusionRoutingOptions {
+  readonly asset: string; // Asset symbol or address
+  readonly mode: RepayMode;
+  readonly amount?: bigint; // Required for partial repayments
+  readonly interestBufferBps?: number; // Extra pulled in `all` mode to cover accruing interest
+}
+
+export interface LendingSupplyResult extends TransactionResult {
+  readonly protocol: LendingProtocolId;
+  readonly asset: Address;
+  readonly symbol: string;
+  readonly decimals: number;
+  readonly supplyAmount: bigint;
+  readonly positionReceived: bigint; // aTokens minted, or the Comet balance credited
+}
+
+export interface LendingWithdrawResult extends TransactionResult {
+  readonly protocol: LendingProtocolId;
+  readonly asset: Address;
+  readonly symbol: string;
+  readonly decimals: number;
+  readonly mode: WithdrawMode;
+  readonly requestedAmount: bigint;
+  readonly underlyingReceived: bigint;
+}
+
+export interface LendingBorrowResult extends TransactionResult {
+  readonly protocol: LendingProtocolId;
+  readonly asset: Address;
+  readonly symbol: string;
+  readonly decimals: number;
+  readonly amount: bigint;
+  readonly healthFactorBefore: bigint; // WAD
+  readonly projectedHealthFactor: bigint;
+  readonly healthFactorAfter: bigint;
+}
+
+export interface LendingRepayResult extends TransactionResult {
+  readonly protocol: LendingProtocolId;
+  readonly asset: Address;
+  readonly symbol: string;
+  readonly decimals: number;
+  readonly mode: RepayMode;
+  readonly amountPulled: bigint;
+  readonly debtBefore: bigint;
+  readonly debtAfter: bigint;
 }
 
+// One asset an account supplies or borrows, values in USD with 8 decimals
+export interface LendingPosition {
+  readonly asset: Address;
+  readonly symbol: string;
+  readonly decimals: number;
+  readonly supplied: bigint;
+  readonly debt: bigint;
+  readonly suppliedBase: bigint;
+  readonly debtBase: bigint;
+  readonly usedAsCollateral: boolean;
+  readonly supplyApy: number; // Fraction, 0.035 is 3.5%
+  readonly borrowApy?: number; // Undefined when the asset cannot be borrowed
+}
+
+export interface LendingPositions {
+  readonly protocol: LendingProtocolId;
+  readonly account: Address;
+  readonly blockNumber: number;
+  readonly collateralBase: bigint;
+  readonly debtBase: bigint;
+  readonly availableBorrowsBase: bigint;
+  readonly healthFactor: bigint; // WAD, max uint256 without debt
+  readonly positions: readonly LendingPosition[];
+}
+
+export interface LendingRates {
+  readonly protocol: LendingProtocolId;
+  readonly asset: Address;
+  readonly symbol: string;
+  readonly supplyApy: number;
+  readonly borrowApy?: number; // Undefined when the asset cannot be borrowed
+  readonly utilization?: number; // Fraction of supplied liquidity that is borrowed
+}
+
+// One lending protocol behind the shared Fusion plumbing; `id` selects it with --protocol
+export interface LendingProtocolAdapter {
+  readonly id: LendingProtocolId;
+  readonly name: string;
+  resolveAsset(sdk: SDKContext, asset: string): Promise<ReserveToken>;
+  supply(sdk: SDKContext, options: LendingSupplyOptions): Promise<LendingSupplyResult>;
+  quoteSupply(sdk: SDKContext, options: LendingSupplyOptions): Promise<QuotePreview>;
+  withdraw(sdk: SDKContext, options: LendingWithdrawOptions): Promise<LendingWithdrawResult>;
+  quoteWithdraw(sdk: SDKContext, options: LendingWithdrawOptions): Promise<QuotePreview>;
+  borrow(sdk: SDKContext, options: LendingBorrowOptions): Promise<LendingBorrowResult>;
+  quoteBorrow(sdk: SDKContext, options: LendingBorrowOptions): Promise<QuotePreview>;
+  repay(sdk: SDKContext, options: LendingRepayOptions): Promise<LendingRepayResult>;
+  quoteRepay(sdk: SDKContext, options: LendingRepayOptions): Promise<QuotePreview>;
+  getPositions(sdk: SDKContext, account?: Address): Promise<LendingPositions>;
+  getRates(sdk: SDKContext, asset: string): Promise<LendingRates>;
+}
+
+// AAVE v3 Types
+export type AaveSupplyOptions = LendingSupplyOptions;
+
 export interface AaveSupplyResult extends TransactionResult {
+  readonly asset: Address;
+  readonly symbol: string;
+  readonly decimals: number;
   readonly supplyAmount: bigint;
+  readonly aTokensReceived: bigint; // Decoded from the aToken Mint event, net of accrued interest
+  readonly interestAccrued: bigint; // Interest credited by the same mint
+  readonly liquidityIndex?: bigint; // Ray
+  readonly beforeBalance: BalanceSnapshot;
+  readonly afterBalance: BalanceSnapshot;
+}
+
+export type AaveWithdrawOptions = LendingWithdrawOptions;
+
+export interface AaveWithdrawResult extends TransactionResult {
+  readonly asset: Address;
+  readonly symbol: string;
+  readonly decimals: number;
+  readonly mode: WithdrawMode;
+  readonly requestedAmount: bigint;
+  readonly aTokensRedeemed: bigint;
+  readonly underlyingReceived: bigint;
+  readonly beforeBalance: BalanceSnapshot;
+  readonly afterBalance: BalanceSnapshot;
+}
+
+export type InterestRateMode = 'variable' | 'stable';
+
+export interface AaveBorrowOptions extends LendingBorrowOptions {
+  readonly interestRateMode?: InterestRateMode;
+}
+
+export interface AaveBorrowResult extends TransactionResult {
+  readonly asset: Address;
+  readonly symbol: string;
+  readonly decimals: number;
+  readonly amount: bigint;
+  readonly interestRateMode: InterestRateMode;
+  readonly healthFactorBefore: bigint;
+  readonly projectedHealthFactor: bigint;
+  readonly healthFactorAfter: bigint;
+}
+
+export interface AaveRepayOptions extends LendingRepayOptions {
+  readonly interestRateMode?: InterestRateMode;
+}
+
+export interface AaveRepayResult extends TransactionResult {
+  readonly asset: Address;
+  readonly symbol: string;
+  readonly decimals: number;
+  readonly mode: RepayMode;
+  readonly interestRateMode: InterestRateMode;
+  readonly amountPulled: bigint;
+  readonly debtBefore: bigint;
+  readonly debtAfter: bigint;
+}
+
+export interface AaveCrossChainSupplyOptions extends FusionRoutingOptions {
+  readonly sourceChainId: number; // Fork the trigger pulls USDC on
+  readonly destinationChainId?: number; // Fork AAVE is supplied on, defaults to the primary chain
+  readonly amount: bigint; // Source USDC pulled by the trigger
+  readonly relayTimeoutMs?: number; // How long the local bridge relay waits for the source leg
+}
+
+export interface AaveCrossChainSupplyResult extends TransactionResult {
+  readonly sourceChainId: number;
+  readonly destinationChainId: number;
+  readonly asset: Address; // USDC on the destination chain
+  readonly symbol: string;
+  readonly decimals: number;
+  readonly amount: bigint; // Pulled on the source chain, in source USDC units
+  readonly bridgedAmount: bigint; // Credited on the destination chain, after the fee
+  readonly bridgeTransactionHash: Hex; // Source transaction that burned the bridged USDC
   readonly aTokensReceived: bigint;
+}
+
+export interface AavePositionMigrationOptions extends Omit<FusionRoutingOptions, 'recipient' | 'positionOwner'> {
+  readonly asset?: string; // Reserve symbol or underlying address, defaults to USDC
+  readonly to: PositionOwner; // Account the aTokens move to; they leave the other one
+  readonly amount?: bigint; // In aToken units, defaults to the whole position
+}
+
+export interface AavePositionMigrationResult extends TransactionResult {
+  readonly asset: Address;
+  readonly symbol: string;
+  readonly decimals: number;
+  readonly from: Address;
+  readonly to: Address;
+  readonly requestedAmount: bigint;
+  readonly aTokensMoved: bigint; // Credited to the destination, net of a fee paid in aTokens
   readonly beforeBalance: BalanceSnapshot;
   readonly afterBalance: BalanceSnapshot;
 }
 
+// Cost Comparison Types (Fusion vs. plain EOA transactions)
+export interface ExecutionCost {
+  readonly hashes: readonly Hex[];
+  readonly gasUsed: bigint;
+  readonly networkCost: bigint; // Wei spent on gas by whoever submitted the transactions
+  readonly userEthCost: bigint; // Wei paid by the EOA itself
+  readonly wallClockMs: number;
+  readonly signatures: number; // Signatures requested from the EOA
+  readonly userTransactions: number; // Transactions the EOA submits itself
+}
+
+export interface FusionExecutionCost extends ExecutionCost {
+  readonly fee?: FeeCharge; // MEE fee paid in tokens instead of ETH
+}
+
+export interface SupplyCostComparison {
+  readonly asset: Address;
+  readonly symbol: string;
+  readonly decimals: number;
+  readonly amount: bigint;
+  readonly baseline: ExecutionCost;
+  readonly fusion: FusionExecutionCost;
+}
+
+// Quote Preview Types (dry runs that stop after getFusionQuote)
+export interface DecodedArgument {
+  readonly name: string;
+  readonly type: string;
+  readonly value: unknown; // Undefined when resolved at execution time
+  readonly runtime?: string; // Description of the runtime value, e.g. a balanceOf read
+}
+
+export interface DecodedCall {
+  readonly target: Address;
+  readonly value: bigint;
+  readonly selector: Hex;
+  readonly functionName?: string; // Undefined when the selector matches no known ABI
+  readonly args: readonly DecodedArgument[];
+}
+
+export interface TriggerPreview {
+  readonly chainId: number;
+  readonly token?: ReserveToken;
+  readonly amount?: bigint; // Quoted amount, includes the fee when the trigger token pays it
+  readonly useMaxAvailableFunds: boolean;
+  readonly call?: DecodedCall; // Custom on-chain triggers
+}
+
+export interface UserOpGasEstimate {
+  readonly index: number;
+  readonly chainId: number;
+  readonly isPayment: boolean;
+  readonly isCleanUp: boolean;
+  readonly callGasLimit: bigint;
+  readonly verificationGasLimit: bigint;
+  readonly preVerificationGas: bigint;
+  readonly maxGasLimit: bigint;
+  readonly maxFeePerGas: bigint;
+}
+
+export interface QuotePreview {
+  readonly quoteHash: Hex;
+  readonly triggerMode: TriggerMode;
+  readonly fee: {
+    readonly token: ReserveToken;
+    readonly amount: bigint;
+    readonly usdValue: string;
+  };
+  readonly trigger: TriggerPreview;
+  readonly instructions: readonly DecodedCall[];
+  readonly userOps: readonly UserOpGasEstimate[];
+}
+
+// AAVE Account Types (values in the Pool's base currency, health factor in WAD)
+export interface AaveAccountData {
+  readonly totalCollateralBase: bigint;
+  readonly totalDebtBase: bigint;
+  readonly availableBorrowsBase: bigint;
+  readonly currentLiquidationThreshold: bigint; // Basis points
+  readonly ltv: bigint; // Basis points
+  readonly healthFactor: bigint;
+}
+
+// One reserve the account supplies or borrows, with balances in token units and base currency
+export interface ReservePosition {
+  readonly asset: Address;
+  readonly symbol: string;
+  readonly decimals: number;
+  readonly supplied: bigint; // aToken balance
+  readonly variableDebt: bigint;
+  readonly stableDebt: bigint;
+  readonly suppliedBase: bigint;
+  readonly debtBase: bigint;
+  readonly usedAsCollateral: boolean;
+  readonly supplyApy: number; // Fraction, 0.035 is 3.5%
+  readonly variableBorrowApy: number;
+  readonly stableBorrowApy: number;
+}
+
+export interface AavePositions {
+  readonly account: Address;
+  readonly blockNumber: number;
+  readonly accountData: AaveAccountData;
+  readonly reserves: readonly ReservePosition[];
+}
+
+// Compound v3 Types (a Comet market and the assets it lists, read on-chain)
+export interface CometAsset extends ReserveToken {
+  readonly priceFeed: Address; // Read through Comet.getPrice, USD with 8 decimals
+  readonly scale: bigint; // 10 ** decimals
+  readonly borrowCollateralFactor: bigint; // 1e18 scale, zero for the base asset
+  readonly liquidateCollateralFactor: bigint;
+}
+
+export interface CometMarket {
+  readonly comet: Address;
+  readonly base: CometAsset; // The only asset that can be borrowed
+  readonly collaterals: readonly CometAsset[];
+  readonly baseBorrowMin: bigint; // Smallest borrow balance Comet accepts
+}
+
+// Comet account values in USD with 8 decimals, health factor in WAD like AAVE's
+export interface CometAccountData {
+  readonly collateralBase: bigint;
+  readonly debtBase: bigint;
+  readonly borrowCapacityBase: bigint; // Collateral × borrow collateral factors
+  readonly liquidationCapacityBase: bigint; // Collateral × liquidation collateral factors
+  readonly healthFactor: bigint; // Liquidation capacity / debt
+}
+
+// Yield Router Types (moving a supplied position to the venue with the best supply APY)
+export interface RebalanceOptions extends FusionRoutingOptions {
+  readonly asset: string; // Asset symbol or address
+  readonly minRateDifferenceBps?: number; // APY gap needed to move, default 50 (0.50 percentage points)
+}
+
+// One venue's supply APY for the asset and the EOA's position there
+export interface RebalanceVenue {
+  readonly protocol: LendingProtocolId;
+  readonly supplyApy: number;
+  readonly supplied: bigint;
+}
+
+export interface RebalancePlan {
+  readonly asset: Address;
+  readonly symbol: string;
+  readonly decimals: number;
+  readonly venues: readonly RebalanceVenue[];
+  readonly to: LendingProtocolId; // Venue with the best supply APY
+  readonly from?: LendingProtocolId; // Venue the position moves out of, undefined when none pays less
+  readonly amount: bigint; // Position moved, in asset units
+  readonly rateDifference: number; // APY gained by moving, as a fraction
+  readonly expectedAnnualGain: bigint; // Asset units
+  readonly expectedAnnualGainBase: bigint; // USD with 8 decimals
+  readonly shouldRebalance: boolean;
+  readonly reason: string;
+}
+
+// Expected annual gain weighed against the MEE fee, values in USD with 8 decimals
+export interface RebalanceCost {
+  readonly feeBase: bigint;
+  readonly netAnnualGainBase: bigint; // Expected annual gain minus the fee
+  readonly breakEvenDays?: number; // Undefined when moving gains nothing
+}
+
+export interface RebalanceResult {
+  readonly plan: RebalancePlan;
+  readonly transaction?: TransactionResult; // Set when the position was moved
+  readonly positionReceived?: bigint; // Position credited at the new venue
+  readonly cost?: RebalanceCost; // From the fee actually charged
+}
+
+export interface RebalanceQuote {
+  readonly plan: RebalancePlan;
+  readonly preview?: QuotePreview; // Set when the plan moves the position
+  readonly cost?: RebalanceCost; // From the quoted fee
+}
+
+// Transaction Journal Types (one JSON line per event, folded into a record per supertransaction)
+export interface JournalRequest {
+  readonly trigger: Trigger;
+  readonly feeToken: FeeTokenInfo;
+  readonly triggerMode?: TriggerModePreference;
+  readonly instructions: readonly unknown[];
+}
+
+export type JournalEvent =
+  | {
+      readonly type: 'quoted';
+      readonly triggerMode: TriggerMode;
+      readonly request: JournalRequest;
+      readonly fee: { readonly token: Address; readonly amount: bigint };
+    }
+  | { readonly type: 'submitting' } // Being signed and sent; the node may or may not have it
+  | { readonly type: 'submitted' }
+  | { readonly type: 'status'; readonly status: SupertransactionReceipt['transactionStatus']; readonly message?: string }
+  | { readonly type: 'balances'; readonly before: BalanceSnapshot; readonly after: BalanceSnapshot }
+  | {
+      readonly type: 'settled';
+      readonly success: boolean;
+      readonly gasUsed?: bigint;
+      readonly fee?: FeeCharge;
+      readonly error?: string;
+    }
+  | { readonly type: 'interrupted'; readonly error: string } // Submitted, outcome unknown
+  | { readonly type: 'rejected'; readonly error: string }; // Never reached the MEE node
+
+export type JournalEntry = JournalEvent & {
+  readonly hash: Hex;
+  readonly timestamp: number;
+  readonly correlationId: string;
+};
+
+// `submitting`, `submitted` and `interrupted` supertransactions are pending until settled
+export type JournalState =
+  | 'quoted'
+  | 'submitting'
+  | 'submitted'
+  | 'interrupted'
+  | 'succeeded'
+  | 'failed'
+  | 'rejected';
+
+export interface JournalStatusChange {
+  readonly status: SupertransactionReceipt['transactionStatus'];
+  readonly timestamp: number;
+  readonly message?: string;
+}
+
+export interface JournalRecord {
+  readonly hash: Hex;
+  readonly state: JournalState;
+  readonly correlationId: string; // Run that quoted it
+  readonly createdAt: number;
+  readonly updatedAt: number;
+  readonly triggerMode?: TriggerMode;
+  readonly request?: JournalRequest;
+  readonly quotedFee?: { readonly token: Address; readonly amount: bigint };
+  readonly statuses: readonly JournalStatusChange[];
+  readonly beforeBalance?: BalanceSnapshot;
+  readonly afterBalance?: BalanceSnapshot;
+  readonly gasUsed?: bigint;
+  readonly fee?: FeeCharge;
+  readonly error?: string;
+}
+
+// A pending supertransaction after `resume` waited on it
+export interface ResumedSupertransaction {
+  readonly hash: Hex;
+  readonly state: JournalState;
+  readonly gasUsed?: bigint;
+  readonly fee?: FeeCharge;
+  readonly error?: string;
+}
+
+export interface TransactionJournal {
+  readonly file: string;
+  append(hash: Hex, event: JournalEvent): void;
+  records(): JournalRecord[];
+  pending(): JournalRecord[];
+}
+
+// Recurring Supply Types (DCA schedules and their JSON-lines run history)
+export type ScheduleInterval =
+  | { readonly blocks: number }
+  | { readonly seconds: number };
+
+export interface RecurringSupplySchedule extends FusionRoutingOptions {
+  readonly id?: string; // Names the schedule in the run history, defaults to a random UUID
+  readonly asset: string; // Reserve symbol or underlying address
+  readonly amount: bigint; // Supplied per run
+  readonly interval: ScheduleInterval;
+  readonly budget: bigint; // Cap on the total supplied; the last run is trimmed to fit
+  readonly maxRuns?: number;
+  readonly until?: number; // Chain time (Unix seconds) after which no run starts
+}
+
+export type RecurringSupplyStopReason = 'budget' | 'maxRuns' | 'until' | 'failed' | 'aborted';
+
+export interface RecurringSupplyRun {
+  readonly scheduleId: string;
+  readonly run: number; // 1-based
+  readonly status: 'supplied' | 'failed';
+  readonly blockNumber: number;
+  readonly chainTimestamp: number; // Chain time the run started at, Unix seconds
+  readonly amount: bigint;
+  readonly totalSupplied: bigint; // Across the schedule so far, including this run
+  readonly hash?: Hex;
+  readonly aTokensReceived?: bigint;
+  readonly fee?: FeeCharge;
+  readonly error?: string;
+  readonly timestamp: number; // Wall-clock ms the run was recorded at
+}
+
+export interface RecurringSupplyReport {
+  readonly scheduleId: string;
+  readonly runs: readonly RecurringSupplyRun[];
+  readonly totalSupplied: bigint;
+  readonly stopReason: RecurringSupplyStopReason;
+}
+
+export interface RunHistory {
+  readonly file: string;
+  append(run: RecurringSupplyRun): void;
+  runs(scheduleId?: string): RecurringSupplyRun[];
+}
+
 // Error Types
 export class BiconomyError extends Error {
   constructor(
@@ -167,8 +793,75 @@ export class TransactionError extends BiconomyError {
   }
 }
 
+// The supertransaction reached (or may have reached) the MEE node; retrying would submit it twice
+export class SupertransactionSubmittedError extends TransactionError {
+  constructor(message: string, public readonly hash: `0x${string}`, originalError?: unknown) {
+    super(message, originalError);
+  }
+}
+
+// A revert decoded from revert data, a revert string or an error message
+export interface DecodedRevert {
+  readonly reason: string; // AAVE Errors constant (SUPPLY_CAP_EXCEEDED), custom error name or revert string
+  readonly description: string;
+  readonly aaveCode?: number;
+  readonly selector?: Hex; // Custom error selector, when decoded from revert data
+}
+
+// One user op the MEE node reported as failed
+export interface FailedUserOp {
+  readonly index: number;
+  readonly chainId?: number;
+  readonly status?: 'FAILED' | 'MINED_FAIL'; // Unknown when only the SDK's error message is available
+  readonly message: string;
+  readonly revert?: DecodedRevert;
+}
+
+// A contract call reverted with a reason we could decode
+export class ContractRevertError extends TransactionError {
+  readonly reason: string;
+
+  constructor(
+    message: string,
+    public readonly revert: DecodedRevert,
+    public readonly userOp?: FailedUserOp,
+    originalError?: unknown
+  ) {
+    super(message, originalError);
+    this.reason = revert.reason;
+  }
+}
+
+// AAVE v3 rejected the call; `reason` is the Errors library constant, `aaveCode` its numeric code
+export class AaveProtocolError extends ContractRevertError {
+  readonly aaveCode: number;
+
+  constructor(message: string, revert: DecodedRevert & { readonly aaveCode: number }, userOp?: FailedUserOp, originalError?: unknown) {
+    super(message, revert, userOp, originalError);
+    this.aaveCode = revert.aaveCode;
+  }
+}
+
+// The MEE node finished a supertransaction with failed user ops and no decodable revert
+export class SupertransactionFailedError extends TransactionError {
+  constructor(
+    message: string,
+    public readonly userOps: readonly FailedUserOp[],
+    originalError?: unknown
+  ) {
+    super(message, originalError);
+  }
+}
+
+export class CliUsageError extends BiconomyError {
+  constructor(message: string, originalError?: unknown) {
+    super(message, 'CLI_USAGE_ERROR', originalError);
+  }
+}
+
 // Utility Types
 export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogFormat = 'text' | 'json';
 export type NetworkStatus = 'healthy' | 'degraded' | 'offline';
 
 export interface HealthCheck {
@@ -0,0 +1,140 @@
+/**
+ * @fileoverview Per-chain AAVE v3 address book: Pool, default fee token and reserves
+ *
+ * Only underlying asset addresses are listed; aToken and debt token addresses
+ * are resolved on-chain from the Pool (see reserves.ts).
+ */
+
+import type { Address } from 'viem';
+
+import type { ContractAddresses } from '../types';
+
+// AAVE v3 markets keyed by chain id; `usdc` is the default fee and trigger token
+export const AAVE_MARKETS: Readonly<Record<number, ContractAddresses>> = {
+  // Ethereum
+  1: {
+    usdc: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48' as Address,
+    aavePool: '0x87870Bca3F3fD6335C3F4ce8392D69350B4fA4E2' as Address,
+    reserves: {
+      USDC: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48' as Address,
+      USDT: '0xdAC17F958D2ee523a2206206994597C13D831ec7' as Address,
+      DAI: '0x6B175474E89094C44Da98b954EedeAC495271d0F' as Address,
+      WETH: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2' as Address,
+      wstETH: '0x7f39C581F595B53c5cb19bD0b3f8dA6c935E2Ca0' as Address,
+      WBTC: '0x2260FAC5E5542a773Aa44fBCfeDf7C193bc2C599' as Address,
+      LINK: '0x514910771AF9Ca656af840dff83E8264EcF986CA' as Address,
+    },
+  },
+  // Optimism
+  10: {
+    usdc: '0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85' as Address,
+    aavePool: '0x794a61358D6845594F94dc1DB02A252b5b4814aD' as Address,
+    reserves: {
+      USDC: '0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85' as Address,
+      USDT: '0x94b008aA00579c1307B0EF2c499aD98a8ce58e58' as Address,
+      DAI: '0xDA10009cBd5D07dd0CeCc66161FC93D7c9000da1' as Address,
+      WETH: '0x4200000000000000000000000000000000000006' as Address,
+      wstETH: '0x1F32b1c2345538c0c6f582fCB022739c4A194Ebb' as Address,
+      WBTC: '0x68f180fcCe6836688e9084f035309E29Bf0A2095' as Address,
+      LINK: '0x350a791Bfc2C21F9Ed5d10980Dad2e2638ffa7f6' as Address,
+    },
+  },
+  // BNB Smart Chain
+  56: {
+    usdc: '0x8AC76a51cc950d9822D68b83fE1Ad97B32Cd580d' as Address,
+    aavePool: '0x6807dc923806fE8Fd134338EABCA509979a7e0cB' as Address,
+    reserves: {
+      USDC: '0x8AC76a51cc950d9822D68b83fE1Ad97B32Cd580d' as Address,
+      USDT: '0x55d398326f99059fF775485246999027B3197955' as Address,
+      WBNB: '0xbb4CdB9CBd36B01bD1cBaEBF2De08d9173bc095c' as Address,
+      ETH: '0x2170Ed0880ac9A755fd29B2688956BD959F933F8' as Address,
+      BTCB: '0x7130d2A12B9BCbFAe4f2634d864A1Ee1Ce3Ead9c' as Address,
+    },
+  },
+  // Gnosis
+  100: {
+    usdc: '0xDDAfbb505ad214D7b80b1f830fcCc89B60fb7A83' as Address,
+    aavePool: '0xb50201558B00496A145fE76f7424749556E326D8' as Address,
+    reserves: {
+      USDC: '0xDDAfbb505ad214D7b80b1f830fcCc89B60fb7A83' as Address,
+      WXDAI: '0xe91D153E0b41518A2Ce8Dd3D7944Fa863463a97d' as Address,
+      WETH: '0x6A023CCd1ff6F2045C3309768eAd9E68F978f6e1' as Address,
+      wstETH: '0x6C76971f98945AE98dD7d4DFcA8711ebea946eA6' as Address,
+      GNO: '0x9C58BAcC331c9aa871AFD802DB6379a98e80CEdb' as Address,
+    },
+  },
+  // Polygon
+  137: {
+    usdc: '0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359' as Address,
+    aavePool: '0x794a61358D6845594F94dc1DB02A252b5b4814aD' as Address,
+    reserves: {
+      USDC: '0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359' as Address,
+      USDT: '0xc2132D05D31c914a87C6611C10748AEb04B58e8F' as Address,
+      DAI: '0x8f3Cf7ad23Cd3CaDbD9735AFf958023239c6A063' as Address,
+      WETH: '0x7ceB23fD6bC0adD59E62ac25578270cFf1b9f619' as Address,
+      WBTC: '0x1BFD67037B42Cf73acF2047067bd4F2C47D9BfD6' as Address,
+      LINK: '0x53E0bca35eC356BD5ddDFebbD1Fc0fD03FaBad39' as Address,
+    },
+  },
+  // Sonic
+  146: {
+    usdc: '0x29219dd400f2Bf60E5a23d13Be72B486D4038894' as Address,
+    aavePool: '0x5362dBb1e601abF3a4c14c22ffEdA64042E5eAA3' as Address,
+    reserves: {
+      USDC: '0x29219dd400f2Bf60E5a23d13Be72B486D4038894' as Address,
+      WETH: '0x50c42dEAcD8Fc9773493ED674b675bE577f2634b' as Address,
+      wS: '0x039e2fB66102314Ce7b64Ce5Ce3E5183bc94aD38' as Address,
+    },
+  },
+  // Base
+  8453: {
+    usdc: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913' as Address,
+    aavePool: '0xA238Dd80C259a72e81d7e4664a9801593F98d1c5' as Address,
+    reserves: {
+      USDC: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913' as Address,
+      WETH: '0x4200000000000000000000000000000000000006' as Address,
+      wstETH: '0xc1CBa3fCea344f92D9239c08C0568f6F2F0ee452' as Address,
+      cbETH: '0x2Ae3F1Ec7F1F5012CFEab0185bfc7aa3cf0DEc22' as Address,
+    },
+  },
+  // Arbitrum One
+  42161: {
+    usdc: '0xaf88d065e77c8cC2239327C5EDb3A432268e5831' as Address,
+    aavePool: '0x794a61358D6845594F94dc1DB02A252b5b4814aD' as Address,
+    reserves: {
+      USDC: '0xaf88d065e77c8cC2239327C5EDb3A432268e5831' as Address,
+      USDT: '0xFd086bC7CD5C481DCC9C85ebE478A1C0b69FCbb9' as Address,
+      DAI: '0xDA10009cBd5D07dd0CeCc66161FC93D7c9000da1' as Address,
+      WETH: '0x82aF49447D8a07e3bd95BD0d56f35241523fBab1' as Address,
+      wstETH: '0x5979D7b546E38E414F7E9822514be443A4800529' as Address,
+      WBTC: '0x2f2a2543B76A4166549F7aaB2e75Bef0aefC5B0f' as Address,
+      LINK: '0xf97f4df75117a78c1A5a0DBb814Af92458539FB4' as Address,
+    },
+  },
+  // Avalanche C-Chain
+  43114: {
+    usdc: '0xB97EF9Ef8734C71904D8002F8b6Bc66Dd9c48a6E' as Address,
+    aavePool: '0x794a61358D6845594F94dc1DB02A252b5b4814aD' as Address,
+    reserves: {
+      USDC: '0xB97EF9Ef8734C71904D8002F8b6Bc66Dd9c48a6E' as Address,
+      USDT: '0x9702230A8Ea53601f5cD2dc00fDBc13d4dF4A8c7' as Address,
+      WAVAX: '0xB31f66AA3C1e785363F0875A1B74E27b85FD66c7' as Address,
+      WETH: '0x49D5c2BdFfac6CE2BFdB6640F4F80f226bc10bAB' as Address,
+      LINK: '0x5947BB275c521040051D82396192181b413227A3' as Address,
+    },
+  },
+};
+
+/**
+ * Get the AAVE v3 market for a chain
+ */
+export function getAaveMarket(chainId: number): ContractAddresses {
+  const market = AAVE_MARKETS[chainId];
+  if (!market) {
+    throw new Error(
+      `No AAVE v3 market configured for chain ${chainId}. ` +
+      `Supported chains: ${Object.keys(AAVE_MARKETS).join(', ')}`
+    );
+  }
+  return market;
+}
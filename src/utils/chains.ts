@@ -0,0 +1,209 @@
+/**
+ * @fileoverview Typed loader for the MEE node chain definitions in chains-local/, chains-prod/ and chains-testnet/
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import { join, resolve } from 'node:path';
+import { ethers } from 'ethers';
+import { defineChain, type Address, type Chain } from 'viem';
+import * as viemChains from 'viem/chains';
+
+import type { ChainDefinition, ChainSource, ForkContext, PaymentTokenDefinition, SDKContext } from '../types';
+import { InfrastructureError } from './errors';
+import { isValidAddress, isValidUrl } from './validation';
+
+// Searched in this order when no source is forced; local forks win over upstream definitions
+export const CHAIN_SOURCES: readonly ChainSource[] = ['local', 'prod', 'testnet'];
+
+// Repository root, valid from both src/utils and dist/utils
+const REPOSITORY_ROOT = resolve(__dirname, '..', '..');
+
+// Raw JSON shape; chain ids are strings and extra fields (price feeds, deposits) are ignored
+interface RawChainDefinition {
+  readonly name?: unknown;
+  readonly rpc?: unknown;
+  readonly isTestChain?: unknown;
+  readonly chainId?: unknown;
+  readonly type?: unknown;
+  readonly eip1559?: unknown;
+  readonly paymentTokens?: unknown;
+}
+
+interface RawPaymentToken {
+  readonly name?: unknown;
+  readonly address?: unknown;
+  readonly symbol?: unknown;
+  readonly decimals?: unknown;
+  readonly permitEnabled?: unknown;
+}
+
+/**
+ * Load the definition for a chain id from the first source that has one
+ */
+export function loadChainDefinition(
+  chainId: number,
+  sources: readonly ChainSource[] = CHAIN_SOURCES
+): ChainDefinition {
+  for (const source of sources) {
+    const file = getChainDefinitionPath(source, chainId);
+    if (existsSync(file)) {
+      return parseChainDefinition(source, file, JSON.parse(readFileSync(file, 'utf8')) as RawChainDefinition);
+    }
+  }
+
+  throw new Error(
+    `No chain definition for chain ${chainId} in ${sources.map(source => `chains-${source}/`).join(', ')}`
+  );
+}
+
+/**
+ * Path of a chain definition file, e.g. `chains-prod/8453.json`
+ */
+export function getChainDefinitionPath(source: ChainSource, chainId: number): string {
+  return join(REPOSITORY_ROOT, `chains-${source}`, `${chainId}.json`);
+}
+
+/**
+ * Build the viem chain for a definition, pointing its RPC at the given URL (usually the Anvil fork)
+ *
+ * Uses viem's own chain when it knows the id so formatters and contracts are kept,
+ * and falls back to a minimal chain built from the definition otherwise.
+ */
+export function toViemChain(definition: ChainDefinition, rpcUrl: string): Chain {
+  const rpcUrls = {
+    default: { http: [rpcUrl] },
+    public: { http: [rpcUrl] },
+  };
+
+  const known = (Object.values(viemChains) as Chain[]).find(chain => chain.id === definition.chainId);
+  if (known) {
+    return { ...known, rpcUrls };
+  }
+
+  const native = findPaymentToken(definition, ethers.ZeroAddress as Address);
+
+  return defineChain({
+    id: definition.chainId,
+    name: definition.name,
+    nativeCurrency: {
+      name: native?.name ?? 'Ether',
+      symbol: native?.symbol ?? 'ETH',
+      decimals: native?.decimals ?? 18,
+    },
+    rpcUrls,
+    testnet: definition.isTestChain,
+  });
+}
+
+/**
+ * Find a payment token by address
+ */
+export function findPaymentToken(
+  definition: ChainDefinition,
+  address: Address
+): PaymentTokenDefinition | undefined {
+  return definition.paymentTokens.find(token => token.address.toLowerCase() === address.toLowerCase());
+}
+
+/**
+ * Get the provider, signer and config of one Anvil fork
+ */
+export function getForkContext(sdk: SDKContext, chainId: number): ForkContext {
+  const fork = sdk.forks[chainId];
+  if (!fork) {
+    throw new InfrastructureError(
+      `No Anvil fork configured for chain ${chainId}. ` +
+      `Configured chains: ${Object.keys(sdk.forks).join(', ')}. Add it to ANVIL_EXTRA_FORKS.`
+    );
+  }
+  return fork;
+}
+
+/**
+ * View the SDK context as if `chainId` were the primary chain
+ *
+ * Single-chain helpers (reserves, balances, funding) read `sdk.config` and
+ * `sdk.provider`, so they work unchanged on any configured fork.
+ */
+export function withChain(sdk: SDKContext, chainId: number): SDKContext {
+  if (chainId === sdk.config.chainId) {
+    return sdk;
+  }
+
+  const { config, provider, signer } = getForkContext(sdk, chainId);
+
+  return {
+    ...sdk,
+    provider,
+    signer,
+    config: {
+      ...sdk.config,
+      chainId: config.chainId,
+      anvilRpcUrl: config.anvilRpcUrl,
+      chain: config.chain,
+      contracts: config.contracts,
+    },
+  };
+}
+
+function parseChainDefinition(source: ChainSource, file: string, raw: RawChainDefinition): ChainDefinition {
+  const errors: string[] = [];
+
+  const chainId = Number(raw.chainId);
+  if (!Number.isInteger(chainId) || chainId <= 0) {
+    errors.push('chainId must be a positive integer');
+  }
+
+  if (typeof raw.name !== 'string' || raw.name.length === 0) {
+    errors.push('name is required');
+  }
+
+  if (!Array.isArray(raw.paymentTokens)) {
+    errors.push('paymentTokens must be an array');
+  }
+
+  const paymentTokens = Array.isArray(raw.paymentTokens)
+    ? (raw.paymentTokens as RawPaymentToken[]).flatMap((token, index) => {
+        const parsed = parsePaymentToken(token);
+        if (!parsed) {
+          errors.push(`paymentTokens[${index}] must have a valid address, symbol and decimals`);
+        }
+        return parsed ? [parsed] : [];
+      })
+    : [];
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid chain definition ${file}:\n${errors.join('\n')}`);
+  }
+
+  return {
+    source,
+    chainId,
+    name: raw.name as string,
+    // Shipped files carry a placeholder such as `<YOUR RPC URL ...>` until configured
+    ...(typeof raw.rpc === 'string' && isValidUrl(raw.rpc) && { rpc: raw.rpc }),
+    isTestChain: raw.isTestChain === true,
+    type: typeof raw.type === 'string' ? raw.type : 'evm',
+    eip1559: raw.eip1559 === true,
+    paymentTokens,
+  };
+}
+
+function parsePaymentToken(raw: RawPaymentToken): PaymentTokenDefinition | undefined {
+  if (
+    typeof raw.address !== 'string' ||
+    !isValidAddress(raw.address) ||
+    typeof raw.symbol !== 'string' ||
+    typeof raw.decimals !== 'number'
+  ) {
+    return undefined;
+  }
+
+  return {
+    address: ethers.getAddress(raw.address) as Address,
+    symbol: raw.symbol,
+    name: typeof raw.name === 'string' ? raw.name : raw.symbol,
+    decimals: raw.decimals,
+    permitEnabled: raw.permitEnabled === true,
+  };
+}
@@ -0,0 +1,111 @@
+/**
+ * @fileoverview Per-chain Compound v3 address book and Comet markets resolved on-chain
+ *
+ * Only the Comet proxy is listed; the base asset, collateral assets, price
+ * feeds and collateral factors are read from the market itself.
+ */
+
+import { ethers } from 'ethers';
+import type { Address } from 'viem';
+
+import type { SDKContext, CometAsset, CometMarket } from '../types';
+import { TransactionError } from './errors';
+import { COMPOUND_COMET_ABI } from './contracts';
+import { readTokenMetadata } from './reserves';
+import { isValidAddress } from './validation';
+
+// Comet USDC markets keyed by chain id
+export const COMPOUND_USDC_MARKETS: Readonly<Record<number, Address>> = {
+  // Ethereum
+  1: '0xc3d688B66703497DAA19211EEdff47f25384cdc3' as Address,
+};
+
+// A market's assets never change within a fork, so read each market only once
+const marketCache = new Map<string, Promise<CometMarket>>();
+
+/**
+ * Get the Comet USDC market for a chain
+ */
+export function getCompoundComet(chainId: number): Address {
+  const comet = COMPOUND_USDC_MARKETS[chainId];
+  if (!comet) {
+    throw new TransactionError(
+      `No Compound v3 market configured for chain ${chainId}. ` +
+      `Supported chains: ${Object.keys(COMPOUND_USDC_MARKETS).join(', ')}`
+    );
+  }
+  return comet;
+}
+
+/**
+ * Resolve the current chain's Comet market with its base and collateral assets
+ */
+export function resolveCometMarket(sdk: SDKContext): Promise<CometMarket> {
+  const comet = getCompoundComet(sdk.config.chainId);
+  const cacheKey = `${sdk.config.chainId}:${comet}`.toLowerCase();
+
+  let market = marketCache.get(cacheKey);
+  if (!market) {
+    market = loadCometMarket(sdk, comet);
+    // Don't cache failures so a fork restart can be retried
+    market.catch(() => marketCache.delete(cacheKey));
+    marketCache.set(cacheKey, market);
+  }
+
+  return market;
+}
+
+/**
+ * Find a market asset by symbol (e.g. `WETH`) or address
+ */
+export function findCometAsset(market: CometMarket, asset: string): CometAsset {
+  const assets = [market.base, ...market.collaterals];
+  const match = isValidAddress(asset)
+    ? assets.find(candidate => candidate.address.toLowerCase() === asset.toLowerCase())
+    : assets.find(candidate => candidate.symbol.toLowerCase() === asset.toLowerCase());
+
+  if (!match) {
+    throw new TransactionError(
+      `Asset "${asset}" is not listed on the Compound v3 ${market.base.symbol} market. ` +
+      `Known assets: ${assets.map(candidate => candidate.symbol).join(', ')}`
+    );
+  }
+
+  return match;
+}
+
+/**
+ * Read the base asset and every collateral asset's price feed and factors from Comet
+ */
+async function loadCometMarket(sdk: SDKContext, comet: Address): Promise<CometMarket> {
+  const contract = new ethers.Contract(comet, COMPOUND_COMET_ABI, sdk.provider);
+  const [baseToken, basePriceFeed, baseBorrowMin, numAssets] = await Promise.all([
+    contract.baseToken!() as Promise<Address>,
+    contract.baseTokenPriceFeed!() as Promise<Address>,
+    contract.baseBorrowMin!() as Promise<bigint>,
+    contract.numAssets!() as Promise<bigint>,
+  ]);
+
+  const [base, ...collaterals] = await Promise.all([
+    readTokenMetadata(sdk, ethers.getAddress(baseToken) as Address).then(token => ({
+      ...token,
+      priceFeed: basePriceFeed,
+      scale: 10n ** BigInt(token.decimals),
+      borrowCollateralFactor: 0n,
+      liquidateCollateralFactor: 0n,
+    })),
+    ...Array.from({ length: Number(numAssets) }, async (_, index): Promise<CometAsset> => {
+      const info = await contract.getAssetInfo!(index);
+      const token = await readTokenMetadata(sdk, ethers.getAddress(info.asset) as Address);
+      return {
+        ...token,
+        priceFeed: info.priceFeed as Address,
+        scale: info.scale as bigint,
+        borrowCollateralFactor: info.borrowCollateralFactor as bigint,
+        liquidateCollateralFactor: info.liquidateCollateralFactor as bigint,
+      };
+    }),
+  ]);
+
+  return { comet, base: base!, collaterals, baseBorrowMin };
+}
@@ -2,58 +2,79 @@
  * @fileoverview Configuration management and validation utilities
  */
 
-import type { BiconomyConfig, ContractAddresses, LogLevel } from '../types';
-import type { Address } from 'viem';
+import type { BiconomyConfig, ChainSource, ForkConfig, LogFormat, LogLevel, PositionOwner } from '../types';
 import { isValidAddress, isValidPrivateKey, isValidUrl } from './validation';
+import { CHAIN_SOURCES, loadChainDefinition } from './chains';
+import { getAaveMarket } from './aave-markets';
 
 // Environment variable interface
 interface EnvConfig {
-  ETH_MAINNET_RPC_URL: string;
+  ETH_MAINNET_RPC_URL?: string;
+  FORK_RPC_URL?: string;
   TEST_PRIVATE_KEY: string;
   MEE_NODE_URL?: string;
   ANVIL_RPC_URL?: string;
   ANVIL_PORT?: string;
   ANVIL_CHAIN_ID?: string;
   ANVIL_BLOCK_TIME?: string;
+  ANVIL_EXTRA_FORKS?: string;
+  CHAIN_SOURCE?: ChainSource;
   LOG_LEVEL?: LogLevel;
+  LOG_FORMAT?: LogFormat;
+  LOG_FILE?: string;
+  LOG_CORRELATION_ID?: string;
+  MIN_HEALTH_FACTOR?: string;
+  JOURNAL_DIR?: string;
+  POSITION_OWNER?: PositionOwner;
 }
 
 // Default configuration
 const DEFAULT_CONFIG = {
   meeNodeUrl: 'http://localhost:3000/v3',
+  healthFactorFloor: 1.5,
+  journalDir: '.journal',
+  positionOwner: 'eoa',
 } as const;
 
-// Mainnet contract addresses
-const MAINNET_CONTRACTS: ContractAddresses = {
-  usdc: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48' as Address,
-  aavePool: '0x87870Bca3F3fD6335C3F4ce8392D69350B4fA4E2' as Address,
-  aUsdc: '0x98C23E9d8f34FEFb1B7BD6a91B7FF122F4e16F5c' as Address,
-};
-
 /**
  * Load and validate environment variables
  */
 export function loadEnvironment(): EnvConfig {
   const env = {
     ETH_MAINNET_RPC_URL: process.env.ETH_MAINNET_RPC_URL,
+    FORK_RPC_URL: process.env.FORK_RPC_URL,
     TEST_PRIVATE_KEY: process.env.TEST_PRIVATE_KEY,
     MEE_NODE_URL: process.env.MEE_NODE_URL,
     ANVIL_RPC_URL: process.env.ANVIL_RPC_URL,
     ANVIL_PORT: process.env.ANVIL_PORT,
     ANVIL_CHAIN_ID: process.env.ANVIL_CHAIN_ID,
     ANVIL_BLOCK_TIME: process.env.ANVIL_BLOCK_TIME,
+    ANVIL_EXTRA_FORKS: process.env.ANVIL_EXTRA_FORKS,
+    CHAIN_SOURCE: process.env.CHAIN_SOURCE as ChainSource | undefined,
     LOG_LEVEL: process.env.LOG_LEVEL as LogLevel | undefined,
+    LOG_FORMAT: process.env.LOG_FORMAT as LogFormat | undefined,
+    LOG_FILE: process.env.LOG_FILE,
+    LOG_CORRELATION_ID: process.env.LOG_CORRELATION_ID,
+    MIN_HEALTH_FACTOR: process.env.MIN_HEALTH_FACTOR,
+    JOURNAL_DIR: process.env.JOURNAL_DIR,
+    POSITION_OWNER: process.env.POSITION_OWNER as PositionOwner | undefined,
   };
 
   const errors: string[] = [];
 
-  // Validate required fields
-  if (!env.ETH_MAINNET_RPC_URL) {
-    errors.push('ETH_MAINNET_RPC_URL is required');
-  } else if (!isValidUrl(env.ETH_MAINNET_RPC_URL)) {
+  // Validate required fields; FORK_RPC_URL replaces the mainnet RPC for other chains
+  if (!env.ETH_MAINNET_RPC_URL && !env.FORK_RPC_URL) {
+    errors.push('ETH_MAINNET_RPC_URL or FORK_RPC_URL is required');
+  }
+
+  if (env.ETH_MAINNET_RPC_URL && !isValidUrl(env.ETH_MAINNET_RPC_URL)) {
     errors.push('ETH_MAINNET_RPC_URL must be a valid URL');
   }
 
+  if (env.FORK_RPC_URL && !isValidUrl(env.FORK_RPC_URL)) {
+    errors.push('FORK_RPC_URL must be a valid URL');
+  }
+
   if (!env.TEST_PRIVATE_KEY) {
     errors.push('TEST_PRIVATE_KEY is required');
   } else if (!isValidPrivateKey(env.TEST_PRIVATE_KEY)) {
@@ -82,6 +103,30 @@ export function loadEnvironment(): EnvConfig {
     errors.push('ANVIL_BLOCK_TIME must be a positive number');
   }
 
+  if (env.ANVIL_EXTRA_FORKS) {
+    try {
+      parseExtraForks(env.ANVIL_EXTRA_FORKS);
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : 'ANVIL_EXTRA_FORKS is invalid');
+    }
+  }
+
+  if (env.CHAIN_SOURCE && !CHAIN_SOURCES.includes(env.CHAIN_SOURCE)) {
+    errors.push(`CHAIN_SOURCE must be one of: ${CHAIN_SOURCES.join(', ')}`);
+  }
+
+  if (env.LOG_FORMAT && env.LOG_FORMAT !== 'text' && env.LOG_FORMAT !== 'json') {
+    errors.push('LOG_FORMAT must be "text" or "json"');
+  }
+
+  if (env.MIN_HEALTH_FACTOR && (isNaN(Number(env.MIN_HEALTH_FACTOR)) || Number(env.MIN_HEALTH_FACTOR) < 1)) {
+    errors.push('MIN_HEALTH_FACTOR must be a number of at least 1');
+  }
+
+  if (env.POSITION_OWNER && env.POSITION_OWNER !== 'eoa' && env.POSITION_OWNER !== 'nexus') {
+    errors.push('POSITION_OWNER must be "eoa" or "nexus"');
+  }
+
   if (errors.length > 0) {
     throw new Error(`Environment validation failed:\n${errors.join('\n')}`);
   }
@@ -100,12 +145,26 @@ export function createConfig(): BiconomyConfig {
   const anvilChainId = env.ANVIL_CHAIN_ID ? Number(env.ANVIL_CHAIN_ID) : 1;
   const anvilRpcUrl = env.ANVIL_RPC_URL ?? `http://localhost:${anvilPort}`;
 
+  // The chain definition and AAVE market both follow the forked chain id
+  const sources = env.CHAIN_SOURCE ? [env.CHAIN_SOURCE] : CHAIN_SOURCES;
+  const primary = createForkConfig(anvilChainId, anvilRpcUrl, sources);
+  const extraForks = env.ANVIL_EXTRA_FORKS
+    ? parseExtraForks(env.ANVIL_EXTRA_FORKS).map(({ chainId, rpcUrl }) => createForkConfig(chainId, rpcUrl, sources))
+    : [];
+
   const config: BiconomyConfig = {
     meeNodeUrl: env.MEE_NODE_URL ?? DEFAULT_CONFIG.meeNodeUrl,
     anvilRpcUrl,
     chainId: anvilChainId,
+    chain: primary.chain,
     testPrivateKey: env.TEST_PRIVATE_KEY,
-    contracts: MAINNET_CONTRACTS,
+    contracts: primary.contracts,
+    healthFactorFloor: env.MIN_HEALTH_FACTOR
+      ? Number(env.MIN_HEALTH_FACTOR)
+      : DEFAULT_CONFIG.healthFactorFloor,
+    forks: [primary, ...extraForks],
+    journalDir: env.JOURNAL_DIR || DEFAULT_CONFIG.journalDir,
+    positionOwner: env.POSITION_OWNER || DEFAULT_CONFIG.positionOwner,
   };
 
   // Validate the final configuration
@@ -135,8 +194,15 @@ export function createConfig(): BiconomyConfig {
     errors.push('Invalid AAVE Pool contract address');
   }
 
-  if (!isValidAddress(config.contracts.aUsdc)) {
-    errors.push('Invalid aUSDC contract address');
+  for (const [symbol, address] of Object.entries(config.contracts.reserves)) {
+    if (!isValidAddress(address)) {
+      errors.push(`Invalid ${symbol} reserve address`);
+    }
+  }
+
+  const chainIds = config.forks.map(fork => fork.chainId);
+  if (new Set(chainIds).size !== chainIds.length) {
+    errors.push(`Each Anvil fork needs its own chain ID, got ${chainIds.join(', ')}`);
   }
 
   if (errors.length > 0) {
@@ -146,3 +212,24 @@ export function createConfig(): BiconomyConfig {
   return config;
 }
 
+function createForkConfig(chainId: number, anvilRpcUrl: string, sources: readonly ChainSource[]): ForkConfig {
+  return {
+    chainId,
+    anvilRpcUrl,
+    chain: loadChainDefinition(chainId, sources),
+    contracts: getAaveMarket(chainId),
+  };
+}
+
+/**
+ * Parse `ANVIL_EXTRA_FORKS`, e.g. `8453=http://localhost:8546,42161=http://localhost:8547`
+ */
+function parseExtraForks(value: string): { chainId: number; rpcUrl: string }[] {
+  return value.split(',').map(entry => entry.trim()).filter(Boolean).map(entry => {
+    const [chainId, rpcUrl] = entry.split('=');
+    if (!chainId || !rpcUrl || !Number.isInteger(Number(chainId)) || Number(chainId) <= 0 || !isValidUrl(rpcUrl)) {
+      throw new Error(`ANVIL_EXTRA_FORKS entries must look like <chainId>=<rpcUrl>, got "${entry}"`);
+    }
+    return { chainId: Number(chainId), rpcUrl };
+  });
+}
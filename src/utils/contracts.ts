@@ -18,11 +18,79 @@ export const ERC20_ABI = parseAbi([
   'event Approval(address indexed owner, address indexed spender, uint256 value)',
 ]);
 
+// ERC-2612 permit extension, used to detect permit-capable trigger tokens
+export const ERC20_PERMIT_ABI = parseAbi([
+  'function permit(address owner, address spender, uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s)',
+  'function nonces(address owner) view returns (uint256)',
+  'function DOMAIN_SEPARATOR() view returns (bytes32)',
+]);
+
 // AAVE Pool ABI (v3)
 export const AAVE_POOL_ABI = parseAbi([
+  'struct ReserveConfigurationMap { uint256 data; }',
+  'struct ReserveData { ReserveConfigurationMap configuration; uint128 liquidityIndex; uint128 currentLiquidityRate; uint128 variableBorrowIndex; uint128 currentVariableBorrowRate; uint128 currentStableBorrowRate; uint40 lastUpdateTimestamp; uint16 id; address aTokenAddress; address stableDebtTokenAddress; address variableDebtTokenAddress; address interestRateStrategyAddress; uint128 accruedToTreasury; uint128 unbacked; uint128 isolationModeTotalDebt; }',
   'function supply(address asset, uint256 amount, address onBehalfOf, uint16 referralCode)',
   'function withdraw(address asset, uint256 amount, address to) returns (uint256)',
   'function borrow(address asset, uint256 amount, uint256 interestRateMode, uint16 referralCode, address onBehalfOf)',
   'function repay(address asset, uint256 amount, uint256 interestRateMode, address onBehalfOf) returns (uint256)',
-  'function getUserAccountData(address user) view returns (uint256 totalCollateralETH, uint256 totalDebtETH, uint256 availableBorrowsETH, uint256 currentLiquidationThreshold, uint256 ltv, uint256 healthFactor)',
-]); 
\ No newline at end of file
+  'function getUserAccountData(address user) view returns (uint256 totalCollateralBase, uint256 totalDebtBase, uint256 availableBorrowsBase, uint256 currentLiquidationThreshold, uint256 ltv, uint256 healthFactor)',
+  'function getReserveData(address asset) view returns (ReserveData)',
+  'function getUserConfiguration(address user) view returns (ReserveConfigurationMap)',
+  'function ADDRESSES_PROVIDER() view returns (address)',
+  'event Supply(address indexed reserve, address user, address indexed onBehalfOf, uint256 amount, uint16 indexed referralCode)',
+  'event Withdraw(address indexed reserve, address indexed user, address indexed to, uint256 amount)',
+  'event Borrow(address indexed reserve, address user, address indexed onBehalfOf, uint256 amount, uint8 interestRateMode, uint256 borrowRate, uint16 indexed referralCode)',
+  'event Repay(address indexed reserve, address indexed user, address indexed repayer, uint256 amount, bool useATokens)',
+]);
+
+// AAVE aToken ABI (v3), on top of the ERC20 interface
+export const AAVE_ATOKEN_ABI = parseAbi([
+  'function scaledBalanceOf(address user) view returns (uint256)',
+  'function UNDERLYING_ASSET_ADDRESS() view returns (address)',
+  'event Transfer(address indexed from, address indexed to, uint256 value)',
+  'event Mint(address indexed caller, address indexed onBehalfOf, uint256 value, uint256 balanceIncrease, uint256 index)',
+  'event Burn(address indexed from, address indexed target, uint256 value, uint256 balanceIncrease, uint256 index)',
+]);
+
+// AAVE PoolAddressesProvider ABI (v3)
+export const AAVE_ADDRESSES_PROVIDER_ABI = parseAbi([
+  'function getPriceOracle() view returns (address)',
+]);
+
+// AAVE Oracle ABI (v3)
+export const AAVE_ORACLE_ABI = parseAbi([
+  'function getAssetPrice(address asset) view returns (uint256)',
+  'function BASE_CURRENCY_UNIT() view returns (uint256)',
+]);
+
+// AAVE debt token ABI (v3 variable and stable debt tokens)
+export const AAVE_DEBT_TOKEN_ABI = parseAbi([
+  'function approveDelegation(address delegatee, uint256 amount)',
+  'function borrowAllowance(address fromUser, address toUser) view returns (uint256)',
+  'function balanceOf(address owner) view returns (uint256)',
+]);
+
+// Compound v3 Comet ABI: one market per base asset, with its collateral assets
+export const COMPOUND_COMET_ABI = parseAbi([
+  'struct AssetInfo { uint8 offset; address asset; address priceFeed; uint64 scale; uint64 borrowCollateralFactor; uint64 liquidateCollateralFactor; uint64 liquidationFactor; uint128 supplyCap; }',
+  'function supplyTo(address dst, address asset, uint256 amount)',
+  'function withdrawFrom(address src, address to, address asset, uint256 amount)',
+  'function allow(address manager, bool isAllowed)',
+  'function isAllowed(address owner, address manager) view returns (bool)',
+  'function baseToken() view returns (address)',
+  'function baseTokenPriceFeed() view returns (address)',
+  'function baseBorrowMin() view returns (uint256)',
+  'function numAssets() view returns (uint8)',
+  'function getAssetInfo(uint8 i) view returns (AssetInfo)',
+  'function balanceOf(address account) view returns (uint256)',
+  'function borrowBalanceOf(address account) view returns (uint256)',
+  'function collateralBalanceOf(address account, address asset) view returns (uint128)',
+  'function getPrice(address priceFeed) view returns (uint256)',
+  'function getUtilization() view returns (uint256)',
+  'function getSupplyRate(uint256 utilization) view returns (uint64)',
+  'function getBorrowRate(uint256 utilization) view returns (uint64)',
+  'event Supply(address indexed from, address indexed dst, uint256 amount)',
+  'event SupplyCollateral(address indexed from, address indexed dst, address indexed asset, uint256 amount)',
+  'event Withdraw(address indexed src, address indexed to, uint256 amount)',
+  'event WithdrawCollateral(address indexed src, address indexed to, address indexed asset, uint256 amount)',
+]);
@@ -2,43 +2,226 @@
  * @fileoverview Error handling utilities and custom error classes
  */
 
+import {
+  AaveProtocolError,
+  BiconomyError,
+  CliUsageError,
+  ContractRevertError,
+  SupertransactionFailedError,
+  SupertransactionSubmittedError,
+  TransactionError,
+  type DecodedRevert,
+} from '../types';
+import { log } from './logger';
+import { sleep } from './timing';
+import { decodeRevert, getRevertHint, parseFailedUserOps } from './revert-reasons';
+
 export * from '../types';
 
+export interface RetryPolicy {
+  readonly attempts: number; // Total tries, including the first
+  readonly initialDelayMs: number;
+  readonly maxDelayMs: number;
+  readonly backoffFactor: number; // Delay multiplier between consecutive retries
+  readonly shouldRetry: (error: unknown, attempt: number) => boolean;
+  readonly signal?: AbortSignal; // Cuts a backoff wait short and rethrows the last error
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  attempts: 3,
+  initialDelayMs: 1000,
+  maxDelayMs: 5000,
+  backoffFactor: 2,
+  shouldRetry: error => isTransientError(error),
+};
+
+/**
+ * Policy for flows that send transactions, where running the flow again would send them again
+ *
+ * Idempotent steps inside such flows retry on their own instead:
+ * executeFusionInstructions resumes waiting on the supertransaction hash
+ * rather than resubmitting, and fork funding retries only its reads.
+ */
+export const NO_RETRY: Partial<RetryPolicy> = { attempts: 1 };
+
+// Failures that will fail the same way on every attempt, even when they mention a timeout or a status code
+const TERMINAL_ERROR_PATTERNS = [
+  'revert',
+  'insufficient funds',
+  'insufficient balance',
+  'nonce too low',
+  'replacement transaction underpriced',
+  'already known',
+  'user rejected',
+  'unauthorized',
+  'access denied',
+];
+
+// Network, RPC and MEE node failures that may pass on their own
+const TRANSIENT_ERROR_PATTERNS = [
+  /econnrefused|econnreset|econnaborted|etimedout|enotfound|eai_again|epipe/,
+  /socket hang up|fetch failed|network error|network_error|server_error/,
+  /timed? ?out/,
+  /too many requests|rate limit/,
+  /\b(429|50[0-4])\b/,
+  /internal server error|bad gateway|service unavailable|gateway timeout/,
+  /is not valid json/, // An HTML error page from a proxy in front of the RPC or MEE node
+];
+
+/**
+ * Whether an error is worth retrying
+ *
+ * Wrapping errors defer to the error they wrap. Submitted supertransactions,
+ * CLI usage errors and our own transaction errors (validation, failed
+ * receipts) are terminal, as are reverts and nonce or balance failures.
+ * Only recognised network, RPC and 5xx failures are transient; anything
+ * unrecognised (configuration, validation, bugs) is terminal.
+ */
+export function isTransientError(error: unknown): boolean {
+  if (
+    error instanceof SupertransactionSubmittedError ||
+    error instanceof ContractRevertError ||
+    error instanceof SupertransactionFailedError ||
+    error instanceof CliUsageError
+  ) {
+    return false;
+  }
+
+  if (error instanceof BiconomyError && error.originalError !== undefined) {
+    return isTransientError(error.originalError);
+  }
+
+  if (error instanceof Error && error.cause !== undefined) {
+    return isTransientError(error.cause);
+  }
+
+  if (error instanceof TransactionError) {
+    return false;
+  }
+
+  const message = extractErrorMessage(error).toLowerCase();
+  if (TERMINAL_ERROR_PATTERNS.some(pattern => message.includes(pattern))) {
+    return false;
+  }
+  return TRANSIENT_ERROR_PATTERNS.some(pattern => pattern.test(message));
+}
+
+/**
+ * Run `fn` until it succeeds, the policy declines a retry or attempts run out
+ *
+ * Rethrows the last error unchanged.
+ */
+export async function retryWithPolicy<R>(
+  fn: (attempt: number) => Promise<R>,
+  policy: Partial<RetryPolicy> = {},
+  context = 'operation'
+): Promise<R> {
+  const { attempts, initialDelayMs, maxDelayMs, backoffFactor, shouldRetry, signal } = { ...DEFAULT_RETRY_POLICY, ...policy };
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn(attempt);
+    } catch (error) {
+      if (attempt >= attempts || !shouldRetry(error, attempt)) {
+        throw error;
+      }
+
+      const delay = Math.min(initialDelayMs * Math.pow(backoffFactor, attempt - 1), maxDelayMs);
+      log.warn(`Retrying ${context}`, { attempt, delayMs: delay, error: extractErrorMessage(error) });
+      await sleep(delay, signal);
+      if (signal?.aborted) {
+        throw error;
+      }
+    }
+  }
+}
+
 /**
  * Wraps async functions with retry logic and error handling
+ *
+ * Only transient errors are retried by default; pass a policy to change
+ * attempts, backoff or the retry predicate for a call site. The thrown error's
+ * `cause` is the original error, or the typed error decoded from its revert,
+ * so outer wrappers and callers can branch on it.
  */
 export function withErrorHandling<T extends any[], R>(
   fn: (...args: T) => Promise<R>,
-  context: string
+  context: string,
+  policy: Partial<RetryPolicy> = {}
 ): (...args: T) => Promise<R> {
   return async (...args: T): Promise<R> => {
-    let lastError: Error | undefined;
-    
-    for (let attempt = 1; attempt <= 3; attempt++) {
-      try {
-        return await fn(...args);
-      } catch (error) {
-        const friendlyError = createFriendlyErrorMessage(error);
-        lastError = new Error(`[${context}] ${friendlyError.message}`);
-        
-        if (attempt < 3) {
-          const delay = Math.min(1000 * Math.pow(2, attempt - 1), 5000);
-          await new Promise(resolve => setTimeout(resolve, delay));
-          continue;
-        }
-        
-        // Append suggestions if available
-        if (friendlyError.suggestions.length > 0) {
-          lastError.message += '\n\nSuggestions:\n' + 
-            friendlyError.suggestions.map(s => `  • ${s}`).join('\n');
-        }
-        
-        break;
+    try {
+      return await retryWithPolicy(() => fn(...args), policy, context);
+    } catch (error) {
+      const friendlyError = createFriendlyErrorMessage(error);
+      const cause = error instanceof TransactionError
+        ? error
+        : decodeTransactionError(error, friendlyError.message) ?? error;
+      const wrapped = new Error(`[${context}] ${friendlyError.message}`, { cause });
+
+      // Append suggestions if available
+      if (friendlyError.suggestions.length > 0) {
+        wrapped.message += '\n\nSuggestions:\n' +
+          friendlyError.suggestions.map(s => `  • ${s}`).join('\n');
       }
+
+      throw wrapped;
     }
-  
-    throw lastError || new Error(`[${context}] Unknown error occurred`);
+  };
+}
+
+/**
+ * Turn a failure into the most specific TransactionError its revert or MEE payload allows
+ *
+ * AAVE reverts become AaveProtocolError, other decodable reverts
+ * ContractRevertError, and failed user ops without a decodable revert
+ * SupertransactionFailedError. Returns undefined when there is nothing to decode.
+ */
+export function decodeTransactionError(error: unknown, message: string): TransactionError | undefined {
+  const userOps = parseFailedUserOps(error);
+  const failed = userOps.find(userOp => userOp.revert);
+  const revert = failed?.revert ?? (userOps.length === 0 ? decodeRevert(error) : undefined);
+
+  if (revert) {
+    const detailed = message.includes(revert.description) ? message : `${message} (${formatRevert(revert)})`;
+    return revert.aaveCode !== undefined
+      ? new AaveProtocolError(detailed, { ...revert, aaveCode: revert.aaveCode }, failed, error)
+      : new ContractRevertError(detailed, revert, failed, error);
   }
+
+  if (userOps.length > 0) {
+    return new SupertransactionFailedError(message, userOps, error);
+  }
+
+  return undefined;
+}
+
+/**
+ * Find the first error of a class in an error's `cause` / `originalError` chain
+ */
+export function findErrorCause<E extends Error>(
+  error: unknown,
+  errorClass: abstract new (...args: any[]) => E
+): E | undefined {
+  for (let current = error, depth = 0; current !== undefined && depth < 10; depth++) {
+    if (current instanceof errorClass) {
+      return current;
+    }
+    current = current instanceof BiconomyError && current.originalError !== undefined
+      ? current.originalError
+      : current instanceof Error ? current.cause : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * One-line description of a decoded revert, e.g. `AAVE 51 SUPPLY_CAP_EXCEEDED: supply cap exceeded`
+ */
+export function formatRevert(revert: DecodedRevert): string {
+  if (revert.aaveCode !== undefined) {
+    return `AAVE ${revert.aaveCode} ${revert.reason}: ${revert.description}`;
+  }
+  return revert.reason === revert.description ? revert.reason : `${revert.reason}: ${revert.description}`;
 }
 
 /**
@@ -50,6 +233,13 @@ function createFriendlyErrorMessage(error: unknown): {
 } {
   const message = extractErrorMessage(error);
   const suggestions: string[] = [];
+
+  // Decoded AAVE reasons come with a specific fix
+  const revert = decodeRevert(error);
+  const hint = revert && getRevertHint(revert);
+  if (hint) {
+    suggestions.push(hint);
+  }
   
   // Network connection errors
   if (message.includes('ECONNREFUSED') || message.includes('network')) {
@@ -141,6 +331,12 @@ export function extractErrorDetails(error: any): string {
       return error.errors.join('; ');
     }
     
+    // Decode revert data and AAVE codes before falling back to raw fields
+    const revert = decodeRevert(error);
+    if (revert) {
+      return formatRevert(revert);
+    }
+
     // Handle reason field (common in blockchain errors)
     if (error?.reason) {
       return error.reason;
@@ -2,9 +2,16 @@
  * @fileoverview Utility functions for the Biconomy MEE Fusion Demo
  */
 
+export * from './aave-markets';
+export * from './chains';
+export * from './compound-markets';
 export * from './config';
 export * from './contracts';
 export * from './errors';
 export * from './formatting';
+export * from './journal';
 export * from './logger';
+export * from './reserves';
+export * from './run-history';
+export * from './timing';
 export * from './validation';
\ No newline at end of file
@@ -0,0 +1,163 @@
+/**
+ * @fileoverview Append-only JSON-lines journal of supertransactions
+ *
+ * Every quote, submission, status change, balance snapshot and outcome is one
+ * line keyed by the supertransaction hash, so a run that crashes leaves
+ * enough behind to find and finish what it submitted.
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import type { Hex } from 'viem';
+
+import type {
+  JournalEntry,
+  JournalEvent,
+  JournalRecord,
+  JournalState,
+  TransactionJournal,
+} from '../types';
+import { log } from './logger';
+
+export const JOURNAL_FILE = 'supertransactions.jsonl';
+
+// States a resumed run still has to wait on
+const PENDING_STATES: readonly JournalState[] = ['submitting', 'submitted', 'interrupted'];
+
+type DraftRecord = { -readonly [K in keyof JournalRecord]: JournalRecord[K] };
+
+/**
+ * Open (or lazily create) the journal in `dir`
+ *
+ * Writes never throw: a journal that cannot be written is reported and the
+ * supertransaction carries on, as it may already be on the MEE node.
+ */
+export function createTransactionJournal(dir: string): TransactionJournal {
+  const file = join(dir, JOURNAL_FILE);
+
+  return {
+    file,
+    append(hash: Hex, event: JournalEvent): void {
+      const entry: JournalEntry = { ...event, hash, timestamp: Date.now(), correlationId: log.correlationId() };
+      try {
+        mkdirSync(dir, { recursive: true });
+        appendFileSync(file, `${serializeJournalEntry(entry)}\n`);
+      } catch (error) {
+        log.warn('Could not write to the transaction journal', {
+          file,
+          type: event.type,
+          hash,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    },
+    records: () => foldJournalEntries(readJournalEntries(file)),
+    pending: () => foldJournalEntries(readJournalEntries(file)).filter(record => PENDING_STATES.includes(record.state)),
+  };
+}
+
+/**
+ * Read every entry of a journal file, skipping lines a crash left half-written
+ */
+export function readJournalEntries(file: string): JournalEntry[] {
+  if (!existsSync(file)) {
+    return [];
+  }
+
+  return readFileSync(file, 'utf8').split('\n').filter(Boolean).flatMap(line => {
+    try {
+      return [parseJournalEntry(line)];
+    } catch {
+      log.debug('Skipping unreadable journal line', { file, line: line.slice(0, 80) });
+      return [];
+    }
+  });
+}
+
+/**
+ * Fold journal entries into one record per supertransaction, in the order they were first seen
+ */
+export function foldJournalEntries(entries: readonly JournalEntry[]): JournalRecord[] {
+  const records = new Map<Hex, DraftRecord>();
+
+  for (const entry of entries) {
+    const record = records.get(entry.hash) ?? {
+      hash: entry.hash,
+      state: 'quoted',
+      correlationId: entry.correlationId,
+      createdAt: entry.timestamp,
+      updatedAt: entry.timestamp,
+      statuses: [],
+    };
+    records.set(entry.hash, record);
+    record.updatedAt = entry.timestamp;
+
+    switch (entry.type) {
+      case 'quoted':
+        record.triggerMode = entry.triggerMode;
+        record.request = entry.request;
+        record.quotedFee = entry.fee;
+        break;
+      case 'submitting':
+      case 'submitted':
+        record.state = entry.type;
+        break;
+      case 'status':
+        record.statuses = [
+          ...record.statuses,
+          { status: entry.status, timestamp: entry.timestamp, ...(entry.message ? { message: entry.message } : {}) },
+        ];
+        break;
+      case 'balances':
+        record.beforeBalance = entry.before;
+        record.afterBalance = entry.after;
+        break;
+      case 'settled':
+        record.state = entry.success ? 'succeeded' : 'failed';
+        if (entry.gasUsed !== undefined) record.gasUsed = entry.gasUsed;
+        if (entry.fee) record.fee = entry.fee;
+        if (entry.error) record.error = entry.error;
+        break;
+      case 'interrupted':
+      case 'rejected':
+        record.state = entry.type;
+        record.error = entry.error;
+        break;
+    }
+  }
+
+  return [...records.values()];
+}
+
+/**
+ * One journal line; bigints are tagged so they read back as bigints
+ */
+export function serializeJournalEntry(entry: JournalEntry): string {
+  return serializeJsonLine(entry);
+}
+
+export function parseJournalEntry(line: string): JournalEntry {
+  return parseJsonLine<JournalEntry>(line);
+}
+
+/**
+ * JSON with bigints tagged as `{ "$bigint": "…" }`, shared by every JSON-lines file
+ */
+export function serializeJsonLine(value: unknown): string {
+  return JSON.stringify(value, (_key, item: unknown) =>
+    typeof item === 'bigint' ? { $bigint: item.toString() } : item
+  );
+}
+
+export function parseJsonLine<T>(line: string): T {
+  return JSON.parse(line, (_key, value: unknown) =>
+    isTaggedBigint(value) ? BigInt(value.$bigint) : value
+  ) as T;
+}
+
+function isTaggedBigint(value: unknown): value is { $bigint: string } {
+  return typeof value === 'object' &&
+    value !== null &&
+    typeof (value as { $bigint?: unknown }).$bigint === 'string' &&
+    Object.keys(value).length === 1;
+}
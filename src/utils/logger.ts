@@ -1,8 +1,17 @@
 /**
- * @fileoverview logging utility with colored output
+ * @fileoverview logging utility with colored text or JSON-lines output
+ *
+ * Every record carries the run's correlation ID. Records written inside
+ * `withLogContext` also carry its fields, which is how the supertransaction
+ * hash follows the logs of the run that submitted it.
  */
 
-import type { LogLevel } from '../types';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { randomUUID } from 'node:crypto';
+import { appendFileSync, mkdirSync } from 'node:fs';
+import { dirname } from 'node:path';
+
+import type { LogFormat, LogLevel } from '../types';
 
 // color codes for console output
 const colors = {
@@ -16,6 +25,13 @@ const colors = {
   white: '\x1b[37m',
 };
 
+const LOG_LEVELS: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+};
+
 export interface LogContext {
   readonly component?: string;
   readonly txHash?: string;
@@ -24,105 +40,267 @@ export interface LogContext {
   readonly [key: string]: unknown;
 }
 
+export interface LoggerOptions {
+  readonly format?: LogFormat; // Console output; defaults to text
+  readonly file?: string; // Also append every record to this file as JSON lines
+  readonly correlationId?: string; // Defaults to a random UUID per process
+  readonly stderr?: boolean; // Print every record to stderr, keeping stdout for command output
+}
+
+// What a record is beyond its level, so JSON consumers can tell steps and headers apart
+type RecordKind = 'log' | 'success' | 'step' | 'header' | 'section';
+
+interface LogRecord {
+  readonly timestamp: string;
+  readonly level: LogLevel;
+  readonly kind: RecordKind;
+  readonly correlationId: string;
+  readonly message: string;
+  readonly step?: number;
+  readonly items?: readonly string[];
+  readonly context?: LogContext;
+}
+
+// Fields bound by `withLogContext` for everything logged in its async scope
+const boundContext = new AsyncLocalStorage<LogContext>();
+
 export class Logger {
   private static instance: Logger;
   private readonly logLevel: LogLevel;
+  private readonly format: LogFormat;
+  private readonly correlationId: string;
+  private file: string | undefined;
+  private stderr: boolean;
 
-  constructor(logLevel: LogLevel = 'info') {
+  constructor(logLevel: LogLevel = 'info', options: LoggerOptions = {}) {
     this.logLevel = logLevel;
+    this.format = options.format ?? 'text';
+    this.correlationId = options.correlationId ?? randomUUID();
+    this.file = options.file;
+    this.stderr = options.stderr ?? false;
+
+    if (this.file) {
+      mkdirSync(dirname(this.file), { recursive: true });
+    }
   }
 
-  static getInstance(logLevel?: LogLevel): Logger {
+  static getInstance(logLevel?: LogLevel, options?: LoggerOptions): Logger {
     if (!Logger.instance) {
-      Logger.instance = new Logger(logLevel);
+      Logger.instance = new Logger(logLevel, options);
     }
     return Logger.instance;
   }
 
+  getCorrelationId(): string {
+    return this.correlationId;
+  }
+
+  /**
+   * Move console records to stderr, e.g. when stdout carries a machine-readable result
+   */
+  useStderr(): void {
+    this.stderr = true;
+  }
+
+  // Console sink for non-error records
+  private print(line: string): void {
+    (this.stderr ? console.error : console.log)(line);
+  }
+
   private shouldLog(level: LogLevel): boolean {
-    const levels: Record<LogLevel, number> = {
-      debug: 0,
-      info: 1,
-      warn: 2,
-      error: 3,
-    };
-    return levels[level] >= levels[this.logLevel];
+    return LOG_LEVELS[level] >= LOG_LEVELS[this.logLevel];
   }
 
   private formatMessage(level: LogLevel, message: string, context?: LogContext): string {
     const timestamp = new Date().toLocaleTimeString();
     const levelStr = level.toUpperCase().padEnd(5);
-    
+
     let formatted = `[${timestamp}] ${levelStr} ${message}`;
-    
+
     if (context) {
       const contextStr = Object.entries(context)
-        .map(([key, value]) => `${key}=${value}`)
+        .map(([key, value]) => `${key}=${formatValue(value)}`)
         .join(' ');
       formatted += ` | ${contextStr}`;
     }
-    
+
     return formatted;
   }
 
+  /**
+   * Build the structured record, write it to the file sink and, in JSON mode, the console
+   *
+   * Returns whether the caller still has to print the text form. Fields bound
+   * with `withLogContext` only appear in structured records.
+   */
+  private emit(
+    level: LogLevel,
+    kind: RecordKind,
+    message: string,
+    context?: LogContext,
+    extra: Pick<LogRecord, 'step' | 'items'> = {}
+  ): boolean {
+    if (!this.shouldLog(level)) return false;
+
+    if (this.format === 'text' && !this.file) return true;
+
+    const merged = mergeContext(context);
+    const line = toLogJson({
+      timestamp: new Date().toISOString(),
+      level,
+      kind,
+      correlationId: this.correlationId,
+      message,
+      ...extra,
+      ...(merged && { context: merged }),
+    } satisfies LogRecord);
+
+    if (this.format === 'json') {
+      if (level === 'error') {
+        console.error(line);
+      } else {
+        this.print(line);
+      }
+    }
+    this.appendToFile(line);
+
+    return this.format === 'text';
+  }
+
+  private appendToFile(line: string): void {
+    if (!this.file) return;
+
+    try {
+      appendFileSync(this.file, `${line}\n`);
+    } catch (error) {
+      // A broken sink must not take the run down with it; fall back to the console only
+      console.error(`Log file ${this.file} is not writable, disabling it: ${formatValue(error)}`);
+      this.file = undefined;
+    }
+  }
+
   debug(message: string, context?: LogContext): void {
-    if (!this.shouldLog('debug')) return;
-    console.log(`${colors.gray}${this.formatMessage('debug', message, context)}${colors.reset}`);
+    if (!this.emit('debug', 'log', message, context)) return;
+    this.print(`${colors.gray}${this.formatMessage('debug', message, context)}${colors.reset}`);
   }
 
   info(message: string, context?: LogContext): void {
-    if (!this.shouldLog('info')) return;
-    console.log(`${colors.blue}${this.formatMessage('info', message, context)}${colors.reset}`);
+    if (!this.emit('info', 'log', message, context)) return;
+    this.print(`${colors.blue}${this.formatMessage('info', message, context)}${colors.reset}`);
   }
 
   warn(message: string, context?: LogContext): void {
-    if (!this.shouldLog('warn')) return;
-    console.log(`${colors.yellow}${this.formatMessage('warn', message, context)}${colors.reset}`);
+    if (!this.emit('warn', 'log', message, context)) return;
+    this.print(`${colors.yellow}${this.formatMessage('warn', message, context)}${colors.reset}`);
   }
 
   error(message: string, context?: LogContext): void {
-    if (!this.shouldLog('error')) return;
+    if (!this.emit('error', 'log', message, context)) return;
     console.error(`${colors.red}${this.formatMessage('error', message, context)}${colors.reset}`);
   }
 
   success(message: string, context?: LogContext): void {
-    console.log(`${colors.green}✓ ${message}${colors.reset}`);
+    if (!this.emit('info', 'success', message, context)) return;
+    this.print(`${colors.green}✓ ${message}${colors.reset}`);
     if (context) {
       Object.entries(context).forEach(([key, value]) => {
-        console.log(`   ${colors.gray}${key}:${colors.reset} ${value}`);
+        this.print(`   ${colors.gray}${key}:${colors.reset} ${formatValue(value)}`);
       });
     }
   }
 
   step(step: number, message: string, context?: LogContext): void {
-    console.log(`${colors.cyan}[${step}]${colors.reset} ${message}`);
+    if (!this.emit('info', 'step', message, context, { step })) return;
+    this.print(`${colors.cyan}[${step}]${colors.reset} ${message}`);
     if (context) {
       Object.entries(context).forEach(([key, value]) => {
-        console.log(`    ${colors.gray}${key}:${colors.reset} ${value}`);
+        this.print(`    ${colors.gray}${key}:${colors.reset} ${formatValue(value)}`);
       });
     }
   }
 
   header(title: string): void {
-    console.log(`\n${colors.blue}${title}${colors.reset}`);
-    console.log(`${colors.gray}${'='.repeat(title.length)}${colors.reset}`);
+    if (!this.emit('info', 'header', title)) return;
+    this.print(`\n${colors.blue}${title}${colors.reset}`);
+    this.print(`${colors.gray}${'='.repeat(title.length)}${colors.reset}`);
   }
 
   section(title: string, items: string[]): void {
-    console.log(`\n${colors.white}${title}:${colors.reset}`);
+    if (!this.emit('info', 'section', title, undefined, { items })) return;
+    this.print(`\n${colors.white}${title}:${colors.reset}`);
     items.forEach(item => {
-      console.log(`  • ${item}`);
+      this.print(`  • ${item}`);
     });
   }
 
+  /**
+   * Print preformatted text such as tables and previews; JSON mode skips it and keeps to records
+   */
+  text(line: string): void {
+    if (this.format === 'text' && this.shouldLog('info')) {
+      this.print(line);
+    }
+  }
+
   clear(): void {
-    console.clear();
+    if (this.format === 'text' && !this.stderr) {
+      console.clear();
+    }
   }
 }
 
+/**
+ * Run `fn` with extra fields attached to every record it logs, including across awaits
+ *
+ * Scopes nest; inner fields override outer ones with the same key.
+ */
+export function withLogContext<T>(context: LogContext, fn: () => T): T {
+  return boundContext.run({ ...boundContext.getStore(), ...context }, fn);
+}
+
+/**
+ * Serialize a value for logs: bigints as decimal strings, errors as name and message
+ */
+export function toLogJson(value: unknown): string {
+  return JSON.stringify(value, (_key, nested: unknown) => {
+    if (typeof nested === 'bigint') {
+      return nested.toString();
+    }
+    if (nested instanceof Error) {
+      return { name: nested.name, message: nested.message };
+    }
+    return nested;
+  });
+}
+
+function mergeContext(context?: LogContext): LogContext | undefined {
+  const bound = boundContext.getStore();
+  return bound ? { ...bound, ...context } : context;
+}
+
+// Text rendering of a single context value
+function formatValue(value: unknown): string {
+  if (value instanceof Error) {
+    return value.message;
+  }
+  if (typeof value === 'object' && value !== null) {
+    return toLogJson(value);
+  }
+  return String(value);
+}
+
+function parseLogFormat(value: string | undefined): LogFormat {
+  return value === 'json' ? 'json' : 'text';
+}
+
 // Convenience export
 export const logger = Logger.getInstance(
-  (process.env.LOG_LEVEL as LogLevel) || 'debug'
+  (process.env.LOG_LEVEL as LogLevel) || 'debug',
+  {
+    format: parseLogFormat(process.env.LOG_FORMAT),
+    ...(process.env.LOG_FILE && { file: process.env.LOG_FILE }),
+    ...(process.env.LOG_CORRELATION_ID && { correlationId: process.env.LOG_CORRELATION_ID }),
+  }
 );
 
 export const log = {
@@ -134,5 +312,8 @@ export const log = {
   step: (step: number, message: string, context?: LogContext) => logger.step(step, message, context),
   header: (title: string) => logger.header(title),
   section: (title: string, items: string[]) => logger.section(title, items),
+  text: (line: string) => logger.text(line),
   clear: () => logger.clear(),
-}; 
\ No newline at end of file
+  correlationId: () => logger.getCorrelationId(),
+  useStderr: () => logger.useStderr(),
+};
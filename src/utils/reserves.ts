@@ -0,0 +1,100 @@
+/**
+ * @fileoverview AAVE reserve registry resolved from the Pool and token contracts
+ */
+
+import { ethers } from 'ethers';
+import type { Address } from 'viem';
+
+import type { SDKContext, ReserveInfo, ReserveToken } from '../types';
+import { TransactionError } from './errors';
+import { ERC20_ABI, AAVE_POOL_ABI } from './contracts';
+import { isValidAddress } from './validation';
+
+// Reserves never change address within a fork, so resolve each one only once
+const reserveCache = new Map<string, Promise<ReserveInfo>>();
+
+/**
+ * Resolve a reserve by symbol (e.g. `WETH`) or underlying address
+ */
+export function resolveReserve(sdk: SDKContext, asset: string): Promise<ReserveInfo> {
+  const underlying = resolveAssetAddress(sdk, asset);
+  const cacheKey = `${sdk.config.chainId}:${sdk.config.contracts.aavePool}:${underlying}`.toLowerCase();
+
+  let reserve = reserveCache.get(cacheKey);
+  if (!reserve) {
+    reserve = loadReserve(sdk, underlying);
+    // Don't cache failures so a fork restart or typo can be retried
+    reserve.catch(() => reserveCache.delete(cacheKey));
+    reserveCache.set(cacheKey, reserve);
+  }
+
+  return reserve;
+}
+
+/**
+ * Resolve every reserve configured for the current chain
+ */
+export function listReserves(sdk: SDKContext): Promise<ReserveInfo[]> {
+  return Promise.all(
+    Object.keys(sdk.config.contracts.reserves).map(symbol => resolveReserve(sdk, symbol))
+  );
+}
+
+/**
+ * Map a reserve symbol or token address to a checksummed address
+ */
+export function resolveAssetAddress(sdk: SDKContext, asset: string): Address {
+  if (isValidAddress(asset)) {
+    return ethers.getAddress(asset) as Address;
+  }
+
+  const match = Object.entries(sdk.config.contracts.reserves)
+    .find(([symbol]) => symbol.toLowerCase() === asset.toLowerCase());
+
+  if (!match) {
+    throw new TransactionError(
+      `Unknown reserve "${asset}". ` +
+      `Known reserves: ${Object.keys(sdk.config.contracts.reserves).join(', ')}`
+    );
+  }
+
+  return match[1];
+}
+
+/**
+ * Read reserve token addresses from the Pool and metadata from each token
+ */
+async function loadReserve(sdk: SDKContext, underlying: Address): Promise<ReserveInfo> {
+  const pool = new ethers.Contract(sdk.config.contracts.aavePool, AAVE_POOL_ABI, sdk.provider);
+  const reserveData = await pool.getReserveData!(underlying);
+
+  const aTokenAddress = reserveData.aTokenAddress as Address;
+  if (aTokenAddress === ethers.ZeroAddress) {
+    throw new TransactionError(`Asset ${underlying} is not an active AAVE reserve`);
+  }
+
+  const [asset, aToken] = await Promise.all([
+    readTokenMetadata(sdk, underlying),
+    readTokenMetadata(sdk, aTokenAddress),
+  ]);
+
+  return {
+    ...asset,
+    aToken,
+    variableDebtToken: reserveData.variableDebtTokenAddress as Address,
+    stableDebtToken: reserveData.stableDebtTokenAddress as Address,
+  };
+}
+
+/**
+ * Read symbol and decimals from an ERC20 contract
+ */
+export async function readTokenMetadata(sdk: SDKContext, address: Address): Promise<ReserveToken> {
+  const token = new ethers.Contract(address, ERC20_ABI, sdk.provider);
+  const [symbol, decimals] = await Promise.all([
+    token.symbol!() as Promise<string>,
+    token.decimals!() as Promise<bigint>,
+  ]);
+
+  return { address, symbol, decimals: Number(decimals) };
+}
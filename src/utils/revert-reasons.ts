@@ -0,0 +1,369 @@
+/**
+ * @fileoverview Decode AAVE v3 error codes, custom errors and MEE user op failures
+ *
+ * AAVE v3.0–v3.3 revert with numeric strings from its Errors library ("51");
+ * v3.4 reverts with custom errors named after the same constants
+ * (`SupplyCapExceeded()`). Both resolve through one table.
+ */
+
+import { decodeAbiParameters, toFunctionSelector, type Hex } from 'viem';
+
+import type { DecodedRevert, FailedUserOp } from '../types';
+
+interface AaveErrorInfo {
+  readonly name: string;
+  readonly description: string;
+}
+
+// AAVE v3 Errors library: user-facing codes (admin and configuration codes are left out)
+export const AAVE_ERRORS: Readonly<Record<number, AaveErrorInfo>> = {
+  1: { name: 'CALLER_NOT_POOL_ADMIN', description: 'caller is not a pool admin' },
+  9: { name: 'NOT_CONTRACT', description: 'address is not a contract' },
+  10: { name: 'CALLER_NOT_POOL_CONFIGURATOR', description: 'caller is not the pool configurator' },
+  11: { name: 'CALLER_NOT_ATOKEN', description: 'caller is not an aToken' },
+  13: { name: 'INVALID_FLASHLOAN_EXECUTOR_RETURN', description: 'flash loan executor returned false' },
+  23: { name: 'CALLER_MUST_BE_POOL', description: 'caller must be the pool' },
+  24: { name: 'INVALID_MINT_AMOUNT', description: 'invalid mint amount' },
+  25: { name: 'INVALID_BURN_AMOUNT', description: 'invalid burn amount' },
+  26: { name: 'INVALID_AMOUNT', description: 'amount must be greater than 0' },
+  27: { name: 'RESERVE_INACTIVE', description: 'reserve is not active' },
+  28: { name: 'RESERVE_FROZEN', description: 'reserve is frozen' },
+  29: { name: 'RESERVE_PAUSED', description: 'reserve is paused' },
+  30: { name: 'BORROWING_NOT_ENABLED', description: 'borrowing is not enabled for the reserve' },
+  31: { name: 'STABLE_BORROWING_NOT_ENABLED', description: 'stable borrowing is not enabled for the reserve' },
+  32: { name: 'NOT_ENOUGH_AVAILABLE_USER_BALANCE', description: 'not enough balance to withdraw' },
+  33: { name: 'INVALID_INTEREST_RATE_MODE_SELECTED', description: 'invalid interest rate mode' },
+  34: { name: 'COLLATERAL_BALANCE_IS_ZERO', description: 'collateral balance is 0' },
+  35: {
+    name: 'HEALTH_FACTOR_LOWER_THAN_LIQUIDATION_THRESHOLD',
+    description: 'health factor would fall below the liquidation threshold',
+  },
+  36: { name: 'COLLATERAL_CANNOT_COVER_NEW_BORROW', description: 'collateral cannot cover the new borrow' },
+  37: { name: 'COLLATERAL_SAME_AS_BORROWING_CURRENCY', description: 'collateral is the same as the borrowed asset' },
+  39: { name: 'NO_DEBT_OF_SELECTED_TYPE', description: 'no debt of the selected rate mode' },
+  40: { name: 'NO_EXPLICIT_AMOUNT_TO_REPAY_ON_BEHALF', description: 'an explicit amount is required to repay on behalf of another account' },
+  41: { name: 'NO_OUTSTANDING_STABLE_DEBT', description: 'no outstanding stable debt' },
+  42: { name: 'NO_OUTSTANDING_VARIABLE_DEBT', description: 'no outstanding variable debt' },
+  43: { name: 'UNDERLYING_BALANCE_ZERO', description: 'underlying balance is 0' },
+  45: { name: 'HEALTH_FACTOR_NOT_BELOW_THRESHOLD', description: 'health factor is not below the liquidation threshold' },
+  46: { name: 'COLLATERAL_CANNOT_BE_LIQUIDATED', description: 'collateral cannot be liquidated' },
+  47: { name: 'SPECIFIED_CURRENCY_NOT_BORROWED_BY_USER', description: 'asset is not borrowed by the user' },
+  49: { name: 'INCONSISTENT_FLASHLOAN_PARAMS', description: 'inconsistent flash loan parameters' },
+  50: { name: 'BORROW_CAP_EXCEEDED', description: 'borrow cap exceeded' },
+  51: { name: 'SUPPLY_CAP_EXCEEDED', description: 'supply cap exceeded' },
+  53: { name: 'DEBT_CEILING_EXCEEDED', description: 'isolation mode debt ceiling exceeded' },
+  57: { name: 'LTV_VALIDATION_FAILED', description: 'LTV validation failed' },
+  58: { name: 'INCONSISTENT_EMODE_CATEGORY', description: 'asset is not in the user\'s eMode category' },
+  59: { name: 'PRICE_ORACLE_SENTINEL_CHECK_FAILED', description: 'price oracle sentinel check failed' },
+  60: { name: 'ASSET_NOT_BORROWABLE_IN_ISOLATION', description: 'asset is not borrowable in isolation mode' },
+  62: { name: 'USER_IN_ISOLATION_MODE_OR_LTV_ZERO', description: 'user is in isolation mode or the asset has zero LTV' },
+  77: { name: 'ZERO_ADDRESS_NOT_VALID', description: 'zero address is not valid' },
+  78: { name: 'INVALID_EXPIRATION', description: 'permit deadline has expired' },
+  79: { name: 'INVALID_SIGNATURE', description: 'invalid signature' },
+  80: { name: 'OPERATION_NOT_SUPPORTED', description: 'operation not supported' },
+  82: { name: 'ASSET_NOT_LISTED', description: 'asset is not listed' },
+  89: { name: 'SILOED_BORROWING_VIOLATION', description: 'user is in siloed borrowing state' },
+  91: { name: 'FLASHLOAN_DISABLED', description: 'flash loans are disabled for the asset' },
+  93: { name: 'WITHDRAW_TO_ATOKEN', description: 'cannot withdraw to the aToken contract' },
+  94: { name: 'SUPPLY_TO_ATOKEN', description: 'cannot supply to the aToken contract' },
+  100: { name: 'NOT_BORROWABLE_IN_EMODE', description: 'asset is not borrowable in the user\'s eMode category' },
+};
+
+// What to do about the AAVE failures users run into most
+const AAVE_HINTS: Readonly<Record<string, string>> = {
+  INVALID_AMOUNT: 'Use an amount greater than zero',
+  RESERVE_INACTIVE: 'Pick another reserve; this one is not active on the fork',
+  RESERVE_FROZEN: 'Pick another reserve; frozen reserves accept no new supply or borrows',
+  RESERVE_PAUSED: 'Wait until governance unpauses the reserve, or pick another one',
+  BORROWING_NOT_ENABLED: 'Borrow a reserve with borrowing enabled',
+  NOT_ENOUGH_AVAILABLE_USER_BALANCE: 'Withdraw at most your aToken balance',
+  COLLATERAL_BALANCE_IS_ZERO: 'Supply collateral before borrowing',
+  HEALTH_FACTOR_LOWER_THAN_LIQUIDATION_THRESHOLD: 'Borrow or withdraw less, or supply more collateral',
+  COLLATERAL_CANNOT_COVER_NEW_BORROW: 'Borrow less or supply more collateral',
+  NO_DEBT_OF_SELECTED_TYPE: 'Check the rate mode; there is no debt to repay in it',
+  BORROW_CAP_EXCEEDED: 'Borrow less; the reserve is at its borrow cap',
+  SUPPLY_CAP_EXCEEDED: 'Supply less or pick another reserve; this one is at its supply cap',
+  DEBT_CEILING_EXCEEDED: 'Borrow less; the isolated collateral is at its debt ceiling',
+};
+
+const ERROR_STRING_SELECTOR = '0x08c379a0'; // Error(string)
+const PANIC_SELECTOR = '0x4e487b71'; // Panic(uint256)
+
+const PANIC_REASONS: Readonly<Record<number, string>> = {
+  0x01: 'assertion failed',
+  0x11: 'arithmetic overflow or underflow',
+  0x12: 'division by zero',
+  0x21: 'invalid enum value',
+  0x32: 'array index out of bounds',
+  0x41: 'out of memory',
+};
+
+// Non-AAVE custom errors the flows commonly hit (OpenZeppelin v5 tokens, Compound v3 Comet)
+const KNOWN_CUSTOM_ERRORS: readonly DecodedRevert[] = [
+  { reason: 'ERC20InsufficientBalance', description: 'token balance too low' },
+  { reason: 'ERC20InsufficientAllowance', description: 'token allowance too low' },
+  { reason: 'ERC2612ExpiredSignature', description: 'permit deadline has expired' },
+  { reason: 'ERC2612InvalidSigner', description: 'permit signed by the wrong account' },
+  { reason: 'NotCollateralized', description: 'Comet borrow is not covered by collateral' },
+  { reason: 'BorrowTooSmall', description: 'Comet borrow balance is below the market minimum' },
+  { reason: 'InsufficientReserves', description: 'Comet has too little base asset to lend' },
+  { reason: 'Unauthorized', description: 'account has not allowed the caller on Comet' },
+  { reason: 'BadAmount', description: 'Comet rejected the amount' },
+].map(error => ({ ...error, selector: toFunctionSelector(customErrorSignature(error.reason)) }));
+
+const AAVE_CUSTOM_ERRORS: ReadonlyMap<Hex, number> = new Map(
+  Object.entries(AAVE_ERRORS).map(([code, { name }]) => [
+    toFunctionSelector(`${toPascalCase(name)}()`),
+    Number(code),
+  ])
+);
+
+// Revert data: a 4-byte selector followed by whole 32-byte words (tx hashes never match)
+const REVERT_DATA_PATTERN = /0x[0-9a-fA-F]{8}(?:[0-9a-fA-F]{64})*(?![0-9a-fA-F])/g;
+const REVERT_CODE_PATTERN = /revert(?:ed)?(?: with reason(?: string)?)?:?\s*['"]?(\d{1,3})['"]?(?!\d)/i;
+const CUSTOM_ERROR_NAME_PATTERN = /\b([A-Z][A-Za-z0-9]+)\(/g;
+
+/**
+ * Look up an AAVE v3 error code
+ */
+export function describeAaveError(code: number): DecodedRevert | undefined {
+  const info = AAVE_ERRORS[code];
+  return info && { reason: info.name, description: info.description, aaveCode: code };
+}
+
+/**
+ * Suggested fix for a decoded revert, when there is one
+ */
+export function getRevertHint(revert: DecodedRevert): string | undefined {
+  return AAVE_HINTS[revert.reason];
+}
+
+/**
+ * Decode raw revert data: `Error(string)`, `Panic(uint256)`, AAVE and known token custom errors
+ */
+export function decodeRevertData(data: Hex): DecodedRevert | undefined {
+  if (data.length < 10) {
+    return undefined;
+  }
+
+  const selector = data.slice(0, 10).toLowerCase() as Hex;
+  const payload = `0x${data.slice(10)}` as Hex;
+
+  try {
+    if (selector === ERROR_STRING_SELECTOR) {
+      const [message] = decodeAbiParameters([{ type: 'string' }], payload);
+      return decodeRevertString(message);
+    }
+
+    if (selector === PANIC_SELECTOR) {
+      const [code] = decodeAbiParameters([{ type: 'uint256' }], payload);
+      const reason = PANIC_REASONS[Number(code)] ?? `panic code 0x${code.toString(16)}`;
+      return { reason: `PANIC_0x${code.toString(16).padStart(2, '0')}`, description: reason, selector };
+    }
+  } catch {
+    return undefined;
+  }
+
+  const aaveCode = AAVE_CUSTOM_ERRORS.get(selector);
+  if (aaveCode !== undefined) {
+    return { ...describeAaveError(aaveCode)!, selector };
+  }
+
+  return KNOWN_CUSTOM_ERRORS.find(error => error.selector === selector)
+    ?? { reason: 'UNKNOWN_CUSTOM_ERROR', description: `unknown custom error ${selector}`, selector };
+}
+
+/**
+ * Decode a revert string, resolving AAVE's numeric codes
+ */
+export function decodeRevertString(message: string): DecodedRevert {
+  const trimmed = message.trim();
+  if (/^\d{1,3}$/.test(trimmed)) {
+    const aave = describeAaveError(Number(trimmed));
+    if (aave) {
+      return aave;
+    }
+  }
+
+  return { reason: trimmed, description: trimmed };
+}
+
+/**
+ * Find and decode a revert anywhere in an ethers, viem or MEE error
+ *
+ * Looks at revert data fields first, then at revert strings and custom error
+ * names in messages. Returns undefined when nothing looks like a revert.
+ */
+export function decodeRevert(error: unknown): DecodedRevert | undefined {
+  const { data, reasons, texts } = collectErrorFields(error);
+
+  for (const candidate of data) {
+    const decoded = decodeRevertData(candidate);
+    if (decoded && decoded.reason !== 'UNKNOWN_CUSTOM_ERROR') {
+      return decoded;
+    }
+  }
+
+  // ethers puts the decoded revert string in `reason`
+  const [reason] = reasons;
+  if (reason) {
+    return decodeRevertString(reason);
+  }
+
+  for (const text of texts) {
+    const decoded = decodeRevertText(text);
+    if (decoded) {
+      return decoded;
+    }
+  }
+
+  // An unrecognised custom error is still better than nothing
+  const [first] = data;
+  return first ? decodeRevertData(first) : undefined;
+}
+
+/**
+ * List the failed user ops in an explorer response, receipt or SDK failure message
+ *
+ * Cleanup user ops are ignored, matching how the SDK derives the status.
+ */
+export function parseFailedUserOps(source: unknown): FailedUserOp[] {
+  const userOps = (source as { userOps?: unknown })?.userOps;
+
+  if (Array.isArray(userOps)) {
+    return userOps.flatMap((userOp, index): FailedUserOp[] => {
+      const status = userOp?.executionStatus;
+      if ((status !== 'FAILED' && status !== 'MINED_FAIL') || userOp.isCleanUpUserOp) {
+        return [];
+      }
+
+      const message = typeof userOp.executionError === 'string'
+        ? userOp.executionError
+        : status === 'FAILED' ? 'Transaction failed off-chain' : 'Transaction failed on-chain';
+      const revert = decodeRevert(userOp.executionError);
+
+      return [{
+        index,
+        status,
+        message,
+        ...(userOp.chainId !== undefined && { chainId: Number(userOp.chainId) }),
+        ...(revert && { revert }),
+      }];
+    });
+  }
+
+  // abstractjs throws `[index] executionError` for the first failed user op
+  const message = source instanceof Error ? source.message : typeof source === 'string' ? source : undefined;
+  const match = message?.match(/^\[(\d+)\] ([\s\S]*)$/);
+  if (match) {
+    const revert = decodeRevert(match[2]);
+    return [{ index: Number(match[1]), message: match[2]!, ...(revert && { revert }) }];
+  }
+
+  // MEE node error payloads: { error: { errors: [...] } } or { errors: [...] }
+  const payload = source as { error?: { errors?: unknown }; errors?: unknown };
+  const errors = payload?.error?.errors ?? payload?.errors;
+  if (Array.isArray(errors)) {
+    return errors.map((entry, position): FailedUserOp => {
+      const text = typeof entry === 'string' ? entry : JSON.stringify(entry);
+      const index = text.match(/user\s*ops?\s*\[?\s*(\d+)/i)?.[1];
+      const revert = decodeRevert(text);
+      return { index: index === undefined ? position : Number(index), message: text, ...(revert && { revert }) };
+    });
+  }
+
+  return [];
+}
+
+function decodeRevertText(text: string): DecodedRevert | undefined {
+  for (const match of text.matchAll(REVERT_DATA_PATTERN)) {
+    const decoded = decodeRevertData(match[0] as Hex);
+    if (decoded && decoded.reason !== 'UNKNOWN_CUSTOM_ERROR') {
+      return decoded;
+    }
+  }
+
+  const code = text.match(REVERT_CODE_PATTERN)?.[1];
+  if (code !== undefined) {
+    const aave = describeAaveError(Number(code));
+    if (aave) {
+      return aave;
+    }
+  }
+
+  for (const match of text.matchAll(CUSTOM_ERROR_NAME_PATTERN)) {
+    const decoded = decodeRevertData(toFunctionSelector(customErrorSignature(match[1]!)));
+    if (decoded && decoded.reason !== 'UNKNOWN_CUSTOM_ERROR') {
+      return decoded;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Gather hex revert data and message strings from an error and its nested causes
+ */
+function collectErrorFields(error: unknown): { data: Hex[]; reasons: string[]; texts: string[] } {
+  const data: Hex[] = [];
+  const reasons: string[] = [];
+  const texts: string[] = [];
+  const seen = new Set<unknown>();
+
+  const visit = (value: unknown, depth: number): void => {
+    if (value === null || value === undefined || depth > 5 || seen.has(value)) {
+      return;
+    }
+
+    if (typeof value === 'string') {
+      if (/^0x[0-9a-fA-F]{8}(?:[0-9a-fA-F]{64})*$/.test(value)) {
+        data.push(value as Hex);
+      } else {
+        texts.push(value);
+      }
+      return;
+    }
+
+    if (typeof value !== 'object') {
+      return;
+    }
+    seen.add(value);
+
+    const record = value as Record<string, unknown>;
+    if (typeof record.reason === 'string' && record.reason.trim()) {
+      reasons.push(record.reason);
+    }
+    for (const key of ['data', 'shortMessage', 'details', 'message', 'executionError']) {
+      visit(record[key], depth + 1);
+    }
+    for (const key of ['error', 'cause', 'originalError', 'info']) {
+      visit(record[key], depth + 1);
+    }
+  };
+
+  visit(error, 0);
+  return { data, reasons, texts };
+}
+
+// ERC20 errors take arguments, so their selectors need the full signature
+function customErrorSignature(name: string): string {
+  switch (name) {
+    case 'ERC20InsufficientBalance':
+    case 'ERC20InsufficientAllowance':
+      return `${name}(address,uint256,uint256)`;
+    case 'ERC2612ExpiredSignature':
+      return `${name}(uint256)`;
+    case 'ERC2612InvalidSigner':
+      return `${name}(address,address)`;
+    default:
+      return `${name}()`;
+  }
+}
+
+function toPascalCase(name: string): string {
+  return name
+    .toLowerCase()
+    .split('_')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join('');
+}
@@ -0,0 +1,61 @@
+/**
+ * @fileoverview Append-only JSON-lines history of recurring supply runs
+ *
+ * Kept next to the supertransaction journal; each line is one run of one
+ * schedule, so a month of simulated runs can be audited or charted afterwards.
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+
+import type { RecurringSupplyRun, RunHistory } from '../types';
+import { log } from './logger';
+import { parseJsonLine, serializeJsonLine } from './journal';
+
+export const RUN_HISTORY_FILE = 'recurring-supply.jsonl';
+
+/**
+ * Open (or lazily create) the run history in `dir`
+ *
+ * Like the journal, writes never throw: the supply already happened.
+ */
+export function createRunHistory(dir: string): RunHistory {
+  const file = join(dir, RUN_HISTORY_FILE);
+
+  return {
+    file,
+    append(run: RecurringSupplyRun): void {
+      try {
+        mkdirSync(dir, { recursive: true });
+        appendFileSync(file, `${serializeJsonLine(run)}\n`);
+      } catch (error) {
+        log.warn('Could not write to the run history', {
+          file,
+          scheduleId: run.scheduleId,
+          run: run.run,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    },
+    runs: scheduleId => readRunHistory(file)
+      .filter(run => scheduleId === undefined || run.scheduleId === scheduleId),
+  };
+}
+
+/**
+ * Read every run of a history file, skipping lines a crash left half-written
+ */
+export function readRunHistory(file: string): RecurringSupplyRun[] {
+  if (!existsSync(file)) {
+    return [];
+  }
+
+  return readFileSync(file, 'utf8').split('\n').filter(Boolean).flatMap(line => {
+    try {
+      return [parseJsonLine<RecurringSupplyRun>(line)];
+    } catch {
+      log.debug('Skipping unreadable run history line', { file, line: line.slice(0, 80) });
+      return [];
+    }
+  });
+}
@@ -0,0 +1,25 @@
+/**
+ * @fileoverview Waiting helpers shared by pollers, schedulers and retries
+ */
+
+/**
+ * Wait `ms` milliseconds, or less if `signal` aborts first
+ *
+ * Resolves either way; callers check `signal.aborted` to tell which happened.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done, { once: true });
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+  });
+}
@@ -0,0 +1,57 @@
+/**
+ * @fileoverview Reserve position values, collateral flags, APYs from ray rates and WAD health factors
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { RAY, healthFactorToWad, rayRateToApy } from '../../src/app/aave-account';
+import { toReservePosition, type ReservePositionReads } from '../../src/app/aave-positions';
+import { USDC_RESERVE } from '../helpers/sdk-stub';
+
+const READS: ReservePositionReads = {
+  reserveId: 3n,
+  liquidityRate: RAY / 20n, // 5% APR
+  variableBorrowRate: RAY / 10n,
+  stableBorrowRate: 0n,
+  supplied: 250_000_000n, // 250 USDC
+  variableDebt: 40_000_000n,
+  stableDebt: 10_000_000n,
+  price: 100_000_000n, // $1.00 with 8 decimals
+};
+
+describe('healthFactorToWad', () => {
+  it('converts values Number#toString would write in exponent notation', () => {
+    assert.equal(healthFactorToWad(1.5), 1_500_000_000_000_000_000n);
+    assert.equal(healthFactorToWad(1e-7), 100_000_000_000n);
+    assert.equal(healthFactorToWad(1e21), 10n ** 39n);
+  });
+});
+
+describe('rayRateToApy', () => {
+  it('compounds a RAY APR per second', () => {
+    assert.equal(rayRateToApy(0n), 0);
+    assert.ok(Math.abs(rayRateToApy(RAY / 20n) - (Math.exp(0.05) - 1)) < 1e-6);
+    assert.ok(rayRateToApy(RAY / 20n) > 0.05);
+  });
+});
+
+describe('toReservePosition', () => {
+  it('values balances in base currency and converts rates', () => {
+    const position = toReservePosition(USDC_RESERVE, READS, 0n);
+
+    assert.equal(position.symbol, 'USDC');
+    assert.equal(position.suppliedBase, 25_000_000_000n);
+    assert.equal(position.debtBase, 5_000_000_000n);
+    assert.equal(position.supplyApy, rayRateToApy(RAY / 20n));
+    assert.equal(position.stableBorrowApy, 0);
+  });
+
+  it('reads the collateral bit of the reserve from the user configuration', () => {
+    const collateralBit = 1n << (READS.reserveId * 2n + 1n);
+    const borrowingBit = 1n << (READS.reserveId * 2n);
+
+    assert.equal(toReservePosition(USDC_RESERVE, READS, collateralBit).usedAsCollateral, true);
+    assert.equal(toReservePosition(USDC_RESERVE, READS, borrowingBit).usedAsCollateral, false);
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * @fileoverview Comet account valuation, health factor projection and per-second rate conversion
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { ethers } from 'ethers';
+
+import { WAD } from '../../src/app/aave-account';
+import {
+  COMET_FACTOR_SCALE,
+  cometRateToApy,
+  projectCometHealthFactor,
+  toCometAccountData,
+  toCometPositions,
+  type CometAccountReads,
+  type CometRateReads,
+} from '../../src/app/compound-account';
+import { COMET_USDC_MARKET } from '../helpers/sdk-stub';
+
+const [WETH_ASSET] = COMET_USDC_MARKET.collaterals;
+
+const READS: CometAccountReads = {
+  baseSupplied: 0n,
+  baseBorrowed: 1_000_000_000n, // 1,000 USDC
+  basePrice: 100_000_000n, // $1.00 with 8 decimals
+  collaterals: [{ asset: WETH_ASSET!, balance: 10n ** 18n, price: 200_000_000_000n }], // 1 WETH at $2,000
+};
+
+// 5% APR in per-second terms
+const RATES: CometRateReads = {
+  utilization: COMET_FACTOR_SCALE / 2n,
+  supplyRate: COMET_FACTOR_SCALE / 20n / 31_536_000n,
+  borrowRate: COMET_FACTOR_SCALE / 10n / 31_536_000n,
+};
+
+describe('toCometAccountData', () => {
+  it('weights collateral by the borrow and liquidation factors', () => {
+    const account = toCometAccountData(COMET_USDC_MARKET, READS);
+
+    assert.equal(account.collateralBase, 200_000_000_000n);
+    assert.equal(account.debtBase, 100_000_000_000n);
+    assert.equal(account.borrowCapacityBase, 165_000_000_000n);
+    assert.equal(account.liquidationCapacityBase, 179_000_000_000n);
+    assert.equal(account.healthFactor, (179n * WAD) / 100n);
+  });
+
+  it('reports max uint256 without debt', () => {
+    const account = toCometAccountData(COMET_USDC_MARKET, { ...READS, baseBorrowed: 0n });
+
+    assert.equal(account.healthFactor, ethers.MaxUint256);
+  });
+});
+
+describe('projectCometHealthFactor', () => {
+  it('divides the liquidation capacity by the debt after the borrow', () => {
+    const account = toCometAccountData(COMET_USDC_MARKET, READS);
+
+    assert.equal(projectCometHealthFactor(account, 79_000_000_000n), WAD);
+    assert.ok(projectCometHealthFactor(account, 1n) < account.healthFactor);
+  });
+});
+
+describe('cometRateToApy', () => {
+  it('compounds a per-second rate over a year', () => {
+    assert.equal(cometRateToApy(0n), 0);
+    assert.ok(Math.abs(cometRateToApy(RATES.supplyRate) - (Math.exp(0.05) - 1)) < 1e-6);
+  });
+});
+
+describe('toCometPositions', () => {
+  it('lists the base borrow with its APY and collateral that earns nothing', () => {
+    const [base, weth] = toCometPositions(COMET_USDC_MARKET, READS, RATES);
+
+    assert.equal(base?.symbol, 'USDC');
+    assert.equal(base?.debt, 1_000_000_000n);
+    assert.equal(base?.usedAsCollateral, false);
+    assert.equal(base?.borrowApy, cometRateToApy(RATES.borrowRate));
+
+    assert.equal(weth?.symbol, 'WETH');
+    assert.equal(weth?.suppliedBase, 200_000_000_000n);
+    assert.equal(weth?.usedAsCollateral, true);
+    assert.equal(weth?.supplyApy, 0);
+    assert.equal(weth?.borrowApy, undefined);
+  });
+
+  it('omits the base asset when the account neither supplies nor borrows it', () => {
+    const positions = toCometPositions(COMET_USDC_MARKET, { ...READS, baseBorrowed: 0n }, RATES);
+
+    assert.deepEqual(positions.map(position => position.symbol), ['WETH']);
+  });
+});
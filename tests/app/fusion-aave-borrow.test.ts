@@ -0,0 +1,96 @@
+/**
+ * @fileoverview AAVE borrow guard and request builder against a stubbed orchestrator and Pool
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { decodeFunctionData, maxUint256 } from 'viem';
+
+import { assessBorrow, buildBorrowRequest } from '../../src/app/fusion-aave-borrow';
+import type { FusionRouting } from '../../src/app/fusion-execution';
+import { TransactionError, type AaveAccountData } from '../../src/types';
+import { AAVE_DEBT_TOKEN_ABI } from '../../src/utils/contracts';
+import { EOA, NEXUS, POOL, USDC, USDC_RESERVE, builtCall, createStubSdk } from '../helpers/sdk-stub';
+
+const ROUTING: FusionRouting = { recipient: EOA, positionAccount: EOA, feeToken: USDC, triggerMode: 'auto' };
+
+// $10,000 of collateral with an 85% liquidation threshold and $8,000 borrowable, in 8-decimal base units
+const ACCOUNT: AaveAccountData = {
+  totalCollateralBase: 1_000_000_000_000n,
+  totalDebtBase: 0n,
+  availableBorrowsBase: 800_000_000_000n,
+  currentLiquidationThreshold: 8_500n,
+  ltv: 8_000n,
+  healthFactor: maxUint256,
+};
+
+const usdc = (amount: number) => BigInt(amount) * 1_000_000n;
+
+describe('assessBorrow', () => {
+  it('projects the health factor after the borrow', async () => {
+    const { sdk } = createStubSdk({ accountData: ACCOUNT });
+
+    const { accountBefore, projectedHealthFactor } = await assessBorrow(
+      sdk, USDC_RESERVE, { asset: 'USDC', amount: usdc(1_000) }
+    );
+
+    assert.deepEqual(accountBefore, ACCOUNT);
+    assert.equal(projectedHealthFactor, 8_500_000_000_000_000_000n);
+  });
+
+  it('refuses borrows beyond the available borrowing power', async () => {
+    const { sdk } = createStubSdk({ accountData: ACCOUNT });
+
+    await assert.rejects(assessBorrow(sdk, USDC_RESERVE, { asset: 'USDC', amount: usdc(9_000) }), (error: unknown) =>
+      error instanceof TransactionError && error.message.includes('exceeds available borrowing power')
+    );
+  });
+
+  it('refuses borrows projected below the configured floor', async () => {
+    const { sdk } = createStubSdk({ accountData: ACCOUNT });
+
+    await assert.rejects(assessBorrow(sdk, USDC_RESERVE, { asset: 'USDC', amount: usdc(6_000) }), (error: unknown) =>
+      error instanceof TransactionError &&
+      error.message === 'Borrow refused: projected health factor 1.4167 is below the configured floor of 1.5'
+    );
+  });
+
+  it('lets a per-call floor override the configured one', async () => {
+    const { sdk } = createStubSdk({ accountData: ACCOUNT });
+
+    await assert.rejects(assessBorrow(sdk, USDC_RESERVE, { asset: 'USDC', amount: usdc(1_000), minHealthFactor: 9 }));
+    const { projectedHealthFactor } = await assessBorrow(
+      sdk, USDC_RESERVE, { asset: 'USDC', amount: usdc(6_000), minHealthFactor: 1.2 }
+    );
+    assert.ok(projectedHealthFactor > 1_200_000_000_000_000_000n);
+  });
+
+  it('refuses a non-positive amount before reading the account', async () => {
+    const { sdk } = createStubSdk();
+
+    await assert.rejects(assessBorrow(sdk, USDC_RESERVE, { asset: 'USDC', amount: 0n }), (error: unknown) =>
+      error instanceof TransactionError && error.message === 'Borrow amount must be positive'
+    );
+  });
+});
+
+describe('buildBorrowRequest', () => {
+  it('borrows for the EOA and forwards the funds, triggered by approveDelegation', async () => {
+    const { sdk, calls } = createStubSdk();
+
+    const request = await buildBorrowRequest(sdk, USDC_RESERVE, usdc(500), 'variable', { ...ROUTING, recipient: NEXUS });
+
+    const borrow = builtCall(calls, 0);
+    const forward = builtCall(calls, 1);
+    assert.equal(borrow.to, POOL);
+    assert.deepEqual(borrow.args, [USDC, usdc(500), 2n, 0, EOA]);
+    assert.equal(forward.functionName, 'transfer');
+    assert.deepEqual(forward.args, [NEXUS, usdc(500)]);
+
+    const { call } = request.trigger as { call: { to: string; data: `0x${string}` } };
+    assert.equal(call.to, USDC_RESERVE.variableDebtToken);
+    const decoded = decodeFunctionData({ abi: AAVE_DEBT_TOKEN_ABI, data: call.data });
+    assert.equal(decoded.functionName, 'approveDelegation');
+    assert.deepEqual(decoded.args, [NEXUS, usdc(500)]);
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * @fileoverview executeFusionTransaction against a stubbed orchestrator and MEE client
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { executeFusionTransaction } from '../../src/app/fusion-aave-demo';
+import { resolveRouting, type FusionRouting } from '../../src/app/fusion-execution';
+import { TransactionError } from '../../src/types';
+import {
+  EOA,
+  NEXUS,
+  POOL,
+  SUPERTX_HASH,
+  USDC,
+  USDC_RESERVE,
+  builtCall,
+  createStubSdk,
+  createSupplyReceipt,
+} from '../helpers/sdk-stub';
+
+const ROUTING: FusionRouting = { recipient: EOA, positionAccount: EOA, feeToken: USDC, triggerMode: 'auto' };
+
+describe('executeFusionTransaction', () => {
+  it('builds approve then supply for the reserve and the recipient', async () => {
+    const { sdk, calls } = createStubSdk();
+
+    await executeFusionTransaction(sdk, USDC_RESERVE, 50_000_000n, ROUTING);
+
+    const approve = builtCall(calls, 0);
+    const supply = builtCall(calls, 1);
+    assert.equal(calls.buildComposable.length, 2);
+
+    assert.equal(approve.to, USDC);
+    assert.equal(approve.functionName, 'approve');
+    assert.deepEqual(approve.args, [POOL, 50_000_000n]);
+
+    assert.equal(supply.to, POOL);
+    assert.equal(supply.functionName, 'supply');
+    assert.deepEqual(supply.args, [USDC, 50_000_000n, EOA, 0]);
+    assert.equal(supply.chainId, 1);
+  });
+
+  it('triggers on the supplied amount and pays the fee in the routed token', async () => {
+    const { sdk, calls } = createStubSdk();
+
+    await executeFusionTransaction(sdk, USDC_RESERVE, 50_000_000n, ROUTING);
+
+    const [quote] = calls.getPermitQuote;
+    assert.ok(quote);
+    assert.deepEqual(quote.trigger, { chainId: 1, tokenAddress: USDC, amount: 50_000_000n });
+    assert.deepEqual(quote.feeToken, { address: USDC, chainId: 1 });
+    assert.equal(quote.instructions.length, 2);
+  });
+
+  it('signs a permit when the MEE node lists the token as permit-enabled', async () => {
+    const { sdk, calls } = createStubSdk({ permitEnabled: true });
+
+    const result = await executeFusionTransaction(sdk, USDC_RESERVE, 1n, ROUTING);
+
+    assert.equal(result.triggerMode, 'permit');
+    assert.equal(calls.signPermitQuote.length, 1);
+    assert.equal(calls.signOnChainQuote.length, 0);
+    assert.deepEqual(calls.executeSignedQuote[0], { signedQuote: { signed: 'permit' } });
+  });
+
+  it('falls back to an on-chain trigger when permits are not supported', async () => {
+    const { sdk, calls } = createStubSdk({ permitEnabled: false });
+
+    const result = await executeFusionTransaction(sdk, USDC_RESERVE, 1n, ROUTING);
+
+    assert.equal(result.triggerMode, 'onchain');
+    assert.equal(calls.getOnChainQuote.length, 1);
+    assert.equal(calls.signOnChainQuote.length, 1);
+  });
+
+  it('honours an explicit on-chain trigger mode', async () => {
+    const { sdk, calls } = createStubSdk({ permitEnabled: true });
+
+    await executeFusionTransaction(sdk, USDC_RESERVE, 1n, { ...ROUTING, triggerMode: 'onchain' });
+
+    assert.equal(calls.getPermitQuote.length, 0);
+    assert.equal(calls.signOnChainQuote.length, 1);
+  });
+
+  it('decodes the aTokens minted, interest, fee and gas from the receipt', async () => {
+    const { sdk } = createStubSdk({
+      receipt: createSupplyReceipt({ amount: 50_000_000n, balanceIncrease: 1_234n, fee: 75_000n }),
+    });
+
+    const result = await executeFusionTransaction(sdk, USDC_RESERVE, 50_000_000n, ROUTING);
+
+    assert.equal(result.hash, SUPERTX_HASH);
+    assert.equal(result.success, true);
+    assert.equal(result.supplyAmount, 50_000_000n);
+    assert.equal(result.aTokensReceived, 50_000_000n);
+    assert.equal(result.interestAccrued, 1_234n);
+    assert.equal(result.liquidityIndex, 10n ** 27n);
+    assert.deepEqual(result.fee, { token: USDC, quoted: 75_000n, charged: 75_000n });
+    assert.equal(result.gasUsed, 210_000n);
+    assert.equal(result.steps?.length, 2);
+  });
+
+  it('fails with the receipt details when the supertransaction fails', async () => {
+    const { sdk } = createStubSdk({
+      receipt: {
+        transactionStatus: 'MINED_FAIL',
+        hash: SUPERTX_HASH,
+        error: { errors: ['user op 1 reverted', 'insufficient allowance'] },
+      },
+    });
+
+    await assert.rejects(
+      executeFusionTransaction(sdk, USDC_RESERVE, 1n, ROUTING),
+      (error: unknown) =>
+        error instanceof TransactionError &&
+        error.message.includes('Fusion transaction failed') &&
+        error.message.includes('user op 1 reverted; insufficient allowance')
+    );
+  });
+
+  it('supplies on behalf of the Nexus account when it owns positions', async () => {
+    const { sdk, calls } = createStubSdk({
+      positionOwner: 'nexus',
+      receipt: createSupplyReceipt({ onBehalfOf: NEXUS }),
+    });
+    const routing = resolveRouting(sdk, {}, USDC);
+
+    const result = await executeFusionTransaction(sdk, USDC_RESERVE, 50_000_000n, routing);
+
+    assert.equal(routing.recipient, EOA);
+    assert.deepEqual(builtCall(calls, 1).args, [USDC, 50_000_000n, NEXUS, 0]);
+    assert.equal(result.aTokensReceived, 50_000_000n);
+  });
+
+  it('fails when the supply mined but no aTokens were minted to the recipient', async () => {
+    const { sdk } = createStubSdk({ receipt: createSupplyReceipt({ onBehalfOf: NEXUS }) });
+
+    await assert.rejects(
+      executeFusionTransaction(sdk, USDC_RESERVE, 1n, ROUTING),
+      (error: unknown) => error instanceof TransactionError && /no aEthUSDC mint was found/.test(error.message)
+    );
+  });
+});
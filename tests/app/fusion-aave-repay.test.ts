@@ -0,0 +1,104 @@
+/**
+ * @fileoverview AAVE repay amount resolution and request builder against a stubbed orchestrator
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { buildRepayRequest, resolveRepayAmount } from '../../src/app/fusion-aave-repay';
+import type { FusionRouting } from '../../src/app/fusion-execution';
+import { TransactionError } from '../../src/types';
+import { EOA, NEXUS, POOL, USDC, USDC_RESERVE, builtCall, createStubSdk } from '../helpers/sdk-stub';
+
+const ROUTING: FusionRouting = { recipient: EOA, positionAccount: EOA, feeToken: USDC, triggerMode: 'auto' };
+
+describe('resolveRepayAmount', () => {
+  it('pulls the debt plus the default interest buffer in all mode', () => {
+    assert.equal(resolveRepayAmount({ asset: 'USDC', mode: 'all' }, USDC_RESERVE, 'variable', 100_000_000n), 100_100_000n);
+  });
+
+  it('takes the interest buffer from the options', () => {
+    const options = { asset: 'USDC', mode: 'all', interestBufferBps: 50 } as const;
+    assert.equal(resolveRepayAmount(options, USDC_RESERVE, 'variable', 100_000_000n), 100_500_000n);
+  });
+
+  it('pulls at least one extra unit when the buffer rounds to zero', () => {
+    assert.equal(resolveRepayAmount({ asset: 'USDC', mode: 'all' }, USDC_RESERVE, 'variable', 500n), 501n);
+  });
+
+  it('pulls exactly the requested amount in partial mode', () => {
+    const options = { asset: 'USDC', mode: 'partial', amount: 40_000_000n } as const;
+    assert.equal(resolveRepayAmount(options, USDC_RESERVE, 'variable', 100_000_000n), 40_000_000n);
+  });
+
+  it('refuses partial repays above the debt or without a positive amount', () => {
+    assert.throws(
+      () => resolveRepayAmount({ asset: 'USDC', mode: 'partial', amount: 100_000_001n }, USDC_RESERVE, 'variable', 100_000_000n),
+      (error: unknown) => error instanceof TransactionError && error.message.includes('exceeds debt')
+    );
+    assert.throws(
+      () => resolveRepayAmount({ asset: 'USDC', mode: 'partial', amount: 0n }, USDC_RESERVE, 'variable', 100_000_000n),
+      (error: unknown) => error instanceof TransactionError && error.message === 'Partial repay requires a positive amount'
+    );
+  });
+
+  it('refuses when there is no debt in the interest rate mode', () => {
+    assert.throws(
+      () => resolveRepayAmount({ asset: 'USDC', mode: 'all' }, USDC_RESERVE, 'stable', 0n),
+      (error: unknown) => error instanceof TransactionError && error.message === 'No stable USDC debt to repay'
+    );
+  });
+});
+
+describe('buildRepayRequest', () => {
+  it('repays an exact amount in partial mode', async () => {
+    const { sdk, calls } = createStubSdk();
+
+    const request = await buildRepayRequest(
+      sdk, USDC_RESERVE, { asset: 'USDC', mode: 'partial', amount: 40_000_000n }, 'variable', 40_000_000n, ROUTING
+    );
+
+    const approve = builtCall(calls, 0);
+    const repay = builtCall(calls, 1);
+    assert.equal(calls.buildComposable.length, 2);
+    assert.deepEqual(approve.args, [POOL, 40_000_000n]);
+    assert.deepEqual(repay.args, [USDC, 40_000_000n, 2n, EOA]);
+    assert.deepEqual(request.trigger, { chainId: 1, tokenAddress: USDC, amount: 40_000_000n });
+  });
+
+  it('repays the Nexus balance and sweeps the buffer back in all mode', async () => {
+    const { sdk, calls } = createStubSdk();
+
+    const request = await buildRepayRequest(
+      sdk, USDC_RESERVE, { asset: 'USDC', mode: 'all' }, 'variable', 100_100_000n, ROUTING
+    );
+
+    const approve = builtCall(calls, 0);
+    const repay = builtCall(calls, 1);
+    const sweep = builtCall(calls, 2);
+    const revoke = builtCall(calls, 3);
+    assert.equal(calls.buildComposable.length, 4);
+    assert.equal(approve.args[1], repay.args[1]);
+    assert.notEqual(repay.args[1], 100_100_000n);
+    assert.equal(repay.args[3], EOA);
+    assert.equal(sweep.functionName, 'transfer');
+    assert.equal(sweep.to, USDC);
+    assert.equal(sweep.args[0], EOA);
+    assert.deepEqual(revoke.args, [POOL, 0n]);
+    assert.deepEqual(request.trigger, { chainId: 1, tokenAddress: USDC, amount: 100_100_000n });
+  });
+
+  it('refuses all mode while the Nexus account already holds the asset', async () => {
+    const { sdk, calls } = createStubSdk({
+      balanceOf: (token, account) => token === USDC && account === NEXUS ? 5_000_000n : 0n,
+    });
+
+    await assert.rejects(
+      buildRepayRequest(sdk, USDC_RESERVE, { asset: 'USDC', mode: 'all' }, 'variable', 100_100_000n, ROUTING),
+      (error: unknown) =>
+        error instanceof TransactionError &&
+        error.message.includes(`Nexus account ${NEXUS} already holds 5.0000 USDC`)
+    );
+    assert.equal(calls.buildComposable.length, 0);
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * @fileoverview AAVE withdraw request builder against a stubbed orchestrator
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { maxUint256 } from 'viem';
+
+import { buildWithdrawRequest } from '../../src/app/fusion-aave-withdraw';
+import { TransactionError } from '../../src/types';
+import { AUSDC, EOA, NEXUS, POOL, USDC, USDC_RESERVE, builtCall, createStubSdk } from '../helpers/sdk-stub';
+
+describe('buildWithdrawRequest', () => {
+  it('redeems everything with the max sentinel, triggered by all of the EOA aTokens', async () => {
+    const { sdk, calls } = createStubSdk();
+
+    const request = await buildWithdrawRequest(sdk, USDC_RESERVE, { mode: 'max' }, 50_000_000n);
+
+    const withdraw = builtCall(calls, 0);
+    assert.equal(calls.buildComposable.length, 1);
+    assert.equal(withdraw.to, POOL);
+    assert.equal(withdraw.functionName, 'withdraw');
+    assert.deepEqual(withdraw.args, [USDC, maxUint256, EOA]);
+    assert.deepEqual(request.trigger, { chainId: 1, tokenAddress: AUSDC, useMaxAvailableFunds: true });
+    assert.deepEqual(request.feeToken, { address: AUSDC, chainId: 1 });
+  });
+
+  it('pulls the requested aTokens and redeems what arrived in the Nexus account', async () => {
+    const { sdk, calls } = createStubSdk();
+
+    const request = await buildWithdrawRequest(sdk, USDC_RESERVE, { mode: 'partial', amount: 10_000_000n }, 10_000_000n);
+
+    const withdraw = builtCall(calls, 0);
+    assert.equal(withdraw.args[0], USDC);
+    assert.notEqual(withdraw.args[1], maxUint256);
+    assert.notEqual(withdraw.args[1], 10_000_000n);
+    assert.deepEqual(request.trigger, { chainId: 1, tokenAddress: AUSDC, amount: 10_000_000n });
+  });
+
+  it('sends the redeemed asset to the recipient', async () => {
+    const { sdk, calls } = createStubSdk();
+
+    await buildWithdrawRequest(sdk, USDC_RESERVE, { mode: 'max', recipient: NEXUS }, 50_000_000n);
+
+    assert.equal(builtCall(calls, 0).args[2], NEXUS);
+  });
+
+  it('refuses while the Nexus account already holds aTokens of the reserve', async () => {
+    const { sdk, calls } = createStubSdk({
+      balanceOf: (token, account) => token === AUSDC && account === NEXUS ? 1_000_000n : 0n,
+    });
+
+    await assert.rejects(buildWithdrawRequest(sdk, USDC_RESERVE, { mode: 'max' }, 50_000_000n), (error: unknown) =>
+      error instanceof TransactionError &&
+      error.message.includes(`Nexus account ${NEXUS} already holds 1.0000 aEthUSDC`)
+    );
+    assert.equal(calls.buildComposable.length, 0);
+  });
+});
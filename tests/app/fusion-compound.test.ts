@@ -0,0 +1,114 @@
+/**
+ * @fileoverview Compound v3 request builders against a stubbed orchestrator
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { decodeFunctionData, maxUint256 } from 'viem';
+
+import {
+  buildCompoundBorrowRequest,
+  buildCompoundRepayRequest,
+  buildCompoundSupplyRequest,
+  buildCompoundWithdrawRequest,
+} from '../../src/app/fusion-compound';
+import type { FusionRouting } from '../../src/app/fusion-execution';
+import { COMPOUND_COMET_ABI } from '../../src/utils/contracts';
+import { COMET, COMET_USDC_MARKET, EOA, NEXUS, USDC, WETH, builtCall, createStubSdk } from '../helpers/sdk-stub';
+
+const ROUTING: FusionRouting = { recipient: EOA, positionAccount: EOA, feeToken: USDC, triggerMode: 'auto' };
+const [WETH_ASSET] = COMET_USDC_MARKET.collaterals;
+
+describe('buildCompoundSupplyRequest', () => {
+  it('approves Comet and supplies to the position account', async () => {
+    const { sdk, calls } = createStubSdk();
+
+    const request = await buildCompoundSupplyRequest(sdk, COMET_USDC_MARKET, WETH_ASSET!, 10n ** 18n, ROUTING);
+
+    const approve = builtCall(calls, 0);
+    const supply = builtCall(calls, 1);
+    assert.deepEqual(approve.args, [COMET, 10n ** 18n]);
+    assert.equal(approve.to, WETH);
+    assert.equal(supply.functionName, 'supplyTo');
+    assert.deepEqual(supply.args, [EOA, WETH, 10n ** 18n]);
+    assert.deepEqual(request.trigger, { chainId: 1, tokenAddress: WETH, amount: 10n ** 18n });
+  });
+});
+
+describe('buildCompoundWithdrawRequest', () => {
+  it('is triggered by the EOA allowing its Nexus account on Comet', async () => {
+    const { sdk } = createStubSdk();
+
+    const request = await buildCompoundWithdrawRequest(
+      sdk, COMET_USDC_MARKET, COMET_USDC_MARKET.base, 'partial', 5_000_000n, ROUTING
+    );
+
+    assert.ok('call' in request.trigger);
+    const { call } = request.trigger as { call: { to: string; data: `0x${string}` } };
+    assert.equal(call.to, COMET);
+    const decoded = decodeFunctionData({ abi: COMPOUND_COMET_ABI, data: call.data });
+    assert.equal(decoded.functionName, 'allow');
+    assert.deepEqual(decoded.args, [NEXUS, true]);
+  });
+
+  it('withdraws the full base balance with the max sentinel', async () => {
+    const { sdk, calls } = createStubSdk();
+
+    await buildCompoundWithdrawRequest(sdk, COMET_USDC_MARKET, COMET_USDC_MARKET.base, 'max', 5_000_000n, ROUTING);
+
+    const withdraw = builtCall(calls, 0);
+    assert.equal(withdraw.functionName, 'withdrawFrom');
+    assert.deepEqual(withdraw.args, [EOA, EOA, USDC, maxUint256]);
+  });
+
+  it('withdraws collateral by its exact balance', async () => {
+    const { sdk, calls } = createStubSdk();
+
+    await buildCompoundWithdrawRequest(sdk, COMET_USDC_MARKET, WETH_ASSET!, 'max', 10n ** 18n, ROUTING);
+
+    const withdraw = builtCall(calls, 0);
+    assert.deepEqual(withdraw.args, [EOA, EOA, WETH, 10n ** 18n]);
+  });
+});
+
+describe('buildCompoundBorrowRequest', () => {
+  it('withdraws base asset from the EOA to the recipient', async () => {
+    const { sdk, calls } = createStubSdk();
+
+    await buildCompoundBorrowRequest(sdk, COMET_USDC_MARKET, 200_000_000n, ROUTING);
+
+    const borrow = builtCall(calls, 0);
+    assert.equal(calls.buildComposable.length, 1);
+    assert.deepEqual(borrow.args, [EOA, EOA, USDC, 200_000_000n]);
+  });
+});
+
+describe('buildCompoundRepayRequest', () => {
+  it('repays an exact amount in partial mode', async () => {
+    const { sdk, calls } = createStubSdk();
+
+    const request = await buildCompoundRepayRequest(sdk, COMET_USDC_MARKET, 'partial', 50_000_000n, ROUTING);
+
+    const approve = builtCall(calls, 0);
+    const repay = builtCall(calls, 1);
+    assert.equal(calls.buildComposable.length, 2);
+    assert.deepEqual(approve.args, [COMET, 50_000_000n]);
+    assert.deepEqual(repay.args, [EOA, USDC, 50_000_000n]);
+    assert.deepEqual(request.trigger, { chainId: 1, tokenAddress: USDC, amount: 50_000_000n });
+  });
+
+  it('repays the live borrow balance and sweeps the buffer back in all mode', async () => {
+    const { sdk, calls } = createStubSdk();
+
+    await buildCompoundRepayRequest(sdk, COMET_USDC_MARKET, 'all', 50_050_000n, ROUTING);
+
+    const repay = builtCall(calls, 1);
+    const sweep = builtCall(calls, 2);
+    const revoke = builtCall(calls, 3);
+    assert.equal(calls.buildComposable.length, 4);
+    assert.deepEqual(repay.args, [EOA, USDC, maxUint256]);
+    assert.equal(sweep.functionName, 'transfer');
+    assert.equal(sweep.args[0], EOA);
+    assert.deepEqual(revoke.args, [COMET, 0n]);
+  });
+});
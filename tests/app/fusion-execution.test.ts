@@ -0,0 +1,122 @@
+/**
+ * @fileoverview Submission and receipt waiting never execute a supertransaction twice
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { buildSupplyRequest, executeFusionTransaction } from '../../src/app/fusion-aave-demo';
+import { executeFusionInstructions, waitForFusionReceipt, type FusionRouting } from '../../src/app/fusion-execution';
+import { SupertransactionSubmittedError, TransactionError } from '../../src/types';
+import { EOA, SUPERTX_HASH, TX_HASH, USDC, USDC_RESERVE, createStubSdk, createSupplyReceipt } from '../helpers/sdk-stub';
+
+const ROUTING: FusionRouting = { recipient: EOA, positionAccount: EOA, feeToken: USDC, triggerMode: 'auto' };
+const NO_DELAY = { pollIntervalMs: 0, retry: { initialDelayMs: 0 } };
+
+describe('executeFusionTransaction submission', () => {
+  it('waits on the quote hash after a lost submission response instead of resubmitting', async () => {
+    const { sdk, calls } = createStubSdk({
+      executeSignedQuote: async () => { throw new Error('request timed out (ETIMEDOUT)'); },
+    });
+
+    const execution = await executeFusionTransaction(sdk, USDC_RESERVE, 1n, ROUTING);
+
+    assert.equal(execution.hash, SUPERTX_HASH);
+    assert.equal(calls.executeSignedQuote.length, 1);
+    assert.deepEqual(calls.explorer.map(call => call.path), [`explorer/${SUPERTX_HASH}`]);
+  });
+
+  it('resumes waiting on the same hash when a watch gives up', async () => {
+    const { sdk, calls } = createStubSdk({
+      explorer: async poll => {
+        if (poll === 1) throw new Error('socket hang up');
+        return createSupplyReceipt();
+      },
+    });
+    const request = await buildSupplyRequest(sdk, USDC_RESERVE, 1n, ROUTING);
+
+    const outcome = await executeFusionInstructions(sdk, {
+      ...request,
+      watch: { ...NO_DELAY, retry: { attempts: 1 }, resume: { initialDelayMs: 0 } },
+    });
+
+    assert.equal(outcome.hash, SUPERTX_HASH);
+    assert.equal(calls.executeSignedQuote.length, 1);
+    assert.deepEqual(calls.explorer.map(call => call.path), Array(2).fill(`explorer/${SUPERTX_HASH}`));
+  });
+
+  it('keeps the hash on the error once resumed waits run out', async () => {
+    const { sdk, calls } = createStubSdk({
+      explorer: async () => { throw new Error('socket hang up'); },
+    });
+    const request = await buildSupplyRequest(sdk, USDC_RESERVE, 1n, ROUTING);
+
+    await assert.rejects(executeFusionInstructions(sdk, {
+      ...request,
+      watch: { ...NO_DELAY, retry: { attempts: 1 }, resume: { attempts: 3, initialDelayMs: 0 } },
+    }), (error: unknown) =>
+      error instanceof SupertransactionSubmittedError &&
+      error.hash === SUPERTX_HASH &&
+      error.message.includes('Do not resubmit')
+    );
+    assert.equal(calls.executeSignedQuote.length, 1);
+    assert.equal(calls.explorer.length, 3);
+  });
+
+  it('passes a rejection from the node through as a terminal error', async () => {
+    const { sdk } = createStubSdk({
+      executeSignedQuote: async () => { throw new Error('execution reverted: invalid signature'); },
+    });
+
+    await assert.rejects(executeFusionTransaction(sdk, USDC_RESERVE, 1n, ROUTING), (error: unknown) =>
+      error instanceof TransactionError && !(error instanceof SupertransactionSubmittedError)
+    );
+  });
+});
+
+describe('waitForFusionReceipt', () => {
+  it('resumes waiting on the same hash after transient failures', async () => {
+    const { sdk, calls } = createStubSdk({
+      explorer: async poll => {
+        if (poll < 3) throw new Error('fetch failed: ECONNRESET');
+        return createSupplyReceipt();
+      },
+    });
+
+    const receipt = await waitForFusionReceipt(sdk, SUPERTX_HASH, NO_DELAY);
+
+    assert.equal(receipt.transactionStatus, 'MINED_SUCCESS');
+    assert.deepEqual(calls.explorer.map(call => call.path), Array(3).fill(`explorer/${SUPERTX_HASH}`));
+    assert.deepEqual(calls.getSupertransactionReceipt.map(call => call.hash), [SUPERTX_HASH]);
+    assert.equal(calls.executeSignedQuote.length, 0);
+  });
+
+  it('keeps the hash on the error once retries run out', async () => {
+    const { sdk, calls } = createStubSdk({
+      explorer: async () => { throw new Error('socket hang up'); },
+    });
+
+    await assert.rejects(waitForFusionReceipt(sdk, SUPERTX_HASH, { ...NO_DELAY, retry: { initialDelayMs: 0, attempts: 2 } }), (error: unknown) =>
+      error instanceof SupertransactionSubmittedError && error.hash === SUPERTX_HASH
+    );
+    assert.equal(calls.explorer.length, 2);
+  });
+
+  it('does not retry a supertransaction the node reports as failed', async () => {
+    const { sdk, calls } = createStubSdk({
+      explorer: async () => ({
+        userOps: [
+          { chainId: '1', executionStatus: 'MINED_SUCCESS', executionData: TX_HASH },
+          { chainId: '1', executionStatus: 'MINED_FAIL', executionData: TX_HASH },
+        ],
+      }),
+    });
+
+    await assert.rejects(waitForFusionReceipt(sdk, SUPERTX_HASH, NO_DELAY), (error: unknown) =>
+      error instanceof TransactionError &&
+      !(error instanceof SupertransactionSubmittedError) &&
+      error.message === 'Fusion transaction failed: [1] Transaction failed on-chain'
+    );
+    assert.equal(calls.explorer.length, 1);
+  });
+});
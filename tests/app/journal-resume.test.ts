@@ -0,0 +1,170 @@
+/**
+ * @fileoverview Journaling a supertransaction's lifecycle and resuming pending ones
+ */
+
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+
+import { executeFusionTransaction } from '../../src/app/fusion-aave-demo';
+import { type FusionRouting } from '../../src/app/fusion-execution';
+import { resumePendingSupertransactions } from '../../src/app/journal-resume';
+import type { SDKContext, TransactionJournal } from '../../src/types';
+import { createTransactionJournal, readJournalEntries } from '../../src/utils/journal';
+import { EOA, SUPERTX_HASH, USDC, USDC_RESERVE, createStubSdk, type StubOptions } from '../helpers/sdk-stub';
+
+const ROUTING: FusionRouting = { recipient: EOA, positionAccount: EOA, feeToken: USDC, triggerMode: 'auto' };
+const FAST = { pollIntervalMs: 0, retry: { initialDelayMs: 0, attempts: 1 } };
+
+let dir: string;
+let journal: TransactionJournal;
+
+function createJournaledSdk(options: StubOptions = {}): SDKContext {
+  return { ...createStubSdk(options).sdk, journal };
+}
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'journal-resume-test-'));
+  journal = createTransactionJournal(dir);
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe('executeFusionInstructions journaling', () => {
+  it('records the request, quote, submission, status and outcome', async () => {
+    await executeFusionTransaction(createJournaledSdk(), USDC_RESERVE, 50_000_000n, ROUTING);
+
+    const [record] = journal.records();
+    assert.equal(record?.hash, SUPERTX_HASH);
+    assert.equal(record?.state, 'succeeded');
+    assert.equal(record?.triggerMode, 'permit');
+    assert.equal(record?.request?.trigger.amount, 50_000_000n);
+    assert.deepEqual(record?.quotedFee, { token: USDC, amount: 100_000n });
+    assert.deepEqual(record?.statuses.map(change => change.status), ['MINED_SUCCESS']);
+    assert.equal(record?.gasUsed, 210_000n);
+    assert.equal(record?.fee?.charged, 100_000n);
+  });
+
+  it('journals a lost submission response and then the outcome it waited for', async () => {
+    const sdk = createJournaledSdk({
+      executeSignedQuote: async () => { throw new Error('request timed out (ETIMEDOUT)'); },
+    });
+
+    await executeFusionTransaction(sdk, USDC_RESERVE, 1n, ROUTING);
+
+    const entries = readJournalEntries(journal.file).map(entry => entry.type);
+    assert.deepEqual(entries, ['quoted', 'submitting', 'interrupted', 'status', 'settled']);
+    assert.equal(journal.records()[0]?.state, 'succeeded');
+  });
+
+  it('journals a pending record before signing and keeps it pending when an on-chain trigger fails', async () => {
+    const sdk = createJournaledSdk({
+      permitEnabled: false,
+      signOnChainQuote: async () => { throw new Error('transaction receipt timed out'); },
+    });
+
+    await assert.rejects(executeFusionTransaction(sdk, USDC_RESERVE, 1n, ROUTING));
+
+    const entries = readJournalEntries(journal.file).map(entry => entry.type);
+    assert.deepEqual(entries, ['quoted', 'submitting', 'interrupted']);
+    assert.equal(journal.pending()[0]?.state, 'interrupted');
+  });
+
+  it('marks quotes the node refused as rejected', async () => {
+    const sdk = createJournaledSdk({
+      executeSignedQuote: async () => { throw new Error('execution reverted: invalid signature'); },
+    });
+
+    await assert.rejects(executeFusionTransaction(sdk, USDC_RESERVE, 1n, ROUTING));
+
+    assert.equal(journal.records()[0]?.state, 'rejected');
+    assert.deepEqual(journal.pending(), []);
+  });
+});
+
+describe('resumePendingSupertransactions', () => {
+  it('waits for pending supertransactions and journals their outcome', async () => {
+    journal.append(SUPERTX_HASH, { type: 'submitted' });
+    const sdk = createJournaledSdk();
+
+    const results = await resumePendingSupertransactions(sdk, FAST);
+
+    assert.deepEqual(results.map(result => [result.hash, result.state]), [[SUPERTX_HASH, 'succeeded']]);
+    assert.equal(journal.records()[0]?.state, 'succeeded');
+    assert.deepEqual(journal.pending(), []);
+  });
+
+  it('leaves a supertransaction pending when its status is still unknown', async () => {
+    journal.append(SUPERTX_HASH, { type: 'submitted' });
+    const sdk = createJournaledSdk({ explorer: async () => { throw new Error('socket hang up'); } });
+
+    const [result] = await resumePendingSupertransactions(sdk, FAST);
+
+    assert.equal(result?.state, 'interrupted');
+    assert.equal(journal.pending()[0]?.state, 'interrupted');
+  });
+
+  it('records failures reported by the node', async () => {
+    journal.append(SUPERTX_HASH, { type: 'submitted' });
+    const sdk = createJournaledSdk({
+      explorer: async () => ({ userOps: [{ chainId: '1', executionStatus: 'FAILED', executionError: 'simulation failed' }] }),
+    });
+
+    const [result] = await resumePendingSupertransactions(sdk, FAST);
+
+    assert.equal(result?.state, 'failed');
+    assert.equal(journal.records()[0]?.error, 'Fusion transaction failed: [0] simulation failed');
+  });
+
+  it('watches a supertransaction a crashed run was sending once the node confirms it has it', async () => {
+    journal.append(SUPERTX_HASH, { type: 'submitting' });
+
+    const [result] = await resumePendingSupertransactions(createJournaledSdk(), FAST);
+
+    assert.equal(result?.state, 'succeeded');
+    assert.deepEqual(journal.pending(), []);
+  });
+
+  it('marks a supertransaction the node never received as rejected', async () => {
+    journal.append(SUPERTX_HASH, { type: 'submitting' });
+    const sdk = createJournaledSdk({
+      explorer: async () => { throw new Error(`Supertransaction ${SUPERTX_HASH} not found`); },
+    });
+
+    const [result] = await resumePendingSupertransactions(sdk, FAST);
+
+    assert.equal(result?.state, 'rejected');
+    assert.equal(journal.records()[0]?.state, 'rejected');
+    assert.deepEqual(journal.pending(), []);
+  });
+
+  it('marks an interrupted supertransaction the node never received as rejected', async () => {
+    journal.append(SUPERTX_HASH, { type: 'interrupted', error: 'request timed out (ETIMEDOUT)' });
+    const sdk = createJournaledSdk({
+      explorer: async () => { throw new Error(`Supertransaction ${SUPERTX_HASH} not found`); },
+    });
+
+    const [result] = await resumePendingSupertransactions(sdk, FAST);
+
+    assert.equal(result?.state, 'rejected');
+    assert.deepEqual(journal.pending(), []);
+  });
+
+  it('keeps a supertransaction being sent pending while the node cannot be asked', async () => {
+    journal.append(SUPERTX_HASH, { type: 'submitting' });
+    const sdk = createJournaledSdk({ explorer: async () => { throw new Error('socket hang up'); } });
+
+    const [result] = await resumePendingSupertransactions(sdk, FAST);
+
+    assert.equal(result?.state, 'submitting');
+    assert.equal(journal.pending()[0]?.state, 'submitting');
+  });
+
+  it('returns nothing when no supertransaction is pending', async () => {
+    assert.deepEqual(await resumePendingSupertransactions(createJournaledSdk(), FAST), []);
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * @fileoverview Position owner routing, Nexus balances and aToken migrations between the EOA and Nexus
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { getSnapshotBalance } from '../../src/app/balances';
+import { resolvePositionAccount, resolveRouting } from '../../src/app/fusion-execution';
+import { quoteFusionAaveWithdraw } from '../../src/app/fusion-aave-withdraw';
+import { buildMigrationRequest } from '../../src/app/position-migration';
+import { TransactionError, type BalanceSnapshot } from '../../src/types';
+import { AUSDC, EOA, NEXUS, USDC, USDC_RESERVE, builtCall, createStubSdk } from '../helpers/sdk-stub';
+
+const RECIPIENT = '0x4444444444444444444444444444444444444444' as const;
+
+describe('position owner routing', () => {
+  it('resolves the configured owner and lets an option or recipient override it', () => {
+    const { sdk } = createStubSdk({ positionOwner: 'nexus' });
+
+    assert.equal(resolvePositionAccount(sdk), NEXUS);
+    assert.equal(resolvePositionAccount(sdk, 'eoa'), EOA);
+    assert.equal(resolveRouting(sdk, { positionOwner: 'eoa' }, USDC).positionAccount, EOA);
+    assert.deepEqual(
+      [resolveRouting(sdk, { recipient: RECIPIENT }, USDC).positionAccount, resolveRouting(sdk, {}, USDC).recipient],
+      [RECIPIENT, EOA]
+    );
+  });
+
+  it('refuses to withdraw a position held by the Nexus account', async () => {
+    const { sdk } = createStubSdk({ positionOwner: 'nexus' });
+
+    await assert.rejects(
+      quoteFusionAaveWithdraw(sdk, { mode: 'max' }),
+      (error: Error) => error.cause instanceof TransactionError && /migrate --to eoa/.test(error.message)
+    );
+  });
+
+  it('reads Nexus balances from a snapshot only when asked for them', () => {
+    const token = { address: AUSDC, symbol: 'aEthUSDC', decimals: 6, formatted: '' };
+    const snapshot: BalanceSnapshot = {
+      timestamp: 1,
+      blockNumber: 100,
+      tokens: [{ ...token, balance: 5n }],
+      nexus: { address: NEXUS, tokens: [{ ...token, balance: 7n }] },
+    };
+
+    assert.equal(getSnapshotBalance(snapshot, AUSDC), 5n);
+    assert.equal(getSnapshotBalance(snapshot, AUSDC, 'nexus'), 7n);
+    assert.equal(getSnapshotBalance({ timestamp: 1, blockNumber: 100, tokens: snapshot.tokens }, AUSDC, 'nexus'), 0n);
+  });
+});
+
+describe('buildMigrationRequest', () => {
+  it('moves the EOA position into the Nexus account with the aToken trigger alone', async () => {
+    const { sdk, calls } = createStubSdk();
+
+    const request = await buildMigrationRequest(sdk, USDC_RESERVE, { to: 'nexus' });
+
+    assert.deepEqual(request.instructions, []);
+    assert.deepEqual(request.trigger, { chainId: 1, tokenAddress: AUSDC, useMaxAvailableFunds: true });
+    assert.deepEqual(request.feeToken, { address: AUSDC, chainId: 1 });
+    assert.equal(calls.buildComposable.length, 0);
+  });
+
+  it('transfers Nexus aTokens back to the EOA and returns the fee token trigger', async () => {
+    const { sdk, calls } = createStubSdk({ positionOwner: 'nexus' });
+
+    const request = await buildMigrationRequest(sdk, USDC_RESERVE, { to: 'eoa', amount: 25_000_000n });
+
+    const transfer = builtCall(calls, 0);
+    const refund = builtCall(calls, 1);
+    assert.deepEqual([transfer.to, transfer.functionName, transfer.args], [AUSDC, 'transfer', [EOA, 25_000_000n]]);
+    assert.deepEqual([refund.to, refund.functionName, refund.args], [USDC, 'transfer', [EOA, 1n]]);
+    assert.deepEqual(request.trigger, { chainId: 1, tokenAddress: USDC, amount: 1n });
+    assert.deepEqual(request.feeToken, { address: USDC, chainId: 1 });
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * @fileoverview Recurring supply schedules against a simulated chain clock and the JSON-lines run history
+ */
+
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+
+import {
+  hasIntervalElapsed,
+  runSupplySchedule,
+  type ChainTime,
+  type ScheduleClock,
+  type ScheduledSupply,
+} from '../../src/app/recurring-supply';
+import type { AaveSupplyResult, QuoteTimeBounds, RecurringSupplySchedule, RunHistory } from '../../src/types';
+import { createRunHistory } from '../../src/utils/run-history';
+import { SUPERTX_HASH } from '../helpers/sdk-stub';
+
+const DAY = 86_400;
+const START: ChainTime = { blockNumber: 100, timestamp: 1_700_000_000 };
+
+const SCHEDULE: RecurringSupplySchedule = {
+  id: 'savings',
+  asset: 'USDC',
+  amount: 10_000_000n,
+  interval: { seconds: DAY },
+  budget: 1_000_000_000n,
+};
+
+let dir: string;
+let history: RunHistory;
+
+/**
+ * A fork clock that jumps straight to the end of each interval, one block per jump
+ */
+function createSimulatedClock(): ScheduleClock & { readonly jumps: number } {
+  let time = START;
+  let jumps = 0;
+
+  return {
+    get jumps() { return jumps; },
+    now: async () => time,
+    waitFor: async (interval, from) => {
+      jumps++;
+      time = 'blocks' in interval
+        ? { blockNumber: from.blockNumber + interval.blocks, timestamp: time.timestamp + interval.blocks * 12 }
+        : { blockNumber: time.blockNumber + 1, timestamp: from.timestamp + interval.seconds };
+    },
+  };
+}
+
+function createRecordingSupply(failOnRun?: number): ScheduledSupply & { readonly bounds: QuoteTimeBounds[] } {
+  const bounds: QuoteTimeBounds[] = [];
+
+  const supply = async (amount: bigint, timeBounds: QuoteTimeBounds): Promise<AaveSupplyResult> => {
+    bounds.push(timeBounds);
+    if (bounds.length === failOnRun) {
+      throw new Error('simulation failed');
+    }
+    return { hash: SUPERTX_HASH, success: true, aTokensReceived: amount } as AaveSupplyResult;
+  };
+
+  return Object.assign(supply, { bounds });
+}
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'recurring-supply-test-'));
+  history = createRunHistory(dir);
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe('runSupplySchedule', () => {
+  it('simulates a month of daily supplies and records each run', async () => {
+    const clock = createSimulatedClock();
+    const supply = createRecordingSupply();
+
+    const report = await runSupplySchedule({ ...SCHEDULE, until: START.timestamp + 29 * DAY }, { clock, history, supply });
+
+    assert.equal(report.stopReason, 'until');
+    assert.equal(report.runs.length, 30);
+    assert.equal(report.totalSupplied, 300_000_000n);
+    assert.equal(report.runs.at(-1)?.chainTimestamp, START.timestamp + 29 * DAY);
+    assert.deepEqual(supply.bounds[1], {
+      lowerBoundTimestamp: START.timestamp + DAY,
+      upperBoundTimestamp: START.timestamp + DAY + 180,
+    });
+    assert.deepEqual(history.runs('savings').map(run => run.totalSupplied).slice(0, 3), [
+      10_000_000n,
+      20_000_000n,
+      30_000_000n,
+    ]);
+  });
+
+  it('trims the last run to the budget and stops without waiting again', async () => {
+    const clock = createSimulatedClock();
+    const supply = createRecordingSupply();
+
+    const report = await runSupplySchedule({ ...SCHEDULE, budget: 25_000_000n }, { clock, history, supply });
+
+    assert.equal(report.stopReason, 'budget');
+    assert.deepEqual(report.runs.map(run => run.amount), [10_000_000n, 10_000_000n, 5_000_000n]);
+    assert.equal(clock.jumps, 2);
+  });
+
+  it('stops after the run limit, counting blocks between runs', async () => {
+    const clock = createSimulatedClock();
+
+    const report = await runSupplySchedule(
+      { ...SCHEDULE, interval: { blocks: 50 }, maxRuns: 3 },
+      { clock, history, supply: createRecordingSupply() }
+    );
+
+    assert.equal(report.stopReason, 'maxRuns');
+    assert.deepEqual(report.runs.map(run => run.blockNumber), [100, 150, 200]);
+  });
+
+  it('stops on a failed run and records the error', async () => {
+    const report = await runSupplySchedule(SCHEDULE, {
+      clock: createSimulatedClock(),
+      history,
+      supply: createRecordingSupply(2),
+    });
+
+    assert.equal(report.stopReason, 'failed');
+    assert.equal(report.totalSupplied, 10_000_000n);
+    assert.deepEqual(history.runs().map(run => [run.status, run.error]), [
+      ['supplied', undefined],
+      ['failed', 'simulation failed'],
+    ]);
+  });
+
+  it('stops before the next run once aborted', async () => {
+    const controller = new AbortController();
+    const supply = createRecordingSupply();
+
+    const report = await runSupplySchedule(SCHEDULE, {
+      clock: createSimulatedClock(),
+      history,
+      supply: async (amount, timeBounds) => {
+        controller.abort();
+        return supply(amount, timeBounds);
+      },
+      signal: controller.signal,
+    });
+
+    assert.equal(report.stopReason, 'aborted');
+    assert.equal(report.runs.length, 1);
+  });
+});
+
+describe('hasIntervalElapsed', () => {
+  it('measures block intervals in blocks and time intervals in seconds', () => {
+    const later = { blockNumber: START.blockNumber + 10, timestamp: START.timestamp + 120 };
+
+    assert.equal(hasIntervalElapsed({ blocks: 10 }, START, later), true);
+    assert.equal(hasIntervalElapsed({ blocks: 11 }, START, later), false);
+    assert.equal(hasIntervalElapsed({ seconds: 120 }, START, later), true);
+    assert.equal(hasIntervalElapsed({ seconds: 121 }, START, later), false);
+  });
+});
+
+describe('createRunHistory', () => {
+  it('reads bigint amounts back and filters by schedule', () => {
+    history.append({
+      scheduleId: 'other',
+      run: 1,
+      status: 'supplied',
+      blockNumber: 1,
+      chainTimestamp: 1,
+      amount: 2n ** 70n,
+      totalSupplied: 2n ** 70n,
+      timestamp: 1,
+    });
+
+    assert.equal(history.runs('other')[0]?.amount, 2n ** 70n);
+    assert.deepEqual(history.runs('savings'), []);
+    assert.equal(history.file, join(dir, 'recurring-supply.jsonl'));
+  });
+});
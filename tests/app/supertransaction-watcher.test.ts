@@ -0,0 +1,113 @@
+/**
+ * @fileoverview Supertransaction watcher events, deadlines and aborts
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import {
+  watchSupertransaction,
+  type SupertransactionStatusEvent,
+  type UserOpMinedEvent,
+} from '../../src/app/supertransaction-watcher';
+import { SupertransactionFailedError, SupertransactionSubmittedError } from '../../src/types';
+import { SUPERTX_HASH, TX_HASH, createStubSdk } from '../helpers/sdk-stub';
+
+const FAST = { pollIntervalMs: 0, retry: { initialDelayMs: 0 } };
+
+function explorerResponse(...statuses: string[]) {
+  return {
+    userOps: statuses.map(executionStatus => ({
+      chainId: '1',
+      executionStatus,
+      ...(executionStatus.startsWith('MINED') ? { executionData: TX_HASH } : {}),
+    })),
+  };
+}
+
+describe('watchSupertransaction', () => {
+  it('emits status transitions and each mined user op before resolving', async () => {
+    const polls = [
+      explorerResponse('PENDING', 'PENDING'),
+      explorerResponse('PENDING', 'PENDING'),
+      explorerResponse('MINED_SUCCESS', 'MINING'),
+      explorerResponse('MINED_SUCCESS', 'MINED_SUCCESS'),
+    ];
+    const { sdk, calls } = createStubSdk({ explorer: async poll => polls[poll - 1], blockNumber: 42 });
+
+    const statuses: SupertransactionStatusEvent[] = [];
+    const mined: UserOpMinedEvent[] = [];
+    const watcher = watchSupertransaction(sdk, SUPERTX_HASH, FAST)
+      .on('status', event => statuses.push(event))
+      .on('userOpMined', event => mined.push(event));
+
+    const receipt = await watcher.done;
+
+    assert.equal(receipt.transactionStatus, 'MINED_SUCCESS');
+    assert.deepEqual(statuses.map(event => [event.previous, event.status]), [
+      [undefined, 'PENDING'],
+      ['PENDING', 'MINING'],
+      ['MINING', 'MINED_SUCCESS'],
+    ]);
+    assert.deepEqual(mined.map(event => [event.index, event.transactionHash, event.blockNumber]), [
+      [0, TX_HASH, 42n],
+      [1, TX_HASH, 42n],
+    ]);
+    assert.equal(calls.explorer.length, 4);
+    assert.equal(calls.getSupertransactionReceipt.length, 1);
+  });
+
+  it('rejects with the failed user ops and emits failed', async () => {
+    const { sdk } = createStubSdk({ explorer: async () => explorerResponse('MINED_SUCCESS', 'FAILED') });
+
+    let failed: unknown;
+    const watcher = watchSupertransaction(sdk, SUPERTX_HASH, FAST).on('failed', error => { failed = error; });
+
+    await assert.rejects(watcher.done, (error: unknown) =>
+      error instanceof SupertransactionFailedError &&
+      error.message === 'Fusion transaction failed: [1] Transaction failed off-chain' &&
+      error.userOps[0]?.index === 1
+    );
+    await new Promise(resolve => setImmediate(resolve));
+    assert.ok(failed instanceof SupertransactionFailedError);
+  });
+
+  it('gives up at the deadline with the hash instead of waiting forever', async () => {
+    const { sdk } = createStubSdk({ explorer: async () => explorerResponse('PENDING') });
+
+    const watcher = watchSupertransaction(sdk, SUPERTX_HASH, { ...FAST, pollIntervalMs: 5, timeoutMs: 30 });
+
+    await assert.rejects(watcher.done, (error: unknown) =>
+      error instanceof SupertransactionSubmittedError &&
+      error.hash === SUPERTX_HASH &&
+      /no final status after 30ms/.test(error.message)
+    );
+  });
+
+  it('stops polling when aborted through the watcher or a signal', async () => {
+    const { sdk, calls } = createStubSdk({ explorer: async () => explorerResponse('PENDING') });
+
+    const watcher = watchSupertransaction(sdk, SUPERTX_HASH, { pollIntervalMs: 1000 });
+    watcher.once('status', () => watcher.abort('user cancelled'));
+    await assert.rejects(watcher.done, /user cancelled/);
+    assert.equal(calls.explorer.length, 1);
+
+    const controller = new AbortController();
+    controller.abort();
+    await assert.rejects(
+      watchSupertransaction(sdk, SUPERTX_HASH, { signal: controller.signal }).done,
+      SupertransactionSubmittedError
+    );
+    assert.equal(calls.explorer.length, 1);
+  });
+
+  it('keeps watching when a listener throws', async () => {
+    const { sdk } = createStubSdk({ explorer: async () => explorerResponse('MINED_SUCCESS') });
+
+    const watcher = watchSupertransaction(sdk, SUPERTX_HASH, FAST).on('status', () => {
+      throw new Error('listener bug');
+    });
+
+    assert.equal((await watcher.done).transactionStatus, 'MINED_SUCCESS');
+  });
+});
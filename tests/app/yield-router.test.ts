@@ -0,0 +1,74 @@
+/**
+ * @fileoverview Yield router planning: best venue, source position, threshold and fee break-even
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { assessRebalanceCost, planRebalance } from '../../src/app/yield-router';
+import type { RebalanceVenue } from '../../src/types';
+import { TransactionError } from '../../src/types';
+import { USDC_RESERVE } from '../helpers/sdk-stub';
+
+const USD = 100_000_000n; // $1.00 with 8 decimals
+
+const AAVE_VENUE: RebalanceVenue = { protocol: 'aave', supplyApy: 0.03, supplied: 1_000_000_000n }; // 1,000 USDC
+const COMPOUND_VENUE: RebalanceVenue = { protocol: 'compound', supplyApy: 0.05, supplied: 0n };
+
+describe('planRebalance', () => {
+  it('moves the position to the venue paying more than the threshold', () => {
+    const plan = planRebalance(USDC_RESERVE, [AAVE_VENUE, COMPOUND_VENUE], 50, USD);
+
+    assert.equal(plan.shouldRebalance, true);
+    assert.equal(plan.from, 'aave');
+    assert.equal(plan.to, 'compound');
+    assert.equal(plan.amount, 1_000_000_000n);
+    assert.ok(Math.abs(plan.rateDifference - 0.02) < 1e-12);
+    assert.equal(plan.expectedAnnualGain, 20_000_000n); // 20 USDC a year
+    assert.equal(plan.expectedAnnualGainBase, 2_000_000_000n);
+  });
+
+  it('holds when the gap is within the threshold', () => {
+    const plan = planRebalance(USDC_RESERVE, [AAVE_VENUE, { ...COMPOUND_VENUE, supplyApy: 0.034 }], 50, USD);
+
+    assert.equal(plan.shouldRebalance, false);
+    assert.equal(plan.from, 'aave');
+    assert.match(plan.reason, /within the 0\.50% threshold/);
+  });
+
+  it('holds when the only position is already at the best venue', () => {
+    const plan = planRebalance(USDC_RESERVE, [
+      { ...AAVE_VENUE, supplied: 0n },
+      { ...COMPOUND_VENUE, supplied: 1_000_000_000n },
+    ], 50, USD);
+
+    assert.equal(plan.shouldRebalance, false);
+    assert.equal(plan.from, undefined);
+    assert.equal(plan.amount, 0n);
+    assert.equal(plan.expectedAnnualGain, 0n);
+  });
+
+  it('requires at least two venues', () => {
+    assert.throws(() => planRebalance(USDC_RESERVE, [AAVE_VENUE], 50, USD), TransactionError);
+  });
+});
+
+describe('assessRebalanceCost', () => {
+  it('nets the fee against the expected gain and finds the break-even', () => {
+    const plan = planRebalance(USDC_RESERVE, [AAVE_VENUE, COMPOUND_VENUE], 50, USD);
+
+    const cost = assessRebalanceCost(plan, 200_000_000n); // $2 fee against $20 a year
+
+    assert.equal(cost.netAnnualGainBase, 1_800_000_000n);
+    assert.ok(Math.abs(cost.breakEvenDays! - 36.5) < 1e-9);
+  });
+
+  it('leaves the break-even undefined when moving gains nothing', () => {
+    const plan = planRebalance(USDC_RESERVE, [{ ...AAVE_VENUE, supplied: 0n }, COMPOUND_VENUE], 50, USD);
+
+    const cost = assessRebalanceCost(plan, 200_000_000n);
+
+    assert.equal(cost.netAnnualGainBase, -200_000_000n);
+    assert.equal(cost.breakEvenDays, undefined);
+  });
+});
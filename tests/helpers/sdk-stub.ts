@@ -0,0 +1,303 @@
+/**
+ * @fileoverview In-memory SDK context for flow tests: a recording orchestrator and a scripted MEE client
+ */
+
+import type {
+  BuildComposableInstruction,
+  BuildComposableParameters,
+  BuildComposableInstructionTypes,
+  ExecuteSignedQuoteParams,
+  GetOnChainQuoteParams,
+  GetPermitQuoteParams,
+  GetSupertransactionReceiptParams,
+  HttpClient,
+  SignOnChainQuoteParams,
+  SignPermitQuoteParams,
+} from '@biconomy/abstractjs';
+import {
+  decodeFunctionData,
+  encodeAbiParameters,
+  encodeEventTopics,
+  encodeFunctionResult,
+  type Abi,
+  type Address,
+  type ContractEventName,
+  type EncodeEventTopicsParameters,
+  type Hex,
+  type Log,
+} from 'viem';
+
+import type {
+  AaveAccountData,
+  CometMarket,
+  PositionOwner,
+  ReserveInfo,
+  SDKContext,
+  SupertransactionReceipt,
+} from '../../src/types';
+import {
+  AAVE_ADDRESSES_PROVIDER_ABI,
+  AAVE_ATOKEN_ABI,
+  AAVE_ORACLE_ABI,
+  AAVE_POOL_ABI,
+  ERC20_ABI,
+} from '../../src/utils/contracts';
+
+export const EOA = '0x1111111111111111111111111111111111111111' as Address;
+export const NEXUS = '0x2222222222222222222222222222222222222222' as Address;
+export const MEE_NODE = '0x3333333333333333333333333333333333333333' as Address;
+export const POOL = '0x87870Bca3F3fD6335C3F4ce8392D69350B4fA4E2' as Address;
+export const USDC = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48' as Address;
+export const AUSDC = '0x98C23E9d8f34FEFb1B7BD6a91B7FF122F4e16F5c' as Address;
+export const COMET = '0xc3d688B66703497DAA19211EEdff47f25384cdc3' as Address;
+export const WETH = '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2' as Address;
+export const SUPERTX_HASH = `0x${'ab'.repeat(32)}` as Hex;
+export const TX_HASH = `0x${'cd'.repeat(32)}` as Hex;
+
+export const USDC_RESERVE: ReserveInfo = {
+  address: USDC,
+  symbol: 'USDC',
+  decimals: 6,
+  aToken: { address: AUSDC, symbol: 'aEthUSDC', decimals: 6 },
+  variableDebtToken: '0x72E95b8931767C79bA4EeE721354d6E99a61D004' as Address,
+  stableDebtToken: '0xB0fe3D292f4bd50De902Ba5bDF120Ad66E9d7a39' as Address,
+};
+
+// The mainnet Comet USDC market with WETH as its only collateral
+export const COMET_USDC_MARKET: CometMarket = {
+  comet: COMET,
+  base: {
+    address: USDC,
+    symbol: 'USDC',
+    decimals: 6,
+    priceFeed: '0x8fFfFfd4AfB6115b954Bd326cbe7B4BA576818f6' as Address,
+    scale: 10n ** 6n,
+    borrowCollateralFactor: 0n,
+    liquidateCollateralFactor: 0n,
+  },
+  collaterals: [{
+    address: WETH,
+    symbol: 'WETH',
+    decimals: 18,
+    priceFeed: '0x5f4eC3Df9cbd43714FE2740f5E3616155c5b8419' as Address,
+    scale: 10n ** 18n,
+    borrowCollateralFactor: 825_000_000_000_000_000n,
+    liquidateCollateralFactor: 895_000_000_000_000_000n,
+  }],
+  baseBorrowMin: 100_000_000n,
+};
+
+type MeeRequestParams = Parameters<HttpClient['request']>[0];
+
+// Every view function the flows read through `sdk.provider`
+const READ_ABI: Abi = [...ERC20_ABI, ...AAVE_POOL_ABI, ...AAVE_ADDRESSES_PROVIDER_ABI, ...AAVE_ORACLE_ABI];
+const ADDRESSES_PROVIDER = '0x2f39d218133AFaB8F2B819B1066c7E434Ad94E9e' as Address;
+const ORACLE = '0x54586bE62E3c3580375aE3723C145253060Ca0C2' as Address;
+
+// Arguments each stubbed method was called with, in call order
+export interface StubCalls {
+  readonly buildComposable: BuildComposableInstruction[];
+  readonly getPermitQuote: GetPermitQuoteParams[];
+  readonly getOnChainQuote: GetOnChainQuoteParams[];
+  readonly signPermitQuote: SignPermitQuoteParams[];
+  readonly signOnChainQuote: SignOnChainQuoteParams[];
+  readonly executeSignedQuote: ExecuteSignedQuoteParams[];
+  readonly explorer: MeeRequestParams[];
+  readonly getSupertransactionReceipt: GetSupertransactionReceiptParams[];
+}
+
+export interface StubOptions {
+  readonly permitEnabled?: boolean;
+  readonly receipt?: SupertransactionReceipt;
+  readonly signOnChainQuote?: () => Promise<unknown>; // Replaces the scripted on-chain signature
+  readonly executeSignedQuote?: () => Promise<{ hash: Hex }>; // Replaces the scripted submission
+  readonly explorer?: (poll: number) => Promise<unknown>; // Replaces the explorer status, which defaults to the receipt
+  readonly blockNumber?: number; // Block of every user op transaction on the stubbed chain 1 fork
+  readonly positionOwner?: PositionOwner;
+  readonly balanceOf?: (token: Address, account: Address) => bigint; // Token and debt token balances, 0 by default
+  readonly accountData?: AaveAccountData; // Pool.getUserAccountData for every user
+  readonly assetPrice?: bigint; // AAVE oracle price of every asset, $1 by default
+}
+
+/**
+ * Build an SDK context whose orchestrator and MEE client never leave the process
+ */
+export function createStubSdk(options: StubOptions = {}): { sdk: SDKContext; calls: StubCalls } {
+  const calls: StubCalls = {
+    buildComposable: [],
+    getPermitQuote: [],
+    getOnChainQuote: [],
+    signPermitQuote: [],
+    signOnChainQuote: [],
+    executeSignedQuote: [],
+    explorer: [],
+    getSupertransactionReceipt: [],
+  };
+
+  const quote = { quote: { hash: SUPERTX_HASH, paymentInfo: { token: USDC, tokenWeiAmount: '100000' } }, trigger: {} };
+
+  const orchestrator = {
+    addressOn: () => NEXUS,
+    buildComposable: async (params: BuildComposableInstructionTypes) => {
+      // The flows only build default composable calls
+      if (params.type !== 'default') throw new Error(`Unexpected ${params.type} instruction`);
+      calls.buildComposable.push(params);
+      return [{ chainId: params.data.chainId, calls: [{ to: params.data.to, functionName: params.data.functionName }] }];
+    },
+  };
+
+  const meeClient = {
+    getPaymentToken: async () => ({ paymentToken: { permitEnabled: options.permitEnabled ?? true } }),
+    getPermitQuote: async (params: GetPermitQuoteParams) => (calls.getPermitQuote.push(params), quote),
+    getOnChainQuote: async (params: GetOnChainQuoteParams) => (calls.getOnChainQuote.push(params), quote),
+    signPermitQuote: async (params: SignPermitQuoteParams) => (calls.signPermitQuote.push(params), { signed: 'permit' }),
+    signOnChainQuote: async (params: SignOnChainQuoteParams) => {
+      calls.signOnChainQuote.push(params);
+      return options.signOnChainQuote ? options.signOnChainQuote() : { signed: 'onchain' };
+    },
+    executeSignedQuote: async (params: ExecuteSignedQuoteParams) => {
+      calls.executeSignedQuote.push(params);
+      return options.executeSignedQuote ? options.executeSignedQuote() : { hash: SUPERTX_HASH };
+    },
+    request: async (params: MeeRequestParams) => {
+      if (!params.path.startsWith('explorer/')) throw new Error(`Unexpected MEE request ${params.path}`);
+      calls.explorer.push(params);
+      return options.explorer
+        ? options.explorer(calls.explorer.length)
+        : options.receipt ?? createSupplyReceipt();
+    },
+    getSupertransactionReceipt: async (params: GetSupertransactionReceiptParams) => {
+      calls.getSupertransactionReceipt.push(params);
+      return options.receipt ?? createSupplyReceipt();
+    },
+  };
+
+  const provider = {
+    getTransactionReceipt: async (hash: Hex) => ({ hash, blockNumber: options.blockNumber ?? 100 }),
+    // The eth_call ethers contracts send for view functions
+    call: async ({ to, data }: { to: Address; data: Hex }) => answerRead(to, data, options),
+  };
+
+  const sdk = {
+    config: {
+      chainId: 1,
+      anvilRpcUrl: 'http://localhost:8545',
+      contracts: { usdc: USDC, aavePool: POOL, reserves: { USDC } },
+      positionOwner: options.positionOwner ?? 'eoa',
+      healthFactorFloor: 1.5,
+    },
+    eoaAddress: EOA,
+    provider,
+    forks: { 1: { provider } },
+    orchestrator,
+    meeClient,
+  } as unknown as SDKContext;
+
+  return { sdk, calls };
+}
+
+/**
+ * Answer a view call from the scripted balances, account data and prices
+ */
+function answerRead(to: Address, data: Hex, options: StubOptions): Hex {
+  const { functionName, args = [] } = decodeFunctionData({ abi: READ_ABI, data });
+  const account = options.accountData;
+  const results: Record<string, () => unknown> = {
+    balanceOf: () => options.balanceOf?.(to, args[0] as Address) ?? 0n,
+    getUserAccountData: () => account && [
+      account.totalCollateralBase,
+      account.totalDebtBase,
+      account.availableBorrowsBase,
+      account.currentLiquidationThreshold,
+      account.ltv,
+      account.healthFactor,
+    ],
+    ADDRESSES_PROVIDER: () => ADDRESSES_PROVIDER,
+    getPriceOracle: () => ORACLE,
+    getAssetPrice: () => options.assetPrice ?? 100_000_000n,
+  };
+
+  const result = results[functionName]?.();
+  if (result === undefined) throw new Error(`Unexpected read ${functionName} on ${to}`);
+  return encodeFunctionResult({ abi: READ_ABI, functionName, result });
+}
+
+/**
+ * The parameters of the composable call built at `index`, failing the test when there is none
+ */
+export function builtCall(calls: StubCalls, index: number): BuildComposableParameters {
+  const call = calls.buildComposable[index];
+  if (!call) throw new Error(`No composable call was built at index ${index}`);
+  return call.data;
+}
+
+/**
+ * A mined supply receipt: the fee transfer to the node, the Pool Supply event and the aToken Mint event
+ */
+export function createSupplyReceipt(params: {
+  amount?: bigint;
+  balanceIncrease?: bigint;
+  fee?: bigint;
+  onBehalfOf?: Address;
+  includeMint?: boolean;
+} = {}): SupertransactionReceipt {
+  const amount = params.amount ?? 50_000_000n;
+  const balanceIncrease = params.balanceIncrease ?? 1_234n;
+  const onBehalfOf = params.onBehalfOf ?? EOA;
+
+  const logs = [
+    encodeLog(USDC, ERC20_ABI, 'Transfer', { from: NEXUS, to: MEE_NODE }, [
+      { type: 'uint256', value: params.fee ?? 100_000n },
+    ]),
+    encodeLog(POOL, AAVE_POOL_ABI, 'Supply', { reserve: USDC, onBehalfOf, referralCode: 0 }, [
+      { type: 'address', value: NEXUS },
+      { type: 'uint256', value: amount },
+    ]),
+    ...(params.includeMint === false ? [] : [
+      encodeLog(AUSDC, AAVE_ATOKEN_ABI, 'Mint', { caller: NEXUS, onBehalfOf }, [
+        { type: 'uint256', value: amount + balanceIncrease },
+        { type: 'uint256', value: balanceIncrease },
+        { type: 'uint256', value: 10n ** 27n },
+      ]),
+    ]),
+  ];
+
+  return {
+    transactionStatus: 'MINED_SUCCESS',
+    hash: SUPERTX_HASH,
+    node: MEE_NODE,
+    paymentInfo: { tokenWeiAmount: (params.fee ?? 100_000n).toString() },
+    userOps: [
+      { chainId: '1', executionStatus: 'MINED_SUCCESS', executionData: TX_HASH },
+      { chainId: '1', executionStatus: 'MINED_SUCCESS', executionData: TX_HASH },
+    ],
+    receipts: [{
+      transactionHash: TX_HASH,
+      blockNumber: 100n,
+      gasUsed: 210_000n,
+      effectiveGasPrice: 2_000_000_000n,
+      logs,
+    }],
+  };
+}
+
+function encodeLog<const abi extends Abi, eventName extends ContractEventName<abi>>(
+  address: Address,
+  abi: abi,
+  eventName: eventName,
+  indexed: EncodeEventTopicsParameters<abi, eventName>['args'],
+  data: { type: string; value: unknown }[]
+): Log {
+  const topics = encodeEventTopics({ abi, eventName, args: indexed } as EncodeEventTopicsParameters<abi, eventName>);
+  return {
+    address,
+    topics: topics as [Hex, ...Hex[]],
+    data: encodeAbiParameters(data.map(({ type }) => ({ type })), data.map(({ value }) => value)),
+    blockHash: null,
+    blockNumber: null,
+    logIndex: null,
+    transactionHash: null,
+    transactionIndex: null,
+    removed: false,
+  };
+}
@@ -0,0 +1,136 @@
+/**
+ * @fileoverview Local MEE node HTTP surface: info, routing and request validation
+ *
+ * None of these paths reach the fork, so no Anvil is needed.
+ */
+
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+
+import { startLocalMeeNode, type LocalMeeNode } from '../../src/infrastructure/local-mee-node';
+import { getAaveMarket } from '../../src/utils/aave-markets';
+import { loadChainDefinition } from '../../src/utils/chains';
+import { EOA, NEXUS, USDC } from '../helpers/sdk-stub';
+
+const NODE_ADDRESS = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+
+let node: LocalMeeNode;
+
+// The parts of the node's info response these tests read
+interface InfoResponse {
+  readonly node: string;
+  readonly supportedChains: readonly { chainId: string }[];
+  readonly supportedGasTokens: readonly { chainId: string; paymentTokens: readonly { address: string }[] }[];
+}
+
+// Error responses unless the caller names the success shape
+async function request<T = { error: string }>(path: string, body?: unknown): Promise<{ status: number; json: T }> {
+  const response = await fetch(`${node.url}/${path}`, {
+    method: body === undefined ? 'GET' : 'POST',
+    ...(body !== undefined && { headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) }),
+  });
+  return { status: response.status, json: await response.json() as T };
+}
+
+function paymentInfo(overrides: Record<string, unknown> = {}) {
+  return {
+    sponsored: false,
+    sender: NEXUS,
+    token: USDC,
+    nonce: '0',
+    callGasLimit: '75000',
+    verificationGasLimit: '150000',
+    chainId: '1',
+    eoa: EOA,
+    shortEncoding: false,
+    ...overrides,
+  };
+}
+
+const userOp = {
+  sender: NEXUS,
+  callData: '0x',
+  callGasLimit: '100000',
+  nonce: '1',
+  chainId: '1',
+  lowerBoundTimestamp: 0,
+  upperBoundTimestamp: 9_999_999_999,
+  isCleanUpUserOp: false,
+  shortEncoding: false,
+};
+
+before(async () => {
+  node = await startLocalMeeNode(
+    {
+      meeNodeUrl: 'http://127.0.0.1:3000/v3',
+      forks: [{
+        chainId: 1,
+        anvilRpcUrl: 'http://127.0.0.1:1', // Never reached by these tests
+        chain: loadChainDefinition(1, ['local']),
+        contracts: getAaveMarket(1),
+      }],
+    },
+    { port: 0 }
+  );
+});
+
+after(async () => {
+  await node.close();
+});
+
+describe('startLocalMeeNode', () => {
+  it('serves under the configured version path on the requested port', () => {
+    assert.match(node.url, /^http:\/\/127\.0\.0\.1:\d+\/v3$/);
+    assert.notEqual(node.url, 'http://127.0.0.1:3000/v3');
+    assert.equal(node.address, NODE_ADDRESS);
+  });
+
+  it('lists the forks and their payment tokens in info', async () => {
+    const { status, json } = await request<InfoResponse>('info');
+
+    assert.equal(status, 200);
+    assert.equal(json.node, NODE_ADDRESS);
+    assert.deepEqual(json.supportedChains.map(chain => chain.chainId), ['1']);
+
+    const [gasTokens] = json.supportedGasTokens;
+    assert.ok(gasTokens);
+    assert.equal(gasTokens.chainId, '1');
+    assert.ok(gasTokens.paymentTokens.some(token => token.address.toLowerCase() === USDC.toLowerCase()));
+  });
+
+  it('rejects sponsored quotes, including on the double-slash permit path', async () => {
+    const { status, json } = await request('/quote-permit', {
+      userOps: [userOp],
+      paymentInfo: paymentInfo({ sponsored: true }),
+    });
+
+    assert.equal(status, 400);
+    assert.match(json.error, /Sponsored/);
+  });
+
+  it('rejects quotes for chains without a fork', async () => {
+    const { status, json } = await request('quote', {
+      userOps: [userOp],
+      paymentInfo: paymentInfo({ chainId: '8453' }),
+    });
+
+    assert.equal(status, 400);
+    assert.match(json.error, /Chain 8453 is not supported/);
+  });
+
+  it('refuses to execute a quote it never issued', async () => {
+    const { status, json } = await request('exec', { hash: `0x${'ab'.repeat(32)}`, signature: '0x177eee01' });
+
+    assert.equal(status, 400);
+    assert.match(json.error, /Unknown or unsigned quote/);
+  });
+
+  it('returns 404 for unknown supertransactions and routes', async () => {
+    const explorer = await request(`explorer/0x${'cd'.repeat(32)}`);
+    assert.equal(explorer.status, 404);
+    assert.match(explorer.json.error, /not found/);
+
+    const unknown = await request('status');
+    assert.equal(unknown.status, 404);
+  });
+});
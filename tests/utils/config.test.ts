@@ -0,0 +1,160 @@
+/**
+ * @fileoverview Environment loading and configuration building
+ */
+
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+
+import { createConfig, loadEnvironment } from '../../src/utils/config';
+
+const PRIVATE_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+
+const ENV_KEYS = [
+  'ETH_MAINNET_RPC_URL',
+  'FORK_RPC_URL',
+  'TEST_PRIVATE_KEY',
+  'MEE_NODE_URL',
+  'ANVIL_RPC_URL',
+  'ANVIL_PORT',
+  'ANVIL_CHAIN_ID',
+  'ANVIL_BLOCK_TIME',
+  'ANVIL_EXTRA_FORKS',
+  'CHAIN_SOURCE',
+  'MIN_HEALTH_FACTOR',
+  'LOG_FORMAT',
+  'POSITION_OWNER',
+] as const;
+
+let saved: Record<string, string | undefined>;
+
+function setEnv(values: Partial<Record<(typeof ENV_KEYS)[number], string>>): void {
+  for (const key of ENV_KEYS) {
+    delete process.env[key];
+  }
+  Object.assign(process.env, values);
+}
+
+beforeEach(() => {
+  saved = Object.fromEntries(ENV_KEYS.map(key => [key, process.env[key]]));
+  setEnv({ ETH_MAINNET_RPC_URL: 'https://mainnet.example.com', TEST_PRIVATE_KEY: PRIVATE_KEY });
+});
+
+afterEach(() => {
+  for (const [key, value] of Object.entries(saved)) {
+    if (value === undefined) {
+      delete process.env[key];
+    } else {
+      process.env[key] = value;
+    }
+  }
+});
+
+describe('loadEnvironment', () => {
+  it('accepts the required variables', () => {
+    const env = loadEnvironment();
+    assert.equal(env.ETH_MAINNET_RPC_URL, 'https://mainnet.example.com');
+    assert.equal(env.TEST_PRIVATE_KEY, PRIVATE_KEY);
+  });
+
+  it('accepts FORK_RPC_URL in place of the mainnet RPC', () => {
+    setEnv({ FORK_RPC_URL: 'https://base.example.com', TEST_PRIVATE_KEY: PRIVATE_KEY });
+    assert.equal(loadEnvironment().FORK_RPC_URL, 'https://base.example.com');
+  });
+
+  it('reports every missing required variable at once', () => {
+    setEnv({});
+    assert.throws(loadEnvironment, (error: Error) =>
+      error.message.includes('ETH_MAINNET_RPC_URL or FORK_RPC_URL is required') &&
+      error.message.includes('TEST_PRIVATE_KEY is required')
+    );
+  });
+
+  it('rejects malformed values', () => {
+    setEnv({
+      ETH_MAINNET_RPC_URL: 'not a url',
+      TEST_PRIVATE_KEY: '0x1234',
+      ANVIL_PORT: '-1',
+      ANVIL_CHAIN_ID: 'mainnet',
+      CHAIN_SOURCE: 'staging',
+      MIN_HEALTH_FACTOR: '0.5',
+      ANVIL_EXTRA_FORKS: '8453',
+      LOG_FORMAT: 'yaml',
+      POSITION_OWNER: 'safe',
+    });
+
+    assert.throws(loadEnvironment, (error: Error) =>
+      [
+        'ETH_MAINNET_RPC_URL must be a valid URL',
+        'TEST_PRIVATE_KEY must be a valid private key',
+        'ANVIL_PORT must be a positive number',
+        'ANVIL_CHAIN_ID must be a positive number',
+        'CHAIN_SOURCE must be one of',
+        'MIN_HEALTH_FACTOR must be a number of at least 1',
+        'ANVIL_EXTRA_FORKS entries must look like',
+        'LOG_FORMAT must be "text" or "json"',
+        'POSITION_OWNER must be "eoa" or "nexus"',
+      ].every(message => error.message.includes(message))
+    );
+  });
+});
+
+describe('createConfig', () => {
+  it('defaults to a mainnet fork on localhost:8545', () => {
+    const config = createConfig();
+
+    assert.equal(config.chainId, 1);
+    assert.equal(config.anvilRpcUrl, 'http://localhost:8545');
+    assert.equal(config.meeNodeUrl, 'http://localhost:3000/v3');
+    assert.equal(config.healthFactorFloor, 1.5);
+    assert.equal(config.positionOwner, 'eoa');
+    assert.equal(config.contracts.usdc, '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48');
+    assert.equal(config.chain.chainId, 1);
+    assert.equal(config.forks.length, 1);
+  });
+
+  it('applies Anvil, MEE node, health factor and position owner overrides', () => {
+    setEnv({
+      ETH_MAINNET_RPC_URL: 'https://mainnet.example.com',
+      TEST_PRIVATE_KEY: PRIVATE_KEY,
+      ANVIL_PORT: '9545',
+      MEE_NODE_URL: 'http://mee.local:3000/v3',
+      MIN_HEALTH_FACTOR: '2',
+      POSITION_OWNER: 'nexus',
+    });
+
+    const config = createConfig();
+    assert.equal(config.anvilRpcUrl, 'http://localhost:9545');
+    assert.equal(config.meeNodeUrl, 'http://mee.local:3000/v3');
+    assert.equal(config.healthFactorFloor, 2);
+    assert.equal(config.positionOwner, 'nexus');
+  });
+
+  it('follows ANVIL_CHAIN_ID to that chain\'s definition and AAVE market', () => {
+    setEnv({ FORK_RPC_URL: 'https://base.example.com', TEST_PRIVATE_KEY: PRIVATE_KEY, ANVIL_CHAIN_ID: '8453' });
+
+    const config = createConfig();
+    assert.equal(config.chainId, 8453);
+    assert.equal(config.chain.source, 'prod');
+    assert.equal(config.contracts.usdc, '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913');
+  });
+
+  it('adds extra forks after the primary chain', () => {
+    process.env.ANVIL_EXTRA_FORKS = '8453=http://localhost:8546';
+
+    const config = createConfig();
+    assert.deepEqual(config.forks.map(fork => [fork.chainId, fork.anvilRpcUrl]), [
+      [1, 'http://localhost:8545'],
+      [8453, 'http://localhost:8546'],
+    ]);
+  });
+
+  it('rejects two forks of the same chain', () => {
+    process.env.ANVIL_EXTRA_FORKS = '1=http://localhost:8546';
+    assert.throws(createConfig, /Each Anvil fork needs its own chain ID/);
+  });
+
+  it('rejects chains without an AAVE market', () => {
+    process.env.ANVIL_CHAIN_ID = '33139';
+    assert.throws(createConfig, /No AAVE v3 market configured for chain 33139/);
+  });
+});
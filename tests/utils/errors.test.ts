@@ -0,0 +1,269 @@
+/**
+ * @fileoverview Error detail extraction, error classification and the retrying error wrapper
+ */
+
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { concatHex, encodeAbiParameters, type Hex } from 'viem';
+
+import {
+  AaveProtocolError,
+  ContractRevertError,
+  SupertransactionFailedError,
+  SupertransactionSubmittedError,
+  TransactionError,
+  decodeTransactionError,
+  extractErrorDetails,
+  findErrorCause,
+  isTransientError,
+  retryWithPolicy,
+  withErrorHandling,
+} from '../../src/utils/errors';
+
+/**
+ * Settle a promise while fast-forwarding the wrapper's retry delays
+ */
+async function withRetryDelaysSkipped<T>(promise: Promise<T>): Promise<T> {
+  let settled = false;
+  promise.then(() => { settled = true; }, () => { settled = true; });
+
+  while (!settled) {
+    await new Promise(resolve => setImmediate(resolve));
+    mock.timers.tick(5_000);
+  }
+
+  return promise;
+}
+
+describe('extractErrorDetails', () => {
+  it('joins MEE Fusion error lists', () => {
+    assert.equal(
+      extractErrorDetails({ error: { errors: ['quote expired', 'nonce too low'] } }),
+      'quote expired; nonce too low'
+    );
+  });
+
+  it('prefers a top-level message, then a nested one', () => {
+    assert.equal(extractErrorDetails(new Error('boom')), 'boom');
+    assert.equal(extractErrorDetails({ error: { message: 'nested' } }), 'nested');
+  });
+
+  it('reads error arrays, revert reasons and data', () => {
+    assert.equal(extractErrorDetails({ errors: ['a', 'b'] }), 'a; b');
+    assert.equal(extractErrorDetails({ reason: 'ERC20: transfer amount exceeds balance' }), 'ERC20: transfer amount exceeds balance');
+    assert.equal(extractErrorDetails({ data: { code: 3 } }), '{"code":3}');
+  });
+
+  it('names AAVE codes instead of printing raw reasons', () => {
+    assert.equal(extractErrorDetails({ reason: '51' }), 'AAVE 51 SUPPLY_CAP_EXCEEDED: supply cap exceeded');
+  });
+
+  it('falls back to JSON, then to a plain string when JSON fails', () => {
+    assert.equal(extractErrorDetails({ status: 'FAILED' }), '{"status":"FAILED"}');
+    assert.equal(extractErrorDetails({ amount: 1n }), '[object Object]');
+  });
+});
+
+describe('withErrorHandling', () => {
+  beforeEach(() => mock.timers.enable({ apis: ['setTimeout'] }));
+  afterEach(() => mock.timers.reset());
+
+  it('returns the result and passes arguments through', async () => {
+    const add = withErrorHandling(async (a: number, b: number) => a + b, 'Add');
+    assert.equal(await add(2, 3), 5);
+  });
+
+  it('retries until the wrapped function succeeds', async () => {
+    let attempts = 0;
+    const flaky = withErrorHandling(async () => {
+      attempts++;
+      if (attempts < 3) throw new Error('fetch failed: ECONNRESET');
+      return 'ok';
+    }, 'Flaky');
+
+    assert.equal(await withRetryDelaysSkipped(flaky()), 'ok');
+    assert.equal(attempts, 3);
+  });
+
+  it('gives up after three attempts and prefixes the context', async () => {
+    let attempts = 0;
+    const failing = withErrorHandling(async () => {
+      attempts++;
+      throw new Error('503 Service Unavailable');
+    }, 'Broken Flow');
+
+    await assert.rejects(withRetryDelaysSkipped(failing()), { message: '[Broken Flow] 503 Service Unavailable' });
+    assert.equal(attempts, 3);
+  });
+
+  it('appends suggestions for recognised failures', async () => {
+    const offline = withErrorHandling(async () => {
+      throw new Error('connect ECONNREFUSED 127.0.0.1:8545');
+    }, 'Offline');
+
+    await assert.rejects(withRetryDelaysSkipped(offline()), (error: Error) =>
+      error.message.startsWith('[Offline] connect ECONNREFUSED') &&
+      error.message.includes('Suggestions:') &&
+      error.message.includes('npm run infra:anvil')
+    );
+  });
+
+  it('reads messages from non-Error throws', async () => {
+    const viemLike = withErrorHandling(async () => {
+      throw { shortMessage: 'Execution reverted with reason: paused' };
+    }, 'Viem');
+
+    await assert.rejects(withRetryDelaysSkipped(viemLike()), (error: Error) =>
+      error.message.startsWith('[Viem] Execution reverted with reason: paused')
+    );
+  });
+
+  it('does not retry terminal errors and keeps them as the cause', async () => {
+    let attempts = 0;
+    const invalid = withErrorHandling(async () => {
+      attempts++;
+      throw new TransactionError('Supply amount must be positive');
+    }, 'Supply');
+
+    await assert.rejects(withRetryDelaysSkipped(invalid()), (error: Error) =>
+      error.message === '[Supply] Supply amount must be positive' && error.cause instanceof TransactionError
+    );
+    assert.equal(attempts, 1);
+  });
+
+  it('never retries an outer flow once an inner one submitted a supertransaction', async () => {
+    let outerAttempts = 0;
+    const inner = withErrorHandling(async () => {
+      throw new SupertransactionSubmittedError('lost response', '0x01');
+    }, 'Inner');
+    const outer = withErrorHandling(async () => {
+      outerAttempts++;
+      return inner();
+    }, 'Outer');
+
+    await assert.rejects(withRetryDelaysSkipped(outer()), { message: '[Outer] [Inner] lost response' });
+    assert.equal(outerAttempts, 1);
+  });
+
+  it('applies per-call attempts and retry predicates', async () => {
+    let attempts = 0;
+    const patient = withErrorHandling(async () => {
+      attempts++;
+      throw new Error('quote expired');
+    }, 'Patient', { attempts: 5, shouldRetry: error => (error as Error).message === 'quote expired' });
+
+    await assert.rejects(withRetryDelaysSkipped(patient()));
+    assert.equal(attempts, 5);
+
+    attempts = 0;
+    const once = withErrorHandling(async () => {
+      attempts++;
+      throw new Error('temporary');
+    }, 'Once', { attempts: 1 });
+
+    await assert.rejects(once());
+    assert.equal(attempts, 1);
+  });
+});
+
+describe('retryWithPolicy', () => {
+  it('stops a backoff wait and rethrows the last error when the signal aborts', async () => {
+    const controller = new AbortController();
+    let attempts = 0;
+
+    const retrying = retryWithPolicy(async () => {
+      attempts++;
+      throw new Error('fetch failed: ECONNRESET');
+    }, { attempts: 3, initialDelayMs: 60_000, signal: controller.signal });
+    setImmediate(() => controller.abort());
+
+    await assert.rejects(retrying, { message: 'fetch failed: ECONNRESET' });
+    assert.equal(attempts, 1);
+  });
+});
+
+describe('isTransientError', () => {
+  it('treats network, rate limit and 5xx failures as transient', () => {
+    assert.equal(isTransientError(new Error('connect ECONNREFUSED 127.0.0.1:8545')), true);
+    assert.equal(isTransientError(new Error('429 Too Many Requests')), true);
+    assert.equal(isTransientError(new Error('HTTP request failed. Status: 502')), true);
+    assert.equal(isTransientError({ code: 'TIMEOUT', message: 'request timeout' }), true);
+  });
+
+  it('treats unrecognised errors as terminal', () => {
+    assert.equal(isTransientError(new Error('Environment validation failed: PRIVATE_KEY is required')), false);
+    assert.equal(isTransientError(new TypeError("Cannot read properties of undefined (reading 'address')")), false);
+  });
+
+  it('treats reverts, nonce and balance failures as terminal', () => {
+    assert.equal(isTransientError(new Error('execution reverted: 51')), false);
+    assert.equal(isTransientError({ shortMessage: 'insufficient funds for gas * price + value' }), false);
+    assert.equal(isTransientError(new Error('nonce too low')), false);
+  });
+
+  it('classifies wrapping errors by what they wrap', () => {
+    assert.equal(isTransientError(new TransactionError('Fusion execution failed', new Error('ETIMEDOUT'))), true);
+    assert.equal(isTransientError(new TransactionError('Fusion transaction failed: [0] paused')), false);
+    assert.equal(
+      isTransientError(new Error('[Flow] lost', { cause: new SupertransactionSubmittedError('lost', '0x01') })),
+      false
+    );
+  });
+});
+
+describe('decodeTransactionError', () => {
+  it('raises AaveProtocolError with the code and the failing user op', () => {
+    const error = decodeTransactionError(new Error('[1] execution reverted: 51'), 'Fusion transaction failed');
+
+    assert.ok(error instanceof AaveProtocolError);
+    assert.equal(error.aaveCode, 51);
+    assert.equal(error.reason, 'SUPPLY_CAP_EXCEEDED');
+    assert.equal(error.userOp?.index, 1);
+    assert.equal(error.message, 'Fusion transaction failed (AAVE 51 SUPPLY_CAP_EXCEEDED: supply cap exceeded)');
+    assert.equal(isTransientError(error), false);
+  });
+
+  it('raises ContractRevertError for other decodable reverts', () => {
+    const error = decodeTransactionError({ reason: 'ERC20: transfer amount exceeds allowance' }, 'Supply failed');
+
+    assert.ok(error instanceof ContractRevertError && !(error instanceof AaveProtocolError));
+    assert.equal(error.reason, 'ERC20: transfer amount exceeds allowance');
+  });
+
+  it('raises SupertransactionFailedError for failed user ops without a revert', () => {
+    const error = decodeTransactionError(
+      { userOps: [{ executionStatus: 'FAILED', chainId: '8453', executionError: 'simulation timed out' }] },
+      'Fusion transaction failed'
+    );
+
+    assert.ok(error instanceof SupertransactionFailedError);
+    assert.deepEqual(error.userOps, [{ index: 0, chainId: 8453, status: 'FAILED', message: 'simulation timed out' }]);
+    assert.equal(isTransientError(error), false);
+  });
+
+  it('returns undefined when nothing can be decoded', () => {
+    assert.equal(decodeTransactionError(new Error('socket hang up'), 'Failed'), undefined);
+  });
+});
+
+describe('findErrorCause', () => {
+  beforeEach(() => mock.timers.enable({ apis: ['setTimeout'] }));
+  afterEach(() => mock.timers.reset());
+
+  it('finds the decoded revert behind a wrapped flow error', async () => {
+    const flow = withErrorHandling(async () => {
+      throw { shortMessage: 'execution reverted', data: toAaveRevert('28') };
+    }, 'Supply');
+
+    const error = await withRetryDelaysSkipped(flow()).catch((caught: unknown) => caught);
+
+    assert.equal(findErrorCause(error, AaveProtocolError)?.reason, 'RESERVE_FROZEN');
+    assert.match((error as Error).message, /Pick another reserve/);
+    assert.equal(findErrorCause(error, SupertransactionFailedError), undefined);
+  });
+});
+
+// Error(string) revert data carrying an AAVE code
+function toAaveRevert(code: string): Hex {
+  return concatHex(['0x08c379a0', encodeAbiParameters([{ type: 'string' }], [code])]);
+}
@@ -0,0 +1,34 @@
+/**
+ * @fileoverview Token amount and duration formatting
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { formatDuration, formatTokenAmount } from '../../src/utils/formatting';
+
+describe('formatTokenAmount', () => {
+  it('shows two decimals from 1000 units up', () => {
+    assert.equal(formatTokenAmount(1_234_567_890n, 6, 'USDC'), '1234.57 USDC');
+  });
+
+  it('shows four decimals between 1 and 1000 units', () => {
+    assert.equal(formatTokenAmount(25_500_000n, 6, 'USDC'), '25.5000 USDC');
+    assert.equal(formatTokenAmount(10n ** 18n, 18, 'WETH'), '1.0000 WETH');
+  });
+
+  it('shows six decimals below one unit', () => {
+    assert.equal(formatTokenAmount(123_456n, 6, 'USDC'), '0.123456 USDC');
+    assert.equal(formatTokenAmount(0n, 6, 'USDC'), '0.000000 USDC');
+  });
+});
+
+describe('formatDuration', () => {
+  it('formats seconds, minutes and hours', () => {
+    assert.equal(formatDuration(0), '0s');
+    assert.equal(formatDuration(59_999), '59s');
+    assert.equal(formatDuration(61_000), '1m 1s');
+    assert.equal(formatDuration(3_600_000), '1h 0m');
+    assert.equal(formatDuration(3_725_000), '1h 2m');
+  });
+});
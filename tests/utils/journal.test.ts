@@ -0,0 +1,90 @@
+/**
+ * @fileoverview Journal lines, bigint round trips and folding entries into records
+ */
+
+import assert from 'node:assert/strict';
+import { appendFileSync, mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import type { Address, Hex } from 'viem';
+
+import type { BalanceSnapshot } from '../../src/types';
+import { createTransactionJournal, readJournalEntries } from '../../src/utils/journal';
+
+const HASH_A = `0x${'aa'.repeat(32)}` as Hex;
+const HASH_B = `0x${'bb'.repeat(32)}` as Hex;
+const USDC = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48' as Address;
+
+const SNAPSHOT: BalanceSnapshot = {
+  timestamp: 1,
+  blockNumber: 100,
+  tokens: [{ address: USDC, symbol: 'USDC', decimals: 6, balance: 2n ** 70n, formatted: '1' }],
+};
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'journal-test-'));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe('createTransactionJournal', () => {
+  it('creates its directory and reads bigints back as bigints', () => {
+    const journal = createTransactionJournal(join(dir, 'nested'));
+    journal.append(HASH_A, { type: 'balances', before: SNAPSHOT, after: SNAPSHOT });
+
+    const [record] = journal.records();
+    assert.equal(record?.beforeBalance?.tokens[0]?.balance, 2n ** 70n);
+    assert.equal(typeof record?.correlationId, 'string');
+  });
+
+  it('folds entries into one record per supertransaction', () => {
+    const journal = createTransactionJournal(dir);
+    journal.append(HASH_A, { type: 'submitted' });
+    journal.append(HASH_B, { type: 'rejected', error: 'user rejected' });
+    journal.append(HASH_A, { type: 'status', status: 'PENDING' });
+    journal.append(HASH_A, { type: 'status', status: 'MINED_SUCCESS' });
+    journal.append(HASH_A, { type: 'settled', success: true, gasUsed: 21_000n });
+
+    const [first, second] = journal.records();
+    assert.equal(first?.hash, HASH_A);
+    assert.equal(first?.state, 'succeeded');
+    assert.deepEqual(first?.statuses.map(change => change.status), ['PENDING', 'MINED_SUCCESS']);
+    assert.equal(first?.gasUsed, 21_000n);
+    assert.equal(second?.state, 'rejected');
+    assert.equal(second?.error, 'user rejected');
+  });
+
+  it('lists submitting, submitted and interrupted supertransactions as pending until settled', () => {
+    const journal = createTransactionJournal(dir);
+    journal.append(HASH_A, { type: 'submitting' });
+    journal.append(HASH_A, { type: 'submitted' });
+    journal.append(HASH_B, { type: 'submitting' });
+    journal.append(HASH_B, { type: 'interrupted', error: 'socket hang up' });
+
+    assert.deepEqual(journal.pending().map(record => [record.hash, record.state]), [
+      [HASH_A, 'submitted'],
+      [HASH_B, 'interrupted'],
+    ]);
+
+    journal.append(HASH_B, { type: 'settled', success: false, error: '[0] reverted' });
+    assert.deepEqual(journal.pending().map(record => record.hash), [HASH_A]);
+  });
+
+  it('skips a line a crash left half-written', () => {
+    const journal = createTransactionJournal(dir);
+    journal.append(HASH_A, { type: 'submitted' });
+    appendFileSync(journal.file, '{"type":"status","hash":"0x');
+
+    assert.equal(readJournalEntries(journal.file).length, 1);
+    assert.equal(journal.pending().length, 1);
+  });
+
+  it('is empty before anything was written', () => {
+    assert.deepEqual(createTransactionJournal(dir).records(), []);
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * @fileoverview Logger levels, JSON records, the file sink and bound context
+ */
+
+import assert from 'node:assert/strict';
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+
+import { Logger, toLogJson, withLogContext } from '../../src/utils/logger';
+
+let printed: string[];
+let dir: string;
+
+beforeEach(() => {
+  printed = [];
+  const capture = (line: string) => void printed.push(line);
+  mock.method(console, 'log', capture);
+  mock.method(console, 'error', capture);
+  dir = mkdtempSync(join(tmpdir(), 'logger-test-'));
+});
+
+afterEach(() => {
+  mock.restoreAll();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe('Logger', () => {
+  it('renders object and bigint context values in text mode', () => {
+    new Logger('debug').info('Quoted', { fee: 1500n, token: { symbol: 'USDC' } });
+
+    assert.equal(printed.length, 1);
+    assert.match(printed[0]!, /fee=1500 token=\{"symbol":"USDC"\}/);
+    assert.doesNotMatch(printed[0]!, /\[object Object\]/);
+  });
+
+  it('applies the log level to success, step, header and section', () => {
+    const logger = new Logger('warn');
+    logger.success('done');
+    logger.step(1, 'first');
+    logger.header('Title');
+    logger.section('Items', ['a']);
+    logger.info('hidden');
+
+    assert.deepEqual(printed, []);
+  });
+
+  it('prints one JSON record per call with the correlation ID', () => {
+    const logger = new Logger('info', { format: 'json', correlationId: 'run-1' });
+    logger.step(2, 'Supplying', { gasUsed: 10n });
+    logger.header('Summary');
+
+    const [step, header] = printed.map(line => JSON.parse(line));
+    assert.equal(step.kind, 'step');
+    assert.equal(step.step, 2);
+    assert.equal(step.correlationId, 'run-1');
+    assert.deepEqual(step.context, { gasUsed: '10' });
+    assert.equal(header.kind, 'header');
+    assert.equal(header.message, 'Summary');
+  });
+
+  it('adds fields bound with withLogContext to structured records only', async () => {
+    const file = join(dir, 'nested', 'run.jsonl');
+    const logger = new Logger('info', { file, correlationId: 'run-2' });
+
+    await withLogContext({ supertransactionHash: '0xabc' }, async () => {
+      await Promise.resolve();
+      logger.info('Waiting', { attempt: 1 });
+    });
+    logger.info('After');
+
+    assert.doesNotMatch(printed[0]!, /supertransactionHash/);
+
+    const records = readFileSync(file, 'utf8').trim().split('\n').map(line => JSON.parse(line));
+    assert.deepEqual(records[0].context, { supertransactionHash: '0xabc', attempt: 1 });
+    assert.equal(records[0].correlationId, 'run-2');
+    assert.equal(records[1].context, undefined);
+  });
+
+  it('prints every record to stderr after useStderr', () => {
+    mock.restoreAll();
+    const stdout: string[] = [];
+    mock.method(console, 'log', (line: string) => void stdout.push(line));
+    mock.method(console, 'error', (line: string) => void printed.push(line));
+
+    const logger = new Logger('info', { format: 'json' });
+    logger.useStderr();
+    logger.info('Quoted');
+    logger.success('Done');
+
+    assert.deepEqual(stdout, []);
+    assert.equal(printed.length, 2);
+  });
+
+  it('prints preformatted text in text mode only', () => {
+    new Logger('info').text('  USDC: 10 USDC');
+    new Logger('info', { format: 'json' }).text('  USDC: 10 USDC');
+
+    assert.deepEqual(printed, ['  USDC: 10 USDC']);
+  });
+
+  it('generates a correlation ID when none is given', () => {
+    assert.match(new Logger().getCorrelationId(), /^[0-9a-f-]{36}$/);
+  });
+});
+
+describe('toLogJson', () => {
+  it('serializes bigints and errors', () => {
+    assert.equal(
+      toLogJson({ amount: 2n ** 70n, error: new TypeError('bad') }),
+      '{"amount":"1180591620717411303424","error":{"name":"TypeError","message":"bad"}}'
+    );
+  });
+});
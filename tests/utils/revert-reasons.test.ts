@@ -0,0 +1,126 @@
+/**
+ * @fileoverview AAVE code, custom error and MEE user op failure decoding
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { concatHex, encodeAbiParameters, toFunctionSelector, type Hex } from 'viem';
+
+import {
+  decodeRevert,
+  decodeRevertData,
+  decodeRevertString,
+  getRevertHint,
+  parseFailedUserOps,
+} from '../../src/utils/revert-reasons';
+
+function errorString(message: string): Hex {
+  return concatHex(['0x08c379a0', encodeAbiParameters([{ type: 'string' }], [message])]);
+}
+
+describe('decodeRevertString', () => {
+  it('names AAVE numeric codes', () => {
+    assert.deepEqual(decodeRevertString('51'), {
+      reason: 'SUPPLY_CAP_EXCEEDED',
+      description: 'supply cap exceeded',
+      aaveCode: 51,
+    });
+    assert.equal(decodeRevertString('28').reason, 'RESERVE_FROZEN');
+  });
+
+  it('keeps other revert strings as they are', () => {
+    assert.deepEqual(decodeRevertString('ERC20: transfer amount exceeds balance'), {
+      reason: 'ERC20: transfer amount exceeds balance',
+      description: 'ERC20: transfer amount exceeds balance',
+    });
+    assert.equal(decodeRevertString('999').aaveCode, undefined);
+  });
+});
+
+describe('decodeRevertData', () => {
+  it('decodes Error(string) with an AAVE code', () => {
+    assert.equal(decodeRevertData(errorString('26'))?.reason, 'INVALID_AMOUNT');
+  });
+
+  it('decodes AAVE v3.4 custom errors by selector', () => {
+    const decoded = decodeRevertData(toFunctionSelector('SupplyCapExceeded()'));
+    assert.equal(decoded?.reason, 'SUPPLY_CAP_EXCEEDED');
+    assert.equal(decoded?.aaveCode, 51);
+  });
+
+  it('decodes panics and token custom errors', () => {
+    const panic = concatHex(['0x4e487b71', encodeAbiParameters([{ type: 'uint256' }], [0x11n])]);
+    assert.deepEqual(decodeRevertData(panic), {
+      reason: 'PANIC_0x11',
+      description: 'arithmetic overflow or underflow',
+      selector: '0x4e487b71',
+    });
+
+    const allowance = concatHex([
+      toFunctionSelector('ERC20InsufficientAllowance(address,uint256,uint256)'),
+      encodeAbiParameters(
+        [{ type: 'address' }, { type: 'uint256' }, { type: 'uint256' }],
+        ['0x2222222222222222222222222222222222222222', 0n, 5n]
+      ),
+    ]);
+    assert.equal(decodeRevertData(allowance)?.reason, 'ERC20InsufficientAllowance');
+  });
+
+  it('reports unknown selectors without guessing', () => {
+    assert.equal(decodeRevertData('0xdeadbeef')?.reason, 'UNKNOWN_CUSTOM_ERROR');
+    assert.equal(decodeRevertData('0x'), undefined);
+  });
+});
+
+describe('decodeRevert', () => {
+  it('reads revert data nested in ethers and viem errors', () => {
+    assert.equal(decodeRevert({ info: { error: { data: errorString('51') } } })?.aaveCode, 51);
+    assert.equal(decodeRevert({ cause: { data: toFunctionSelector('ReservePaused()') } })?.reason, 'RESERVE_PAUSED');
+  });
+
+  it('reads codes from ethers reasons and revert messages', () => {
+    assert.equal(decodeRevert({ reason: '35' })?.reason, 'HEALTH_FACTOR_LOWER_THAN_LIQUIDATION_THRESHOLD');
+    assert.equal(decodeRevert(new Error('execution reverted: "50"'))?.reason, 'BORROW_CAP_EXCEEDED');
+    assert.equal(decodeRevert(new Error('Execution reverted with reason: 30.'))?.reason, 'BORROWING_NOT_ENABLED');
+    assert.equal(decodeRevert(new Error('reverted with custom error ReserveFrozen()'))?.aaveCode, 28);
+  });
+
+  it('ignores errors without a revert, including ones that mention hashes', () => {
+    assert.equal(decodeRevert(new Error('connect ECONNREFUSED 127.0.0.1:8545')), undefined);
+    assert.equal(decodeRevert(new Error(`tx 0x${'ab'.repeat(32)} timed out`)), undefined);
+  });
+});
+
+describe('parseFailedUserOps', () => {
+  it('lists failed non-cleanup user ops from an explorer response', () => {
+    const userOps = parseFailedUserOps({
+      userOps: [
+        { executionStatus: 'MINED_SUCCESS', chainId: '1' },
+        { executionStatus: 'MINED_FAIL', chainId: '1', executionError: 'execution reverted: 51' },
+        { executionStatus: 'FAILED', chainId: '1', isCleanUpUserOp: true },
+      ],
+    });
+
+    assert.equal(userOps.length, 1);
+    assert.equal(userOps[0]!.index, 1);
+    assert.equal(userOps[0]!.chainId, 1);
+    assert.equal(userOps[0]!.status, 'MINED_FAIL');
+    assert.equal(userOps[0]!.revert?.reason, 'SUPPLY_CAP_EXCEEDED');
+  });
+
+  it('parses the SDK failure message and MEE error payloads', () => {
+    const [fromMessage] = parseFailedUserOps(new Error('[2] execution reverted: 32'));
+    assert.equal(fromMessage?.index, 2);
+    assert.equal(fromMessage?.revert?.reason, 'NOT_ENOUGH_AVAILABLE_USER_BALANCE');
+
+    const fromPayload = parseFailedUserOps({ error: { errors: ['user op 1 reverted', 'insufficient allowance'] } });
+    assert.deepEqual(fromPayload.map(userOp => userOp.index), [1, 1]);
+  });
+});
+
+describe('getRevertHint', () => {
+  it('suggests a fix for common AAVE failures only', () => {
+    assert.match(getRevertHint(decodeRevertString('51'))!, /supply cap/);
+    assert.equal(getRevertHint(decodeRevertString('1')), undefined);
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * @fileoverview Address, private key and URL validation
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { isValidAddress, isValidPrivateKey, isValidUrl } from '../../src/utils/validation';
+
+describe('isValidAddress', () => {
+  it('accepts checksummed and lowercase addresses', () => {
+    assert.equal(isValidAddress('0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48'), true);
+    assert.equal(isValidAddress('0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48'), true);
+  });
+
+  it('rejects missing prefixes, wrong lengths and non-hex characters', () => {
+    assert.equal(isValidAddress('a0b86991c6218b36c1d19d4a2e9eb0ce3606eb48'), false);
+    assert.equal(isValidAddress('0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb4'), false);
+    assert.equal(isValidAddress('0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb481'), false);
+    assert.equal(isValidAddress('0xg0b86991c6218b36c1d19d4a2e9eb0ce3606eb48'), false);
+    assert.equal(isValidAddress(''), false);
+  });
+});
+
+describe('isValidPrivateKey', () => {
+  const key = 'ac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+
+  it('accepts 32-byte hex keys with or without the 0x prefix', () => {
+    assert.equal(isValidPrivateKey(key), true);
+    assert.equal(isValidPrivateKey(`0x${key}`), true);
+  });
+
+  it('rejects short, long and non-hex keys', () => {
+    assert.equal(isValidPrivateKey(key.slice(2)), false);
+    assert.equal(isValidPrivateKey(`${key}00`), false);
+    assert.equal(isValidPrivateKey(`0x${key.slice(1)}z`), false);
+    assert.equal(isValidPrivateKey('0x'), false);
+  });
+});
+
+describe('isValidUrl', () => {
+  it('accepts http, https and websocket URLs', () => {
+    assert.equal(isValidUrl('http://localhost:8545'), true);
+    assert.equal(isValidUrl('https://eth-mainnet.g.alchemy.com/v2/key'), true);
+    assert.equal(isValidUrl('ws://127.0.0.1:8546'), true);
+  });
+
+  it('rejects strings that are not absolute URLs', () => {
+    assert.equal(isValidUrl('not a url'), false);
+    assert.equal(isValidUrl('<YOUR RPC URL>'), false);
+    assert.equal(isValidUrl(''), false);
+  });
+});